@@ -1,16 +1,31 @@
 // Tab Layout
 
-import React from 'react';
-import { Tabs } from 'expo-router';
+import React, { useEffect } from 'react';
+import { Tabs, usePathname } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
-import { useThemeStore } from '../../store';
+import { useThemeStore, useElectricalStore } from '../../store';
 import { colors } from '../../theme';
+import { getMqttBridge } from '../../services/mqttBridge';
+import { getPollingScheduler } from '../../services/pollingScheduler';
 
 export default function TabLayout() {
   const { theme } = useThemeStore();
   const themeColors = colors[theme];
   const { t } = useTranslation();
+  const pathname = usePathname();
+
+  // Bring every linked breaker online in the background
+  useEffect(() => {
+    getPollingScheduler().start();
+    useElectricalStore.getState().connectAllDevices();
+    getMqttBridge().start();
+  }, []);
+
+  // Polling slows down while no screen shows live readings
+  useEffect(() => {
+    getPollingScheduler().setScreen(pathname);
+  }, [pathname]);
 
   return (
     <Tabs
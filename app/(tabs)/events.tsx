@@ -13,7 +13,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
-import { useEventsStore, useThemeStore, useElectricalStore, useLanguageStore } from '../../store';
+import { useEventsStore, useThemeStore, useElectricalStore, useLanguageStore, getEventDeviceId, getEventDuration, computeEventStatistics } from '../../store';
 import { useHistoryStore, SAMPLE_INTERVAL, ENERGY_LOW_RATIO_THRESHOLD, ONE_HOUR_MS } from '../../store/useHistoryStore';
 import { Card } from '../../components/ui';
 import { colors, typography, spacing, borderRadius, shadows } from '../../theme';
@@ -31,6 +31,9 @@ import {
   getEventIcon,
   getEventColor,
   translateEventDescription,
+  describeTrip,
+  describeEpisodeDuration,
+  describeExtremes,
 } from '../../utils';
 import { EventType } from '../../types';
 import DateTimePicker from '@react-native-community/datetimepicker';
@@ -281,7 +284,7 @@ const ConsumptionOverview = memo(({
 export default function EventsScreen() {
   const { theme } = useThemeStore();
   const { language } = useLanguageStore();
-  const { data } = useElectricalStore();
+  const { data, activeDeviceId } = useElectricalStore();
   // CRITICAL FIX: Memoize themeColors to prevent new object on every render
   const themeColors = useMemo(() => colors[theme], [theme]);
   const { t } = useTranslation();
@@ -360,7 +363,13 @@ export default function EventsScreen() {
   // CRITICAL FIX: Get store functions and data separately to prevent infinite loops
   const filter = useEventsStore((state) => state.filter);
   const setFilter = useEventsStore((state) => state.setFilter);
-  const eventsData = useEventsStore((state) => state.events);
+  const allEventsData = useEventsStore((state) => state.events);
+
+  // Only the active breaker's events (switch breakers on the dashboard)
+  const eventsData = useMemo(
+    () => allEventsData.filter((event) => getEventDeviceId(event) === activeDeviceId),
+    [allEventsData, activeDeviceId]
+  );
 
   // CRITICAL FIX: Calculate filtered events and statistics directly from raw data
   const events = useMemo(() => {
@@ -391,26 +400,7 @@ export default function EventsScreen() {
     return filtered;
   }, [eventsData, filter]);
 
-  const stats = useMemo(() => {
-    // Calculate statistics for the current month
-    const monthStart = Date.now() - 30 * 24 * 60 * 60 * 1000;
-    const monthEvents = eventsData.filter((event) => event.timestamp >= monthStart);
-
-    const outages = monthEvents.filter((event) => event.type === 'outage');
-    const totalOutages = outages.length;
-
-    const totalDowntime = outages.reduce((sum, event) => sum + (event.duration || 0), 0);
-
-    const averageOutageDuration =
-      totalOutages > 0 ? totalDowntime / totalOutages : 0;
-
-    return {
-      totalEvents: monthEvents.length,
-      totalOutages,
-      averageOutageDuration,
-      totalDowntime,
-    };
-  }, [eventsData]);
+  const stats = useMemo(() => computeEventStatistics(eventsData), [eventsData]);
 
   // CRITICAL FIX: Only subscribe to store data after component is ready
   const historicalData = useHistoryStore((state) => isReady ? state.historicalData : EMPTY_HISTORY);
@@ -1489,6 +1479,10 @@ export default function EventsScreen() {
                     </Text>
                   </View>
                 </View>
+
+                <Text style={[styles.downtimeText, { color: themeColors.text.secondary }]}>
+                  {t('events.statistics.downtime', { duration: formatDurationShort(stats.totalDowntime) })}
+                </Text>
               </Card>
 
               {/* Event Filter Button */}
@@ -1534,16 +1528,44 @@ export default function EventsScreen() {
                               {translateEventDescription(event, t)}
                             </Text>
                             <Text style={[styles.eventTime, { color: themeColors.text.secondary }]}>
-                              {formatTimestamp(event.timestamp)}
+                              {event.approximateTime
+                                ? t('events.eventsList.beforeRestart', { time: formatTimestamp(event.timestamp) })
+                                : formatTimestamp(event.timestamp)}
                             </Text>
                           </View>
+                          {event.source === 'device' && (
+                            <View style={[styles.sourceBadge, { backgroundColor: themeColors.primary + '20' }]}>
+                              <MaterialCommunityIcons name="chip" size={12} color={themeColors.primary} />
+                              <Text style={[styles.sourceBadgeText, { color: themeColors.primary }]}>
+                                {t('events.eventsList.fromBreaker')}
+                              </Text>
+                            </View>
+                          )}
                         </View>
 
-                        {event.duration && (
+                        {(getEventDuration(event) !== undefined || event.open === false) && (
+                          <View style={styles.eventDuration}>
+                            <Ionicons name="time-outline" size={14} color={event.open ? themeColors.warning : themeColors.text.secondary} />
+                            <Text style={[styles.durationText, { color: event.open ? themeColors.warning : themeColors.text.secondary }]}>
+                              {describeEpisodeDuration(event, t)}
+                            </Text>
+                          </View>
+                        )}
+
+                        {event.extremes && (
+                          <View style={styles.eventDuration}>
+                            <MaterialCommunityIcons name="chart-bell-curve" size={14} color={themeColors.text.secondary} />
+                            <Text style={[styles.durationText, { color: themeColors.text.secondary }]}>
+                              {describeExtremes(event.extremes, t)}
+                            </Text>
+                          </View>
+                        )}
+
+                        {event.trip && (
                           <View style={styles.eventDuration}>
-                            <Ionicons name="time-outline" size={14} color={themeColors.text.secondary} />
+                            <MaterialCommunityIcons name="thermometer-alert" size={14} color={themeColors.danger} />
                             <Text style={[styles.durationText, { color: themeColors.text.secondary }]}>
-                              {formatDurationShort(event.duration)}
+                              {describeTrip(event.trip, t)}
                             </Text>
                           </View>
                         )}
@@ -2090,6 +2112,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
   },
+  downtimeText: {
+    ...typography.bodySmall,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
   statCard: {
     flex: 1,
     alignItems: 'center',
@@ -2158,6 +2185,19 @@ const styles = StyleSheet.create({
   eventTime: {
     fontSize: 12,
   },
+  sourceBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.small,
+    alignSelf: 'flex-start',
+  },
+  sourceBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
   eventDuration: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,13 +1,14 @@
 // Home Screen (Dashboard) - Professional Redesign (No Scroll)
 import React from "react";
-import { View, Text, StyleSheet, TouchableOpacity, Image, Pressable } from "react-native";
+import { View, Text, StyleSheet, TouchableOpacity, Image, Pressable, ActivityIndicator } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { LinearGradient } from 'expo-linear-gradient';
-import { Link } from "expo-router";
+import { Link, useRouter } from "expo-router";
 import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
 import { useTranslation } from "react-i18next";
-import { useElectricalStore, useThemeStore } from "../../store";
+import { useElectricalStore, useThemeStore, useDeviceStore, useDiagnosticsStore, useAuthStore } from "../../store";
 import { colors, typography, spacing, borderRadius } from "../../theme";
+import { DeviceSwitcher, DeviceOverview } from "../../components/dashboard";
 import {
   formatPower,
   formatFrequency,
@@ -22,27 +23,78 @@ export default function HomeScreen() {
   // Real data mode - no mock data needed
   // 🔥 HOT RELOAD TEST - If you see this comment in console, hot reload is working!
 
-  const { data, connection, toggleRelay } = useElectricalStore();
+  const { data, connection, toggleRelay, devices: runtimes, activeDeviceId, setActiveDevice, removeDevice } = useElectricalStore();
+  const registeredDevices = useDeviceStore((state) => state.devices);
+  const protocol = useDiagnosticsStore((state) => state.devices[activeDeviceId]?.protocol);
+  const authStatus = useAuthStore((state) => state.status[activeDeviceId]);
   const { theme } = useThemeStore();
   const themeColors = colors[theme];
   const { t } = useTranslation();
+  const router = useRouter();
+
+  // Amber while connected but slow, patchy or stale
+  const connectionColor = !connection.isConnected
+    ? themeColors.danger
+    : connection.degraded
+      ? themeColors.warning
+      : themeColors.success;
+
+  const deviceSwitcher = registeredDevices.length > 0 && (
+    <View style={styles.switcherContainer}>
+      <DeviceSwitcher
+        devices={registeredDevices}
+        runtimes={runtimes}
+        activeDeviceId={activeDeviceId}
+        onSelect={setActiveDevice}
+        onAdd={() => router.push('/link-device')}
+        onRemove={removeDevice}
+      />
+    </View>
+  );
 
   if (!data) {
     return (
       <SafeAreaView
         style={[styles.container, { backgroundColor: themeColors.background }]}
       >
-        <View style={styles.loadingContainer}>
-          <Text style={{ color: themeColors.text.primary, ...typography.h3 }}>
-            {t('common.loading')}
-          </Text>
-        </View>
+        <View style={styles.loadingHeader}>{deviceSwitcher}</View>
+        {connection.incompatibleFirmware ? (
+          <View style={styles.loadingContainer}>
+            <MaterialCommunityIcons name="chip" size={48} color={themeColors.danger} />
+            <Text style={[styles.incompatibleTitle, { color: themeColors.text.primary }]}>
+              {t('home.incompatible.title')}
+            </Text>
+            <Text style={[styles.incompatibleMessage, { color: themeColors.text.secondary }]}>
+              {protocol?.deviceVersion != null
+                ? t('home.incompatible.message', { version: protocol.deviceVersion })
+                : t('home.incompatible.unknownVersion')}
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.loadingContainer}>
+            <Text style={{ color: themeColors.text.primary, ...typography.h3 }}>
+              {t('common.loading')}
+            </Text>
+          </View>
+        )}
       </SafeAreaView>
     );
   }
 
   const lastUpdatedLabel = getRelativeTime(connection.lastUpdate);
 
+  // Relay command lifecycle for the active breaker
+  const relayCommand = runtimes[activeDeviceId]?.relayCommand;
+  const relayPending = relayCommand?.status === 'pending';
+  const protection = runtimes[activeDeviceId]?.protection;
+  const relaySubtitle = relayPending
+    ? t(relayCommand.targetState ? 'home.relayControl.switchingOn' : 'home.relayControl.switchingOff')
+    : relayCommand?.status === 'failed'
+      ? t('home.relayControl.notConfirmed')
+      : protection && protection.state !== 'armed'
+        ? t(`home.relayControl.protection.${protection.state}`, { attempts: protection.attempts })
+        : t('home.relayControl.tapToToggle');
+
   // All electrical metrics organized by importance
   const electricalMetrics = [
     {
@@ -127,34 +179,49 @@ export default function HomeScreen() {
             style={[
               styles.statusPill,
               {
-                backgroundColor: connection.isConnected
-                  ? `${themeColors.success}20`
-                  : `${themeColors.danger}20`,
-                borderColor: connection.isConnected
-                  ? themeColors.success
-                  : themeColors.danger,
+                backgroundColor: `${connectionColor}20`,
+                borderColor: connectionColor,
               },
             ]}
           >
-            <View style={[styles.statusDot, { backgroundColor: connection.isConnected ? themeColors.success : themeColors.danger }]} />
-            <Text
-              style={[
-                styles.statusText,
-                {
-                  color: connection.isConnected
-                    ? themeColors.success
-                    : themeColors.danger
-                },
-              ]}
-            >
-              {connection.isConnected ? t('home.connectionStatus.connected') : t('home.connectionStatus.disconnected')}
+            <View style={[styles.statusDot, { backgroundColor: connectionColor }]} />
+            <Text style={[styles.statusText, { color: connectionColor }]}>
+              {!connection.isConnected
+                ? t('home.connectionStatus.disconnected') +
+                  (connection.error ? ` · ${t(`home.connectionError.${connection.error}`)}` : '')
+                : connection.degraded
+                  ? t('home.connectionStatus.degraded')
+                  : t('home.connectionStatus.connected')}
+              {connection.isConnected && connection.transport && connection.transport !== 'none'
+                ? ` · ${t(`home.transport.${connection.transport}`)}`
+                : ''}
             </Text>
           </View>
         </View>
 
+        {/* Breaker Switcher + Combined Overview (multi-device) */}
+        {deviceSwitcher}
+        {registeredDevices.length > 1 && (
+          <DeviceOverview devices={registeredDevices} runtimes={runtimes} />
+        )}
+
+        {/* Breaker refuses this phone's commands until it is (re)paired */}
+        {(authStatus === 'pairing_required' || authStatus === 'signature_rejected') && (
+          <TouchableOpacity
+            style={[styles.authBanner, { backgroundColor: `${themeColors.warning}20`, borderColor: themeColors.warning }]}
+            onPress={() => router.push('/pair-device')}
+          >
+            <MaterialCommunityIcons name="shield-lock-outline" size={20} color={themeColors.warning} />
+            <Text style={[styles.authBannerText, { color: themeColors.warning }]}>
+              {t(`home.auth.${authStatus}`)}
+            </Text>
+            <Ionicons name="chevron-forward" size={18} color={themeColors.warning} />
+          </TouchableOpacity>
+        )}
+
         {/* Power Control - Modern Card Button */}
         <Pressable
-          onPress={toggleRelay}
+          onPress={() => toggleRelay()}
           style={({ pressed }) => [
             styles.relayControlButton,
             { transform: [{ scale: pressed ? 0.98 : 1 }] },
@@ -172,15 +239,19 @@ export default function HomeScreen() {
             <View style={styles.powerControlRow}>
               <View style={styles.powerControlLeft}>
                 <View style={styles.powerIconWrap}>
-                  <MaterialCommunityIcons
-                    name={data.relayState ? "power" : "power-off"}
-                    size={26}
-                    color="#FFFFFF"
-                  />
+                  {relayPending ? (
+                    <ActivityIndicator size="small" color="#FFFFFF" />
+                  ) : (
+                    <MaterialCommunityIcons
+                      name={data.relayState ? "power" : "power-off"}
+                      size={26}
+                      color="#FFFFFF"
+                    />
+                  )}
                 </View>
                 <View>
                   <Text style={styles.powerControlTitle}>{t('home.relayControl.title')}</Text>
-                  <Text style={styles.powerControlSubtitle}>{t('home.relayControl.tapToToggle')}</Text>
+                  <Text style={styles.powerControlSubtitle}>{relaySubtitle}</Text>
                 </View>
               </View>
               <View
@@ -310,6 +381,36 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  incompatibleTitle: {
+    ...typography.h3,
+    marginTop: spacing.md,
+  },
+  incompatibleMessage: {
+    ...typography.body,
+    textAlign: "center",
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.xl,
+  },
+  authBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.medium,
+    borderWidth: 1,
+    marginBottom: spacing.sm,
+  },
+  authBannerText: {
+    ...typography.bodySmall,
+    flex: 1,
+  },
+  loadingHeader: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+  },
+  switcherContainer: {
+    marginBottom: spacing.sm,
+  },
   mainContent: {
     flex: 1,
     paddingHorizontal: spacing.md,
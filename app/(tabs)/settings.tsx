@@ -1,6 +1,6 @@
 // Settings Screen
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   ScrollView,
   View,
@@ -13,26 +13,65 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
-import { useSettingsStore, useThemeStore, useLanguageStore } from '../../store';
-import { Card } from '../../components/ui';
+import { useRouter } from 'expo-router';
+import {
+  useSettingsStore,
+  useThemeStore,
+  useLanguageStore,
+  useElectricalStore,
+  useDiagnosticsStore,
+  useAuthStore,
+  useMqttStore,
+  useSettingsSyncStore,
+  useOutboxStore,
+  useAutomationStore,
+} from '../../store';
+import { Card, PendingSyncBadge } from '../../components/ui';
 import { colors, typography, spacing, borderRadius } from '../../theme';
+import { getRelativeTime, getDetectionBand } from '../../utils';
+import { TripCurveChart } from '../../components/charts/TripCurveChart';
+import { MonitoredQuantity, TripCurveType } from '../../types';
+import {
+  resolveTripCurve,
+  tripTime,
+  CUSTOM_EXPONENT_RANGE,
+  CUSTOM_INSTANT_RANGE,
+} from '../../services/tripCurve';
 
 type SettingsTab = 'thresholds' | 'notifications' | 'schedule' | 'system';
 
+const TRIP_CURVE_TYPES: TripCurveType[] = ['B', 'C', 'D', 'custom'];
+
 export default function SettingsScreen() {
   const { settings, updateThresholds, updateNotifications, updateSchedule } =
     useSettingsStore();
   const { theme, toggleTheme } = useThemeStore();
   const { language, setLanguage } = useLanguageStore();
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
+  const connection = useElectricalStore((state) => state.connection);
+  const diagnostics = useDiagnosticsStore((state) => state.getDiagnostics(activeDeviceId));
+  const resetDiagnostics = useDiagnosticsStore((state) => state.resetCounters);
+  const authStatus = useAuthStore((state) => state.status[activeDeviceId] ?? 'not_required');
+  const mqttState = useMqttStore((state) => state.state);
+  const settingsSync = useSettingsSyncStore((state) => state.getSync(activeDeviceId));
+  const outbox = useOutboxStore((state) => state.entries);
+  const automationRules = useAutomationStore((state) => state.rules);
+  const router = useRouter();
   const themeColors = colors[theme];
   const { t } = useTranslation();
 
   const [activeTab, setActiveTab] = useState<SettingsTab>('thresholds');
 
+  // Writes the breaker has not acknowledged yet - shown next to the settings they touch
+  const pendingFields = outbox.find((entry) => entry.deviceId === activeDeviceId && entry.kind === 'settings')?.fields ?? [];
+  const schedulesPending = outbox.some((entry) => entry.deviceId === activeDeviceId && entry.kind === 'schedules');
+
   // Inline editing state - simple approach
   const [editingField, setEditingField] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>('');
 
+  const tripCurve = useMemo(() => resolveTripCurve(settings.thresholds.current), [settings.thresholds.current]);
+
   const startEditing = (field: string, value: number, isDecimal: boolean) => {
     setEditingField(field);
     setEditValue(isDecimal ? value.toFixed(isDecimal ? 2 : 1) : value.toString());
@@ -68,6 +107,25 @@ export default function SettingsScreen() {
       case 'current.min':
         updateThresholds({ current: { ...settings.thresholds.current, min: value } });
         break;
+      case 'current.delay':
+        updateThresholds({ current: { ...settings.thresholds.current, delay: Math.max(0.1, value) } });
+        break;
+      case 'current.curveExponent':
+        updateThresholds({
+          current: {
+            ...settings.thresholds.current,
+            curveExponent: Math.min(CUSTOM_EXPONENT_RANGE.max, Math.max(CUSTOM_EXPONENT_RANGE.min, value)),
+          },
+        });
+        break;
+      case 'current.instantMultiple':
+        updateThresholds({
+          current: {
+            ...settings.thresholds.current,
+            instantMultiple: Math.min(CUSTOM_INSTANT_RANGE.max, Math.max(CUSTOM_INSTANT_RANGE.min, value)),
+          },
+        });
+        break;
       case 'frequency.min':
         updateThresholds({ frequency: { ...settings.thresholds.frequency, min: value } });
         break;
@@ -77,6 +135,30 @@ export default function SettingsScreen() {
       case 'powerFactor.min':
         updateThresholds({ powerFactor: { ...settings.thresholds.powerFactor, min: value } });
         break;
+      case 'voltage.hysteresis':
+        updateThresholds({ voltage: { ...settings.thresholds.voltage, hysteresis: value } });
+        break;
+      case 'voltage.debounce':
+        updateThresholds({ voltage: { ...settings.thresholds.voltage, debounce: value } });
+        break;
+      case 'current.hysteresis':
+        updateThresholds({ current: { ...settings.thresholds.current, hysteresis: value } });
+        break;
+      case 'current.debounce':
+        updateThresholds({ current: { ...settings.thresholds.current, debounce: value } });
+        break;
+      case 'frequency.hysteresis':
+        updateThresholds({ frequency: { ...settings.thresholds.frequency, hysteresis: value } });
+        break;
+      case 'frequency.debounce':
+        updateThresholds({ frequency: { ...settings.thresholds.frequency, debounce: value } });
+        break;
+      case 'powerFactor.hysteresis':
+        updateThresholds({ powerFactor: { ...settings.thresholds.powerFactor, hysteresis: value } });
+        break;
+      case 'powerFactor.debounce':
+        updateThresholds({ powerFactor: { ...settings.thresholds.powerFactor, debounce: value } });
+        break;
       case 'reconnection.delay':
         updateThresholds({ reconnection: { ...settings.reconnection, delay: value } });
         break;
@@ -130,6 +212,76 @@ export default function SettingsScreen() {
     });
   };
 
+  // A number setting edited inline with +/- buttons; `step` scales the usual 1 (or 0.1) step
+  const renderNumberRow = (field: string, label: string, value: number, unit: string, isDecimal: boolean, step = 1) => (
+    <View style={styles.settingRow}>
+      <Text style={[styles.label, { color: themeColors.text.secondary }]}>{label}</Text>
+      {editingField === field ? (
+        <View style={styles.inlineEditContainer}>
+          <TouchableOpacity
+            style={styles.inlineButton}
+            onPress={() => incrementValue(isDecimal, -step)}
+          >
+            <Ionicons name="remove-circle" size={32} color={themeColors.primary} />
+          </TouchableOpacity>
+          <Text style={[styles.inlineValue, { color: themeColors.text.primary }]}>
+            {editValue} {unit}
+          </Text>
+          <TouchableOpacity
+            style={styles.inlineButton}
+            onPress={() => incrementValue(isDecimal, step)}
+          >
+            <Ionicons name="add-circle" size={32} color={themeColors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.inlineSaveButton, { backgroundColor: themeColors.success }]}
+            onPress={saveValue}
+          >
+            <Ionicons name="checkmark" size={20} color="white" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.inlineCancelButton}
+            onPress={cancelEditing}
+          >
+            <Ionicons name="close" size={20} color={themeColors.text.secondary} />
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={[
+            styles.numberChip,
+            { backgroundColor: themeColors.background, borderColor: themeColors.border }
+          ]}
+          onPress={() => startEditing(field, value, isDecimal)}
+        >
+          <Text style={[styles.numberChipText, { color: themeColors.text.primary }]}>
+            {isDecimal ? value.toFixed(2) : value}
+          </Text>
+          <Text style={[styles.numberChipUnit, { color: themeColors.text.secondary }]}>
+            {unit}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  // How far back inside its limits a quantity must come, and for how long, before a violation ends
+  const renderDetectionRows = (quantity: MonitoredQuantity, unit: string, isDecimal: boolean, step: number) => {
+    const band = getDetectionBand(settings.thresholds, quantity);
+    return (
+      <>
+        {renderNumberRow(`${quantity}.hysteresis`, t('settings.thresholds.hysteresis'), band.hysteresis, unit, isDecimal, step)}
+        {renderNumberRow(
+          `${quantity}.debounce`,
+          t('settings.thresholds.debounce'),
+          band.debounce,
+          t('settings.thresholds.reconnection.delayUnit'),
+          false
+        )}
+      </>
+    );
+  };
+
   // Tab buttons with icons
   const renderTabs = () => (
     <View style={styles.tabsContainer}>
@@ -252,17 +404,57 @@ export default function SettingsScreen() {
   );
 
   // Thresholds Tab
+  const syncColor =
+    settingsSync.status === 'conflict'
+      ? themeColors.warning
+      : settingsSync.status === 'error'
+        ? themeColors.danger
+        : settingsSync.status === 'in_sync'
+          ? themeColors.success
+          : themeColors.text.secondary;
+
   const renderThresholdsTab = () => (
     <View>
+      {/* Whether these values match the breaker; conflicts open the resolution screen */}
+      <TouchableOpacity
+        style={[styles.syncBanner, { backgroundColor: `${syncColor}15`, borderColor: syncColor }]}
+        onPress={() => router.push('/settings-sync')}
+      >
+        <Ionicons
+          name={
+            settingsSync.status === 'conflict'
+              ? 'git-compare'
+              : settingsSync.status === 'error'
+                ? 'alert-circle'
+                : settingsSync.status === 'in_sync'
+                  ? 'checkmark-circle'
+                  : 'sync'
+          }
+          size={20}
+          color={syncColor}
+        />
+        <Text style={[styles.syncBannerText, { color: syncColor }]}>
+          {settingsSync.status === 'conflict'
+            ? t('settingsSync.conflicts', { count: settingsSync.conflicts.length })
+            : settingsSync.status === 'error' && pendingFields.length > 0
+              ? t('settingsSync.waiting', { count: pendingFields.length })
+              : t(`settingsSync.status.${settingsSync.status}`)}
+        </Text>
+        <Ionicons name="chevron-forward" size={18} color={syncColor} />
+      </TouchableOpacity>
+
       <Card style={styles.card}>
         <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
           {t('settings.thresholds.voltage.title')}
         </Text>
 
         <View style={styles.settingRow}>
-          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
-            {t('settings.thresholds.voltage.max')}
-          </Text>
+          <View style={styles.labelGroup}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+              {t('settings.thresholds.voltage.max')}
+            </Text>
+            <PendingSyncBadge visible={pendingFields.includes('maxVoltage')} />
+          </View>
           {editingField === 'voltage.max' ? (
             <View style={styles.inlineEditContainer}>
               <TouchableOpacity
@@ -312,9 +504,12 @@ export default function SettingsScreen() {
         </View>
 
         <View style={styles.settingRow}>
-          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
-            {t('settings.thresholds.voltage.min')}
-          </Text>
+          <View style={styles.labelGroup}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+              {t('settings.thresholds.voltage.min')}
+            </Text>
+            <PendingSyncBadge visible={pendingFields.includes('minVoltage')} />
+          </View>
           {editingField === 'voltage.min' ? (
             <View style={styles.inlineEditContainer}>
               <TouchableOpacity
@@ -362,6 +557,8 @@ export default function SettingsScreen() {
             </TouchableOpacity>
           )}
         </View>
+
+        {renderDetectionRows('voltage', t('home.units.voltage'), false, 1)}
       </Card>
 
       <Card style={styles.card}>
@@ -370,9 +567,12 @@ export default function SettingsScreen() {
         </Text>
 
         <View style={styles.settingRow}>
-          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
-            {t('settings.thresholds.current.max')}
-          </Text>
+          <View style={styles.labelGroup}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+              {t('settings.thresholds.current.max')}
+            </Text>
+            <PendingSyncBadge visible={pendingFields.includes('maxCurrent')} />
+          </View>
           {editingField === 'current.max' ? (
             <View style={styles.inlineEditContainer}>
               <TouchableOpacity
@@ -473,6 +673,201 @@ export default function SettingsScreen() {
           )}
         </View>
 
+        {renderDetectionRows('current', t('home.units.current'), true, 1)}
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.thresholds.current.delay')}
+          </Text>
+          {editingField === 'current.delay' ? (
+            <View style={styles.inlineEditContainer}>
+              <TouchableOpacity
+                style={styles.inlineButton}
+                onPress={() => incrementValue(false, -1)}
+              >
+                <Ionicons name="remove-circle" size={32} color={themeColors.primary} />
+              </TouchableOpacity>
+              <Text style={[styles.inlineValue, { color: themeColors.text.primary }]}>
+                {editValue} {t('settings.thresholds.reconnection.delayUnit')}
+              </Text>
+              <TouchableOpacity
+                style={styles.inlineButton}
+                onPress={() => incrementValue(false, 1)}
+              >
+                <Ionicons name="add-circle" size={32} color={themeColors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.inlineSaveButton, { backgroundColor: themeColors.success }]}
+                onPress={saveValue}
+              >
+                <Ionicons name="checkmark" size={20} color="white" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.inlineCancelButton}
+                onPress={cancelEditing}
+              >
+                <Ionicons name="close" size={20} color={themeColors.text.secondary} />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.numberChip,
+                { backgroundColor: themeColors.background, borderColor: themeColors.border }
+              ]}
+              onPress={() => startEditing('current.delay', settings.thresholds.current.delay, false)}
+            >
+              <Text style={[styles.numberChipText, { color: themeColors.text.primary }]}>
+                {settings.thresholds.current.delay}
+              </Text>
+              <Text style={[styles.numberChipUnit, { color: themeColors.text.secondary }]}>
+                {t('settings.thresholds.reconnection.delayUnit')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.thresholds.current.curve')}
+          </Text>
+          <View style={styles.languageButtons}>
+            {TRIP_CURVE_TYPES.map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[
+                  styles.curveButton,
+                  {
+                    backgroundColor: tripCurve.type === type ? themeColors.primary : themeColors.background,
+                    borderColor: themeColors.border,
+                  }
+                ]}
+                onPress={() => updateThresholds({ current: { ...settings.thresholds.current, curve: type } })}
+              >
+                <Text style={[
+                  styles.languageButtonText,
+                  { color: tripCurve.type === type ? themeColors.text.inverse : themeColors.text.secondary }
+                ]}>
+                  {type === 'custom' ? t('settings.thresholds.current.custom') : type}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {tripCurve.type === 'custom' && (
+          <>
+            <View style={styles.settingRow}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+                {t('settings.thresholds.current.exponent')}
+              </Text>
+              {editingField === 'current.curveExponent' ? (
+                <View style={styles.inlineEditContainer}>
+                  <TouchableOpacity
+                    style={styles.inlineButton}
+                    onPress={() => incrementValue(true, -1)}
+                  >
+                    <Ionicons name="remove-circle" size={32} color={themeColors.primary} />
+                  </TouchableOpacity>
+                  <Text style={[styles.inlineValue, { color: themeColors.text.primary }]}>
+                    {editValue}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.inlineButton}
+                    onPress={() => incrementValue(true, 1)}
+                  >
+                    <Ionicons name="add-circle" size={32} color={themeColors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.inlineSaveButton, { backgroundColor: themeColors.success }]}
+                    onPress={saveValue}
+                  >
+                    <Ionicons name="checkmark" size={20} color="white" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.inlineCancelButton}
+                    onPress={cancelEditing}
+                  >
+                    <Ionicons name="close" size={20} color={themeColors.text.secondary} />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={[
+                    styles.numberChip,
+                    { backgroundColor: themeColors.background, borderColor: themeColors.border }
+                  ]}
+                  onPress={() => startEditing('current.curveExponent', tripCurve.exponent, true)}
+                >
+                  <Text style={[styles.numberChipText, { color: themeColors.text.primary }]}>
+                    {tripCurve.exponent.toFixed(2)}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={styles.settingRow}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+                {t('settings.thresholds.current.instantMultiple')}
+              </Text>
+              {editingField === 'current.instantMultiple' ? (
+                <View style={styles.inlineEditContainer}>
+                  <TouchableOpacity
+                    style={styles.inlineButton}
+                    onPress={() => incrementValue(false, -1)}
+                  >
+                    <Ionicons name="remove-circle" size={32} color={themeColors.primary} />
+                  </TouchableOpacity>
+                  <Text style={[styles.inlineValue, { color: themeColors.text.primary }]}>
+                    {editValue}×
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.inlineButton}
+                    onPress={() => incrementValue(false, 1)}
+                  >
+                    <Ionicons name="add-circle" size={32} color={themeColors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.inlineSaveButton, { backgroundColor: themeColors.success }]}
+                    onPress={saveValue}
+                  >
+                    <Ionicons name="checkmark" size={20} color="white" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.inlineCancelButton}
+                    onPress={cancelEditing}
+                  >
+                    <Ionicons name="close" size={20} color={themeColors.text.secondary} />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={[
+                    styles.numberChip,
+                    { backgroundColor: themeColors.background, borderColor: themeColors.border }
+                  ]}
+                  onPress={() => startEditing('current.instantMultiple', tripCurve.instantMultiple, false)}
+                >
+                  <Text style={[styles.numberChipText, { color: themeColors.text.primary }]}>
+                    {tripCurve.instantMultiple}
+                  </Text>
+                  <Text style={[styles.numberChipUnit, { color: themeColors.text.secondary }]}>
+                    ×
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </>
+        )}
+
+        <Text style={[styles.curveSummary, { color: themeColors.text.secondary }]}>
+          {t('settings.thresholds.current.curveSummary', {
+            atTwo: Math.round(tripTime(tripCurve, 2) ?? 0),
+            instant: tripCurve.instantMultiple,
+          })}
+        </Text>
+        <TripCurveChart curve={tripCurve} theme={theme} color={themeColors.primary} />
+
       </Card>
 
       <Card style={styles.card}>
@@ -481,9 +876,12 @@ export default function SettingsScreen() {
         </Text>
 
         <View style={styles.settingRow}>
-          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
-            {t('settings.thresholds.frequency.min')}
-          </Text>
+          <View style={styles.labelGroup}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+              {t('settings.thresholds.frequency.min')}
+            </Text>
+            <PendingSyncBadge visible={pendingFields.includes('minFrequency')} />
+          </View>
           {editingField === 'frequency.min' ? (
             <View style={styles.inlineEditContainer}>
               <TouchableOpacity
@@ -533,9 +931,12 @@ export default function SettingsScreen() {
         </View>
 
         <View style={styles.settingRow}>
-          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
-            {t('settings.thresholds.frequency.max')}
-          </Text>
+          <View style={styles.labelGroup}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+              {t('settings.thresholds.frequency.max')}
+            </Text>
+            <PendingSyncBadge visible={pendingFields.includes('maxFrequency')} />
+          </View>
           {editingField === 'frequency.max' ? (
             <View style={styles.inlineEditContainer}>
               <TouchableOpacity
@@ -583,6 +984,8 @@ export default function SettingsScreen() {
             </TouchableOpacity>
           )}
         </View>
+
+        {renderDetectionRows('frequency', t('home.units.frequency'), true, 0.1)}
       </Card>
 
       <Card style={styles.card}>
@@ -591,9 +994,12 @@ export default function SettingsScreen() {
         </Text>
 
         <View style={styles.settingRow}>
-          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
-            {t('settings.thresholds.powerFactor.min')}
-          </Text>
+          <View style={styles.labelGroup}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+              {t('settings.thresholds.powerFactor.min')}
+            </Text>
+            <PendingSyncBadge visible={pendingFields.includes('minPowerFactor')} />
+          </View>
           {editingField === 'powerFactor.min' ? (
             <View style={styles.inlineEditContainer}>
               <TouchableOpacity
@@ -638,6 +1044,8 @@ export default function SettingsScreen() {
             </TouchableOpacity>
           )}
         </View>
+
+        {renderDetectionRows('powerFactor', '', true, 0.1)}
       </Card>
 
       <Card style={styles.card}>
@@ -646,9 +1054,12 @@ export default function SettingsScreen() {
         </Text>
 
         <View style={styles.settingRow}>
-          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
-            {t('settings.thresholds.reconnection.enabled')}
-          </Text>
+          <View style={styles.labelGroup}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+              {t('settings.thresholds.reconnection.enabled')}
+            </Text>
+            <PendingSyncBadge visible={pendingFields.includes('autoReconnectEnabled')} />
+          </View>
           <Switch
             value={settings.reconnection.enabled}
             onValueChange={(value) => {
@@ -665,9 +1076,12 @@ export default function SettingsScreen() {
         </View>
 
         <View style={styles.settingRow}>
-          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
-            {t('settings.thresholds.reconnection.delay')}
-          </Text>
+          <View style={styles.labelGroup}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+              {t('settings.thresholds.reconnection.delay')}
+            </Text>
+            <PendingSyncBadge visible={pendingFields.includes('autoResetDelay')} />
+          </View>
           {editingField === 'reconnection.delay' ? (
             <View style={styles.inlineEditContainer}>
               <TouchableOpacity
@@ -944,9 +1358,12 @@ export default function SettingsScreen() {
         {schedules.map((schedule, index) => (
           <Card key={schedule.id} style={[styles.card, { opacity: schedule.enabled ? 1 : 0.65 }]}>
             <View style={styles.scheduleHeader}>
-              <Text style={[styles.scheduleTitle, { color: themeColors.text.primary }]}>
-                {t('settings.tabs.timer')} {index + 1}
-              </Text>
+              <View style={styles.labelGroup}>
+                <Text style={[styles.scheduleTitle, { color: themeColors.text.primary }]}>
+                  {t('settings.tabs.timer')} {index + 1}
+                </Text>
+                <PendingSyncBadge visible={schedulesPending} />
+              </View>
               <View style={{ flexDirection: 'row', alignItems: 'center', gap: spacing.sm }}>
                 <Switch
                   value={schedule.enabled}
@@ -1040,6 +1457,23 @@ export default function SettingsScreen() {
           <Text style={styles.addScheduleText}>{t('settings.schedule.add')}</Text>
         </TouchableOpacity>
 
+        {/* Rules that go beyond fixed times */}
+        <Card style={styles.card}>
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/automation')}>
+            <View style={styles.labelGroup}>
+              <Text style={[styles.label, { color: themeColors.text.primary }]}>
+                {t('settings.schedule.automation')}
+              </Text>
+              <Text style={[styles.diagnosticDetail, { color: themeColors.text.secondary }]}>
+                {t('settings.schedule.automationHint', {
+                  count: automationRules.filter((rule) => rule.deviceId === activeDeviceId && rule.enabled).length,
+                })}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={themeColors.primary} />
+          </TouchableOpacity>
+        </Card>
+
         {/* Time Picker Modal - Display only */}
         {timeModal.visible && (
           <View style={styles.timeModalOverlay}>
@@ -1216,11 +1650,39 @@ export default function SettingsScreen() {
             {t('settings.system.network.signalStrength')}
           </Text>
           <Text style={[styles.value, { color: themeColors.text.primary }]}>
-            {settings.wifi.signalStrength}%
+            {connection.isConnected ? `${connection.signalStrength}%` : '—'}
+            {connection.isConnected && diagnostics.link?.rssi != null ? ` (${diagnostics.link.rssi} dBm)` : ''}
           </Text>
         </View>
       </Card>
 
+      <Card style={styles.card}>
+        <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
+          {t('settings.system.remote.title')}
+        </Text>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.remote.status')}
+          </Text>
+          <Text
+            style={[
+              styles.value,
+              { color: mqttState === 'error' ? themeColors.warning : themeColors.text.primary },
+            ]}
+          >
+            {t(`remoteAccess.state.${mqttState}`)}
+          </Text>
+        </View>
+
+        <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/remote-access')}>
+          <Text style={[styles.label, { color: themeColors.primary }]}>
+            {t('settings.system.remote.configure')}
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={themeColors.primary} />
+        </TouchableOpacity>
+      </Card>
+
       <Card style={styles.card}>
         <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
           {t('settings.system.device.title')}
@@ -1240,9 +1702,286 @@ export default function SettingsScreen() {
             {t('settings.system.device.firmware')}
           </Text>
           <Text style={[styles.value, { color: themeColors.text.primary }]}>
-            {settings.device.firmwareVersion}
+            {diagnostics.protocol?.firmwareVersion ?? settings.device.firmwareVersion}
+          </Text>
+        </View>
+
+        <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/firmware-update')}>
+          <Text style={[styles.label, { color: themeColors.primary }]}>
+            {t('settings.system.device.checkUpdates')}
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={themeColors.primary} />
+        </TouchableOpacity>
+      </Card>
+
+      <Card style={styles.card}>
+        <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
+          {t('settings.system.security.title')}
+        </Text>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.security.status')}
+          </Text>
+          <Text
+            style={[
+              styles.value,
+              {
+                color:
+                  authStatus === 'pairing_required' || authStatus === 'signature_rejected'
+                    ? themeColors.warning
+                    : themeColors.text.primary,
+              },
+            ]}
+          >
+            {t(`pairing.status.${authStatus}`)}
+          </Text>
+        </View>
+
+        <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/pair-device')}>
+          <Text style={[styles.label, { color: themeColors.primary }]}>
+            {t('settings.system.security.manage')}
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={themeColors.primary} />
+        </TouchableOpacity>
+      </Card>
+
+      <Card style={styles.card}>
+        <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
+          {t('settings.system.diagnostics.title')}
+        </Text>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.protocol')}
+          </Text>
+          <Text
+            style={[
+              styles.value,
+              {
+                color:
+                  diagnostics.protocol?.compatibility === 'incompatible'
+                    ? themeColors.danger
+                    : themeColors.text.primary,
+              },
+            ]}
+          >
+            {diagnostics.protocol?.deviceVersion != null
+              ? t('settings.system.diagnostics.protocolVersion', { version: diagnostics.protocol.deviceVersion })
+              : diagnostics.protocol
+                ? t('settings.system.diagnostics.legacyProtocol')
+                : '—'}
+          </Text>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.firmwareStatus')}
+          </Text>
+          <Text
+            style={[
+              styles.value,
+              {
+                color:
+                  diagnostics.protocol?.compatibility === 'legacy' ? themeColors.warning : themeColors.text.primary,
+              },
+            ]}
+          >
+            {t(`settings.system.diagnostics.compatibility.${diagnostics.protocol?.compatibility ?? 'unknown'}`)}
+          </Text>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.link')}
+          </Text>
+          <Text
+            style={[
+              styles.value,
+              {
+                color: !connection.isConnected
+                  ? themeColors.danger
+                  : connection.degraded
+                    ? themeColors.warning
+                    : themeColors.success,
+              },
+            ]}
+          >
+            {!connection.isConnected
+              ? t('home.connectionStatus.disconnected')
+              : connection.degraded
+                ? t('home.connectionStatus.degraded')
+                : t('settings.system.diagnostics.linkGood')}
+          </Text>
+        </View>
+
+        {connection.isConnected && connection.degraded && (
+          <Text style={[styles.diagnosticDetail, { color: themeColors.warning }]}>
+            {(connection.degradedReasons ?? [])
+              .map((reason) => t(`settings.system.diagnostics.degradedReasons.${reason}`))
+              .join(' · ')}
+          </Text>
+        )}
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.latency')}
+          </Text>
+          <Text style={[styles.value, { color: themeColors.text.primary }]}>
+            {diagnostics.link?.latencyMs != null
+              ? t('settings.system.diagnostics.milliseconds', { value: diagnostics.link.latencyMs })
+              : '—'}
+          </Text>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.failedRequests')}
+          </Text>
+          <Text style={[styles.value, { color: themeColors.text.primary }]}>
+            {diagnostics.link?.requestCount
+              ? t('settings.system.diagnostics.failedOf', {
+                  percent: Math.round(diagnostics.link.failureRate * 100),
+                  count: diagnostics.link.requestCount,
+                })
+              : '—'}
+          </Text>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.lastFrame')}
+          </Text>
+          <Text style={[styles.value, { color: themeColors.text.primary }]}>
+            {diagnostics.link?.lastFrameAt ? getRelativeTime(diagnostics.link.lastFrameAt) : t('settings.system.diagnostics.none')}
+          </Text>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.breakerWifi')}
+          </Text>
+          <Text style={[styles.value, { color: themeColors.text.primary }]}>
+            {diagnostics.link?.rssi != null ? `${diagnostics.link.rssi} dBm` : t('settings.system.diagnostics.notReported')}
+          </Text>
+        </View>
+
+        {/* Latency over the last few minutes, oldest first; amber where the link was degraded */}
+        {diagnostics.linkHistory.length > 1 && (
+          <View style={styles.linkHistory}>
+            {diagnostics.linkHistory.map((sample) => (
+              <View
+                key={sample.at}
+                style={[
+                  styles.linkHistoryBar,
+                  {
+                    height: sample.latencyMs == null ? 2 : Math.max(2, Math.min(sample.latencyMs, 2000) / 2000 * 32),
+                    backgroundColor: sample.degraded ? themeColors.warning : themeColors.primary,
+                  },
+                ]}
+              />
+            ))}
+          </View>
+        )}
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.clockDrift')}
+          </Text>
+          <Text style={[styles.value, { color: themeColors.text.primary }]}>
+            {diagnostics.clock?.driftMs == null
+              ? '—'
+              : diagnostics.clock.precision === 'minute'
+                ? t('settings.system.diagnostics.driftMinutes', {
+                    value: `${diagnostics.clock.driftMs >= 0 ? '+' : ''}${Math.round(diagnostics.clock.driftMs / 60000)}`,
+                  })
+                : t('settings.system.diagnostics.driftSeconds', {
+                    value: `${diagnostics.clock.driftMs >= 0 ? '+' : ''}${(diagnostics.clock.driftMs / 1000).toFixed(1)}`,
+                  })}
+          </Text>
+        </View>
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.clockSynced')}
+          </Text>
+          <Text style={[styles.value, { color: themeColors.text.primary }]}>
+            {diagnostics.clock?.syncedAt ? getRelativeTime(diagnostics.clock.syncedAt) : t('settings.system.diagnostics.none')}
+          </Text>
+        </View>
+
+        {diagnostics.clock?.tz && (
+          <Text style={[styles.diagnosticDetail, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.timeZoneRule', { rule: diagnostics.clock.tz })}
+          </Text>
+        )}
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.rejected')}
+          </Text>
+          <Text
+            style={[
+              styles.value,
+              { color: diagnostics.rejectedPayloads > 0 ? themeColors.warning : themeColors.text.primary },
+            ]}
+          >
+            {diagnostics.rejectedPayloads}
+          </Text>
+        </View>
+
+        {Object.entries(diagnostics.rejectionsBySource).map(([source, count]) => (
+          <View key={source} style={styles.settingRow}>
+            <Text style={[styles.diagnosticDetail, { color: themeColors.text.secondary }]}>
+              {source}
+            </Text>
+            <Text style={[styles.diagnosticDetail, { color: themeColors.text.primary }]}>
+              {count}
+            </Text>
+          </View>
+        ))}
+
+        <View style={styles.settingRow}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>
+            {t('settings.system.diagnostics.lastRejection')}
+          </Text>
+          <Text style={[styles.value, { color: themeColors.text.primary }]}>
+            {diagnostics.lastRejection
+              ? getRelativeTime(diagnostics.lastRejection.timestamp)
+              : t('settings.system.diagnostics.none')}
           </Text>
         </View>
+
+        {diagnostics.lastRejection && (
+          <Text style={[styles.diagnosticDetail, { color: themeColors.text.secondary }]}>
+            {diagnostics.lastRejection.source}: {diagnostics.lastRejection.errors.join(', ')}
+          </Text>
+        )}
+
+        <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/live-stream')}>
+          <Text style={[styles.label, { color: themeColors.primary }]}>
+            {t('settings.system.diagnostics.liveCapture')}
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={themeColors.primary} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/session-replay')}>
+          <Text style={[styles.label, { color: themeColors.primary }]}>
+            {t('settings.system.diagnostics.sessions')}
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={themeColors.primary} />
+        </TouchableOpacity>
+
+        {diagnostics.rejectedPayloads > 0 && (
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => resetDiagnostics(activeDeviceId)}
+          >
+            <Text style={[styles.label, { color: themeColors.primary }]}>
+              {t('settings.system.diagnostics.reset')}
+            </Text>
+          </TouchableOpacity>
+        )}
       </Card>
     </View>
   );
@@ -1344,6 +2083,18 @@ const styles = StyleSheet.create({
     minWidth: 80,
     alignItems: 'center',
   },
+  curveButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.medium,
+    borderWidth: 1,
+    minWidth: 36,
+    alignItems: 'center',
+  },
+  curveSummary: {
+    ...typography.bodySmall,
+    marginTop: spacing.sm,
+  },
   languageButtonText: {
     ...typography.bodySmall,
     fontWeight: '600',
@@ -1352,6 +2103,38 @@ const styles = StyleSheet.create({
     ...typography.body,
     fontWeight: '600',
   },
+  diagnosticDetail: {
+    ...typography.bodySmall,
+  },
+  labelGroup: {
+    flexShrink: 1,
+    gap: 4,
+  },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    marginBottom: spacing.md,
+  },
+  syncBannerText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+    flex: 1,
+  },
+  linkHistory: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 32,
+    gap: 2,
+    marginVertical: spacing.sm,
+  },
+  linkHistoryBar: {
+    flex: 1,
+    borderRadius: 1,
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -88,6 +88,15 @@ function RootLayoutNav() {
       <Stack initialRouteName="welcome">
         <Stack.Screen name="welcome" options={{ headerShown: false }} />
         <Stack.Screen name="link-device" options={{ headerShown: false }} />
+        <Stack.Screen name="provision-wifi" options={{ headerShown: false }} />
+        <Stack.Screen name="pair-device" options={{ headerShown: false }} />
+        <Stack.Screen name="firmware-update" options={{ headerShown: false }} />
+        <Stack.Screen name="remote-access" options={{ headerShown: false }} />
+        <Stack.Screen name="settings-sync" options={{ headerShown: false }} />
+        <Stack.Screen name="live-stream" options={{ headerShown: false }} />
+        <Stack.Screen name="session-replay" options={{ headerShown: false }} />
+        <Stack.Screen name="automation" options={{ headerShown: false }} />
+        <Stack.Screen name="automation-rule" options={{ headerShown: false }} />
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       </Stack>
       <ToastManager ref={toastManagerRef} />
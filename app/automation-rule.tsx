@@ -0,0 +1,506 @@
+// Automation Rule Screen - build or change one "when X for Y seconds, then Z" rule
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useElectricalStore, useDeviceStore, useAutomationStore } from '../store';
+import { validateRule } from '../services/automationEngine';
+import { AutomationRule, EventType, RuleAction, RuleCondition, RuleFlag, RuleMetric } from '../types';
+import { DAY_KEYS, METRIC_UNITS, eventTypeLabel } from '../utils';
+
+const METRICS = Object.keys(METRIC_UNITS) as RuleMetric[];
+const FLAGS: RuleFlag[] = ['relayState', 'protectionTriggered', 'manualMode', 'powerOutage', 'reconnectionPending'];
+const EVENT_TYPES: EventType[] = [
+  'outage',
+  'restore',
+  'overvoltage',
+  'undervoltage',
+  'overcurrent',
+  'overload',
+  'underload',
+  'frequency_min',
+  'frequency_max',
+  'power_factor_min',
+  'threshold_breach',
+  'manual_on',
+  'manual_off',
+  'auto_on',
+  'auto_off',
+];
+
+const NEW_CONDITIONS: Record<RuleCondition['kind'], RuleCondition> = {
+  reading: { kind: 'reading', metric: 'power', comparator: 'above', value: 2000 },
+  flag: { kind: 'flag', flag: 'relayState', value: true },
+  time: { kind: 'time', from: '22:00', to: '06:00', days: [0, 1, 2, 3, 4, 5, 6] },
+  event: { kind: 'event', eventType: 'outage' },
+};
+
+// Conditions being edited; reading values stay text until the rule is saved
+interface DraftCondition {
+  key: string;
+  condition: RuleCondition;
+  valueText: string;
+}
+
+const toDraft = (condition: RuleCondition, index: number): DraftCondition => ({
+  key: `${Date.now()}-${index}`,
+  condition,
+  valueText: condition.kind === 'reading' ? String(condition.value) : '',
+});
+
+export default function AutomationRuleScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
+  const profiles = useAutomationStore((state) => state.profiles);
+  const existing = useAutomationStore((state) => state.rules.find((rule) => rule.id === id));
+  const { saveRule, deleteRule } = useAutomationStore();
+  const deviceId = existing?.deviceId ?? activeDeviceId;
+  const device = useDeviceStore((state) => state.devices.find((d) => d.id === deviceId));
+
+  const [name, setName] = useState(existing?.name ?? '');
+  const [conditions, setConditions] = useState<DraftCondition[]>(() => (existing?.conditions ?? []).map(toDraft));
+  const [holdText, setHoldText] = useState(String(existing?.holdSeconds ?? 0));
+  const [action, setAction] = useState<RuleAction>(existing?.action ?? { kind: 'relay', state: false });
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateCondition = (key: string, patch: Partial<DraftCondition>) =>
+    setConditions((current) => current.map((draft) => (draft.key === key ? { ...draft, ...patch } : draft)));
+
+  const patchCondition = <K extends RuleCondition['kind']>(
+    draft: DraftCondition,
+    patch: Partial<Extract<RuleCondition, { kind: K }>>
+  ) => updateCondition(draft.key, { condition: { ...draft.condition, ...patch } as RuleCondition });
+
+  const addCondition = (kind: RuleCondition['kind']) =>
+    setConditions((current) => [...current, toDraft(NEW_CONDITIONS[kind], current.length)]);
+
+  const removeCondition = (key: string) => setConditions((current) => current.filter((draft) => draft.key !== key));
+
+  const save = () => {
+    const now = Date.now();
+    const rule: AutomationRule = {
+      id: existing?.id ?? `rule-${now}`,
+      name: name.trim(),
+      deviceId,
+      enabled: existing?.enabled ?? true,
+      conditions: conditions.map(({ condition, valueText }) =>
+        condition.kind === 'reading' ? { ...condition, value: valueText.trim() ? Number(valueText) : NaN } : condition
+      ),
+      holdSeconds: holdText.trim() ? Number(holdText) : 0,
+      action: action.kind === 'notify' ? { ...action, message: action.message.trim() } : action,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    const problems = validateRule(rule, profiles);
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    saveRule(rule);
+    router.back();
+  };
+
+  const remove = () => {
+    if (!existing) return;
+    Alert.alert(t('automation.editor.delete'), t('automation.editor.deleteConfirm', { name: existing.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: () => {
+          deleteRule(existing.id);
+          router.back();
+        },
+      },
+    ]);
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? themeColors.primary : themeColors.border },
+        selected && { backgroundColor: `${themeColors.primary}20` },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? themeColors.primary : themeColors.text.secondary }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const inputStyle = [styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }];
+
+  const renderConditionFields = (draft: DraftCondition) => {
+    const condition = draft.condition;
+    switch (condition.kind) {
+      case 'reading':
+        return (
+          <>
+            <View style={styles.chipRow}>
+              {METRICS.map((metric) =>
+                renderChip(metric, t(`automation.metrics.${metric}`), condition.metric === metric, () =>
+                  patchCondition<'reading'>(draft, { metric })
+                )
+              )}
+            </View>
+            <View style={styles.chipRow}>
+              {(['above', 'below'] as const).map((comparator) =>
+                renderChip(comparator, t(`automation.comparators.${comparator}`), condition.comparator === comparator, () =>
+                  patchCondition<'reading'>(draft, { comparator })
+                )
+              )}
+            </View>
+            <View style={styles.inlineRow}>
+              <TextInput
+                style={[...inputStyle, styles.inlineInput]}
+                value={draft.valueText}
+                onChangeText={(valueText) => updateCondition(draft.key, { valueText })}
+                keyboardType="numeric"
+              />
+              <Text style={[styles.unit, { color: themeColors.text.secondary }]}>{METRIC_UNITS[condition.metric]}</Text>
+            </View>
+          </>
+        );
+
+      case 'flag':
+        return (
+          <>
+            <View style={styles.chipRow}>
+              {FLAGS.map((flag) =>
+                renderChip(flag, t(`automation.flags.${flag}`), condition.flag === flag, () =>
+                  patchCondition<'flag'>(draft, { flag })
+                )
+              )}
+            </View>
+            <View style={styles.chipRow}>
+              {[true, false].map((value) =>
+                renderChip(String(value), value ? t('common.on') : t('common.off'), condition.value === value, () =>
+                  patchCondition<'flag'>(draft, { value })
+                )
+              )}
+            </View>
+          </>
+        );
+
+      case 'time':
+        return (
+          <>
+            <View style={styles.inlineRow}>
+              <Text style={[styles.unit, { color: themeColors.text.secondary }]}>{t('common.from')}</Text>
+              <TextInput
+                style={[...inputStyle, styles.inlineInput]}
+                value={condition.from}
+                onChangeText={(from) => patchCondition<'time'>(draft, { from })}
+                placeholder={t('types.timeFormat')}
+                placeholderTextColor={themeColors.text.disabled}
+                maxLength={5}
+              />
+              <Text style={[styles.unit, { color: themeColors.text.secondary }]}>{t('common.to')}</Text>
+              <TextInput
+                style={[...inputStyle, styles.inlineInput]}
+                value={condition.to}
+                onChangeText={(to) => patchCondition<'time'>(draft, { to })}
+                placeholder={t('types.timeFormat')}
+                placeholderTextColor={themeColors.text.disabled}
+                maxLength={5}
+              />
+            </View>
+            <View style={styles.chipRow}>
+              {DAY_KEYS.map((day, index) =>
+                renderChip(day, t(`settings.schedule.daysOfWeek.${day}`), condition.days.includes(index), () =>
+                  patchCondition<'time'>(draft, {
+                    days: condition.days.includes(index)
+                      ? condition.days.filter((d) => d !== index)
+                      : [...condition.days, index],
+                  })
+                )
+              )}
+            </View>
+          </>
+        );
+
+      case 'event':
+        return (
+          <View style={styles.chipRow}>
+            {EVENT_TYPES.map((eventType) =>
+              renderChip(eventType, eventTypeLabel(eventType, t), condition.eventType === eventType, () =>
+                patchCondition<'event'>(draft, { eventType })
+              )
+            )}
+          </View>
+        );
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>
+          {existing ? t('automation.editor.editTitle') : t('automation.editor.newTitle')}
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.explanation, { color: themeColors.text.secondary }]}>{device?.name ?? deviceId}</Text>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('automation.editor.name')}</Text>
+          <TextInput
+            style={inputStyle}
+            value={name}
+            onChangeText={setName}
+            placeholder={t('automation.editor.namePlaceholder')}
+            placeholderTextColor={themeColors.text.disabled}
+          />
+        </View>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('automation.editor.conditions')}</Text>
+          <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('automation.editor.conditionsHint')}</Text>
+
+          {conditions.map((draft) => (
+            <View key={draft.key} style={[styles.condition, { borderTopColor: themeColors.border }]}>
+              <View style={styles.row}>
+                <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                  {t(`automation.editor.kinds.${draft.condition.kind}`)}
+                </Text>
+                <TouchableOpacity onPress={() => removeCondition(draft.key)}>
+                  <MaterialCommunityIcons name="close-circle-outline" size={20} color={themeColors.danger} />
+                </TouchableOpacity>
+              </View>
+              {renderConditionFields(draft)}
+            </View>
+          ))}
+
+          <Text style={[styles.label, styles.sectionLabel, { color: themeColors.text.secondary }]}>
+            {t('automation.editor.addCondition')}
+          </Text>
+          <View style={styles.chipRow}>
+            {(Object.keys(NEW_CONDITIONS) as RuleCondition['kind'][]).map((kind) =>
+              renderChip(kind, t(`automation.editor.kinds.${kind}`), false, () => addCondition(kind))
+            )}
+          </View>
+
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('automation.editor.hold')}</Text>
+          <TextInput style={inputStyle} value={holdText} onChangeText={setHoldText} keyboardType="number-pad" />
+          <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('automation.editor.holdHint')}</Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('automation.editor.action')}</Text>
+
+          <View style={styles.chipRow}>
+            {renderChip('relay', t('automation.editor.actionKinds.relay'), action.kind === 'relay', () =>
+              setAction({ kind: 'relay', state: false })
+            )}
+            {renderChip('notify', t('automation.editor.actionKinds.notify'), action.kind === 'notify', () =>
+              setAction({ kind: 'notify', message: '' })
+            )}
+            {renderChip('profile', t('automation.editor.actionKinds.profile'), action.kind === 'profile', () =>
+              setAction({ kind: 'profile', profileId: profiles[0]?.id ?? '' })
+            )}
+          </View>
+
+          {action.kind === 'relay' && (
+            <View style={styles.chipRow}>
+              {[true, false].map((state) =>
+                renderChip(String(state), state ? t('common.on') : t('common.off'), action.state === state, () =>
+                  setAction({ kind: 'relay', state })
+                )
+              )}
+            </View>
+          )}
+
+          {action.kind === 'notify' && (
+            <TextInput
+              style={inputStyle}
+              value={action.message}
+              onChangeText={(message) => setAction({ kind: 'notify', message })}
+              placeholder={t('automation.editor.messagePlaceholder')}
+              placeholderTextColor={themeColors.text.disabled}
+            />
+          )}
+
+          {action.kind === 'profile' &&
+            (profiles.length === 0 ? (
+              <Text style={[styles.hint, { color: themeColors.warning }]}>{t('automation.editor.noProfilesYet')}</Text>
+            ) : (
+              <View style={styles.chipRow}>
+                {profiles.map((profile) =>
+                  renderChip(profile.id, profile.name, action.profileId === profile.id, () =>
+                    setAction({ kind: 'profile', profileId: profile.id })
+                  )
+                )}
+              </View>
+            ))}
+        </View>
+
+        {errors.length > 0 && (
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+            {errors.map((error) => (
+              <Text key={error} style={[styles.hint, { color: themeColors.danger }]}>
+                {t(`automation.errors.${error}`)}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.primaryButton} onPress={save}>
+          <LinearGradient colors={['#0EA5E9', '#2563EB']} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }} style={styles.gradientButton}>
+            <MaterialCommunityIcons name="content-save-outline" size={22} color="white" />
+            <Text style={styles.primaryButtonText}>{t('automation.editor.save')}</Text>
+          </LinearGradient>
+        </TouchableOpacity>
+
+        {existing && (
+          <TouchableOpacity style={[styles.outlineButton, { borderColor: themeColors.danger }]} onPress={remove}>
+            <MaterialCommunityIcons name="trash-can-outline" size={18} color={themeColors.danger} />
+            <Text style={[styles.outlineButtonText, { color: themeColors.danger }]}>{t('automation.editor.delete')}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  explanation: {
+    ...typography.bodySmall,
+    marginBottom: spacing.md,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  condition: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  label: {
+    ...typography.body,
+  },
+  sectionLabel: {
+    marginTop: spacing.md,
+  },
+  value: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  hint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  unit: {
+    ...typography.body,
+  },
+  input: {
+    ...typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: borderRadius.medium,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  chipText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.sm,
+  },
+  outlineButtonText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,288 @@
+// Automation Screen - the breaker's rules, the settings profiles they switch to, and what they did
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Switch, TextInput, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useElectricalStore, useDeviceStore, useSettingsStore, useAutomationStore } from '../store';
+import { RuleRunOutcome, SettingsProfile } from '../types';
+import { getRelativeTime, describeAction, describeRule } from '../utils';
+
+const MAX_LOG_ROWS = 30;
+
+export default function AutomationScreen() {
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
+  const device = useDeviceStore((state) => state.devices.find((d) => d.id === activeDeviceId));
+  const thresholds = useSettingsStore((state) => state.settings.thresholds);
+  const allRules = useAutomationStore((state) => state.rules);
+  const profiles = useAutomationStore((state) => state.profiles);
+  const allRuns = useAutomationStore((state) => state.runs);
+  const { setRuleEnabled, addProfile, deleteProfile, clearRuns } = useAutomationStore();
+
+  const [profileName, setProfileName] = useState('');
+
+  const rules = allRules.filter((rule) => rule.deviceId === activeDeviceId);
+  const runs = allRuns.filter((run) => run.deviceId === activeDeviceId).slice(0, MAX_LOG_ROWS);
+
+  const saveProfile = () => {
+    addProfile(profileName.trim(), thresholds);
+    setProfileName('');
+  };
+
+  const removeProfile = (profile: SettingsProfile) => {
+    const usedBy = allRules.filter((rule) => rule.action.kind === 'profile' && rule.action.profileId === profile.id);
+    if (usedBy.length === 0) {
+      deleteProfile(profile.id);
+      return;
+    }
+    Alert.alert(t('automation.deleteProfileTitle'), t('automation.deleteProfileInUse', { rules: usedBy.map((rule) => rule.name).join(', ') }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('common.delete'), style: 'destructive', onPress: () => deleteProfile(profile.id) },
+    ]);
+  };
+
+  const outcomeColor = (outcome: RuleRunOutcome) =>
+    outcome === 'done' ? themeColors.success : outcome === 'failed' ? themeColors.danger : themeColors.warning;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>{t('automation.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.explanation, { color: themeColors.text.secondary }]}>{t('automation.explanation')}</Text>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('automation.rules')}</Text>
+          <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{device?.name ?? activeDeviceId}</Text>
+
+          {rules.length === 0 ? (
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('automation.noRules')}</Text>
+          ) : (
+            rules.map((rule) => (
+              <View key={rule.id} style={[styles.ruleRow, { borderTopColor: themeColors.border }]}>
+                <TouchableOpacity
+                  style={styles.ruleInfo}
+                  onPress={() => router.push({ pathname: '/automation-rule', params: { id: rule.id } })}
+                >
+                  <Text style={[styles.ruleName, { color: themeColors.text.primary }]}>{rule.name}</Text>
+                  <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>
+                    {describeRule(rule, profiles, t)}
+                  </Text>
+                </TouchableOpacity>
+                <Switch
+                  value={rule.enabled}
+                  onValueChange={(enabled) => setRuleEnabled(rule.id, enabled)}
+                  trackColor={{ false: themeColors.border, true: themeColors.primary }}
+                />
+              </View>
+            ))
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/automation-rule')}>
+          <LinearGradient colors={['#0EA5E9', '#2563EB']} start={{ x: 0, y: 0 }} end={{ x: 1, y: 1 }} style={styles.gradientButton}>
+            <MaterialCommunityIcons name="plus" size={22} color="white" />
+            <Text style={styles.primaryButtonText}>{t('automation.newRule')}</Text>
+          </LinearGradient>
+        </TouchableOpacity>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('automation.profiles')}</Text>
+          <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('automation.profilesHint')}</Text>
+
+          {profiles.length === 0 ? (
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('automation.noProfiles')}</Text>
+          ) : (
+            profiles.map((profile) => (
+              <View key={profile.id} style={styles.row}>
+                <View style={styles.ruleInfo}>
+                  <Text style={[styles.ruleName, { color: themeColors.text.primary }]}>{profile.name}</Text>
+                  <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>
+                    {t('automation.profileThresholds', {
+                      min: profile.thresholds.voltage.min,
+                      max: profile.thresholds.voltage.max,
+                      current: profile.thresholds.current.max,
+                    })}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => removeProfile(profile)}>
+                  <MaterialCommunityIcons name="trash-can-outline" size={20} color={themeColors.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <TextInput
+            style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+            placeholder={t('automation.profileName')}
+            placeholderTextColor={themeColors.text.disabled}
+            value={profileName}
+            onChangeText={setProfileName}
+          />
+          <TouchableOpacity
+            style={[styles.outlineButton, { borderColor: themeColors.primary, opacity: profileName.trim() ? 1 : 0.5 }]}
+            onPress={saveProfile}
+            disabled={!profileName.trim()}
+          >
+            <MaterialCommunityIcons name="content-save-outline" size={18} color={themeColors.primary} />
+            <Text style={[styles.outlineButtonText, { color: themeColors.primary }]}>{t('automation.saveProfile')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('automation.log')}</Text>
+
+          {runs.length === 0 ? (
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('automation.noRuns')}</Text>
+          ) : (
+            runs.map((run) => (
+              <View key={run.id} style={styles.row}>
+                <View style={styles.ruleInfo}>
+                  <Text style={[styles.ruleName, { color: themeColors.text.primary }]}>{run.ruleName}</Text>
+                  <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>
+                    {getRelativeTime(run.firedAt)} · {describeAction(run.action, profiles, t)}
+                  </Text>
+                  {run.detail && (
+                    <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>{run.detail}</Text>
+                  )}
+                </View>
+                <Text style={[styles.value, { color: outcomeColor(run.outcome) }]}>{t(`automation.outcome.${run.outcome}`)}</Text>
+              </View>
+            ))
+          )}
+
+          {runs.length > 0 && (
+            <TouchableOpacity
+              style={[styles.outlineButton, { borderColor: themeColors.danger }]}
+              onPress={() => clearRuns(activeDeviceId)}
+            >
+              <MaterialCommunityIcons name="delete-sweep-outline" size={18} color={themeColors.danger} />
+              <Text style={[styles.outlineButtonText, { color: themeColors.danger }]}>{t('automation.clearLog')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  explanation: {
+    ...typography.bodySmall,
+    marginBottom: spacing.md,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    marginTop: spacing.xs,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  ruleInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  ruleName: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  value: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  hint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  statLabel: {
+    ...typography.caption,
+  },
+  input: {
+    ...typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: borderRadius.medium,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.md,
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.md,
+  },
+  outlineButtonText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,438 @@
+// Firmware Update Screen - check a manifest against the active breaker and flash it with confirmation
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useElectricalStore, useDeviceStore, useSettingsStore } from '../store';
+import { getFirmwareUpdater } from '../services/firmwareUpdate';
+import { getDeviceApi } from '../services/esp32Api';
+import { FIRMWARE_UPDATE_MAX_LOAD } from '../utils/constants';
+import {
+  FirmwareCheck,
+  FirmwareStatusPayload,
+  FirmwareUpdateFailure,
+  FirmwareUpdateStage,
+} from '../types';
+
+type Failure = FirmwareUpdateFailure | 'manifest_unreachable' | 'manifest_invalid' | 'rollback_failed';
+
+export default function FirmwareUpdateScreen() {
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
+  const device = useDeviceStore((state) => state.devices.find((d) => d.id === activeDeviceId));
+  const { settings, updateSettings } = useSettingsStore();
+
+  const [manifestUrl, setManifestUrl] = useState(settings.device.firmwareManifestUrl ?? '');
+  const [loadLimit, setLoadLimit] = useState(String(settings.device.updateLoadLimit ?? FIRMWARE_UPDATE_MAX_LOAD));
+  const [check, setCheck] = useState<FirmwareCheck | null>(null);
+  const [firmwareStatus, setFirmwareStatus] = useState<FirmwareStatusPayload | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [stage, setStage] = useState<FirmwareUpdateStage | null>(null);
+  const [progress, setProgress] = useState<number | undefined>(undefined);
+  const [failure, setFailure] = useState<Failure | null>(null);
+  const [installedVersion, setInstalledVersion] = useState<string | null>(null);
+
+  const isBusy = stage !== null;
+
+  const loadFirmwareStatus = useCallback(async () => {
+    const result = await getDeviceApi(activeDeviceId).getFirmwareStatus();
+    setFirmwareStatus(result.ok ? result.value : null);
+  }, [activeDeviceId]);
+
+  useEffect(() => {
+    loadFirmwareStatus();
+  }, [loadFirmwareStatus]);
+
+  const saveLoadLimit = () => {
+    const value = parseFloat(loadLimit);
+    if (!Number.isFinite(value) || value < 0) {
+      setLoadLimit(String(settings.device.updateLoadLimit ?? FIRMWARE_UPDATE_MAX_LOAD));
+      return;
+    }
+    updateSettings({ device: { ...settings.device, updateLoadLimit: value } });
+  };
+
+  const handleCheck = async () => {
+    const source = manifestUrl.trim();
+    if (!source) return;
+
+    setIsChecking(true);
+    setFailure(null);
+    setInstalledVersion(null);
+    updateSettings({ device: { ...settings.device, firmwareManifestUrl: source } });
+
+    const result = await getFirmwareUpdater().check(activeDeviceId, source);
+    setIsChecking(false);
+
+    if (result.ok) {
+      setCheck(result.check);
+    } else {
+      setCheck(null);
+      setFailure(
+        result.reason === 'not_connected'
+          ? 'not_connected'
+          : result.reason === 'invalid'
+            ? 'manifest_invalid'
+            : 'manifest_unreachable'
+      );
+    }
+  };
+
+  const runUpdate = async () => {
+    if (!check) return;
+
+    setFailure(null);
+    setStage('downloading');
+    const result = await getFirmwareUpdater().update(activeDeviceId, check, (nextStage, fraction) => {
+      setStage(nextStage);
+      setProgress(fraction);
+    });
+    setStage(null);
+    setProgress(undefined);
+
+    if (result.ok) {
+      setInstalledVersion(result.version);
+      setCheck({ ...check, currentVersion: result.version, updateAvailable: false });
+    } else {
+      setFailure(result.reason);
+    }
+    loadFirmwareStatus();
+  };
+
+  const handleUpdate = async () => {
+    if (!check) return;
+
+    const load = await getFirmwareUpdater().checkLoad(activeDeviceId);
+    if (!load.ok) {
+      setFailure(load.reason === 'unknown' ? 'not_connected' : 'load_too_high');
+      return;
+    }
+
+    Alert.alert(
+      t('firmware.confirm.title', { version: check.manifest.version }),
+      check.modelMismatch ? t('firmware.confirm.modelMismatch') : t('firmware.confirm.message'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('firmware.install'), style: check.modelMismatch ? 'destructive' : 'default', onPress: runUpdate },
+      ]
+    );
+  };
+
+  const handleRollback = () => {
+    Alert.alert(
+      t('firmware.rollback.title'),
+      t('firmware.rollback.message', { version: firmwareStatus?.previousVersion ?? '—' }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('firmware.rollback.action'),
+          style: 'destructive',
+          onPress: async () => {
+            setFailure(null);
+            setStage('rolling_back');
+            const version = await getFirmwareUpdater().rollback(activeDeviceId);
+            setStage(null);
+            if (version) {
+              setInstalledVersion(version);
+              setCheck(null);
+            } else {
+              setFailure('rollback_failed');
+            }
+            loadFirmwareStatus();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderProgress = () => (
+    <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+      <View style={styles.stageRow}>
+        <ActivityIndicator size="small" color={themeColors.primary} />
+        <Text style={[styles.cardText, { color: themeColors.text.primary }]}>
+          {t(`firmware.stages.${stage}`)}
+          {progress !== undefined ? ` ${Math.round(progress * 100)}%` : ''}
+        </Text>
+      </View>
+      {progress !== undefined && (
+        <View style={[styles.progressTrack, { backgroundColor: themeColors.border }]}>
+          <View
+            style={[
+              styles.progressFill,
+              { backgroundColor: themeColors.primary, width: `${Math.min(100, progress * 100)}%` },
+            ]}
+          />
+        </View>
+      )}
+      <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('firmware.keepOpen')}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton} disabled={isBusy}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>{t('firmware.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {!device ? (
+          <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>{t('firmware.noDevice')}</Text>
+        ) : (
+          <>
+            <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+              <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{device.name}</Text>
+              <View style={styles.row}>
+                <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('firmware.installed')}</Text>
+                <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                  {firmwareStatus?.version ?? check?.currentVersion ?? '—'}
+                </Text>
+              </View>
+              {firmwareStatus?.state === 'pending_verify' && (
+                <Text style={[styles.hint, { color: themeColors.warning }]}>{t('firmware.pendingVerify')}</Text>
+              )}
+              {firmwareStatus?.canRollback && firmwareStatus.previousVersion && (
+                <TouchableOpacity style={styles.row} onPress={handleRollback} disabled={isBusy}>
+                  <Text style={[styles.linkText, { color: themeColors.danger }]}>
+                    {t('firmware.rollback.button', { version: firmwareStatus.previousVersion })}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('firmware.manifest')}</Text>
+              <TextInput
+                style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+                placeholder="https://example.com/smartcb/manifest.json"
+                placeholderTextColor={themeColors.text.disabled}
+                value={manifestUrl}
+                onChangeText={setManifestUrl}
+                onSubmitEditing={handleCheck}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                editable={!isBusy}
+              />
+
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('firmware.loadLimit')}</Text>
+              <TextInput
+                style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+                value={loadLimit}
+                onChangeText={setLoadLimit}
+                onEndEditing={saveLoadLimit}
+                keyboardType="numeric"
+                editable={!isBusy}
+              />
+              <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('firmware.loadLimitHint')}</Text>
+
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: themeColors.primary, opacity: isChecking || isBusy ? 0.5 : 1 }]}
+                onPress={handleCheck}
+                disabled={isChecking || isBusy || !manifestUrl.trim()}
+              >
+                {isChecking ? (
+                  <ActivityIndicator size="small" color={themeColors.primary} />
+                ) : (
+                  <Text style={[styles.linkText, { color: themeColors.primary }]}>{t('firmware.check')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            {check && (
+              <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+                <View style={styles.row}>
+                  <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('firmware.available')}</Text>
+                  <Text style={[styles.value, { color: themeColors.text.primary }]}>{check.manifest.version}</Text>
+                </View>
+                {check.manifest.releasedAt && (
+                  <View style={styles.row}>
+                    <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('firmware.released')}</Text>
+                    <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                      {new Date(check.manifest.releasedAt).toLocaleDateString()}
+                    </Text>
+                  </View>
+                )}
+                {check.manifest.notes && (
+                  <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>{check.manifest.notes}</Text>
+                )}
+                {check.modelMismatch && (
+                  <Text style={[styles.hint, { color: themeColors.danger }]}>{t('firmware.modelMismatch')}</Text>
+                )}
+                {!check.updateAvailable && (
+                  <Text style={[styles.hint, { color: themeColors.success }]}>{t('firmware.upToDate')}</Text>
+                )}
+              </View>
+            )}
+
+            {isBusy && renderProgress()}
+
+            {installedVersion && !isBusy && (
+              <View style={[styles.messageContainer, { backgroundColor: themeColors.success + '20' }]}>
+                <Text style={[styles.messageText, { color: themeColors.success }]}>
+                  {t('firmware.success', { version: installedVersion })}
+                </Text>
+              </View>
+            )}
+
+            {failure && !isBusy && (
+              <View style={[styles.messageContainer, { backgroundColor: themeColors.danger + '20' }]}>
+                <Text style={[styles.messageText, { color: themeColors.danger }]}>
+                  {t(`firmware.errors.${failure}`, { limit: settings.device.updateLoadLimit ?? FIRMWARE_UPDATE_MAX_LOAD })}
+                </Text>
+              </View>
+            )}
+
+            {check?.updateAvailable && !isBusy && (
+              <TouchableOpacity style={styles.primaryButton} onPress={handleUpdate}>
+                <LinearGradient
+                  colors={['#0EA5E9', '#2563EB']}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 1 }}
+                  style={styles.gradientButton}
+                >
+                  <MaterialCommunityIcons name="download" size={22} color="white" />
+                  <Text style={styles.primaryButtonText}>
+                    {t('firmware.installVersion', { version: check.manifest.version })}
+                  </Text>
+                </LinearGradient>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  cardText: {
+    ...typography.body,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  label: {
+    ...typography.body,
+  },
+  value: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  hint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  input: {
+    ...typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: borderRadius.medium,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  linkText: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  stageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginTop: spacing.md,
+  },
+  progressFill: {
+    height: '100%',
+  },
+  messageContainer: {
+    padding: spacing.md,
+    borderRadius: borderRadius.medium,
+    marginBottom: spacing.md,
+  },
+  messageText: {
+    ...typography.bodySmall,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
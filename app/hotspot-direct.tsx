@@ -54,7 +54,7 @@ export default function HotspotDirectScreen() {
 
         // Step 2: Connect to device
         setConnectionStep(2);
-        const connected = await connectToESP32('192.168.4.1');
+        const { ok: connected } = await connectToESP32('192.168.4.1');
 
         if (connected) {
           // Step 3: Success!
@@ -56,7 +56,7 @@ export default function SimpleLinkDeviceScreen() {
 
       // Step 2: Connect using store
       setStatus('Connecting...');
-      const connected = await connectToESP32('192.168.4.1');
+      const { ok: connected } = await connectToESP32('192.168.4.1');
 
       if (connected) {
         setStatus('✅ Connected! Redirecting...');
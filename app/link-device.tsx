@@ -6,6 +6,8 @@ import {
   StyleSheet,
   TouchableOpacity,
   ActivityIndicator,
+  ScrollView,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MaterialCommunityIcons } from '@expo/vector-icons';
@@ -14,11 +16,29 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { colors, spacing, typography, borderRadius } from '../theme';
 import { useThemeStore, useElectricalStore } from '../store';
 import { SuccessModal } from '../components/SuccessModal';
+import { useESP32Connection } from '../hooks/useESP32Connection';
+import { ConnectResult, DiscoveredDevice } from '../types';
+
+type ConnectFailure = Extract<ConnectResult, { ok: false }>['reason'];
+
+// What went wrong, in terms of what the user can do about it
+const CONNECT_FAILURES: Record<ConnectFailure, string> = {
+  incompatible: 'Incompatible firmware - update the ESP32 firmware to use this app',
+  timeout: 'The ESP32 did not answer in time - move closer or check its power',
+  unreachable: 'Could not reach the ESP32 - check that it is on and on this network',
+  http: 'The ESP32 answered with an error - restart it and try again',
+  auth: 'The ESP32 refused this phone - pair it again from Settings',
+  malformed: 'The ESP32 sent an unreadable reply - its firmware may need an update',
+  invalid: 'The ESP32 sent readings this app does not understand - its firmware may need an update',
+  rejected: 'The ESP32 refused the request',
+  closed: 'The ESP32 closed the connection - try again',
+};
 
 export default function SimpleLinkDeviceScreen() {
   const router = useRouter();
   const { theme } = useThemeStore();
   const { connectToESP32 } = useElectricalStore();
+  const { isScanning, discoveredDevices, scanForDevices } = useESP32Connection();
   const themeColors = colors[theme];
 
   const [isConnecting, setIsConnecting] = useState(false);
@@ -26,6 +46,7 @@ export default function SimpleLinkDeviceScreen() {
   const [error, setError] = useState('');
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [deviceData, setDeviceData] = useState<any>(null);
+  const [manualAddress, setManualAddress] = useState('');
 
   const handleConnect = async () => {
     setIsConnecting(true);
@@ -61,9 +82,9 @@ export default function SimpleLinkDeviceScreen() {
       setStatus('Connecting...');
 
       // Connect to ESP32 - this will start real-time updates
-      const connected = await connectToESP32('192.168.4.1');
+      const result = await connectToESP32('192.168.4.1');
 
-      if (connected) {
+      if (result.ok) {
         setStatus('✅ Connected!');
 
         // Save device data for the success modal
@@ -72,7 +93,7 @@ export default function SimpleLinkDeviceScreen() {
         // Show success modal
         setShowSuccessModal(true);
       } else {
-        throw new Error('Failed to establish connection');
+        throw new Error(CONNECT_FAILURES[result.reason]);
       }
 
     } catch (error: any) {
@@ -90,6 +111,41 @@ export default function SimpleLinkDeviceScreen() {
     }
   };
 
+  // Breaker at a known LAN address (discovery result or typed in)
+  const connectToAddress = async (ip: string, port: string, label: string) => {
+    setIsConnecting(true);
+    setError('');
+    setStatus(`Connecting to ${label}...`);
+
+    try {
+      const result = await connectToESP32(ip, port);
+
+      if (result.ok) {
+        setStatus('✅ Connected!');
+        setDeviceData(useElectricalStore.getState().data);
+        setShowSuccessModal(true);
+      } else {
+        setError(`❌ ${ip}:${port}: ${CONNECT_FAILURES[result.reason]}`);
+        setStatus('');
+      }
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleConnectDiscovered = (device: DiscoveredDevice) =>
+    connectToAddress(device.ip, device.port, device.deviceName || device.ip);
+
+  // "192.168.1.50" or "192.168.1.50:8080" - e.g. the development simulator
+  const handleConnectManual = () => {
+    const [ip, port = '80'] = manualAddress.trim().split(':');
+    if (!ip || !/^\d+$/.test(port)) {
+      setError('❌ Enter an address like 192.168.1.50 or 192.168.1.50:8080');
+      return;
+    }
+    connectToAddress(ip, port, `${ip}:${port}`);
+  };
+
   const handleGetStarted = () => {
     setShowSuccessModal(false);
     router.replace('/(tabs)');
@@ -97,7 +153,7 @@ export default function SimpleLinkDeviceScreen() {
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
-      <View style={styles.content}>
+      <ScrollView contentContainerStyle={styles.content}>
         {/* Header */}
         <View style={styles.header}>
           <MaterialCommunityIcons
@@ -179,6 +235,80 @@ export default function SimpleLinkDeviceScreen() {
           </LinearGradient>
         </TouchableOpacity>
 
+        {/* Move a breaker from its hotspot onto the home WiFi */}
+        <TouchableOpacity
+          style={[styles.searchButton, { borderColor: themeColors.primary }]}
+          onPress={() => router.push('/provision-wifi')}
+          disabled={isConnecting}
+        >
+          <MaterialCommunityIcons name="wifi-cog" size={22} color={themeColors.primary} />
+          <Text style={[styles.searchButtonText, { color: themeColors.primary }]}>
+            Set up home WiFi for a new breaker
+          </Text>
+        </TouchableOpacity>
+
+        {/* LAN Discovery */}
+        <TouchableOpacity
+          style={[styles.searchButton, { borderColor: themeColors.primary, opacity: isScanning || isConnecting ? 0.5 : 1 }]}
+          onPress={scanForDevices}
+          disabled={isScanning || isConnecting}
+        >
+          {isScanning ? (
+            <ActivityIndicator size="small" color={themeColors.primary} />
+          ) : (
+            <MaterialCommunityIcons name="access-point-network" size={22} color={themeColors.primary} />
+          )}
+          <Text style={[styles.searchButtonText, { color: themeColors.primary }]}>
+            {isScanning ? 'Searching your network...' : 'Already on WiFi? Search this network'}
+          </Text>
+        </TouchableOpacity>
+
+        {discoveredDevices.map((device) => (
+          <TouchableOpacity
+            key={device.ip}
+            style={[styles.discoveredCard, { backgroundColor: themeColors.surface }]}
+            onPress={() => handleConnectDiscovered(device)}
+            disabled={isConnecting}
+          >
+            <MaterialCommunityIcons name="lightning-bolt-circle" size={32} color={themeColors.primary} />
+            <View style={styles.discoveredInfo}>
+              <Text style={[styles.discoveredName, { color: themeColors.text.primary }]}>
+                {device.deviceName || 'SmartCB Device'}
+              </Text>
+              <Text style={[styles.discoveredDetail, { color: themeColors.text.secondary }]}>
+                {[device.model, device.firmwareVersion && `v${device.firmwareVersion}`].filter(Boolean).join(' • ') || 'Unknown model'}
+              </Text>
+              <Text style={[styles.discoveredDetail, { color: themeColors.text.secondary }]}>
+                {device.ip}
+              </Text>
+            </View>
+            <MaterialCommunityIcons name="chevron-right" size={24} color={themeColors.text.secondary} />
+          </TouchableOpacity>
+        ))}
+
+        {/* Manual address */}
+        <View style={[styles.manualRow, { backgroundColor: themeColors.surface }]}>
+          <TextInput
+            style={[styles.manualInput, { color: themeColors.text.primary }]}
+            placeholder="Or enter an address (192.168.1.50:8080)"
+            placeholderTextColor={themeColors.text.disabled}
+            value={manualAddress}
+            onChangeText={setManualAddress}
+            onSubmitEditing={handleConnectManual}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            editable={!isConnecting}
+          />
+          <TouchableOpacity
+            onPress={handleConnectManual}
+            disabled={isConnecting || !manualAddress.trim()}
+            style={{ opacity: isConnecting || !manualAddress.trim() ? 0.4 : 1 }}
+          >
+            <MaterialCommunityIcons name="arrow-right-circle" size={32} color={themeColors.primary} />
+          </TouchableOpacity>
+        </View>
+
         {/* Demo Mode Link */}
         <TouchableOpacity
           style={styles.demoButton}
@@ -188,7 +318,7 @@ export default function SimpleLinkDeviceScreen() {
             Continue in Demo Mode
           </Text>
         </TouchableOpacity>
-      </View>
+      </ScrollView>
 
       {/* 🎉 SUCCESS MODAL */}
       <SuccessModal
@@ -208,8 +338,9 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   content: {
-    flex: 1,
+    flexGrow: 1,
     paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
     justifyContent: 'center',
   },
   header: {
@@ -306,6 +437,52 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  searchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.large,
+    borderWidth: 1,
+    marginBottom: spacing.md,
+  },
+  searchButtonText: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  discoveredCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.sm,
+    gap: spacing.md,
+  },
+  discoveredInfo: {
+    flex: 1,
+  },
+  discoveredName: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  discoveredDetail: {
+    ...typography.bodySmall,
+  },
+  manualRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingLeft: spacing.md,
+    paddingRight: spacing.sm,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+    gap: spacing.sm,
+  },
+  manualInput: {
+    flex: 1,
+    height: 48,
+    ...typography.body,
+  },
   demoButton: {
     alignItems: 'center',
     paddingVertical: spacing.md,
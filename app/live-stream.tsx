@@ -0,0 +1,408 @@
+// Live Stream Screen - a few seconds of high-rate readings for inrush and relay chatter
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useElectricalStore, useStreamStore } from '../store';
+import { getLiveStream, STREAM_RATES, STREAM_DURATIONS } from '../services/liveStream';
+import { SkiaLineChart } from '../components/charts/SkiaLineChart';
+import { SavedCapture, StreamSample } from '../types';
+import { getRelativeTime } from '../utils';
+
+type Metric = 'current' | 'voltage' | 'power';
+
+const METRICS: { key: Metric; color: string; unit: string }[] = [
+  { key: 'current', color: '#FFA726', unit: 'A' },
+  { key: 'voltage', color: '#42A5F5', unit: 'V' },
+  { key: 'power', color: '#66BB6A', unit: 'W' },
+];
+
+const LIVE_WINDOW = 5000;   // ms shown while streaming; the whole capture once it ends
+const MAX_POINTS = 300;     // Chart points - buckets keep their min and max so spikes survive
+
+const chartPoints = (samples: StreamSample[], metric: Metric) => {
+  const step = Math.ceil(samples.length / (MAX_POINTS / 2));
+  if (step <= 1) return samples;
+
+  const points: StreamSample[] = [];
+  for (let i = 0; i < samples.length; i += step) {
+    const bucket = samples.slice(i, i + step);
+    const low = bucket.reduce((a, b) => (b[metric] < a[metric] ? b : a));
+    const high = bucket.reduce((a, b) => (b[metric] > a[metric] ? b : a));
+    points.push(...(low.t <= high.t ? [low, high] : [high, low]));
+  }
+  return points;
+};
+
+export default function LiveStreamScreen() {
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
+  const connection = useElectricalStore((state) => state.connection);
+  const capture = useStreamStore((state) => state.captures[activeDeviceId]);
+
+  const [rate, setRate] = useState(STREAM_RATES[STREAM_RATES.length - 1]);
+  const [duration, setDuration] = useState(STREAM_DURATIONS[1]);
+  const [metric, setMetric] = useState<Metric>('current');
+  const [saved, setSaved] = useState<SavedCapture[]>([]);
+
+  const running = capture?.status === 'starting' || capture?.status === 'streaming';
+  const canStream = connection.isConnected && connection.transport === 'websocket';
+  const selected = METRICS.find((item) => item.key === metric) ?? METRICS[0];
+
+  useEffect(() => {
+    getLiveStream().listSaved().then(setSaved);
+  }, []);
+
+  const visible = useMemo(() => {
+    const samples = capture?.samples ?? [];
+    if (!running || samples.length === 0) return samples;
+    const since = samples[samples.length - 1].t - LIVE_WINDOW;
+    return samples.filter((sample) => sample.t >= since);
+  }, [capture?.samples, running]);
+
+  const points = useMemo(() => chartPoints(visible, metric), [visible, metric]);
+
+  const stats = useMemo(() => {
+    const samples = capture?.samples ?? [];
+    if (samples.length === 0) return null;
+    return {
+      peakCurrent: Math.max(...samples.map((sample) => sample.current)),
+      minVoltage: Math.min(...samples.map((sample) => sample.voltage)),
+      peakPower: Math.max(...samples.map((sample) => sample.power)),
+    };
+  }, [capture?.samples]);
+
+  const save = async () => {
+    const file = await getLiveStream().save(activeDeviceId);
+    if (file) {
+      setSaved(await getLiveStream().listSaved());
+      Alert.alert(t('liveStream.savedTitle'), t('liveStream.savedMessage', { name: file.name }));
+    } else {
+      Alert.alert(t('common.error'), t('liveStream.saveFailed'));
+    }
+  };
+
+  const remove = async (file: SavedCapture) => {
+    await getLiveStream().deleteSaved(file.uri);
+    setSaved(await getLiveStream().listSaved());
+  };
+
+  const statusColor =
+    capture?.status === 'failed'
+      ? themeColors.danger
+      : running
+        ? themeColors.success
+        : themeColors.text.secondary;
+
+  const renderChips = <T extends number | string>(
+    options: T[],
+    value: T,
+    onSelect: (option: T) => void,
+    label: (option: T) => string
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={String(option)}
+          style={[
+            styles.chip,
+            { borderColor: option === value ? themeColors.primary : themeColors.border },
+            option === value && { backgroundColor: `${themeColors.primary}20` },
+          ]}
+          onPress={() => onSelect(option)}
+          disabled={running}
+        >
+          <Text style={[styles.chipText, { color: option === value ? themeColors.primary : themeColors.text.secondary }]}>
+            {label(option)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>{t('liveStream.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.explanation, { color: themeColors.text.secondary }]}>{t('liveStream.explanation')}</Text>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('liveStream.rate')}</Text>
+          {renderChips(STREAM_RATES, rate, setRate, (option) => t('liveStream.rateValue', { value: option }))}
+
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('liveStream.duration')}</Text>
+          {renderChips(STREAM_DURATIONS, duration, setDuration, (option) => t('liveStream.durationValue', { value: option }))}
+
+          {!canStream && (
+            <Text style={[styles.hint, { color: themeColors.warning }]}>{t('liveStream.needsWebSocket')}</Text>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, { opacity: running || canStream ? 1 : 0.5 }]}
+          onPress={() =>
+            running ? getLiveStream().stop(activeDeviceId) : getLiveStream().start(activeDeviceId, rate, duration)
+          }
+          disabled={!running && !canStream}
+        >
+          <LinearGradient
+            colors={running ? ['#F87171', '#DC2626'] : ['#0EA5E9', '#2563EB']}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={styles.gradientButton}
+          >
+            <MaterialCommunityIcons name={running ? 'stop' : 'record-circle-outline'} size={22} color="white" />
+            <Text style={styles.primaryButtonText}>{running ? t('liveStream.stop') : t('liveStream.start')}</Text>
+          </LinearGradient>
+        </TouchableOpacity>
+
+        {capture && (
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('liveStream.statusLabel')}</Text>
+              <Text style={[styles.value, { color: statusColor }]}>
+                {t(`liveStream.status.${capture.status}`)}
+              </Text>
+            </View>
+            {capture.error && (
+              <Text style={[styles.hint, { color: themeColors.danger }]}>
+                {t(`liveStream.errors.${capture.error}`, { defaultValue: capture.error })}
+              </Text>
+            )}
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('liveStream.samples')}</Text>
+              <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                {t('liveStream.samplesValue', { count: capture.samples.length, rate: capture.rate })}
+              </Text>
+            </View>
+            {capture.lostBatches > 0 && (
+              <View style={styles.row}>
+                <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('liveStream.lost')}</Text>
+                <Text style={[styles.value, { color: themeColors.warning }]}>{capture.lostBatches}</Text>
+              </View>
+            )}
+
+            <View style={[styles.chipRow, styles.metricRow]}>
+              {METRICS.map((item) => (
+                <TouchableOpacity
+                  key={item.key}
+                  style={[
+                    styles.chip,
+                    { borderColor: item.key === metric ? item.color : themeColors.border },
+                    item.key === metric && { backgroundColor: `${item.color}20` },
+                  ]}
+                  onPress={() => setMetric(item.key)}
+                >
+                  <Text style={[styles.chipText, { color: item.key === metric ? item.color : themeColors.text.secondary }]}>
+                    {t(`liveStream.metrics.${item.key}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {points.length > 1 ? (
+              <SkiaLineChart
+                data={points.map((sample) => sample[metric])}
+                timestamps={points.map((sample) => capture.startedAt + sample.t)}
+                title=""
+                color={selected.color}
+                unit={selected.unit}
+                height={240}
+                theme={theme}
+                showStats={false}
+                showTimeline={true}
+                showYAxis={true}
+              />
+            ) : (
+              <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('liveStream.waiting')}</Text>
+            )}
+
+            {stats && (
+              <View style={styles.statsRow}>
+                <View style={styles.stat}>
+                  <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>{t('liveStream.peakCurrent')}</Text>
+                  <Text style={[styles.value, { color: themeColors.text.primary }]}>{stats.peakCurrent.toFixed(2)} A</Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>{t('liveStream.minVoltage')}</Text>
+                  <Text style={[styles.value, { color: themeColors.text.primary }]}>{stats.minVoltage.toFixed(1)} V</Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>{t('liveStream.peakPower')}</Text>
+                  <Text style={[styles.value, { color: themeColors.text.primary }]}>{stats.peakPower.toFixed(0)} W</Text>
+                </View>
+              </View>
+            )}
+
+            {!running && capture.samples.length > 0 && (
+              <TouchableOpacity style={[styles.outlineButton, { borderColor: themeColors.primary }]} onPress={save}>
+                <MaterialCommunityIcons name="content-save-outline" size={18} color={themeColors.primary} />
+                <Text style={[styles.outlineButtonText, { color: themeColors.primary }]}>{t('liveStream.save')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {saved.length > 0 && (
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+            <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('liveStream.savedCaptures')}</Text>
+            {saved.map((file) => (
+              <View key={file.uri} style={styles.row}>
+                <View style={styles.fileInfo}>
+                  <Text style={[styles.fileName, { color: themeColors.text.primary }]} numberOfLines={1}>
+                    {file.name}
+                  </Text>
+                  <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>
+                    {getRelativeTime(file.modifiedAt)} · {(file.size / 1024).toFixed(1)} KB
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => remove(file)}>
+                  <MaterialCommunityIcons name="trash-can-outline" size={20} color={themeColors.danger} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  explanation: {
+    ...typography.bodySmall,
+    marginBottom: spacing.md,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  label: {
+    ...typography.body,
+  },
+  value: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  hint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  metricRow: {
+    marginTop: spacing.md,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  chipText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.md,
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statLabel: {
+    ...typography.caption,
+  },
+  fileInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  fileName: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.md,
+  },
+  outlineButtonText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,349 @@
+// Pairing Screen - give this phone a signing secret for the active breaker and manage paired phones
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useElectricalStore, useDeviceStore, useAuthStore } from '../store';
+import { getPairingService, PairingFailure } from '../services/pairingService';
+import { PairedClientPayload } from '../types';
+import { getRelativeTime } from '../utils';
+
+export default function PairDeviceScreen() {
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
+  const device = useDeviceStore((state) => state.devices.find((d) => d.id === activeDeviceId));
+  const authStatus = useAuthStore((state) => state.status[activeDeviceId] ?? 'not_required');
+  const credentials = useAuthStore((state) => state.credentials[activeDeviceId]);
+
+  const [isPairing, setIsPairing] = useState(false);
+  const [failure, setFailure] = useState<PairingFailure | 'revokeFailed' | null>(null);
+  const [justPaired, setJustPaired] = useState(false);
+  const [phones, setPhones] = useState<PairedClientPayload[] | null>(null);
+  const [isLoadingPhones, setIsLoadingPhones] = useState(false);
+  const [phonesFailed, setPhonesFailed] = useState(false);
+
+  const loadPhones = useCallback(async () => {
+    setIsLoadingPhones(true);
+    const result = await getPairingService().listPhones(activeDeviceId);
+    setIsLoadingPhones(false);
+    setPhonesFailed(result === null);
+    setPhones(result);
+  }, [activeDeviceId]);
+
+  useEffect(() => {
+    if (credentials) {
+      loadPhones();
+    } else {
+      setPhones(null);
+    }
+  }, [credentials, loadPhones]);
+
+  const handlePair = async () => {
+    setIsPairing(true);
+    setFailure(null);
+    setJustPaired(false);
+
+    const result = await getPairingService().pair(activeDeviceId);
+
+    setIsPairing(false);
+    if (result.ok) {
+      setJustPaired(true);
+    } else {
+      setFailure(result.reason);
+    }
+  };
+
+  const confirmRevoke = (phone: PairedClientPayload) => {
+    const isSelf = getPairingService().isThisPhone(activeDeviceId, phone.clientId);
+    const name = isSelf ? t('pairing.phones.thisPhone') : phone.name || t('pairing.phones.unknownName');
+
+    Alert.alert(
+      t('pairing.revokeConfirm.title', { name }),
+      isSelf ? t('pairing.revokeConfirm.selfMessage') : t('pairing.revokeConfirm.message'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('pairing.phones.revoke'),
+          style: 'destructive',
+          onPress: async () => {
+            setFailure(null);
+            const revoked = await getPairingService().revoke(activeDeviceId, phone.clientId);
+            if (!revoked) {
+              setFailure('revokeFailed');
+            } else if (!isSelf) {
+              loadPhones();
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const statusColor =
+    authStatus === 'paired'
+      ? themeColors.success
+      : authStatus === 'not_required'
+        ? themeColors.text.secondary
+        : themeColors.warning;
+
+  const renderPhones = () => (
+    <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+      <View style={styles.cardHeader}>
+        <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
+          {t('pairing.phones.title')}
+        </Text>
+        <TouchableOpacity onPress={loadPhones} disabled={isLoadingPhones}>
+          {isLoadingPhones ? (
+            <ActivityIndicator size="small" color={themeColors.primary} />
+          ) : (
+            <Text style={[styles.linkText, { color: themeColors.primary }]}>{t('pairing.phones.refresh')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {phonesFailed && (
+        <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>
+          {t('pairing.phones.loadFailed')}
+        </Text>
+      )}
+
+      {phones?.length === 0 && (
+        <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>
+          {t('pairing.phones.empty')}
+        </Text>
+      )}
+
+      {phones?.map((phone) => {
+        const isSelf = getPairingService().isThisPhone(activeDeviceId, phone.clientId);
+        return (
+          <View key={phone.clientId} style={[styles.phoneRow, { borderTopColor: themeColors.border }]}>
+            <MaterialCommunityIcons
+              name={isSelf ? 'cellphone-check' : 'cellphone'}
+              size={24}
+              color={isSelf ? themeColors.success : themeColors.text.secondary}
+            />
+            <View style={styles.phoneInfo}>
+              <Text style={[styles.phoneName, { color: themeColors.text.primary }]} numberOfLines={1}>
+                {phone.name || t('pairing.phones.unknownName')}
+                {isSelf ? ` · ${t('pairing.phones.thisPhone')}` : ''}
+              </Text>
+              {(phone.lastSeen ?? phone.pairedAt) != null && (
+                <Text style={[styles.phoneDetail, { color: themeColors.text.secondary }]}>
+                  {phone.lastSeen
+                    ? t('pairing.phones.lastSeen', { time: getRelativeTime(phone.lastSeen) })
+                    : t('pairing.phones.pairedAt', { time: getRelativeTime(phone.pairedAt!) })}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={() => confirmRevoke(phone)}>
+              <Text style={[styles.linkText, { color: themeColors.danger }]}>{t('pairing.phones.revoke')}</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>{t('pairing.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {!device ? (
+          <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>{t('pairing.noDevice')}</Text>
+        ) : (
+          <>
+            <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+              <View style={styles.cardHeader}>
+                <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{device.name}</Text>
+                <View style={[styles.statusPill, { backgroundColor: statusColor + '20' }]}>
+                  <Text style={[styles.statusPillText, { color: statusColor }]}>
+                    {t(`pairing.status.${authStatus}`)}
+                  </Text>
+                </View>
+              </View>
+              <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>
+                {authStatus === 'not_required' && !credentials ? t('pairing.notRequired') : t('pairing.explanation')}
+              </Text>
+            </View>
+
+            {justPaired && (
+              <View style={[styles.messageContainer, { backgroundColor: themeColors.success + '20' }]}>
+                <Text style={[styles.messageText, { color: themeColors.success }]}>{t('pairing.success')}</Text>
+              </View>
+            )}
+
+            {failure && (
+              <View style={[styles.messageContainer, { backgroundColor: themeColors.danger + '20' }]}>
+                <Text style={[styles.messageText, { color: themeColors.danger }]}>
+                  {t(`pairing.errors.${failure}`)}
+                </Text>
+              </View>
+            )}
+
+            {(!credentials || authStatus === 'signature_rejected' || authStatus === 'pairing_required') && (
+              <>
+                <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+                  <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
+                    {t('pairing.instructions.title')}
+                  </Text>
+                  {['step1', 'step2', 'step3'].map((step, index) => (
+                    <Text key={step} style={[styles.step, { color: themeColors.text.secondary }]}>
+                      {index + 1}. {t(`pairing.instructions.${step}`)}
+                    </Text>
+                  ))}
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.primaryButton, { opacity: isPairing ? 0.5 : 1 }]}
+                  onPress={handlePair}
+                  disabled={isPairing}
+                >
+                  <LinearGradient
+                    colors={['#0EA5E9', '#2563EB']}
+                    start={{ x: 0, y: 0 }}
+                    end={{ x: 1, y: 1 }}
+                    style={styles.gradientButton}
+                  >
+                    {isPairing ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <MaterialCommunityIcons name="shield-key" size={22} color="white" />
+                    )}
+                    <Text style={styles.primaryButtonText}>
+                      {isPairing ? t('pairing.pairing') : credentials ? t('pairing.pairAgain') : t('pairing.pair')}
+                    </Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {credentials && renderPhones()}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+  },
+  cardText: {
+    ...typography.body,
+  },
+  statusPill: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.medium,
+  },
+  statusPillText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  step: {
+    ...typography.body,
+    marginVertical: spacing.xs,
+  },
+  messageContainer: {
+    padding: spacing.md,
+    borderRadius: borderRadius.medium,
+    marginBottom: spacing.md,
+  },
+  messageText: {
+    ...typography.bodySmall,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  linkText: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  phoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    gap: spacing.md,
+  },
+  phoneInfo: {
+    flex: 1,
+  },
+  phoneName: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  phoneDetail: {
+    ...typography.bodySmall,
+  },
+});
@@ -0,0 +1,388 @@
+// WiFi Provisioning Screen - move a breaker from its setup hotspot onto the home WiFi
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useElectricalStore, useDeviceStore } from '../store';
+import {
+  getWiFiProvisioning,
+  ProvisioningStage,
+  ProvisioningFailure,
+} from '../services/wifiProvisioning';
+import { WifiNetworkPayload } from '../types';
+
+type Step = 'start' | 'networks' | 'working' | 'done';
+
+const signalIcon = (rssi: number) => {
+  if (rssi >= -60) return 'wifi-strength-4';
+  if (rssi >= -70) return 'wifi-strength-3';
+  if (rssi >= -80) return 'wifi-strength-2';
+  return 'wifi-strength-1';
+};
+
+export default function ProvisionWifiScreen() {
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const { connectToESP32, setActiveDevice } = useElectricalStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const [step, setStep] = useState<Step>('start');
+  const [isScanning, setIsScanning] = useState(false);
+  const [networks, setNetworks] = useState<WifiNetworkPayload[]>([]);
+  const [selected, setSelected] = useState<WifiNetworkPayload | null>(null);
+  const [password, setPassword] = useState('');
+  const [stage, setStage] = useState<ProvisioningStage | null>(null);
+  const [failure, setFailure] = useState<ProvisioningFailure | null>(null);
+  const [deviceName, setDeviceName] = useState('');
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    setFailure(null);
+
+    const found = await getWiFiProvisioning().scanNetworks();
+
+    setIsScanning(false);
+    if (!found) {
+      setFailure('unreachable');
+      return;
+    }
+
+    setNetworks(found);
+    setStep('networks');
+  };
+
+  const handleProvision = async () => {
+    if (!selected) return;
+
+    setStep('working');
+    setFailure(null);
+
+    const result = await getWiFiProvisioning().provision(selected.ssid, password, setStage);
+    setStage(null);
+
+    if (!result.ok) {
+      setFailure(result.reason);
+      setStep('networks');
+      return;
+    }
+
+    // Same breaker may already be registered from its hotspot address
+    const { device } = result;
+    const existing = device.hardwareId
+      ? useDeviceStore.getState().findDeviceByHardwareId(device.hardwareId)
+      : undefined;
+
+    const connected = await connectToESP32(device.ip, device.port, existing?.id);
+    if (connected.ok && existing) {
+      setActiveDevice(existing.id);
+    }
+
+    setDeviceName(device.deviceName || device.ip);
+    setStep('done');
+  };
+
+  const renderFailure = () =>
+    failure && (
+      <View style={[styles.errorContainer, { backgroundColor: themeColors.danger + '20' }]}>
+        <Text style={[styles.errorText, { color: themeColors.danger }]}>
+          {t(`provisioning.errors.${failure}`)}
+        </Text>
+      </View>
+    );
+
+  const renderStart = () => (
+    <>
+      <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+        <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
+          {t('provisioning.start.title')}
+        </Text>
+        <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>
+          {t('provisioning.start.instructions')}
+        </Text>
+      </View>
+
+      {renderFailure()}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, { opacity: isScanning ? 0.5 : 1 }]}
+        onPress={handleScan}
+        disabled={isScanning}
+      >
+        <LinearGradient
+          colors={['#0EA5E9', '#2563EB']}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={styles.gradientButton}
+        >
+          {isScanning ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <MaterialCommunityIcons name="wifi-cog" size={24} color="white" />
+          )}
+          <Text style={styles.primaryButtonText}>
+            {isScanning ? t('provisioning.start.scanning') : t('provisioning.start.scan')}
+          </Text>
+        </LinearGradient>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderNetworks = () => (
+    <>
+      <Text style={[styles.sectionTitle, { color: themeColors.text.primary }]}>
+        {t('provisioning.networks.title')}
+      </Text>
+
+      {networks.map((network) => {
+        const isSelected = selected?.ssid === network.ssid;
+        return (
+          <TouchableOpacity
+            key={network.ssid}
+            style={[
+              styles.networkRow,
+              { backgroundColor: themeColors.surface, borderColor: isSelected ? themeColors.primary : 'transparent' },
+            ]}
+            onPress={() => {
+              setSelected(network);
+              setPassword('');
+              setFailure(null);
+            }}
+          >
+            <MaterialCommunityIcons name={signalIcon(network.rssi)} size={24} color={themeColors.primary} />
+            <Text style={[styles.networkName, { color: themeColors.text.primary }]} numberOfLines={1}>
+              {network.ssid}
+            </Text>
+            {network.secure !== false && (
+              <MaterialCommunityIcons name="lock" size={18} color={themeColors.text.secondary} />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      {networks.length === 0 && (
+        <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>
+          {t('provisioning.networks.empty')}
+        </Text>
+      )}
+
+      <TouchableOpacity style={styles.linkButton} onPress={handleScan} disabled={isScanning}>
+        <Text style={[styles.linkText, { color: themeColors.primary }]}>
+          {isScanning ? t('provisioning.start.scanning') : t('provisioning.networks.rescan')}
+        </Text>
+      </TouchableOpacity>
+
+      {selected && (
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{selected.ssid}</Text>
+          {selected.secure !== false && (
+            <TextInput
+              style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+              placeholder={t('provisioning.networks.password')}
+              placeholderTextColor={themeColors.text.disabled}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          )}
+        </View>
+      )}
+
+      {renderFailure()}
+
+      {selected && (
+        <TouchableOpacity
+          style={[styles.primaryButton, { opacity: selected.secure !== false && !password ? 0.5 : 1 }]}
+          onPress={handleProvision}
+          disabled={selected.secure !== false && !password}
+        >
+          <LinearGradient
+            colors={['#0EA5E9', '#2563EB']}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={styles.gradientButton}
+          >
+            <MaterialCommunityIcons name="send" size={22} color="white" />
+            <Text style={styles.primaryButtonText}>{t('provisioning.networks.send')}</Text>
+          </LinearGradient>
+        </TouchableOpacity>
+      )}
+    </>
+  );
+
+  const renderWorking = () => (
+    <View style={styles.centered}>
+      <ActivityIndicator size="large" color={themeColors.primary} />
+      <Text style={[styles.stageText, { color: themeColors.text.primary }]}>
+        {t(`provisioning.stages.${stage ?? 'sending'}`)}
+      </Text>
+      <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>
+        {t('provisioning.stages.hint')}
+      </Text>
+    </View>
+  );
+
+  const renderDone = () => (
+    <View style={styles.centered}>
+      <MaterialCommunityIcons name="check-circle" size={72} color={themeColors.success} />
+      <Text style={[styles.stageText, { color: themeColors.text.primary }]}>
+        {t('provisioning.done.title')}
+      </Text>
+      <Text style={[styles.cardText, { color: themeColors.text.secondary }]}>
+        {t('provisioning.done.message', { name: deviceName, ssid: selected?.ssid ?? '' })}
+      </Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/(tabs)')}>
+        <LinearGradient
+          colors={['#0EA5E9', '#2563EB']}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={styles.gradientButton}
+        >
+          <Text style={styles.primaryButtonText}>{t('provisioning.done.continue')}</Text>
+        </LinearGradient>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        {step !== 'working' && step !== 'done' && (
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+          </TouchableOpacity>
+        )}
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>
+          {t('provisioning.title')}
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {step === 'start' && renderStart()}
+        {step === 'networks' && renderNetworks()}
+        {step === 'working' && renderWorking()}
+        {step === 'done' && renderDone()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  cardText: {
+    ...typography.body,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    ...typography.h4,
+    marginBottom: spacing.sm,
+  },
+  networkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.medium,
+    borderWidth: 2,
+    marginBottom: spacing.sm,
+    gap: spacing.md,
+  },
+  networkName: {
+    ...typography.body,
+    flex: 1,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingHorizontal: spacing.md,
+    ...typography.body,
+  },
+  errorContainer: {
+    padding: spacing.md,
+    borderRadius: borderRadius.medium,
+    marginBottom: spacing.md,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginTop: spacing.md,
+    alignSelf: 'stretch',
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  linkText: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.md,
+  },
+  stageText: {
+    ...typography.h3,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,316 @@
+// Remote Access Screen - connect the MQTT bridge to a broker and choose what it may do
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useMqttStore, useDeviceStore, useElectricalStore } from '../store';
+import { getMqttBridge, getTopicId } from '../services/mqttBridge';
+
+export default function RemoteAccessScreen() {
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const { config, state, lastError, lastPublishAt, setConfig } = useMqttStore();
+  const activeDeviceId = useElectricalStore((store) => store.activeDeviceId);
+  const device = useDeviceStore((store) => store.devices.find((d) => d.id === activeDeviceId));
+
+  const [enabled, setEnabled] = useState(config.enabled);
+  const [url, setUrl] = useState(config.url);
+  const [username, setUsername] = useState(config.username ?? '');
+  const [password, setPassword] = useState(config.password ?? '');
+  const [topicPrefix, setTopicPrefix] = useState(config.topicPrefix);
+  const [publishInterval, setPublishInterval] = useState(String(config.publishInterval));
+  const [allowCommands, setAllowCommands] = useState(config.allowCommands);
+  const [homeAssistant, setHomeAssistant] = useState(config.homeAssistant);
+  const [discoveryPrefix, setDiscoveryPrefix] = useState(config.discoveryPrefix);
+
+  const urlValid = /^wss?:\/\/.+/i.test(url.trim());
+  const canSave = !enabled || urlValid;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    if (config.homeAssistant && (!homeAssistant || !enabled)) {
+      await getMqttBridge().clearDiscovery();
+    }
+
+    const interval = parseInt(publishInterval, 10);
+    setConfig({
+      enabled,
+      url: url.trim(),
+      username: username.trim() || undefined,
+      password: password || undefined,
+      topicPrefix: topicPrefix.trim() || 'smartcb',
+      publishInterval: Number.isFinite(interval) && interval > 0 ? interval : config.publishInterval,
+      allowCommands,
+      homeAssistant,
+      discoveryPrefix: discoveryPrefix.trim() || 'homeassistant',
+    });
+
+    if (enabled) {
+      getMqttBridge().start();
+    } else {
+      getMqttBridge().stop();
+    }
+  };
+
+  const stateColor =
+    state === 'connected' ? themeColors.success : state === 'error' ? themeColors.danger : themeColors.text.secondary;
+  const base = `${(config.topicPrefix || 'smartcb').replace(/^\/+|\/+$/g, '')}/${device ? getTopicId(device) : '<device>'}`;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>{t('remoteAccess.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('remoteAccess.status')}</Text>
+            <Text style={[styles.value, { color: stateColor }]}>{t(`remoteAccess.state.${state}`)}</Text>
+          </View>
+          {lastError && state !== 'connected' && (
+            <Text style={[styles.hint, { color: themeColors.danger }]}>{lastError}</Text>
+          )}
+          {lastPublishAt && (
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('remoteAccess.lastPublish')}</Text>
+              <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                {new Date(lastPublishAt).toLocaleTimeString()}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <View style={styles.row}>
+            <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('remoteAccess.enable')}</Text>
+            <Switch
+              value={enabled}
+              onValueChange={setEnabled}
+              trackColor={{ false: themeColors.border, true: themeColors.primary }}
+            />
+          </View>
+          <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('remoteAccess.enableHint')}</Text>
+
+          <Text style={[styles.label, styles.fieldLabel, { color: themeColors.text.secondary }]}>
+            {t('remoteAccess.brokerUrl')}
+          </Text>
+          <TextInput
+            style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+            placeholder="ws://192.168.1.10:9001"
+            placeholderTextColor={themeColors.text.disabled}
+            value={url}
+            onChangeText={setUrl}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+          {enabled && url.trim() !== '' && !urlValid && (
+            <Text style={[styles.hint, { color: themeColors.danger }]}>{t('remoteAccess.urlInvalid')}</Text>
+          )}
+
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('remoteAccess.username')}</Text>
+          <TextInput
+            style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+            value={username}
+            onChangeText={setUsername}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('remoteAccess.password')}</Text>
+          <TextInput
+            style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+            value={password}
+            onChangeText={setPassword}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('remoteAccess.topicPrefix')}</Text>
+          <TextInput
+            style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+            value={topicPrefix}
+            onChangeText={setTopicPrefix}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('remoteAccess.publishInterval')}</Text>
+          <TextInput
+            style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+            value={publishInterval}
+            onChangeText={setPublishInterval}
+            keyboardType="numeric"
+          />
+        </View>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <View style={styles.row}>
+            <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('remoteAccess.allowCommands')}</Text>
+            <Switch
+              value={allowCommands}
+              onValueChange={setAllowCommands}
+              trackColor={{ false: themeColors.border, true: themeColors.warning }}
+            />
+          </View>
+          <Text style={[styles.hint, { color: allowCommands ? themeColors.warning : themeColors.text.secondary }]}>
+            {t('remoteAccess.allowCommandsHint')}
+          </Text>
+        </View>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <View style={styles.row}>
+            <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('remoteAccess.homeAssistant')}</Text>
+            <Switch
+              value={homeAssistant}
+              onValueChange={setHomeAssistant}
+              trackColor={{ false: themeColors.border, true: themeColors.primary }}
+            />
+          </View>
+          <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('remoteAccess.homeAssistantHint')}</Text>
+          {homeAssistant && (
+            <>
+              <Text style={[styles.label, styles.fieldLabel, { color: themeColors.text.secondary }]}>
+                {t('remoteAccess.discoveryPrefix')}
+              </Text>
+              <TextInput
+                style={[styles.input, { color: themeColors.text.primary, borderColor: themeColors.border }]}
+                value={discoveryPrefix}
+                onChangeText={setDiscoveryPrefix}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </>
+          )}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('remoteAccess.topics')}</Text>
+          {['status', 'availability', 'event', 'settings', 'relay/set', 'settings/set'].map((suffix) => (
+            <Text key={suffix} style={[styles.topic, { color: themeColors.text.secondary }]}>
+              {`${base}/${suffix}`}
+            </Text>
+          ))}
+        </View>
+
+        <TouchableOpacity style={[styles.primaryButton, { opacity: canSave ? 1 : 0.5 }]} onPress={handleSave} disabled={!canSave}>
+          <LinearGradient
+            colors={['#0EA5E9', '#2563EB']}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={styles.gradientButton}
+          >
+            <MaterialCommunityIcons name={enabled ? 'cloud-sync' : 'cloud-off-outline'} size={22} color="white" />
+            <Text style={styles.primaryButtonText}>
+              {enabled ? t('remoteAccess.saveAndConnect') : t('common.save')}
+            </Text>
+          </LinearGradient>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  label: {
+    ...typography.body,
+  },
+  fieldLabel: {
+    marginTop: spacing.md,
+  },
+  value: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  hint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  input: {
+    ...typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: borderRadius.medium,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  topic: {
+    ...typography.bodySmall,
+    fontFamily: 'SpaceMono',
+    marginTop: spacing.xs,
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
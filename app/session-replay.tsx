@@ -0,0 +1,354 @@
+// Session Replay Screen - record a breaker's traffic and play it back through the app
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useElectricalStore, useDeviceStore, useSessionStore } from '../store';
+import { getSessionRecorder } from '../services/sessionRecorder';
+import { getSessionReplay, REPLAY_SPEEDS } from '../services/sessionReplay';
+import { SavedCapture } from '../types';
+import { getRelativeTime } from '../utils';
+
+export default function SessionReplayScreen() {
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
+  const isConnected = useElectricalStore((state) => state.connection.isConnected);
+  const device = useDeviceStore((state) => state.devices.find((d) => d.id === activeDeviceId));
+  const recorder = useSessionStore((state) => state.recorders[activeDeviceId]);
+  const replay = useSessionStore((state) => state.replay);
+
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[0]);
+  const [saved, setSaved] = useState<SavedCapture[]>([]);
+
+  const playing = replay.status === 'playing';
+  const replayingActive = playing && replay.deviceId === activeDeviceId;
+  const canRecord = isConnected && !replayingActive;
+
+  useEffect(() => {
+    getSessionRecorder().listSaved().then(setSaved);
+  }, []);
+
+  const toggleRecording = async () => {
+    if (!recorder) {
+      getSessionRecorder().start(activeDeviceId);
+      return;
+    }
+
+    const file = await getSessionRecorder().stop(activeDeviceId);
+    if (file) {
+      setSaved(await getSessionRecorder().listSaved());
+      Alert.alert(t('sessionReplay.savedTitle'), t('sessionReplay.savedMessage', { name: file.name }));
+    } else {
+      Alert.alert(t('common.error'), t('sessionReplay.nothingRecorded'));
+    }
+  };
+
+  const play = async (file: SavedCapture) => {
+    const recording = await getSessionRecorder().load(file.uri);
+    if (!recording) {
+      Alert.alert(t('common.error'), t('sessionReplay.loadFailed'));
+      return;
+    }
+    getSessionReplay().start(recording, file.name, speed);
+  };
+
+  const remove = async (file: SavedCapture) => {
+    await getSessionRecorder().deleteSaved(file.uri);
+    setSaved(await getSessionRecorder().listSaved());
+  };
+
+  const statusColor = playing ? themeColors.success : themeColors.text.secondary;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>{t('sessionReplay.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.explanation, { color: themeColors.text.secondary }]}>{t('sessionReplay.explanation')}</Text>
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('sessionReplay.record')}</Text>
+          <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{device?.name ?? activeDeviceId}</Text>
+
+          {recorder && (
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: themeColors.danger }]}>{t('sessionReplay.recording')}</Text>
+              <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                {t('sessionReplay.frames', { count: recorder.frameCount })}
+              </Text>
+            </View>
+          )}
+          {!recorder && !canRecord && (
+            <Text style={[styles.hint, { color: themeColors.warning }]}>{t('sessionReplay.notConnected')}</Text>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.primaryButton, { opacity: recorder || canRecord ? 1 : 0.5 }]}
+          onPress={toggleRecording}
+          disabled={!recorder && !canRecord}
+        >
+          <LinearGradient
+            colors={recorder ? ['#F87171', '#DC2626'] : ['#0EA5E9', '#2563EB']}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={styles.gradientButton}
+          >
+            <MaterialCommunityIcons name={recorder ? 'stop' : 'record-rec'} size={22} color="white" />
+            <Text style={styles.primaryButtonText}>
+              {recorder ? t('sessionReplay.stopRecording') : t('sessionReplay.startRecording')}
+            </Text>
+          </LinearGradient>
+        </TouchableOpacity>
+
+        {replay.status !== 'idle' && (
+          <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+            <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('sessionReplay.replay')}</Text>
+            {replay.file && (
+              <Text style={[styles.hint, { color: themeColors.text.secondary }]} numberOfLines={1}>
+                {replay.file}
+              </Text>
+            )}
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('sessionReplay.statusLabel')}</Text>
+              <Text style={[styles.value, { color: statusColor }]}>{t(`sessionReplay.status.${replay.status}`)}</Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('sessionReplay.progress')}</Text>
+              <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                {t('sessionReplay.progressValue', { position: replay.position, total: replay.total })}
+              </Text>
+            </View>
+            <View style={styles.row}>
+              <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('sessionReplay.speed')}</Text>
+              <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                {t('sessionReplay.speedValue', { value: replay.speed })}
+              </Text>
+            </View>
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('sessionReplay.readingsNote')}</Text>
+
+            <Text style={[styles.label, styles.sectionLabel, { color: themeColors.text.secondary }]}>
+              {t('sessionReplay.suppressed')}
+            </Text>
+            {replay.suppressed.length === 0 ? (
+              <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('sessionReplay.suppressedNone')}</Text>
+            ) : (
+              replay.suppressed.map((command, index) => (
+                <View key={index} style={styles.commandRow}>
+                  <MaterialCommunityIcons name="power-plug-off-outline" size={16} color={themeColors.warning} />
+                  <Text style={[styles.hint, styles.commandText, { color: themeColors.text.primary }]}>
+                    {t('sessionReplay.suppressedItem', {
+                      state: command.state ? t('sessionReplay.on') : t('sessionReplay.off'),
+                      time: (command.at / 1000).toFixed(1),
+                    })}
+                  </Text>
+                </View>
+              ))
+            )}
+
+            {playing && (
+              <TouchableOpacity
+                style={[styles.outlineButton, { borderColor: themeColors.danger }]}
+                onPress={() => getSessionReplay().stop()}
+              >
+                <MaterialCommunityIcons name="stop" size={18} color={themeColors.danger} />
+                <Text style={[styles.outlineButtonText, { color: themeColors.danger }]}>{t('sessionReplay.stopReplay')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>{t('sessionReplay.savedSessions')}</Text>
+
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('sessionReplay.speed')}</Text>
+          <View style={styles.chipRow}>
+            {REPLAY_SPEEDS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.chip,
+                  { borderColor: option === speed ? themeColors.primary : themeColors.border },
+                  option === speed && { backgroundColor: `${themeColors.primary}20` },
+                ]}
+                onPress={() => setSpeed(option)}
+                disabled={playing}
+              >
+                <Text style={[styles.chipText, { color: option === speed ? themeColors.primary : themeColors.text.secondary }]}>
+                  {t('sessionReplay.speedValue', { value: option })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {saved.length === 0 ? (
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('sessionReplay.noSessions')}</Text>
+          ) : (
+            saved.map((file) => (
+              <View key={file.uri} style={styles.row}>
+                <View style={styles.fileInfo}>
+                  <Text style={[styles.fileName, { color: themeColors.text.primary }]} numberOfLines={1}>
+                    {file.name}
+                  </Text>
+                  <Text style={[styles.statLabel, { color: themeColors.text.secondary }]}>
+                    {getRelativeTime(file.modifiedAt)} · {(file.size / 1024).toFixed(1)} KB
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => play(file)} disabled={playing} style={styles.fileAction}>
+                  <MaterialCommunityIcons
+                    name="play-circle-outline"
+                    size={22}
+                    color={playing ? themeColors.text.secondary : themeColors.primary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => remove(file)} disabled={playing && replay.file === file.name}>
+                  <MaterialCommunityIcons name="trash-can-outline" size={20} color={themeColors.danger} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  explanation: {
+    ...typography.bodySmall,
+    marginBottom: spacing.md,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  label: {
+    ...typography.body,
+  },
+  sectionLabel: {
+    marginTop: spacing.md,
+  },
+  value: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  hint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  commandRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  commandText: {
+    marginTop: 0,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  chipText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  statLabel: {
+    ...typography.caption,
+  },
+  fileInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  fileName: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  fileAction: {
+    marginRight: spacing.md,
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.md,
+  },
+  outlineButtonText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+});
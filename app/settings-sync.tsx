@@ -0,0 +1,279 @@
+// Settings Sync Screen - where this phone and the breaker disagree, and which side wins
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialCommunityIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from 'react-i18next';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { useThemeStore, useElectricalStore, useSettingsSyncStore } from '../store';
+import { getSettingsSync } from '../services/settingsSync';
+import { SyncedSettingField } from '../types';
+import { getRelativeTime } from '../utils';
+
+const UNITS: Partial<Record<SyncedSettingField, string>> = {
+  maxCurrent: 'A',
+  maxVoltage: 'V',
+  minVoltage: 'V',
+  maxFrequency: 'Hz',
+  minFrequency: 'Hz',
+  autoResetDelay: 's',
+};
+
+export default function SettingsSyncScreen() {
+  const router = useRouter();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+  const { t } = useTranslation();
+
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
+  const isConnected = useElectricalStore((state) => state.connection.isConnected);
+  const sync = useSettingsSyncStore((state) => state.getSync(activeDeviceId));
+  const [busy, setBusy] = useState(false);
+
+  const formatValue = (field: SyncedSettingField, value: number | boolean | null) => {
+    if (value === null) return '—';
+    if (typeof value === 'boolean') return value ? t('settingsSync.on') : t('settingsSync.off');
+    return UNITS[field] ? `${value} ${UNITS[field]}` : String(value);
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resolve = (winner: 'app' | 'device', field?: SyncedSettingField) =>
+    run(() => getSettingsSync().resolve(activeDeviceId, winner, field ? [field] : undefined));
+
+  const statusColor =
+    sync.status === 'in_sync'
+      ? themeColors.success
+      : sync.status === 'conflict'
+        ? themeColors.warning
+        : sync.status === 'error'
+          ? themeColors.danger
+          : themeColors.text.secondary;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialCommunityIcons name="arrow-left" size={24} color={themeColors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: themeColors.text.primary }]}>{t('settingsSync.title')}</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={[styles.card, { backgroundColor: themeColors.surface }]}>
+          <View style={styles.row}>
+            <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('settingsSync.statusLabel')}</Text>
+            <Text style={[styles.value, { color: statusColor }]}>{t(`settingsSync.status.${sync.status}`)}</Text>
+          </View>
+          {sync.lastSyncedAt && (
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>
+              {t('settingsSync.lastSynced', { time: getRelativeTime(sync.lastSyncedAt) })}
+            </Text>
+          )}
+          {sync.dirty.length > 0 && (
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>
+              {t('settingsSync.pending', { count: sync.dirty.length })}
+            </Text>
+          )}
+          {sync.status === 'error' && sync.lastError && (
+            <Text style={[styles.hint, { color: themeColors.danger }]}>{sync.lastError}</Text>
+          )}
+        </View>
+
+        {sync.conflicts.length === 0 ? (
+          <View style={[styles.card, styles.emptyCard, { backgroundColor: themeColors.surface }]}>
+            <MaterialCommunityIcons name="check-circle-outline" size={36} color={themeColors.success} />
+            <Text style={[styles.hint, { color: themeColors.text.secondary }]}>{t('settingsSync.noConflicts')}</Text>
+          </View>
+        ) : (
+          <>
+            <Text style={[styles.explanation, { color: themeColors.text.secondary }]}>
+              {t('settingsSync.explanation')}
+            </Text>
+
+            {sync.conflicts.map((conflict) => (
+              <View key={conflict.field} style={[styles.card, { backgroundColor: themeColors.surface }]}>
+                <Text style={[styles.cardTitle, { color: themeColors.text.primary }]}>
+                  {t(`settingsSync.fields.${conflict.field}`)}
+                </Text>
+
+                <View style={styles.row}>
+                  <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('settingsSync.phone')}</Text>
+                  <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                    {formatValue(conflict.field, conflict.local)}
+                  </Text>
+                </View>
+                <View style={styles.row}>
+                  <Text style={[styles.label, { color: themeColors.text.secondary }]}>{t('settingsSync.breaker')}</Text>
+                  <Text style={[styles.value, { color: themeColors.text.primary }]}>
+                    {formatValue(conflict.field, conflict.device)}
+                  </Text>
+                </View>
+                <Text style={[styles.hint, { color: themeColors.text.secondary }]}>
+                  {t('settingsSync.lastAgreed', { value: formatValue(conflict.field, conflict.base) })}
+                </Text>
+
+                <View style={styles.choiceRow}>
+                  <TouchableOpacity
+                    style={[styles.choiceButton, { borderColor: themeColors.primary }]}
+                    onPress={() => resolve('app', conflict.field)}
+                    disabled={busy || !isConnected}
+                  >
+                    <Text style={[styles.choiceText, { color: themeColors.primary }]}>{t('settingsSync.keepPhone')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.choiceButton, { borderColor: themeColors.primary }]}
+                    onPress={() => resolve('device', conflict.field)}
+                    disabled={busy}
+                  >
+                    <Text style={[styles.choiceText, { color: themeColors.primary }]}>{t('settingsSync.useBreaker')}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+
+            {sync.conflicts.length > 1 && (
+              <View style={styles.choiceRow}>
+                <TouchableOpacity
+                  style={[styles.choiceButton, { borderColor: themeColors.border }]}
+                  onPress={() => resolve('app')}
+                  disabled={busy || !isConnected}
+                >
+                  <Text style={[styles.choiceText, { color: themeColors.text.primary }]}>{t('settingsSync.keepAllPhone')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.choiceButton, { borderColor: themeColors.border }]}
+                  onPress={() => resolve('device')}
+                  disabled={busy}
+                >
+                  <Text style={[styles.choiceText, { color: themeColors.text.primary }]}>{t('settingsSync.useAllBreaker')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, { opacity: busy || !isConnected ? 0.5 : 1 }]}
+          onPress={() => run(() => getSettingsSync().sync(activeDeviceId))}
+          disabled={busy || !isConnected}
+        >
+          <LinearGradient
+            colors={['#0EA5E9', '#2563EB']}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+            style={styles.gradientButton}
+          >
+            {busy ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <MaterialCommunityIcons name="sync" size={22} color="white" />
+            )}
+            <Text style={styles.primaryButtonText}>{t('settingsSync.syncNow')}</Text>
+          </LinearGradient>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  backButton: {
+    marginRight: spacing.sm,
+  },
+  title: {
+    ...typography.h2,
+  },
+  content: {
+    flexGrow: 1,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl,
+  },
+  card: {
+    padding: spacing.lg,
+    borderRadius: borderRadius.large,
+    marginBottom: spacing.md,
+  },
+  emptyCard: {
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  cardTitle: {
+    ...typography.h4,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  label: {
+    ...typography.body,
+  },
+  value: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  hint: {
+    ...typography.bodySmall,
+    marginTop: spacing.xs,
+  },
+  explanation: {
+    ...typography.bodySmall,
+    marginBottom: spacing.md,
+  },
+  choiceRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+    marginBottom: spacing.md,
+  },
+  choiceButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: borderRadius.medium,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+  },
+  choiceText: {
+    ...typography.bodySmall,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    borderRadius: borderRadius.large,
+    overflow: 'hidden',
+    marginBottom: spacing.md,
+  },
+  gradientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,12 @@
+module.exports = function (api) {
+  api.cache(true);
+  return {
+    presets: ['babel-preset-expo'],
+    env: {
+      // Jest runs the app as CommonJS without ES module support - load the lazy import()s with require()
+      test: {
+        plugins: ['@babel/plugin-transform-dynamic-import'],
+      },
+    },
+  };
+};
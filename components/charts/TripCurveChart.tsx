@@ -0,0 +1,169 @@
+// Trip Curve Chart - time to trip against multiples of the rated current, log-log like a datasheet
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { Canvas, Path, Skia, Line, Circle, vec } from '@shopify/react-native-skia';
+import { colors as themeColors } from '../../theme';
+import { TripCurve, tripTime, REFERENCE_MULTIPLE } from '../../services/tripCurve';
+
+interface TripCurveChartProps {
+  curve: TripCurve;
+  color?: string;
+  height?: number;
+  theme?: 'dark' | 'light';
+}
+
+const { width: screenWidth } = Dimensions.get('window');
+
+const X_TICKS = [1, 2, 5, 10, 20, 50];
+const Y_TICKS = [0.01, 0.1, 1, 10, 100, 1000, 10000];
+const X_RANGE = { min: 1, max: 50 };
+const Y_RANGE = { min: 0.01, max: 10000 };
+const Y_AXIS_WIDTH = 45;
+const X_AXIS_HEIGHT = 20;
+const SAMPLES = 80;
+
+// Log scales: multiples of the rating across, seconds to trip up
+const scaleX = (multiple: number, width: number) =>
+  (Math.log10(multiple / X_RANGE.min) / Math.log10(X_RANGE.max / X_RANGE.min)) * width;
+
+const scaleY = (seconds: number, height: number) => {
+  const clamped = Math.min(Y_RANGE.max, Math.max(Y_RANGE.min, seconds));
+  return height - (Math.log10(clamped / Y_RANGE.min) / Math.log10(Y_RANGE.max / Y_RANGE.min)) * height;
+};
+
+const TripCurveChartComponent: React.FC<TripCurveChartProps> = ({
+  curve,
+  color = '#42A5F5',
+  height = 200,
+  theme = 'dark',
+}) => {
+  const colors = useMemo(() => themeColors[theme], [theme]);
+
+  const chartWidth = screenWidth - 64 - Y_AXIS_WIDTH;
+  const chartHeight = height - X_AXIS_HEIGHT;
+
+  const toX = (multiple: number) => scaleX(multiple, chartWidth);
+  const toY = (seconds: number) => scaleY(seconds, chartHeight);
+
+  const curvePath = useMemo(() => {
+    const path = Skia.Path.Make();
+    const instant = Math.min(curve.instantMultiple, X_RANGE.max);
+    let started = false;
+
+    // Thermal part, from just above the rating up to the instant-trip multiple
+    for (let i = 0; i <= SAMPLES; i++) {
+      const multiple = Math.pow(10, Math.log10(1.02) + (Math.log10(instant) - Math.log10(1.02)) * (i / SAMPLES));
+      const seconds = tripTime(curve, Math.min(multiple, instant - 1e-6));
+      if (seconds === null) continue;
+      if (!started) {
+        path.moveTo(scaleX(multiple, chartWidth), scaleY(seconds, chartHeight));
+        started = true;
+      } else {
+        path.lineTo(scaleX(multiple, chartWidth), scaleY(seconds, chartHeight));
+      }
+    }
+
+    // Instant part - straight down to the fastest trip the chart shows
+    path.lineTo(scaleX(instant, chartWidth), scaleY(Y_RANGE.min, chartHeight));
+    return path;
+  }, [curve, chartWidth, chartHeight]);
+
+  const reference = REFERENCE_MULTIPLE < curve.instantMultiple ? tripTime(curve, REFERENCE_MULTIPLE) : null;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chartRow}>
+        <View style={[styles.yAxis, { width: Y_AXIS_WIDTH, height: chartHeight }]}>
+          {Y_TICKS.map((seconds) => (
+            <Text
+              key={`y-${seconds}`}
+              style={[styles.yAxisLabel, { color: colors.text.secondary, top: toY(seconds) - 6 }]}
+              numberOfLines={1}
+            >
+              {seconds}s
+            </Text>
+          ))}
+        </View>
+
+        <Canvas style={{ width: chartWidth, height: chartHeight }}>
+          {Y_TICKS.map((seconds) => (
+            <Line
+              key={`grid-y-${seconds}`}
+              p1={vec(0, toY(seconds))}
+              p2={vec(chartWidth, toY(seconds))}
+              color={colors.border}
+              style="stroke"
+              strokeWidth={0.5}
+              opacity={0.3}
+            />
+          ))}
+          {X_TICKS.map((multiple) => (
+            <Line
+              key={`grid-x-${multiple}`}
+              p1={vec(toX(multiple), 0)}
+              p2={vec(toX(multiple), chartHeight)}
+              color={colors.border}
+              style="stroke"
+              strokeWidth={0.5}
+              opacity={0.3}
+            />
+          ))}
+
+          <Path path={curvePath} color={color + '30'} style="stroke" strokeWidth={5} strokeJoin="round" />
+          <Path path={curvePath} color={color} style="stroke" strokeWidth={2.5} strokeJoin="round" />
+
+          {/* The point the delay setting pins down */}
+          {reference !== null && (
+            <Circle cx={toX(REFERENCE_MULTIPLE)} cy={toY(reference)} r={4} color={color} />
+          )}
+        </Canvas>
+      </View>
+
+      <View style={[styles.xAxis, { marginLeft: Y_AXIS_WIDTH, width: chartWidth }]}>
+        {X_TICKS.map((multiple) => (
+          <Text
+            key={`x-${multiple}`}
+            style={[styles.xAxisLabel, { color: colors.text.secondary, left: toX(multiple) - 15 }]}
+          >
+            {multiple}×
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  chartRow: {
+    flexDirection: 'row',
+  },
+  yAxis: {
+    position: 'relative',
+    paddingRight: 5,
+  },
+  yAxisLabel: {
+    position: 'absolute',
+    fontSize: 9,
+    fontWeight: '500',
+    textAlign: 'right',
+    width: '100%',
+  },
+  xAxis: {
+    position: 'relative',
+    height: X_AXIS_HEIGHT,
+  },
+  xAxisLabel: {
+    position: 'absolute',
+    top: 4,
+    fontSize: 10,
+    width: 30,
+    textAlign: 'center',
+  },
+});
+
+export const TripCurveChart = React.memo(TripCurveChartComponent);
+
+export default TripCurveChart;
@@ -0,0 +1,81 @@
+// Device Overview Component - combined figures for every linked breaker
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useThemeStore } from '../../store';
+import { colors, spacing, borderRadius } from '../../theme';
+import { Device, DeviceRuntime } from '../../types';
+import { formatPower } from '../../utils';
+
+interface DeviceOverviewProps {
+  devices: Device[];
+  runtimes: Record<string, DeviceRuntime>;
+}
+
+export const DeviceOverview: React.FC<DeviceOverviewProps> = ({ devices, runtimes }) => {
+  const { t } = useTranslation();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+
+  // Offline breakers contribute nothing - their last reading may be stale
+  const online = devices.filter((device) => runtimes[device.id]?.connection.isConnected);
+  const totalPower = online.reduce((sum, device) => sum + (runtimes[device.id]?.data?.power ?? 0), 0);
+  const relaysOn = online.filter((device) => runtimes[device.id]?.data?.relayState).length;
+
+  const stats = [
+    {
+      key: 'online',
+      label: t('home.overview.online'),
+      value: `${online.length}/${devices.length}`,
+      color: online.length === devices.length ? themeColors.success : themeColors.warning,
+    },
+    {
+      key: 'power',
+      label: t('home.overview.totalPower'),
+      value: formatPower(totalPower),
+      color: themeColors.primary,
+    },
+    {
+      key: 'relays',
+      label: t('home.overview.relaysOn'),
+      value: `${relaysOn}`,
+      color: themeColors.info,
+    },
+  ];
+
+  return (
+    <View style={[styles.container, { backgroundColor: themeColors.surface }]}>
+      {stats.map((stat) => (
+        <View key={stat.key} style={styles.stat}>
+          <Text style={[styles.value, { color: stat.color }]}>{stat.value}</Text>
+          <Text style={[styles.label, { color: themeColors.text.secondary }]}>{stat.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.medium,
+    marginBottom: spacing.sm,
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  value: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  label: {
+    fontSize: 9,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.3,
+    marginTop: 2,
+  },
+});
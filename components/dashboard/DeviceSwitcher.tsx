@@ -0,0 +1,135 @@
+// Device Switcher Component - pick which breaker the dashboard shows
+
+import React from 'react';
+import { ScrollView, View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useThemeStore } from '../../store';
+import { colors, spacing, borderRadius } from '../../theme';
+import { Device, DeviceRuntime } from '../../types';
+import { formatPower } from '../../utils';
+
+interface DeviceSwitcherProps {
+  devices: Device[];
+  runtimes: Record<string, DeviceRuntime>;
+  activeDeviceId: string;
+  onSelect: (deviceId: string) => void;
+  onAdd: () => void;
+  onRemove: (deviceId: string) => void;
+}
+
+export const DeviceSwitcher: React.FC<DeviceSwitcherProps> = ({
+  devices,
+  runtimes,
+  activeDeviceId,
+  onSelect,
+  onAdd,
+  onRemove,
+}) => {
+  const { t } = useTranslation();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+
+  const confirmRemove = (device: Device) => {
+    Alert.alert(
+      t('home.devices.removeTitle'),
+      t('home.devices.removeMessage', { name: device.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: () => onRemove(device.id) },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {devices.map((device) => {
+        const runtime = runtimes[device.id];
+        const isActive = device.id === activeDeviceId;
+        const isOnline = !!runtime?.connection.isConnected;
+        const statusColor = !isOnline
+          ? themeColors.danger
+          : runtime?.connection.degraded
+            ? themeColors.warning
+            : themeColors.success;
+
+        return (
+          <TouchableOpacity
+            key={device.id}
+            onPress={() => onSelect(device.id)}
+            onLongPress={() => confirmRemove(device)}
+            style={[
+              styles.chip,
+              {
+                backgroundColor: isActive ? `${themeColors.primary}20` : themeColors.surface,
+                borderColor: isActive ? themeColors.primary : themeColors.border,
+              },
+            ]}
+          >
+            <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
+            <View>
+              <Text
+                style={[styles.chipName, { color: themeColors.text.primary }]}
+                numberOfLines={1}
+              >
+                {device.name}
+              </Text>
+              <Text style={[styles.chipDetail, { color: themeColors.text.secondary }]}>
+                {isOnline && runtime?.data
+                  ? formatPower(runtime.data.power)
+                  : t('home.connectionStatus.disconnected')}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TouchableOpacity
+        onPress={onAdd}
+        style={[styles.chip, styles.addChip, { borderColor: themeColors.border }]}
+      >
+        <Ionicons name="add" size={16} color={themeColors.primary} />
+        <Text style={[styles.chipName, { color: themeColors.primary }]}>
+          {t('home.devices.add')}
+        </Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.xs,
+    paddingVertical: 2,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.large,
+    borderWidth: 1,
+    gap: 6,
+    maxWidth: 160,
+  },
+  addChip: {
+    borderStyle: 'dashed',
+  },
+  statusDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  chipName: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  chipDetail: {
+    fontSize: 10,
+    fontWeight: '500',
+  },
+});
@@ -2,15 +2,18 @@
 
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { Ionicons } from '@expo/vector-icons';
+import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useTranslation } from 'react-i18next';
 import { useThemeStore } from '../../store';
 import { colors, typography, spacing } from '../../theme';
 import { getRelativeTime } from '../../utils';
+import { TransportType } from '../../types';
 
 interface StatusBarProps {
   isConnected: boolean;
   signalStrength: number;
+  degraded?: boolean;
+  transport?: TransportType;
   lastEventTime?: number;
   lastEventDescription?: string;
 }
@@ -18,6 +21,8 @@ interface StatusBarProps {
 export const StatusBar: React.FC<StatusBarProps> = ({
   isConnected,
   signalStrength,
+  degraded,
+  transport,
   lastEventTime,
   lastEventDescription,
 }) => {
@@ -25,37 +30,63 @@ export const StatusBar: React.FC<StatusBarProps> = ({
   const { theme } = useThemeStore();
   const themeColors = colors[theme];
 
-  const getWifiIcon = (): keyof typeof Ionicons.glyphMap => {
-    if (!isConnected) return 'wifi-outline';
-    if (signalStrength > 75) return 'wifi';
-    if (signalStrength > 50) return 'wifi';
-    if (signalStrength > 25) return 'wifi';
-    return 'wifi-outline';
+  const getWifiIcon = (): keyof typeof MaterialCommunityIcons.glyphMap => {
+    if (!isConnected) return 'wifi-strength-off-outline';
+    if (degraded) return 'wifi-strength-alert-outline';
+    if (signalStrength > 75) return 'wifi-strength-4';
+    if (signalStrength > 50) return 'wifi-strength-3';
+    if (signalStrength > 25) return 'wifi-strength-2';
+    return 'wifi-strength-1';
   };
 
-  const connectionLabel = isConnected
-    ? t('home.connectionStatus.connected')
-    : t('home.connectionStatus.disconnected');
+  const statusColor = !isConnected
+    ? themeColors.danger
+    : degraded
+      ? themeColors.warning
+      : themeColors.success;
+
+  const connectionLabel = !isConnected
+    ? t('home.connectionStatus.disconnected')
+    : degraded
+      ? t('home.connectionStatus.degraded')
+      : t('home.connectionStatus.connected');
+
+  // Push stream (WebSocket) vs HTTP polling fallback
+  const transportLabel = isConnected && transport && transport !== 'none'
+    ? t(`home.transport.${transport}`)
+    : null;
 
   return (
     <View style={[styles.container, { backgroundColor: themeColors.surface }]}>
       {/* Connection Status */}
       <View style={styles.statusItem}>
-        <Ionicons
+        <MaterialCommunityIcons
           name={getWifiIcon()}
           size={20}
-          color={isConnected ? themeColors.success : themeColors.danger}
+          color={statusColor}
         />
         <Text
           style={[
             styles.statusText,
             {
-              color: isConnected ? themeColors.success : themeColors.danger,
+              color: statusColor,
             },
           ]}
         >
           {connectionLabel}
         </Text>
+        {transportLabel && (
+          <View style={[styles.transportBadge, { borderColor: themeColors.border }]}>
+            <Ionicons
+              name={transport === 'websocket' ? 'flash' : 'sync'}
+              size={12}
+              color={themeColors.text.secondary}
+            />
+            <Text style={[styles.transportText, { color: themeColors.text.secondary }]}>
+              {transportLabel}
+            </Text>
+          </View>
+        )}
       </View>
 
       {/* Last Event */}
@@ -90,6 +121,18 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: spacing.sm,
   },
+  transportBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: spacing.sm,
+    paddingHorizontal: spacing.xs,
+    borderWidth: 1,
+    borderRadius: 8,
+    gap: 2,
+  },
+  transportText: {
+    ...typography.caption,
+  },
   eventItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -2,4 +2,6 @@
 export * from './VoltageGauge';
 export * from './CurrentMeter';
 export * from './MetricCard';
-export * from './StatusBar';
\ No newline at end of file
+export * from './StatusBar';
+export * from './DeviceSwitcher';
+export * from './DeviceOverview';
@@ -0,0 +1,43 @@
+// Pending Sync Badge - marks a setting the breaker has not acknowledged yet
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useThemeStore } from '../../store';
+import { colors, typography, spacing, borderRadius } from '../../theme';
+
+interface PendingSyncBadgeProps {
+  visible: boolean;
+}
+
+export const PendingSyncBadge: React.FC<PendingSyncBadgeProps> = ({ visible }) => {
+  const { t } = useTranslation();
+  const { theme } = useThemeStore();
+  const themeColors = colors[theme];
+
+  if (!visible) return null;
+
+  return (
+    <View style={[styles.badge, { backgroundColor: `${themeColors.warning}20` }]}>
+      <Ionicons name="cloud-upload-outline" size={12} color={themeColors.warning} />
+      <Text style={[styles.text, { color: themeColors.warning }]}>{t('settingsSync.pendingBadge')}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.small,
+    alignSelf: 'flex-start',
+  },
+  text: {
+    ...typography.caption,
+    fontWeight: '600',
+  },
+});
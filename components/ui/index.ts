@@ -1,4 +1,5 @@
 // UI Components
 export * from './Card';
 export * from './Gauge';
-export * from './Toggle';
\ No newline at end of file
+export * from './Toggle';
+export * from './PendingSyncBadge';
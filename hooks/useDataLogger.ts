@@ -12,6 +12,7 @@ import { checkAllAlerts } from '../services/notificationService';
 export const useDataLogger = () => {
   const data = useElectricalStore((state) => state.data);
   const isDemoMode = useElectricalStore((state) => state.isDemoMode);
+  const activeDeviceId = useElectricalStore((state) => state.activeDeviceId);
   const lastDataRef = useRef(data);
 
   useEffect(() => {
@@ -24,13 +25,13 @@ export const useDataLogger = () => {
     lastDataRef.current = data;
 
     // Log to history store (auto-sampled to 1/minute)
-    useHistoryStore.getState().logReading(data);
+    useHistoryStore.getState().logReading(data, activeDeviceId);
 
     // Check for events and violations
-    useEventsStore.getState().checkAndLogEvents(data);
+    useEventsStore.getState().checkAndLogEvents(data, activeDeviceId);
 
     // Check for alerts and trigger notifications
-    checkAllAlerts(data, true);
+    checkAllAlerts(data, true, activeDeviceId);
 
     if (__DEV__) {
       console.log('📊 Data logged:', {
@@ -40,5 +41,5 @@ export const useDataLogger = () => {
         isDemoMode,
       });
     }
-  }, [data, isDemoMode]);
+  }, [data, isDemoMode, activeDeviceId]);
 };
\ No newline at end of file
@@ -1,13 +1,15 @@
 // Hook for managing ESP32 connection with initial sync
 
 import { useState, useCallback, useEffect } from 'react';
-import { useElectricalStore, useSettingsStore } from '../store';
-import { getESP32Api } from '../services/esp32Api';
+import { useElectricalStore, useSettingsStore, useOutboxStore } from '../store';
+import { getDeviceApi } from '../services/esp32Api';
+import { getDeviceDiscovery } from '../services/deviceDiscovery';
+import { DiscoveredDevice } from '../types';
 
 export const useESP32Connection = () => {
   const [isScanning, setIsScanning] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [discoveredDevices, setDiscoveredDevices] = useState<string[]>([]);
+  const [discoveredDevices, setDiscoveredDevices] = useState<DiscoveredDevice[]>([]);
 
   const {
     connectToESP32,
@@ -17,47 +19,33 @@ export const useESP32Connection = () => {
     setESP32Config
   } = useElectricalStore();
 
-  // Sync settings and schedules from ESP32
-  const syncWithESP32 = async (ip: string, port: string) => {
+  // Pull schedules from ESP32 - settings are kept in step by SettingsSyncService once connected
+  const syncWithESP32 = async (deviceId: string, ip: string, port: string) => {
     try {
-      const api = getESP32Api(ip, port);
-
-      // Get current settings from ESP32
-      const settings = await api.getSettings();
+      // The device's own instance carries its credentials and request observers
+      const api = getDeviceApi(deviceId, ip, port);
       const schedules = await api.getSchedules();
 
-      // Update store with ESP32 values
-      if (settings) {
-        const { updateThresholds } = useSettingsStore.getState();
+      if (schedules.ok) {
+        // Edits still waiting in the outbox are newer than what the breaker has
+        if (useOutboxStore.getState().getEntries(deviceId).some((entry) => entry.kind === 'schedules')) {
+          console.log('📮 Schedules pending on this phone, not replaced by the breaker\'s');
+          return;
+        }
 
-        updateThresholds({
-          voltage: {
-            min: settings.minVoltage || 180,
-            max: settings.maxVoltage || 250
-          },
-          current: {
-            max: settings.maxCurrent || 16,
-            enabled: settings.protectionEnabled ?? true
+        // Stored as-is rather than through updateSchedule, which would send them straight back
+        const { getSettingsForDevice, setDeviceSettings } = useSettingsStore.getState();
+        const settings = getSettingsForDevice(deviceId);
+        setDeviceSettings(deviceId, {
+          ...settings,
+          schedule: {
+            ...settings.schedule,
+            // Firmware numbers its slots; the app keys schedules by string ID
+            schedules: schedules.value.schedules.map((schedule) => ({
+              ...schedule,
+              id: String(schedule.id),
+            })),
           },
-          frequency: {
-            min: settings.minFrequency || 49.0,
-            max: settings.maxFrequency || 51.0,
-            enabled: settings.frequencyProtection ?? true
-          },
-          powerFactor: {
-            min: settings.minPowerFactor || 0.85,
-            enabled: settings.powerFactorProtection ?? true
-          }
-        });
-
-        console.log('✅ Settings synced from ESP32');
-      }
-
-      if (schedules && schedules.schedules) {
-        const { updateSchedule } = useSettingsStore.getState();
-
-        updateSchedule({
-          schedules: schedules.schedules
         });
 
         console.log('✅ Schedules synced from ESP32');
@@ -67,97 +55,22 @@ export const useESP32Connection = () => {
     }
   };
 
-  // Sync current time to ESP32
-  const syncTimeToESP32 = async (ip: string, port: string) => {
-    try {
-      const api = getESP32Api(ip, port);
-      const now = new Date();
-
-      const success = await api.setTime({
-        hour: now.getHours(),
-        minute: now.getMinutes(),
-        day: now.getDay()
-      });
-
-      if (success) {
-        console.log(`✅ Time synced to ESP32: ${now.getHours()}:${now.getMinutes()} Day ${now.getDay()}`);
-      } else {
-        console.error('❌ Failed to sync time to ESP32');
-      }
-    } catch (error) {
-      console.error('❌ Error syncing time to ESP32:', error);
-    }
-  };
-
-  // Auto-detect ESP32 devices on the network
+  // Auto-detect ESP32 devices on the network (mDNS, UDP broadcast, subnet scan)
   const scanForDevices = useCallback(async () => {
     setIsScanning(true);
     setDiscoveredDevices([]);
 
-    // Common ESP32 IP addresses to check
-    const possibleIPs = [
-      '192.168.1.100',
-      '192.168.0.100',
-      '192.168.4.1',    // ESP32 Access Point default
-      '192.168.1.10',
-      '192.168.0.10',
-      '10.0.0.100',
-    ];
-
-    // Get current network subnet (if available)
     try {
-      const response = await fetch('https://api.ipify.org?format=json');
-      const data = await response.json();
-      // This is the public IP, but we can use it to guess the local subnet
-
-      // Try to detect local subnet (simplified approach)
-      const localSubnet = '192.168.1'; // Most common
+      const devices = await getDeviceDiscovery().discover({
+        includeSubnetScan: true,
+        // Show breakers as they are confirmed rather than after the whole sweep
+        onFound: (device) => setDiscoveredDevices((current) => [...current, device]),
+      });
 
-      // Add more IPs from the detected subnet
-      for (let i = 1; i <= 254; i++) {
-        if (i === 100 || i === 10 || i === 50) { // Common ESP32 IPs
-          possibleIPs.push(`${localSubnet}.${i}`);
-        }
-      }
-    } catch (error) {
-      console.log('Could not detect network subnet');
+      return devices;
+    } finally {
+      setIsScanning(false);
     }
-
-    const foundDevices: string[] = [];
-
-    // Test each IP in parallel with timeout
-    const testPromises = possibleIPs.map(async (ip) => {
-      try {
-        const api = getESP32Api(ip, '80');
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 1000); // 1 second timeout
-
-        const response = await fetch(`http://${ip}/api/info`, {
-          signal: controller.signal,
-          method: 'GET',
-        });
-
-        clearTimeout(timeoutId);
-
-        if (response.ok) {
-          const info = await response.json();
-          if (info.model && info.model.includes('ESP32')) {
-            return ip;
-          }
-        }
-      } catch (error) {
-        // Silently fail for IPs that don't respond
-      }
-      return null;
-    });
-
-    const results = await Promise.all(testPromises);
-    const validIPs = results.filter((ip): ip is string => ip !== null);
-
-    setDiscoveredDevices(validIPs);
-    setIsScanning(false);
-
-    return validIPs;
   }, []);
 
   // Connect to specific IP with initial sync
@@ -169,22 +82,19 @@ export const useESP32Connection = () => {
       setESP32Config(ip, port);
 
       // Attempt connection
-      const success = await connectToESP32(ip, port);
+      const result = await connectToESP32(ip, port);
 
-      if (success) {
+      if (result.ok) {
         console.log(`Successfully connected to ESP32 at ${ip}:${port}`);
 
-        // Sync settings and schedules from ESP32
-        await syncWithESP32(ip, port);
-
-        // Sync current time to ESP32
-        await syncTimeToESP32(ip, port);
+        // Schedules from ESP32 (settings and the clock are kept in sync by their services)
+        await syncWithESP32(result.deviceId, ip, port);
       } else {
-        console.error(`Failed to connect to ESP32 at ${ip}:${port}`);
+        console.error(`Failed to connect to ESP32 at ${ip}:${port} (${result.reason})`);
       }
 
       setIsConnecting(false);
-      return success;
+      return result.ok;
     } catch (error) {
       console.error('Connection error:', error);
       setIsConnecting(false);
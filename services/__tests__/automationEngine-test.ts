@@ -0,0 +1,183 @@
+// Rule evaluation: conditions, hold times, firing once per episode, validation
+import { AutomationEngine, conditionHolds, validateRule } from '../automationEngine';
+import { useAutomationStore } from '../../store/useAutomationStore';
+import { useSettingsStore } from '../../store/useSettingsStore';
+import { useSessionStore } from '../../store/useSessionStore';
+import { generateDefaultSettings } from '../../utils/mockData';
+import { AutomationRule, ElectricalData } from '../../types';
+import { storesLoaded } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const reading = (changes: Partial<ElectricalData> = {}): ElectricalData => ({
+  voltage: 230,
+  current: 5,
+  power: 1100,
+  energy: 12,
+  frequency: 50,
+  powerFactor: 0.95,
+  apparentPower: 1150,
+  reactivePower: 300,
+  relayState: true,
+  timestamp: Date.now(),
+  ...changes,
+});
+
+const rule = (changes: Partial<AutomationRule> = {}): AutomationRule => ({
+  id: 'rule-1',
+  name: 'Shed load',
+  deviceId: 'device-1',
+  enabled: true,
+  conditions: [{ kind: 'reading', metric: 'power', comparator: 'above', value: 2000 }],
+  holdSeconds: 10,
+  action: { kind: 'notify', message: 'High load' },
+  createdAt: 0,
+  updatedAt: 0,
+  ...changes,
+});
+
+// Tuesday 2026-03-03, local time
+const at = (hours: number, minutes = 0) => new Date(2026, 2, 3, hours, minutes);
+
+describe('conditionHolds', () => {
+  const night = { kind: 'time' as const, from: '22:00', to: '06:00', days: [2] };
+
+  it('compares readings and skips fields the firmware did not send', () => {
+    const above = { kind: 'reading' as const, metric: 'power' as const, comparator: 'above' as const, value: 1000 };
+    expect(conditionHolds(above, reading(), at(12))).toBe(true);
+    expect(conditionHolds({ ...above, comparator: 'below' }, reading(), at(12))).toBe(false);
+    expect(conditionHolds({ ...above, metric: 'rssi' }, reading(), at(12))).toBe(false);
+  });
+
+  it('treats a missing flag as off', () => {
+    expect(conditionHolds({ kind: 'flag', flag: 'manualMode', value: false }, reading(), at(12))).toBe(true);
+  });
+
+  it('counts the hours after midnight as the day the window started', () => {
+    expect(conditionHolds(night, reading(), at(23))).toBe(true);
+    expect(conditionHolds(night, reading(), at(3))).toBe(false);               // Tuesday morning belongs to Monday
+    expect(conditionHolds({ ...night, days: [1] }, reading(), at(3))).toBe(true);
+    expect(conditionHolds(night, reading(), at(12))).toBe(false);
+  });
+});
+
+describe('AutomationEngine', () => {
+  let engine: AutomationEngine;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // The stores load from storage 100 ms after import - let that finish before the clock is faked
+    await storesLoaded();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: at(12) });
+    useAutomationStore.setState({ rules: [rule()], profiles: [], runs: [] });
+    engine = new AutomationEngine();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const runs = () => useAutomationStore.getState().runs;
+  const settle = () => Promise.resolve().then(() => Promise.resolve());
+
+  it('fires once the conditions have held for the hold time', async () => {
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    jest.advanceTimersByTime(9000);
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    await settle();
+    expect(runs()).toHaveLength(0);
+
+    jest.advanceTimersByTime(1000);
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    await settle();
+    expect(runs()).toMatchObject([{ ruleId: 'rule-1', outcome: 'done' }]);
+  });
+
+  it('starts the hold over when the conditions stop holding', async () => {
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    jest.advanceTimersByTime(8000);
+    engine.handleReading('device-1', reading({ power: 900 }));
+    jest.advanceTimersByTime(2000);
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    await settle();
+
+    expect(runs()).toHaveLength(0);
+  });
+
+  it('does not repeat until the conditions stopped holding in between', async () => {
+    useAutomationStore.setState({ rules: [rule({ holdSeconds: 0 })] });
+
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    engine.handleReading('device-1', reading({ power: 2600 }));
+    engine.handleReading('device-1', reading({ power: 900 }));
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    await settle();
+
+    expect(runs()).toHaveLength(2);
+  });
+
+  it('ignores disabled rules and other breakers', async () => {
+    useAutomationStore.setState({ rules: [rule({ holdSeconds: 0, enabled: false }), rule({ id: 'rule-2', holdSeconds: 0, deviceId: 'device-2' })] });
+
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    await settle();
+
+    expect(runs()).toHaveLength(0);
+  });
+
+  it('fires event rules once for the app and breaker copies of one event', async () => {
+    useAutomationStore.setState({ rules: [rule({ holdSeconds: 0, conditions: [{ kind: 'event', eventType: 'outage' }] })] });
+    const outage = { id: 'a', type: 'outage' as const, timestamp: Date.now(), description: '', deviceId: 'device-1' };
+
+    engine.handleEvent(outage);
+    engine.handleEvent({ ...outage, id: 'b', source: 'device', timestamp: Date.now() + 2000 });
+    await settle();
+
+    expect(runs()).toHaveLength(1);
+  });
+
+  it('leaves the breaker\'s thresholds alone while a recording plays for it', async () => {
+    const applyThresholds = jest.spyOn(useSettingsStore.getState(), 'applyThresholds');
+    useAutomationStore.setState({
+      rules: [rule({ holdSeconds: 0, action: { kind: 'profile', profileId: 'night' } })],
+      profiles: [{ id: 'night', name: 'Night', thresholds: generateDefaultSettings().thresholds, createdAt: 0 }],
+    });
+    useSessionStore.getState().patchReplay({ status: 'playing', deviceId: 'device-1' });
+
+    engine.handleReading('device-1', reading({ power: 2500 }));
+    await settle();
+    useSessionStore.getState().resetReplay();
+
+    expect(applyThresholds).not.toHaveBeenCalled();
+    expect(runs()).toMatchObject([{ outcome: 'skipped', detail: 'Session replay - profile not applied' }]);
+  });
+});
+
+describe('validateRule', () => {
+  it('accepts a complete rule', () => {
+    expect(validateRule(rule(), [])).toEqual([]);
+  });
+
+  it('names everything that is missing or inconsistent', () => {
+    const broken = rule({
+      name: ' ',
+      conditions: [
+        { kind: 'event', eventType: 'outage' },
+        { kind: 'time', from: '25:00', to: '06:00', days: [] },
+      ],
+      holdSeconds: 5,
+      action: { kind: 'profile', profileId: 'gone' },
+    });
+
+    expect(validateRule(broken, [])).toEqual(['nameRequired', 'eventHold', 'invalidTime', 'noDays', 'profileRequired']);
+  });
+});
@@ -0,0 +1,96 @@
+// Clock sync against the simulator: drift measured on read-back, resync past the tolerance
+import { ClockSyncService } from '../clockSync';
+import { getDeviceApi } from '../esp32Api';
+import { useDiagnosticsStore } from '../../store/useDiagnosticsStore';
+import { getPosixTimeZone } from '../../utils/timezone';
+import { storesLoaded, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('ClockSyncService', () => {
+  let sim: any;
+  let clock: ClockSyncService;
+  let deviceId: string;
+  let setTime: jest.SpyInstance;
+  let count = 0;
+
+  const diagnostics = () => useDiagnosticsStore.getState().getDiagnostics(deviceId).clock;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await storesLoaded();
+
+    sim = await startSimulator();
+  });
+
+  afterAll(async () => {
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    sim.breaker.resetConditions();
+    deviceId = `clock-${++count}`;
+    const api = getDeviceApi(deviceId, '127.0.0.1', String(sim.httpPort));
+    clock = new ClockSyncService();
+
+    await expect(clock.sync(deviceId)).resolves.toBe(true);
+    setTime = jest.spyOn(api, 'setTime');
+  });
+
+  afterEach(() => {
+    setTime.mockRestore();
+  });
+
+  it('sets epoch time and the phone\'s zone rule', () => {
+    expect(Math.abs(sim.breaker.epochNow() - Date.now())).toBeLessThan(500);
+    expect(sim.breaker.time().tz).toBe(getPosixTimeZone());
+    expect(diagnostics()?.syncedAt).not.toBeNull();
+  });
+
+  it('leaves a clock alone while it stays inside two seconds', async () => {
+    sim.breaker.skewClock(1000);
+
+    const drift = await clock.check(deviceId);
+
+    expect(drift).toBeGreaterThan(500);
+    expect(drift).toBeLessThan(1500);
+    expect(diagnostics()).toMatchObject({ driftMs: drift, precision: 'ms' });
+    expect(setTime).not.toHaveBeenCalled();
+  });
+
+  it('resyncs a clock that drifted past two seconds', async () => {
+    sim.breaker.skewClock(5000);
+
+    const drift = await clock.check(deviceId);
+
+    expect(drift).toBeGreaterThan(4500);
+    expect(setTime).toHaveBeenCalledTimes(1);
+    expect(Math.abs(sim.breaker.epochNow() - Date.now())).toBeLessThan(500);
+  });
+
+  it('resyncs a breaker that applies another zone rule', async () => {
+    sim.breaker.clock.tz = '<+05>-5';
+
+    await clock.check(deviceId);
+
+    expect(setTime).toHaveBeenCalledTimes(1);
+    expect(sim.breaker.time().tz).toBe(getPosixTimeZone());
+  });
+
+  it('judges a clock that only keeps hours and minutes to the minute', async () => {
+    const behind = new Date(Date.now() - 3 * 60000);
+    sim.breaker.setTime({ hour: behind.getHours(), minute: behind.getMinutes(), day: behind.getDay() });
+
+    const drift = await clock.check(deviceId);
+
+    // -4 min if the phone's minute turned over in between
+    expect([-180000, -240000]).toContain(drift);
+    expect(diagnostics()).toMatchObject({ precision: 'minute', tz: null });
+    expect(setTime).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,39 @@
+// Probing a candidate's /api/info against the simulator
+import { DeviceDiscoveryService } from '../deviceDiscovery';
+import { startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('DeviceDiscoveryService.probe', () => {
+  let sim: any;
+  const discovery = new DeviceDiscoveryService();
+
+  beforeAll(async () => {
+    sim = await startSimulator();
+  });
+
+  afterAll(async () => {
+    await sim.stop();
+  });
+
+  beforeEach(() => {
+    sim.breaker.resetConditions();
+  });
+
+  it('confirms a breaker from its /api/info', async () => {
+    await expect(discovery.probe('127.0.0.1', String(sim.httpPort), 'scan')).resolves.toMatchObject({
+      ip: '127.0.0.1',
+      method: 'scan',
+    });
+  });
+
+  it('gives up on a host whose body stalls after the headers', async () => {
+    sim.apply({ faults: { bodyDelayMs: 3000 } });
+    const started = Date.now();
+
+    await expect(discovery.probe('127.0.0.1', String(sim.httpPort), 'scan')).resolves.toBeNull();
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,179 @@
+// Contract tests for ESP32ApiService against the firmware simulator (simulator/)
+import { ESP32ApiService } from '../esp32Api';
+import { closedPort, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('ESP32ApiService contract', () => {
+  let sim: any;
+  let api: ESP32ApiService;
+  let rejections: { source: string; errors: string[] }[];
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    sim = await startSimulator();
+  });
+
+  afterAll(async () => {
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    sim.breaker.resetConditions();
+    api = new ESP32ApiService('127.0.0.1', String(sim.httpPort));
+    rejections = [];
+    api.setRejectionHandler((source, errors) => rejections.push({ source, errors }));
+  });
+
+  describe('well-formed answers', () => {
+    it('maps /api/status to ElectricalData', async () => {
+      const result = await api.getStatus();
+      if (!result.ok) throw result.error;
+      const status = result.value;
+
+      expect(status.voltage).toBeGreaterThan(200);
+      expect(typeof status.relayState).toBe('boolean');
+      // Older firmware sends no S and Q - derived rather than reported as zero
+      expect(status.apparentPower).toBeCloseTo(status.voltage * status.current, 0);
+    });
+
+    it('switches the relay and reports success', async () => {
+      await expect(api.setRelayState(false, 'cmd-1')).resolves.toEqual({ ok: true, value: undefined });
+      expect(await api.getStatus()).toMatchObject({ ok: true, value: { relayState: false } });
+    });
+
+    it('keeps each failure with its own call when requests overlap', async () => {
+      sim.apply({ faults: { latencyMs: 300 } });
+
+      const [late, refused] = await Promise.all([
+        api.setRelayState(false, 'cmd-overlap', 100),
+        api.setWifiCredentials({ ssid: '', password: '' }),
+      ]);
+
+      expect(late).toMatchObject({ ok: false, error: { kind: 'timeout', path: '/api/relay' } });
+      expect(refused).toMatchObject({ ok: false, error: { kind: 'rejected', path: '/api/wifi' } });
+    });
+
+    it('reports each request to the request observer', async () => {
+      const requests: [string, boolean][] = [];
+      api.setRequestObserver((path, _latency, ok) => requests.push([path, ok]));
+
+      await api.getStatus();
+      sim.apply({ faults: { httpStatus: 503 } });
+      await api.getStatus();
+
+      expect(requests).toEqual([['/api/status', true], ['/api/status', false]]);
+    });
+  });
+
+  describe('non-2xx answers', () => {
+    it('turns a 500 into an http error', async () => {
+      sim.apply({ faults: { httpStatus: 500 } });
+
+      await expect(api.getStatus()).resolves.toMatchObject({
+        ok: false,
+        error: { kind: 'http', status: 500, path: '/api/status' },
+      });
+    });
+
+    it('turns a 401 into an auth error', async () => {
+      sim.apply({ faults: { httpStatus: 401 } });
+
+      await expect(api.getSettings()).resolves.toMatchObject({ ok: false, error: { kind: 'auth', status: 401 } });
+    });
+
+    it('fails commands on a 500 instead of reading the body', async () => {
+      sim.apply({ faults: { httpStatus: 500 } });
+
+      await expect(api.setRelayState(true)).resolves.toMatchObject({
+        ok: false,
+        error: { kind: 'http', status: 500, path: '/api/relay' },
+      });
+      expect(rejections).toEqual([]);
+    });
+
+    it('reports a command the breaker refuses', async () => {
+      await expect(api.setWifiCredentials({ ssid: '', password: '' })).resolves.toMatchObject({
+        ok: false,
+        error: { kind: 'rejected', path: '/api/wifi' },
+      });
+    });
+  });
+
+  describe('bad bodies', () => {
+    it('rejects malformed JSON', async () => {
+      sim.apply({ faults: { malformedJson: true } });
+
+      await expect(api.getStatus()).resolves.toMatchObject({ ok: false, error: { kind: 'malformed' } });
+      expect(rejections).toEqual([{ source: 'status', errors: ['malformed JSON'] }]);
+    });
+
+    it('rejects a status without a required field', async () => {
+      sim.apply({ faults: { omitFields: ['voltage'] } });
+
+      const result = await api.getStatus();
+      if (result.ok) throw new Error('Accepted a status without voltage');
+      expect(result.error.kind).toBe('invalid');
+      expect(result.error.errors.join(' ')).toContain('voltage');
+      expect(rejections[0].source).toBe('status');
+    });
+
+    it('accepts a status without the optional fields', async () => {
+      sim.apply({ faults: { omitFields: ['rssi', 'manualMode', 'powerOutage'] } });
+
+      const status = await api.getStatus();
+      expect(status).toMatchObject({ ok: true, value: { manualMode: false, powerOutage: false } });
+      expect(status.ok && status.value).not.toHaveProperty('rssi');
+    });
+
+    it('rejects readings the sensor could not take', async () => {
+      sim.apply({ faults: { pzemFailure: true } });
+
+      await expect(api.getStatus()).resolves.toMatchObject({ ok: false, error: { kind: 'invalid' } });
+    });
+  });
+
+  describe('slow and missing answers', () => {
+    it('waits for a slow answer inside the deadline', async () => {
+      sim.apply({ faults: { latencyMs: 200 } });
+
+      await expect(api.setRelayState(false, 'cmd-slow', 1000)).resolves.toMatchObject({ ok: true });
+    });
+
+    it('times out when the answer does not start in time', async () => {
+      sim.apply({ faults: { latencyMs: 1000 } });
+
+      await expect(api.setRelayState(false, 'cmd-late', 200)).resolves.toMatchObject({
+        ok: false,
+        error: { kind: 'timeout', path: '/api/relay' },
+      });
+    });
+
+    it('times out when the body stalls after the headers', async () => {
+      sim.apply({ faults: { bodyDelayMs: 1000 } });
+
+      await expect(api.setRelayState(false, 'cmd-stall', 200)).resolves.toMatchObject({ ok: false, error: { kind: 'timeout' } });
+    });
+
+    it('treats a dropped connection as unreachable', async () => {
+      sim.apply({ faults: { dropRate: 1 } });
+
+      await expect(api.getStatus()).resolves.toMatchObject({ ok: false, error: { kind: 'unreachable' } });
+    });
+
+    it('treats a refused connection as unreachable', async () => {
+      const offline = new ESP32ApiService('127.0.0.1', String(await closedPort()));
+
+      await expect(offline.testConnection()).resolves.toMatchObject({
+        ok: false,
+        error: { kind: 'unreachable', path: '/api/info' },
+      });
+    });
+  });
+});
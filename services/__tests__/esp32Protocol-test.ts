@@ -0,0 +1,34 @@
+// Protocol negotiation from /api/info: current, legacy (unversioned) and unsupported firmware
+import { negotiateProtocol, validateInfo, PROTOCOL_VERSION } from '../esp32Protocol';
+
+describe('negotiateProtocol', () => {
+  it('accepts firmware that reports the current protocol', () => {
+    expect(negotiateProtocol({ firmwareVersion: '4.2.0', protocolVersion: PROTOCOL_VERSION })).toMatchObject({
+      deviceVersion: PROTOCOL_VERSION,
+      compatibility: 'compatible',
+    });
+  });
+
+  it('runs firmware without a protocolVersion as legacy, whatever its release number', () => {
+    // Shipped v3 firmware sends its release but no protocol version
+    const info = validateInfo({ deviceName: 'Kitchen', firmwareVersion: '3.1.0' });
+    expect(info.ok).toBe(true);
+
+    const protocol = negotiateProtocol(info.ok ? info.value : null);
+    expect(protocol).toMatchObject({ deviceVersion: null, firmwareVersion: '3.1.0', compatibility: 'legacy' });
+    expect(negotiateProtocol({})).toMatchObject({ compatibility: 'legacy' });
+  });
+
+  it('turns away protocol versions outside the supported range', () => {
+    expect(negotiateProtocol({ firmwareVersion: '3.1.0', protocolVersion: 3 })).toMatchObject({
+      compatibility: 'incompatible',
+    });
+    expect(negotiateProtocol({ protocolVersion: PROTOCOL_VERSION + 1 })).toMatchObject({
+      compatibility: 'incompatible',
+    });
+  });
+
+  it('stays unknown without an answer', () => {
+    expect(negotiateProtocol(null)).toMatchObject({ deviceVersion: null, compatibility: 'unknown' });
+  });
+});
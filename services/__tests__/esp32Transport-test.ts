@@ -0,0 +1,129 @@
+// Transport against the simulator: WebSocket first, polling while it is down, back to the socket
+import { ESP32TransportService } from '../esp32Transport';
+import { ESP32ApiService } from '../esp32Api';
+import { ESP32WebSocketService } from '../esp32WebSocket';
+import { ElectricalData, TransportType } from '../../types';
+import { waitFor, closedPort, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// React Native provides WebSocket; Node 20 does not
+(global as any).WebSocket = require('ws');
+
+describe('ESP32TransportService', () => {
+  let sim: any;
+  let api: ESP32ApiService;
+  let ws: ESP32WebSocketService;
+  let transport: ESP32TransportService;
+  let readings: ElectricalData[];
+  let transports: TransportType[];
+  let connection: boolean[];
+
+  const callbacks = () => ({
+    onData: (data: ElectricalData) => readings.push(data),
+    onConnectionChange: (connected: boolean) => connection.push(connected),
+    onTransportChange: (type: TransportType) => transports.push(type),
+  });
+
+  const create = (wsPort: number, deviceId = 'transport-1') => {
+    api = new ESP32ApiService('127.0.0.1', String(sim.httpPort));
+    ws = new ESP32WebSocketService('127.0.0.1', String(wsPort));
+    transport = new ESP32TransportService(deviceId, api, ws);
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    sim = await startSimulator();
+  });
+
+  afterAll(async () => {
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    sim.breaker.resetConditions();
+    readings = [];
+    transports = [];
+    connection = [];
+  });
+
+  afterEach(() => {
+    transport?.stop();
+  });
+
+  it('streams over the WebSocket when it is reachable', async () => {
+    create(sim.wsPort);
+
+    await expect(transport.start(callbacks())).resolves.toBe('websocket');
+    sim.pushStatus();
+    await waitFor(() => readings.length > 0);
+
+    expect(transports).toEqual(['websocket']);
+    expect(connection).toContain(true);
+  });
+
+  it('polls over HTTP when the socket cannot connect', async () => {
+    create(await closedPort(), 'transport-2');
+
+    await expect(transport.start(callbacks())).resolves.toBe('polling');
+    await waitFor(() => readings.length > 0);
+
+    expect(transport.getTransport()).toBe('polling');
+    expect(readings[0].voltage).toBeGreaterThan(200);
+  });
+
+  it('falls back to polling when the socket drops and returns once it reconnects', async () => {
+    create(sim.wsPort, 'transport-3');
+    await transport.start(callbacks());
+
+    sim.closeSockets(1011, 'Restarting');
+    await waitFor(() => transports.includes('polling'));
+
+    // The socket's own backoff brings it back after about a second
+    await waitFor(() => transport.getTransport() === 'websocket');
+    expect(transports).toEqual(['websocket', 'polling', 'websocket']);
+
+    // Only the socket delivers readings again
+    readings = [];
+    sim.pushStatus();
+    await waitFor(() => readings.length > 0);
+    expect(transport.getTransport()).toBe('websocket');
+  });
+
+  it('stops delivering readings once stopped', async () => {
+    create(sim.wsPort, 'transport-4');
+    await transport.start(callbacks());
+
+    transport.stop();
+    readings = [];
+    sim.pushStatus();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(readings).toHaveLength(0);
+    expect(transport.getTransport()).toBe('none');
+  });
+
+  it('takes over a socket whose handshake is still in progress', async () => {
+    create(sim.wsPort, 'transport-5');
+    // An address change (updateUrl) starts connecting before the transport does
+    ws.connect();
+
+    await expect(transport.start(callbacks())).resolves.toBe('websocket');
+    expect(transports).toEqual(['websocket']);
+  });
+
+  it('stays stopped when stopped while the socket was connecting', async () => {
+    create(await closedPort(), 'transport-6');
+    const first = transport.start(callbacks());
+    transport.stop();
+
+    await first;
+    expect(transport.getTransport()).toBe('none');
+  });
+});
@@ -0,0 +1,255 @@
+// Contract tests for ESP32WebSocketService against the simulator's port-81 server
+import { ESP32WebSocketService, reconnectDelay, MAX_RECONNECT_ATTEMPTS } from '../esp32WebSocket';
+import { ESP32Error } from '../esp32Errors';
+import { ElectricalData } from '../../types';
+import { startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const { createWebSocketServer, encodeFrame } = require('../../simulator/websocket');
+const net = require('net');
+
+// React Native provides WebSocket; Node 20 does not
+(global as any).WebSocket = require('ws');
+
+const listen = (server: any): Promise<number> =>
+  new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server.address().port)));
+
+const close = (server: any): Promise<void> => new Promise((resolve) => server.close(() => resolve()));
+
+// A callback that queues its calls; next() resolves with the oldest one not yet taken
+const calls = <T>() => {
+  const queue: T[] = [];
+  let waiting: ((value: T) => void) | null = null;
+  const callback = jest.fn((value: T) => {
+    if (waiting) {
+      const resolve = waiting;
+      waiting = null;
+      resolve(value);
+    } else {
+      queue.push(value);
+    }
+  });
+  const next = () =>
+    new Promise<T>((resolve) => {
+      if (queue.length > 0) resolve(queue.shift() as T);
+      else waiting = resolve;
+    });
+  return { callback, next };
+};
+
+// Connection changes together with the error the service gives for a drop
+const connectionCalls = () => {
+  const { callback, next } = calls<[boolean, ESP32Error | undefined]>();
+  const handler = (connected: boolean, error?: ESP32Error) => callback([connected, error]);
+  return { callback, handler, next };
+};
+
+const STATUS = {
+  type: 'status',
+  voltage: 230.1,
+  current: 4.2,
+  power: 920,
+  energy: 1.5,
+  frequency: 50,
+  powerFactor: 0.95,
+  relayState: true,
+};
+
+describe('ESP32WebSocketService contract', () => {
+  let service: ESP32WebSocketService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    service?.disconnect();
+    jest.useRealTimers();
+  });
+
+  describe('against the simulator', () => {
+    let sim: any;
+
+    beforeAll(async () => {
+      sim = await startSimulator();
+    });
+
+    afterAll(async () => {
+      await sim.stop();
+    });
+
+    it('connects and delivers the first status frame', async () => {
+      service = new ESP32WebSocketService('127.0.0.1', String(sim.wsPort));
+      const status = calls<ElectricalData>();
+
+      await expect(service.connect(status.callback)).resolves.toBe(true);
+      const data = await status.next();
+
+      expect(service.isConnected()).toBe(true);
+      expect(data.voltage).toBeGreaterThan(200);
+    });
+
+    it('keeps the close code when the breaker drops the socket', async () => {
+      service = new ESP32WebSocketService('127.0.0.1', String(sim.wsPort));
+      const connection = connectionCalls();
+      await service.connect(undefined, connection.handler);
+      await connection.next();
+
+      sim.closeSockets(1011, 'restarting');
+      const [connected, error] = await connection.next();
+
+      expect(connected).toBe(false);
+      expect(error).toMatchObject({ kind: 'closed', code: 1011 });
+      expect(error!.message).toContain('restarting');
+    });
+  });
+
+  describe('against a scripted server', () => {
+    let stand: any;
+    let port: number;
+    let onConnection: (client: any) => void;
+
+    beforeEach(async () => {
+      onConnection = () => {};
+      stand = createWebSocketServer({
+        onConnection: (client: any) => onConnection(client),
+        onMessage: () => {},
+      });
+      port = await listen(stand.server);
+      service = new ESP32WebSocketService('127.0.0.1', String(port));
+    });
+
+    afterEach(async () => {
+      stand.closeAll();
+      await close(stand.server);
+    });
+
+    it('rejects malformed JSON without dropping the socket', async () => {
+      const rejected = calls<string[]>();
+      service.setRejectionHandler((_source, errors) => rejected.callback(errors));
+      onConnection = (client) => client.socket.write(encodeFrame(0x1, Buffer.from('{"type":"status",')));
+
+      await service.connect();
+      await expect(rejected.next()).resolves.toEqual(['malformed JSON']);
+      expect(service.isConnected()).toBe(true);
+    });
+
+    it('rejects a status frame missing a required field', async () => {
+      const rejected = calls<string[]>();
+      const onStatus = jest.fn();
+      service.setRejectionHandler((_source, errors) => rejected.callback(errors));
+      const { voltage, ...partial } = STATUS;
+      onConnection = (client) => client.send(partial);
+
+      await service.connect(onStatus);
+      const errors = await rejected.next();
+
+      expect(errors.join(' ')).toContain('status.voltage');
+      expect(onStatus).not.toHaveBeenCalled();
+    });
+
+    it('derives the optional fields of a minimal status frame', async () => {
+      const status = calls<ElectricalData>();
+      onConnection = (client) => client.send(STATUS);
+
+      await service.connect(status.callback);
+      const data = await status.next();
+
+      expect(data).toMatchObject({ voltage: 230.1, protectionTriggered: false, manualMode: false });
+      expect(data.apparentPower).toBeCloseTo(230.1 * 4.2);
+    });
+
+    it('does not reconnect after a normal closure', async () => {
+      const connection = connectionCalls();
+      await service.connect(undefined, connection.handler);
+      await connection.next();
+
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      stand.closeAll(1000);
+
+      await expect(connection.next()).resolves.toEqual([false, undefined]);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('reconnects one second after an abnormal closure', async () => {
+      const connection = connectionCalls();
+      await service.connect(undefined, connection.handler);
+      await connection.next();
+
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      stand.closeAll(4000, 'going away');
+      await expect(connection.next()).resolves.toEqual([false, expect.objectContaining({ kind: 'closed', code: 4000 })]);
+
+      const reconnected = connection.next();
+      jest.advanceTimersByTime(999);
+      expect(stand.clients.size).toBe(0);
+      jest.advanceTimersByTime(1);
+
+      await expect(reconnected).resolves.toEqual([true, undefined]);
+    });
+
+    it('times out a handshake the server never answers', async () => {
+      const silent = net.createServer(() => {});
+      const silentPort = await listen(silent);
+      service = new ESP32WebSocketService('127.0.0.1', String(silentPort));
+
+      const connection = connectionCalls();
+
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      const connected = service.connect(undefined, connection.handler);
+      jest.advanceTimersByTime(5000);
+
+      await expect(connected).resolves.toBe(false);
+      await expect(connection.next()).resolves.toEqual([false, expect.objectContaining({ kind: 'timeout' })]);
+
+      service.disconnect();
+      silent.close();
+    });
+  });
+
+  describe('reconnect backoff', () => {
+    it('doubles from one second up to ten', () => {
+      expect([0, 1, 2, 3, 4, 5].map(reconnectDelay)).toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+    });
+
+    it(`gives up after ${MAX_RECONNECT_ATTEMPTS} failed attempts`, async () => {
+      const refused = net.createServer();
+      const refusedPort = await listen(refused);
+      await close(refused);
+
+      service = new ESP32WebSocketService('127.0.0.1', String(refusedPort));
+      const connection = connectionCalls();
+
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      const failed = connection.next();
+      service.connect(undefined, connection.handler);
+      await expect(failed).resolves.toEqual([false, expect.objectContaining({ kind: 'unreachable' })]);
+
+      for (let attempt = 0; attempt < MAX_RECONNECT_ATTEMPTS; attempt++) {
+        const delay = reconnectDelay(attempt);
+        const retried = connection.next();
+
+        jest.advanceTimersByTime(delay - 1);
+        expect(connection.callback).toHaveBeenCalledTimes(attempt + 1);
+        jest.advanceTimersByTime(1);
+
+        await retried;
+        expect(connection.callback).toHaveBeenCalledTimes(attempt + 2);
+      }
+
+      // Out of attempts - nothing left scheduled
+      expect(jest.getTimerCount()).toBe(0);
+      jest.advanceTimersByTime(60000);
+      expect(connection.callback).toHaveBeenCalledTimes(MAX_RECONNECT_ATTEMPTS + 1);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+// Journal catch-up against the simulator: pages, the cursor, and one event per journal entry
+import { EventJournalService } from '../eventJournal';
+import { getDeviceApi } from '../esp32Api';
+import { useEventsStore } from '../../store/useEventsStore';
+import { storesLoaded, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('EventJournalService', () => {
+  let sim: any;
+  let journal: EventJournalService;
+  let deviceId: string;
+  let count = 0;
+
+  const events = () => useEventsStore.getState().events.filter((event) => event.deviceId === deviceId);
+
+  // An entry the breaker logs on its own, the way its button or protection would
+  const record = (event: string, message: string, extra: Record<string, unknown> = {}) =>
+    sim.journal.record(event, message, extra);
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await storesLoaded();
+
+    sim = await startSimulator();
+  });
+
+  afterAll(async () => {
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    sim.journal.entries = [];
+    sim.journal.latestSeq = 0;
+    deviceId = `journal-${++count}`;
+    getDeviceApi(deviceId, '127.0.0.1', String(sim.httpPort));
+    useEventsStore.setState({ events: [], journalCursors: {} });
+    journal = new EventJournalService();
+  });
+
+  it('pulls what the breaker logged while the app was away, once', async () => {
+    const first = record('relay', 'Relay OFF', { relayState: false });
+    record('outage', 'Mains lost');
+    record('restore', 'Mains back');
+
+    await expect(journal.sync(deviceId)).resolves.toBe(3);
+    expect(events().map((event) => event.type).sort()).toEqual(['manual_off', 'outage', 'restore']);
+    expect(events()[0]).toMatchObject({ source: 'device', id: `dev-${deviceId}-${sim.journal.journalId}-${first.seq}` });
+
+    await expect(journal.sync(deviceId)).resolves.toBe(0);
+    expect(events()).toHaveLength(3);
+    expect(useEventsStore.getState().getJournalCursor(deviceId)).toMatchObject({
+      journalId: sim.journal.journalId,
+      seq: sim.journal.latestSeq,
+    });
+  });
+
+  it('reads a long journal page by page', async () => {
+    for (let i = 0; i < 120; i++) record('relay', i % 2 ? 'Relay ON' : 'Relay OFF', { relayState: i % 2 === 1 });
+
+    await expect(journal.sync(deviceId)).resolves.toBe(120);
+  });
+
+  it('takes a live event after the cursor and does not add it again from the journal', async () => {
+    await journal.sync(deviceId);
+    const entry = record('relay', 'Relay OFF', { relayState: false });
+
+    journal.handleLiveEvent(deviceId, { type: 'event', ...entry });
+
+    expect(events()).toHaveLength(1);
+    await expect(journal.sync(deviceId)).resolves.toBe(0);
+    expect(events()).toHaveLength(1);
+  });
+
+  it('replaces the event the app inferred with the breaker\'s copy', async () => {
+    useEventsStore.getState().addEvent({
+      id: `app-${deviceId}`,
+      type: 'outage',
+      timestamp: Date.now(),
+      description: 'Power outage detected',
+      deviceId,
+    });
+    record('outage', 'Mains lost');
+
+    await expect(journal.sync(deviceId)).resolves.toBe(0);
+    expect(events()).toEqual([expect.objectContaining({ type: 'outage', source: 'device', description: 'Mains lost' })]);
+  });
+
+  it('reads an erased journal from the start', async () => {
+    record('relay', 'Relay OFF', { relayState: false });
+    record('relay', 'Relay ON', { relayState: true });
+    await journal.sync(deviceId);
+
+    // Flash erased: new journal ID, numbering starts over below our cursor
+    const previousId = sim.journal.journalId;
+    sim.journal.journalId = 'erased01';
+    sim.journal.entries = [];
+    sim.journal.latestSeq = 0;
+    record('outage', 'Mains lost');
+
+    await expect(journal.sync(deviceId)).resolves.toBe(1);
+    expect(events()).toHaveLength(3);
+    expect(useEventsStore.getState().getJournalCursor(deviceId)).toMatchObject({ journalId: 'erased01', seq: 1 });
+    sim.journal.journalId = previousId;
+  });
+});
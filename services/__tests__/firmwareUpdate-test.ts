@@ -0,0 +1,179 @@
+// Over-the-air updates against the simulator's OTA slots: flash, verify, then confirm or roll back
+import { FirmwareUpdateService } from '../firmwareUpdate';
+import { useElectricalStore } from '../../store/useElectricalStore';
+import { useSettingsStore } from '../../store/useSettingsStore';
+import { generateDefaultSettings } from '../../utils/mockData';
+import { storesLoaded, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// History keeps minute and five-minute timers from import on; readings need not reach it here
+jest.mock('../../store/useHistoryStore', () => ({
+  useHistoryStore: {
+    getState: () => ({ logReading: jest.fn(), setActiveDevice: jest.fn(), removeDevice: jest.fn() }),
+  },
+}));
+
+// Downloads and uploads go through the native module - here the files stay in memory and travel by fetch
+jest.mock('expo-file-system/legacy', () => {
+  const files = new Map<string, ArrayBuffer>();
+  return {
+    cacheDirectory: 'file:///cache/',
+    EncodingType: { UTF8: 'utf8', Base64: 'base64' },
+    FileSystemUploadType: { BINARY_CONTENT: 0, MULTIPART: 1 },
+    createDownloadResumable: (url: string, fileUri: string, _options: unknown, onProgress?: (progress: any) => void) => ({
+      downloadAsync: async () => {
+        const response = await fetch(url);
+        const body = await response.arrayBuffer();
+        files.set(fileUri, body);
+        onProgress?.({ totalBytesWritten: body.byteLength, totalBytesExpectedToWrite: body.byteLength });
+        return { uri: fileUri, status: response.status, headers: {} };
+      },
+    }),
+    readAsStringAsync: async (fileUri: string, options?: { encoding?: string }) =>
+      Buffer.from(files.get(fileUri)!).toString(options?.encoding === 'base64' ? 'base64' : 'utf8'),
+    deleteAsync: async (fileUri: string) => {
+      files.delete(fileUri);
+    },
+    createUploadTask: (url: string, fileUri: string, options: any, onProgress?: (progress: any) => void) => ({
+      uploadAsync: async () => {
+        const body = files.get(fileUri)!;
+        const response = await fetch(url, { method: options.httpMethod, headers: options.headers, body });
+        onProgress?.({ totalBytesSent: body.byteLength, totalBytesExpectedToSend: body.byteLength });
+        return { status: response.status, body: await response.text(), headers: {} };
+      },
+    }),
+  };
+});
+
+const http = require('http');
+const nodeCrypto = require('crypto');
+
+// React Native provides WebSocket; Node 20 does not
+(global as any).WebSocket = require('ws');
+
+// Moves fake time on in small steps and lets the real sockets answer in between
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  let done = false;
+  promise.then(
+    () => (done = true),
+    () => (done = true)
+  );
+  while (!done) {
+    await jest.advanceTimersByTimeAsync(250);
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  return promise;
+};
+
+describe('FirmwareUpdateService against the simulator', () => {
+  let sim: any;
+  let server: any;
+  let manifestUrl: string;
+  let deviceId: string;
+  let image: Buffer;
+  let manifest: Record<string, unknown>;
+  const updater = new FirmwareUpdateService();
+
+  // Publish a new image and its manifest on the update server
+  const release = (version: string) => {
+    image = Buffer.from(`SmartCB firmware ${version} `.repeat(64));
+    manifest = {
+      version,
+      url: 'image.bin',
+      sha256: nodeCrypto.createHash('sha256').update(image).digest('hex'),
+      size: image.length,
+      model: 'ESP32-SmartCB',
+    };
+  };
+
+  const update = async (version: string) => {
+    release(version);
+    const check = await settle(updater.check(deviceId, manifestUrl));
+    if (!check.ok) throw new Error(`Manifest check failed: ${check.reason}`);
+    return settle(updater.update(deviceId, check.check));
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await storesLoaded();
+
+    sim = await startSimulator();
+    server = http.createServer((req: any, res: any) => {
+      if (req.url.endsWith('/manifest.json')) return res.end(JSON.stringify(manifest));
+      if (req.url.endsWith('/image.bin')) return res.end(image);
+      res.statusCode = 404;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    manifestUrl = `http://127.0.0.1:${server.address().port}/releases/manifest.json`;
+
+    // Reboots, health checks and confirm windows run on the fake clock
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    const connected = await settle(useElectricalStore.getState().connectToESP32('127.0.0.1', String(sim.httpPort)));
+    if (!connected.ok) throw new Error(`Could not connect: ${connected.reason}`);
+    deviceId = connected.deviceId;
+  });
+
+  afterAll(async () => {
+    useElectricalStore.getState().removeDevice(deviceId);
+    jest.useRealTimers();
+    await new Promise((resolve) => server.close(resolve));
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    sim.breaker.resetConditions();
+    sim.firmware.fault = null;
+    // Relay off - no load to drop, so the load limit does not stand in the way
+    sim.breaker.setRelay(false);
+    useSettingsStore.getState().setDeviceSettings(deviceId, generateDefaultSettings());
+  });
+
+  it('flashes, confirms and reconnects to a healthy image', async () => {
+    const result = await update('4.1.0');
+
+    expect(result).toEqual({ ok: true, version: '4.1.0' });
+    expect(sim.firmware.status()).toMatchObject({ version: '4.1.0', state: 'valid', previousVersion: '4.0.0' });
+    expect(useElectricalStore.getState().devices[deviceId].connection.isConnected).toBe(true);
+  });
+
+  it('reports an image the bootloader refused as rejected', async () => {
+    sim.firmware.fault = 'bad-image';
+
+    const result = await update('4.2.0');
+
+    expect(result).toEqual({ ok: false, reason: 'rejected_image' });
+    expect(sim.firmware.version).toBe('4.1.0');
+    expect(useElectricalStore.getState().devices[deviceId].connection.isConnected).toBe(true);
+  });
+
+  it('rolls back an image that never produces a valid reading', async () => {
+    sim.firmware.fault = 'unhealthy';
+
+    const result = await update('4.3.0');
+
+    expect(result).toEqual({ ok: false, reason: 'unhealthy' });
+    expect(sim.firmware.status()).toMatchObject({ version: '4.1.0', state: 'valid' });
+    expect(useElectricalStore.getState().devices[deviceId].connection.isConnected).toBe(true);
+  });
+
+  it('refuses to flash while the load is above the limit', async () => {
+    sim.breaker.setRelay(true);
+    const settings = generateDefaultSettings();
+    useSettingsStore.getState().setDeviceSettings(deviceId, {
+      ...settings,
+      device: { ...settings.device, updateLoadLimit: 100 },
+    });
+
+    const result = await update('4.4.0');
+
+    expect(result).toEqual({ ok: false, reason: 'load_too_high' });
+    expect(sim.firmware.version).toBe('4.1.0');
+  });
+});
@@ -0,0 +1,158 @@
+// Link quality scoring: latency, failures, staleness and RSSI over the rolling window
+import { LinkQualityService, rssiToSignal } from '../linkQuality';
+import { useDiagnosticsStore } from '../../store/useDiagnosticsStore';
+import { generateMockElectricalData } from '../../utils/mockData';
+import { storesLoaded } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('LinkQualityService', () => {
+  let link: LinkQualityService;
+  let deviceId: string;
+  let count = 0;
+
+  const frame = (rssi?: number) => link.recordFrame(deviceId, { ...generateMockElectricalData(), rssi });
+  const requests = (latencyMs: number, ok: boolean, times = 1, path = '/api/status') => {
+    for (let i = 0; i < times; i++) link.recordRequest(deviceId, path, latencyMs, ok);
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await storesLoaded();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    deviceId = `link-${++count}`;
+    link = new LinkQualityService();
+    link.start(deviceId);
+  });
+
+  afterEach(() => {
+    link.forget(deviceId);
+    jest.useRealTimers();
+  });
+
+  it('scores a fast, reliable link at full strength', () => {
+    requests(80, true, 5);
+    frame();
+
+    expect(link.evaluate(deviceId)).toMatchObject({
+      latencyMs: 80,
+      failureRate: 0,
+      requestCount: 5,
+      signalStrength: 100,
+      degradedReasons: [],
+    });
+  });
+
+  it('scales strength down with the median round trip and flags it past a second', () => {
+    requests(150, true, 2);
+    requests(1200, true, 3);
+    frame();
+
+    const quality = link.evaluate(deviceId);
+
+    expect(quality.latencyMs).toBe(1200);
+    expect(quality.signalStrength).toBe(42);
+    expect(quality.degradedReasons).toEqual(['latency']);
+  });
+
+  it('ignores the latency of slow-by-design paths and failed requests', () => {
+    requests(200, true);
+    requests(30000, true, 1, '/api/firmware/upload');
+    requests(8000, false);
+    frame();
+
+    expect(link.evaluate(deviceId)).toMatchObject({ latencyMs: 200, requestCount: 3 });
+  });
+
+  it('flags failures only once there are enough requests to call it a trend', () => {
+    frame();
+    requests(0, false, 2);
+    expect(link.evaluate(deviceId).degradedReasons).toEqual([]);
+
+    requests(100, true, 2);
+    const quality = link.evaluate(deviceId);
+
+    expect(quality.failureRate).toBe(0.5);
+    expect(quality.degradedReasons).toEqual(['failures']);
+    expect(quality.signalStrength).toBe(50);
+  });
+
+  it('drops requests that fell out of the window', () => {
+    requests(0, false, 4);
+    jest.advanceTimersByTime(61 * 1000);
+    frame();
+
+    expect(link.evaluate(deviceId)).toMatchObject({ requestCount: 0, failureRate: 0, degradedReasons: [] });
+  });
+
+  it('calls a link stale after five seconds without a frame, counting from the start', () => {
+    jest.advanceTimersByTime(6000);
+    expect(link.evaluate(deviceId).degradedReasons).toEqual(['stale']);
+
+    frame();
+    expect(link.evaluate(deviceId).degradedReasons).toEqual([]);
+  });
+
+  it('takes the breaker\'s RSSI over the latency score and flags a weak signal', () => {
+    requests(1500, true);
+    frame(-85);
+
+    const quality = link.evaluate(deviceId);
+
+    expect(quality.signalStrength).toBe(rssiToSignal(-85));
+    expect(quality.degradedReasons).toEqual(['latency', 'weak_signal']);
+    expect(rssiToSignal(-95)).toBe(0);
+    expect(rssiToSignal(-65)).toBe(50);
+    expect(rssiToSignal(-30)).toBe(100);
+  });
+
+  it('reports a change once and re-evaluates on its own', () => {
+    const onChange = jest.fn();
+    link.setChangeHandler(onChange);
+    frame();
+
+    jest.advanceTimersByTime(2000);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(link.getSignalStrength(deviceId)).toBe(100);
+
+    frame();
+    jest.advanceTimersByTime(2000);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(6000);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith(deviceId, expect.objectContaining({ degradedReasons: ['stale'] }));
+  });
+
+  it('keeps one history sample per ten seconds for the diagnostics view', () => {
+    frame();
+    for (let i = 0; i < 10; i++) {
+      frame();
+      jest.advanceTimersByTime(2000);
+    }
+
+    const diagnostics = useDiagnosticsStore.getState().getDiagnostics(deviceId);
+    expect(diagnostics.link).toMatchObject({ signalStrength: 100 });
+    expect(diagnostics.linkHistory).toHaveLength(2);
+  });
+
+  it('forgets a removed breaker', () => {
+    frame(-60);
+    link.evaluate(deviceId);
+    expect(link.getSignalStrength(deviceId)).toBe(60);
+
+    link.forget(deviceId);
+
+    expect(link.getSignalStrength(deviceId)).toBe(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
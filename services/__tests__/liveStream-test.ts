@@ -0,0 +1,101 @@
+// Live capture against the simulator: numbered batches in, stopped on request, failed when the socket drops
+import { LiveStreamService } from '../liveStream';
+import { getDeviceWebSocket, releaseDeviceWebSocket } from '../esp32WebSocket';
+import { useStreamStore } from '../../store/useStreamStore';
+import { storesLoaded, waitFor, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// React Native provides WebSocket; Node 20 does not
+(global as any).WebSocket = require('ws');
+
+describe('LiveStreamService against the simulator', () => {
+  const deviceId = 'stream-1';
+  const live = new LiveStreamService();
+  let sim: any;
+
+  const capture = () => useStreamStore.getState().captures[deviceId];
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await storesLoaded();
+
+    sim = await startSimulator();
+    await getDeviceWebSocket(deviceId, '127.0.0.1', String(sim.wsPort)).connect();
+  });
+
+  afterAll(async () => {
+    live.cancel(deviceId);
+    releaseDeviceWebSocket(deviceId);
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('collects every sample of a capture and ends when the breaker does', async () => {
+    expect(live.start(deviceId, 20, 1)).toBe(true);
+    expect(live.isStreaming(deviceId)).toBe(true);
+
+    await waitFor(() => capture().status === 'complete');
+
+    expect(capture()).toMatchObject({ rate: 20, lostBatches: 0, error: null });
+    expect(capture().samples.map((sample) => sample.t)).toEqual(Array.from({ length: 20 }, (_, i) => i * 50));
+    expect(capture().samples[0].voltage).toBeGreaterThan(200);
+    expect(live.isStreaming(deviceId)).toBe(false);
+  });
+
+  it('stops on request, keeps what arrived and takes no more', async () => {
+    live.start(deviceId, 25, 30);
+    await waitFor(() => capture().samples.length > 0);
+
+    live.stop(deviceId);
+    const kept = capture().samples.length;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(capture().status).toBe('stopped');
+    expect(capture().samples).toHaveLength(kept);
+    expect(live.isStreaming(deviceId)).toBe(false);
+
+    // The breaker let the capture go - a new one is not refused as busy
+    live.start(deviceId, 25, 30);
+    await waitFor(() => capture().samples.length > 0);
+    live.cancel(deviceId);
+    expect(capture()).toBeUndefined();
+  });
+
+  it('fails a capture whose socket dropped and captures again once it is back', async () => {
+    live.start(deviceId, 10, 30);
+    await waitFor(() => capture().status === 'streaming');
+
+    sim.closeSockets(1011, 'restarting');
+    await waitFor(() => capture().status === 'failed', 6000);
+    expect(capture().error).toBe('interrupted');
+    expect(capture().samples.length).toBeGreaterThan(0);
+
+    await waitFor(() => getDeviceWebSocket(deviceId).isConnected(), 6000);
+    expect(live.start(deviceId, 10, 1)).toBe(true);
+    await waitFor(() => capture().status === 'complete');
+    expect(capture().samples).toHaveLength(10);
+  }, 20000);
+
+  it('reports a rate the breaker does not offer as unsupported', async () => {
+    live.start(deviceId, 200, 5);
+
+    await waitFor(() => capture().status === 'failed');
+
+    expect(capture()).toMatchObject({ error: 'unsupported', samples: [] });
+  });
+
+  it('does not start without a socket', () => {
+    const offline = 'stream-offline';
+
+    expect(live.start(offline, 10, 5)).toBe(false);
+
+    expect(useStreamStore.getState().captures[offline]).toMatchObject({ status: 'failed', error: 'not_connected' });
+    expect(live.isStreaming(offline)).toBe(false);
+    releaseDeviceWebSocket(offline);
+  });
+});
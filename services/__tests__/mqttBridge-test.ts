@@ -0,0 +1,394 @@
+// MQTT against an in-process broker: the client's 3.1.1 packets, then a relay command
+// from the broker through the bridge to the firmware simulator and back
+import { MqttClient, MqttMessage } from '../mqttClient';
+import { getMqttBridge, getTopicId } from '../mqttBridge';
+import { useElectricalStore } from '../../store/useElectricalStore';
+import { useDeviceStore } from '../../store/useDeviceStore';
+import { useMqttStore, DEFAULT_MQTT_CONFIG } from '../../store/useMqttStore';
+import { storesLoaded, waitFor, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// History keeps minute and five-minute timers from import on; readings need not reach it here
+jest.mock('../../store/useHistoryStore', () => ({
+  useHistoryStore: {
+    getState: () => ({ logReading: jest.fn(), setActiveDevice: jest.fn(), removeDevice: jest.fn() }),
+  },
+}));
+
+const { Server: WebSocketServer } = require('ws');
+
+// React Native provides WebSocket; Node 20 does not
+(global as any).WebSocket = require('ws');
+
+// The broker's own encoding, written out independently of the client's
+const remainingLength = (length: number): number[] => {
+  const bytes: number[] = [];
+  do {
+    bytes.push((length % 128) | (length >= 128 ? 0x80 : 0));
+    length = Math.floor(length / 128);
+  } while (length > 0);
+  return bytes;
+};
+
+const mqttString = (text: string): number[] => {
+  const bytes = [...Buffer.from(text, 'utf8')];
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+};
+
+const publishPacket = (topic: string, payload: string, options: { qos?: number; packetId?: number; retain?: boolean } = {}) => {
+  const qos = options.qos ?? 0;
+  const body = [
+    ...mqttString(topic),
+    ...(qos > 0 ? [(options.packetId ?? 1) >> 8, (options.packetId ?? 1) & 0xff] : []),
+    ...Buffer.from(payload, 'utf8'),
+  ];
+  return Buffer.from([0x30 | (qos << 1) | (options.retain ? 1 : 0), ...remainingLength(body.length), ...body]);
+};
+
+interface BrokerPacket {
+  type: number;
+  flags: number;
+  body: Buffer;
+  raw: Buffer;
+}
+
+interface PublishedMessage {
+  topic: string;
+  payload: string;
+  qos: number;
+  retain: boolean;
+  packetId?: number;
+}
+
+const readPublish = (packet: BrokerPacket): PublishedMessage => {
+  const qos = (packet.flags >> 1) & 0x03;
+  const topicLength = packet.body.readUInt16BE(0);
+  const topic = packet.body.subarray(2, 2 + topicLength).toString('utf8');
+  const offset = 2 + topicLength + (qos > 0 ? 2 : 0);
+  return {
+    topic,
+    payload: packet.body.subarray(offset).toString('utf8'),
+    qos,
+    retain: (packet.flags & 0x01) === 1,
+    ...(qos > 0 && { packetId: packet.body.readUInt16BE(2 + topicLength) }),
+  };
+};
+
+// Just enough broker: acknowledges CONNECT, SUBSCRIBE, QoS 1 PUBLISH and PINGREQ, and records every packet
+const createBroker = async () => {
+  const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+  await new Promise((resolve) => server.once('listening', resolve));
+
+  const broker = {
+    port: server.address().port as number,
+    packets: [] as BrokerPacket[],
+    protocols: [] as string[],
+    answerPings: true,
+    socket: null as any,
+    ofType: (type: number) => broker.packets.filter((packet) => packet.type === type),
+    published: () => broker.ofType(3).map(readPublish),
+    send: (bytes: Buffer) => broker.socket?.send(bytes),
+    drop: () => broker.socket?.terminate(),
+    stop: () =>
+      new Promise<void>((resolve) => {
+        server.clients.forEach((client: any) => client.terminate());
+        server.close(() => resolve());
+      }),
+  };
+
+  const handle = (packet: BrokerPacket) => {
+    broker.packets.push(packet);
+    switch (packet.type) {
+      case 1: // CONNECT
+        broker.send(Buffer.from([0x20, 0x02, 0x00, 0x00]));
+        break;
+      case 3: // PUBLISH
+        if ((packet.flags >> 1) & 0x03) {
+          broker.send(Buffer.from([0x40, 0x02, ...packet.body.subarray(packet.body.readUInt16BE(0) + 2).subarray(0, 2)]));
+        }
+        break;
+      case 8: {
+        // SUBSCRIBE - grant QoS 1 to every filter
+        let filters = 0;
+        for (let offset = 2; offset < packet.body.length; offset += packet.body.readUInt16BE(offset) + 3) filters++;
+        broker.send(Buffer.from([0x90, 2 + filters, packet.body[0], packet.body[1], ...Array(filters).fill(1)]));
+        break;
+      }
+      case 12: // PINGREQ
+        if (broker.answerPings) broker.send(Buffer.from([0xd0, 0x00]));
+        break;
+    }
+  };
+
+  server.on('connection', (socket: any) => {
+    broker.socket = socket;
+    broker.protocols.push(socket.protocol);
+    let buffer = Buffer.alloc(0);
+
+    socket.on('message', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data]);
+      while (buffer.length >= 2) {
+        let length = 0;
+        let multiplier = 1;
+        let offset = 1;
+        let byte: number;
+        do {
+          byte = buffer[offset++];
+          length += (byte & 0x7f) * multiplier;
+          multiplier *= 128;
+        } while (byte & 0x80);
+        if (buffer.length < offset + length) return;
+
+        handle({
+          type: buffer[0] >> 4,
+          flags: buffer[0] & 0x0f,
+          body: buffer.subarray(offset, offset + length),
+          raw: buffer.subarray(0, offset + length),
+        });
+        buffer = buffer.subarray(offset + length);
+      }
+    });
+  });
+
+  return broker;
+};
+
+type Broker = Awaited<ReturnType<typeof createBroker>>;
+
+describe('MqttClient', () => {
+  let broker: Broker;
+  let client: MqttClient;
+  let messages: MqttMessage[];
+  let changes: { connected: boolean; error?: string }[];
+
+  const connect = async (options: Partial<ConstructorParameters<typeof MqttClient>[0]> = {}) => {
+    client = new MqttClient({ url: `ws://127.0.0.1:${broker.port}`, clientId: 'phone-1', ...options });
+    client.start({
+      onMessage: (message) => messages.push(message),
+      onConnectionChange: (connected, error) => changes.push({ connected, error }),
+    });
+    await waitFor(() => client.isConnected());
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    broker = await createBroker();
+    messages = [];
+    changes = [];
+  });
+
+  afterEach(async () => {
+    client?.stop();
+    await broker.stop();
+  });
+
+  it('opens with a CONNECT carrying the will, credentials and keep-alive', async () => {
+    await connect({
+      username: 'home',
+      password: 'secret',
+      keepAlive: 45,
+      will: { topic: 'smartcb/bridge/availability', payload: 'offline', retain: true, qos: 1 },
+    });
+
+    expect(broker.protocols).toEqual(['mqtt']);
+    const [connectPacket] = broker.ofType(1);
+    expect([...connectPacket.body]).toEqual([
+      ...mqttString('MQTT'),
+      4, // Protocol level 3.1.1
+      0xee, // Username, password, will retain, will QoS 1, will flag, clean session
+      0, 45,
+      ...mqttString('phone-1'),
+      ...mqttString('smartcb/bridge/availability'),
+      ...mqttString('offline'),
+      ...mqttString('home'),
+      ...mqttString('secret'),
+    ]);
+    expect(changes).toEqual([{ connected: true, error: undefined }]);
+  });
+
+  it('subscribes at QoS 1 and renews the subscriptions after a reconnect', async () => {
+    client = new MqttClient({ url: `ws://127.0.0.1:${broker.port}`, clientId: 'phone-1' });
+    client.subscribe(['smartcb/+/relay/set', 'smartcb/+/settings/set']);
+    client.start({ onConnectionChange: (connected, error) => changes.push({ connected, error }) });
+    await waitFor(() => broker.ofType(8).length === 1);
+
+    const [subscribe] = broker.ofType(8);
+    expect(subscribe.flags).toBe(0x02);
+    expect([...subscribe.body.subarray(2)]).toEqual([
+      ...mqttString('smartcb/+/relay/set'), 1,
+      ...mqttString('smartcb/+/settings/set'), 1,
+    ]);
+
+    // The first reconnect waits 2 s
+    broker.drop();
+    await waitFor(() => broker.ofType(8).length === 2, 5000);
+    expect(changes.map((change) => change.connected)).toEqual([true, false, true]);
+    expect([...broker.ofType(8)[1].body.subarray(2)]).toEqual([...subscribe.body.subarray(2)]);
+  });
+
+  it('publishes QoS 0 at once and QoS 1 once the broker acknowledges it', async () => {
+    await connect();
+
+    await expect(client.publish('smartcb/kitchen/event', '{"type":"outage"}')).resolves.toBe(true);
+    await expect(client.publish('smartcb/kitchen/status', '{"voltage":230}', { qos: 1, retain: true })).resolves.toBe(true);
+    await waitFor(() => broker.ofType(3).length === 2);
+
+    const [event, status] = broker.published();
+    expect(event).toEqual({ topic: 'smartcb/kitchen/event', payload: '{"type":"outage"}', qos: 0, retain: false });
+    expect(status).toMatchObject({ topic: 'smartcb/kitchen/status', payload: '{"voltage":230}', qos: 1, retain: true });
+    expect(status.packetId).toBeGreaterThan(0);
+  });
+
+  it('encodes remaining lengths that need two and three bytes', async () => {
+    await connect();
+    // Topic "t" costs 3 bytes of the remaining length at QoS 0
+    const sizes = [127, 128, 16383, 16384];
+    for (const size of sizes) {
+      await client.publish('t', 'x'.repeat(size - 3));
+    }
+    await waitFor(() => broker.ofType(3).length === sizes.length);
+
+    expect(broker.ofType(3).map((packet) => [...packet.raw.subarray(1, packet.raw.length - packet.body.length)])).toEqual([
+      [0x7f],
+      [0x80, 0x01],
+      [0xff, 0x7f],
+      [0x80, 0x80, 0x01],
+    ]);
+  });
+
+  it('reads packets split across frames and several in one frame, acknowledging QoS 1', async () => {
+    await connect();
+
+    const long = publishPacket('smartcb/kitchen/relay/set', 'y'.repeat(300), { qos: 1, packetId: 0x0102 });
+    broker.send(long.subarray(0, 100));
+    broker.send(long.subarray(100));
+    broker.send(Buffer.concat([publishPacket('a', 'ON', { retain: true }), publishPacket('b', 'OFF')]));
+    await waitFor(() => messages.length === 3);
+
+    expect(messages).toEqual([
+      { topic: 'smartcb/kitchen/relay/set', payload: 'y'.repeat(300), retain: false },
+      { topic: 'a', payload: 'ON', retain: true },
+      { topic: 'b', payload: 'OFF', retain: false },
+    ]);
+    await waitFor(() => broker.ofType(4).length === 1);
+    expect([...broker.ofType(4)[0].body]).toEqual([0x01, 0x02]);
+  });
+
+  it('pings every keep-alive and drops a broker that stops answering', async () => {
+    await connect({ keepAlive: 1 });
+    await waitFor(() => broker.ofType(12).length === 1, 2000);
+    expect(client.isConnected()).toBe(true);
+
+    broker.answerPings = false;
+    await waitFor(() => changes.some((change) => !change.connected), 4000);
+    expect(changes[changes.length - 1]).toEqual({ connected: false, error: 'Broker stopped answering' });
+  });
+});
+
+describe('MqttBridge relay commands', () => {
+  let sim: any;
+  let broker: Broker;
+  let deviceId: string;
+  let topic: string;
+
+  const results = () =>
+    broker
+      .published()
+      .filter((message) => message.topic === `${topic}/relay/result`)
+      .map((message) => JSON.parse(message.payload));
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await storesLoaded();
+
+    sim = await startSimulator();
+    await useElectricalStore.getState().connectToESP32('127.0.0.1', String(sim.httpPort));
+    deviceId = useElectricalStore.getState().activeDeviceId;
+    await waitFor(() => useElectricalStore.getState().devices[deviceId]?.connection.transport === 'websocket');
+    topic = `smartcb/${getTopicId(useDeviceStore.getState().getDevice(deviceId)!)}`;
+
+    broker = await createBroker();
+    useMqttStore.setState({
+      config: { ...DEFAULT_MQTT_CONFIG, enabled: true, url: `ws://127.0.0.1:${broker.port}`, allowCommands: true },
+    });
+    getMqttBridge().start();
+    await waitFor(() => broker.ofType(8).length > 0);
+  });
+
+  afterAll(async () => {
+    await getMqttBridge().stop();
+    useElectricalStore.getState().removeDevice(deviceId);
+    await broker.stop();
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('switches the breaker and reports the confirmed command back', async () => {
+    broker.send(publishPacket(`${topic}/relay/set`, '{"state": false, "id": "cmd-1"}', { qos: 1, packetId: 7 }));
+    await waitFor(() => results().length === 1);
+
+    expect(results()[0]).toMatchObject({ id: 'cmd-1', status: 'confirmed', state: false, attempts: 1 });
+    expect(sim.getStatus().relayState).toBe(false);
+  });
+
+  it('takes the bare ON and rejects payloads it cannot read', async () => {
+    broker.send(publishPacket(`${topic}/relay/set`, 'ON'));
+    broker.send(publishPacket(`${topic}/relay/set`, '{"state": "off", "id": "cmd-3"}'));
+    await waitFor(() => results().length === 3);
+
+    expect(results().slice(1)).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ status: 'confirmed', state: true }),
+        expect.objectContaining({ status: 'rejected', error: 'state: expected boolean' }),
+      ])
+    );
+    expect(sim.getStatus().relayState).toBe(true);
+  });
+
+  describe('settings', () => {
+    const settingsResults = () =>
+      broker
+        .published()
+        .filter((message) => message.topic === `${topic}/settings/result`)
+        .map((message) => JSON.parse(message.payload));
+
+    it('confirms settings once the breaker reads them back', async () => {
+      broker.send(publishPacket(`${topic}/settings/set`, '{"maxVoltage": 248, "id": "set-1"}'));
+      await waitFor(() => settingsResults().length === 1);
+
+      expect(settingsResults()[0]).toMatchObject({ id: 'set-1', status: 'confirmed' });
+      expect(sim.breaker.settings.maxVoltage).toBe(248);
+    });
+
+    it('fails settings the breaker answers 200 for but does not keep', async () => {
+      // Answers 200 but holds on to its old limit
+      const update = sim.breaker.updateSettings.bind(sim.breaker);
+      jest.spyOn(sim.breaker, 'updateSettings').mockImplementationOnce((changes: any) =>
+        update({ ...changes, maxVoltage: sim.breaker.settings.maxVoltage })
+      );
+
+      broker.send(publishPacket(`${topic}/settings/set`, '{"maxVoltage": 252, "id": "set-2"}'));
+      await waitFor(() => settingsResults().length === 2);
+
+      expect(settingsResults()[1]).toMatchObject({
+        id: 'set-2',
+        status: 'failed',
+        error: 'Breaker did not keep maxVoltage',
+      });
+      expect(sim.breaker.settings.maxVoltage).toBe(248);
+    });
+  });
+});
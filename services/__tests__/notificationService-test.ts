@@ -0,0 +1,148 @@
+// Alerts alongside event detection: toasts per alert, but one logged event per episode
+import { checkAllAlerts } from '../notificationService';
+import { getSessionReplay } from '../sessionReplay';
+import { showToast } from '../../components/ui/ToastManager';
+import { useElectricalStore } from '../../store/useElectricalStore';
+import { useEventsStore, computeEventStatistics } from '../../store/useEventsStore';
+import { useSessionStore } from '../../store/useSessionStore';
+import { ElectricalData, SessionRecording } from '../../types';
+import { storesLoaded } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// History keeps minute and five-minute timers from import on; readings need not reach it here
+jest.mock('../../store/useHistoryStore', () => ({
+  useHistoryStore: {
+    getState: () => ({ logReading: jest.fn(), setActiveDevice: jest.fn(), removeDevice: jest.fn() }),
+  },
+}));
+
+const reading = (changes: Partial<ElectricalData> = {}): ElectricalData => ({
+  voltage: 230,
+  current: 5,
+  power: 1100,
+  energy: 12,
+  frequency: 50,
+  powerFactor: 0.95,
+  apparentPower: 1150,
+  reactivePower: 300,
+  // Off, so no alert below reaches for the relay
+  relayState: false,
+  timestamp: Date.now(),
+  ...changes,
+});
+
+describe('checkAllAlerts with checkAndLogEvents', () => {
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // The stores load from storage 100 ms after import - let that finish before the clock is faked
+    await storesLoaded();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2026, 2, 3, 12) });
+    useEventsStore.setState({ events: [], lastReadingsByDevice: {}, episodesByDevice: {} });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // One status frame per second through both paths, the way processReading runs them
+  const frames = (deviceId: string, changes: Partial<ElectricalData>[]) =>
+    changes.forEach((change) => {
+      const data = reading(change);
+      useEventsStore.getState().checkAndLogEvents(data, deviceId);
+      checkAllAlerts(data, true, deviceId);
+      jest.advanceTimersByTime(1000);
+    });
+
+  const eventsOf = (deviceId: string) =>
+    useEventsStore.getState().events.filter((event) => event.deviceId === deviceId);
+
+  it('logs a sag once even when its alert repeats after the cooldown', () => {
+    // 40 s - long enough for the 30 s alert cooldown to run out mid-sag
+    frames('alerts-1', [...Array(40).fill({ voltage: 190 }), { voltage: 230 }, { voltage: 230 }, { voltage: 230 }]);
+
+    const sags = eventsOf('alerts-1').filter((event) => event.type === 'undervoltage');
+    expect(sags).toHaveLength(1);
+    expect(sags[0]).toMatchObject({ source: 'app', open: false });
+    expect(sags[0].duration).toBeGreaterThanOrEqual(39000);
+  });
+
+  it('logs frequency and power factor violations only as episodes', () => {
+    frames('alerts-2', Array(10).fill({ frequency: 49, powerFactor: 0.6 }));
+
+    const types = eventsOf('alerts-2').map((event) => event.type);
+    expect(types.filter((type) => type === 'frequency_min')).toHaveLength(1);
+    expect(types.filter((type) => type === 'power_factor_min')).toHaveLength(1);
+    expect(eventsOf('alerts-2').every((event) => !event.id.startsWith('alert-'))).toBe(true);
+  });
+
+  it('counts an outage once, as a closed episode with its restore', () => {
+    frames('alerts-3', [{ voltage: 230 }, { voltage: 0 }, { voltage: 0 }, { voltage: 0 }, { voltage: 230 }, { voltage: 230 }]);
+
+    const events = eventsOf('alerts-3');
+    expect(events.map((event) => event.type).filter((type) => type === 'outage' || type === 'restore')).toEqual([
+      'restore',
+      'outage',
+    ]);
+    expect(events.find((event) => event.type === 'outage')).toMatchObject({ open: false, duration: 3000 });
+    expect(computeEventStatistics(events, Date.now())).toMatchObject({ totalOutages: 1 });
+  });
+
+  it('logs no relay event when the phone loses and regains the breaker', () => {
+    checkAllAlerts(reading(), false, 'alerts-4');
+    jest.advanceTimersByTime(1000);
+    checkAllAlerts(reading(), true, 'alerts-4');
+
+    expect(eventsOf('alerts-4')).toEqual([]);
+  });
+});
+
+describe('cutoff during a session replay', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    getSessionReplay().stop();
+    jest.restoreAllMocks();
+  });
+
+  it('notes the cutoff as suppressed instead of reporting it failed', async () => {
+    const deviceId = useElectricalStore.getState().activeDeviceId;
+    const errorToast = jest.spyOn(showToast, 'error');
+    const recording: SessionRecording = {
+      format: 'smartcb-session',
+      version: 1,
+      deviceId,
+      deviceName: 'Recorded',
+      startedAt: 0,
+      endedAt: 60000,
+      frames: [
+        { at: 0, kind: 'status', source: 'websocket', payload: reading({ voltage: 250, relayState: true }) },
+        // Keeps the replay playing while the cutoff runs
+        { at: 60000, kind: 'status', source: 'websocket', payload: reading() },
+      ],
+    };
+
+    getSessionReplay().start(recording, 'overvoltage.json');
+    const deadline = Date.now() + 2000;
+    while (useSessionStore.getState().replay.suppressed.length === 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    expect(useSessionStore.getState().replay.suppressed).toEqual([{ at: expect.any(Number), state: false }]);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(errorToast.mock.calls.map(([, title]) => title)).not.toContain('🚨 Safety Cutoff Failed');
+    expect(useEventsStore.getState().events.some((event) => event.type === 'auto_off')).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+// Outbox against the firmware simulator: one entry per kind, oldest first, held until acknowledged
+import { OutboxService } from '../outbox';
+import { getDeviceApi } from '../esp32Api';
+import { getSettingsSync } from '../settingsSync';
+import { useOutboxStore } from '../../store/useOutboxStore';
+import { useSettingsStore } from '../../store/useSettingsStore';
+import { useSettingsSyncStore } from '../../store/useSettingsSyncStore';
+import { generateDefaultSettings } from '../../utils/mockData';
+import { storesLoaded, closedPort, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('OutboxService', () => {
+  let sim: any;
+  let breakerDefaults: Record<string, number | boolean>;
+  let outbox: OutboxService;
+  let deviceId: string;
+  let count = 0;
+
+  const entries = () => useOutboxStore.getState().getEntries(deviceId);
+  const local = () => useSettingsStore.getState().getSettingsForDevice(deviceId);
+
+  // Change a threshold on this phone, as the settings screen does while the breaker is away
+  const editMaxCurrent = (max: number) => {
+    const settings = local();
+    useSettingsStore.getState().setDeviceSettings(deviceId, {
+      ...settings,
+      thresholds: { ...settings.thresholds, current: { ...settings.thresholds.current, max } },
+    });
+    getSettingsSync().markDirty(deviceId, ['maxCurrent']);
+    outbox.enqueue(deviceId, 'settings', ['maxCurrent']);
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await storesLoaded();
+
+    sim = await startSimulator();
+    breakerDefaults = { ...sim.breaker.settings };
+  });
+
+  afterAll(async () => {
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    sim.breaker.settings = { ...breakerDefaults };
+    sim.breaker.schedules = [];
+    deviceId = `outbox-${++count}`;
+    getDeviceApi(deviceId, '127.0.0.1', String(sim.httpPort));
+    useSettingsStore.getState().setDeviceSettings(deviceId, generateDefaultSettings());
+    useOutboxStore.setState({ entries: [] });
+    outbox = new OutboxService();
+
+    // Agree on a base first, so later edits push instead of conflicting
+    await getSettingsSync().sync(deviceId);
+  });
+
+  it('keeps one entry per kind, a newer edit taking the older one\'s place in line', () => {
+    outbox.enqueue(deviceId, 'settings', ['maxCurrent']);
+    outbox.enqueue(deviceId, 'schedules');
+    outbox.enqueue(deviceId, 'settings', ['maxVoltage']);
+
+    expect(entries().map((entry) => entry.kind)).toEqual(['settings', 'schedules']);
+    expect(entries()[0].fields).toEqual(['maxCurrent', 'maxVoltage']);
+  });
+
+  it('replays writes oldest first and clears each one the breaker acknowledges', async () => {
+    const api = getDeviceApi(deviceId);
+    const updateSchedules = jest.spyOn(api, 'updateSchedules');
+    const setTime = jest.spyOn(api, 'setTime');
+    const updateSettings = jest.spyOn(api, 'updateSettings');
+
+    const settings = local();
+    useSettingsStore.getState().setDeviceSettings(deviceId, {
+      ...settings,
+      schedule: {
+        ...settings.schedule,
+        enabled: true,
+        schedules: [{ id: 'evening', enabled: true, onTime: '18:00', offTime: '23:00', days: [1, 2, 3] }],
+      },
+    });
+    outbox.enqueue(deviceId, 'schedules');
+    outbox.enqueue(deviceId, 'time');
+    editMaxCurrent(20);
+
+    await outbox.flush(deviceId);
+
+    expect(entries()).toEqual([]);
+    expect(updateSchedules.mock.invocationCallOrder[0]).toBeLessThan(setTime.mock.invocationCallOrder[0]);
+    expect(setTime.mock.invocationCallOrder[0]).toBeLessThan(updateSettings.mock.invocationCallOrder[0]);
+    expect(sim.breaker.schedules).toMatchObject([{ id: 0, onTime: '18:00', offTime: '23:00' }]);
+    expect(sim.breaker.settings.maxCurrent).toBe(20);
+  });
+
+  it('stops at the first write the breaker does not take and retries it on the next flush', async () => {
+    outbox.enqueue(deviceId, 'schedules');
+    outbox.enqueue(deviceId, 'time');
+    getDeviceApi(deviceId, '127.0.0.1', String(await closedPort()));
+
+    await outbox.flush(deviceId);
+    expect(entries()).toMatchObject([
+      { kind: 'schedules', attempts: 1, lastError: 'Breaker did not accept the schedules' },
+      { kind: 'time', attempts: 0, lastError: null },
+    ]);
+
+    getDeviceApi(deviceId, '127.0.0.1', String(sim.httpPort));
+    await outbox.flush(deviceId);
+    expect(entries()).toEqual([]);
+  });
+
+  it('leaves fields edited on both sides to the sync screen', async () => {
+    editMaxCurrent(20);
+    sim.breaker.settings.maxCurrent = 25;
+
+    await outbox.flush(deviceId);
+
+    expect(entries()).toEqual([]);
+    expect(useSettingsSyncStore.getState().getSync(deviceId)).toMatchObject({
+      status: 'conflict',
+      conflicts: [{ field: 'maxCurrent', local: 20, device: 25 }],
+    });
+    expect(sim.breaker.settings.maxCurrent).toBe(25);
+  });
+
+  it('sends a write again when it is superseded in the millisecond it goes out', async () => {
+    const api = getDeviceApi(deviceId);
+    const send = api.updateSchedules.bind(api);
+    const updateSchedules = jest.spyOn(api, 'updateSchedules').mockImplementationOnce((payload) => {
+      outbox.enqueue(deviceId, 'schedules');
+      return send(payload);
+    });
+    // A clock that does not move between the two edits
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now());
+
+    outbox.enqueue(deviceId, 'schedules');
+    await outbox.flush(deviceId);
+    now.mockRestore();
+
+    expect(updateSchedules).toHaveBeenCalledTimes(2);
+    expect(entries()).toEqual([]);
+  });
+
+  it('shares a flush that is already running', async () => {
+    outbox.enqueue(deviceId, 'time');
+
+    const first = outbox.flush(deviceId);
+    expect(outbox.flush(deviceId)).toBe(first);
+    await first;
+    expect(entries()).toEqual([]);
+  });
+});
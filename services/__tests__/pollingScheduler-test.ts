@@ -0,0 +1,214 @@
+// Polling rate per breaker: fast when something is about to happen, slow when nothing is
+import { AppState } from 'react-native';
+import { PollingScheduler } from '../pollingScheduler';
+import { useSettingsStore } from '../../store/useSettingsStore';
+import { generateDefaultSettings, generateMockElectricalData } from '../../utils/mockData';
+import { storesLoaded } from '../../test-utils';
+import { ElectricalData } from '../../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('PollingScheduler', () => {
+  let scheduler: PollingScheduler;
+  let appStateChange: (state: string) => void;
+  let removeAppState: jest.Mock;
+  let deviceId: string;
+  let count = 0;
+
+  // A steady 300 W load, well inside the default thresholds
+  const reading = (overrides: Partial<ElectricalData> = {}): ElectricalData => ({
+    ...generateMockElectricalData(),
+    voltage: 220,
+    current: 1.4,
+    power: 300,
+    frequency: 50,
+    ...overrides,
+  });
+
+  const readings = (times: number, overrides: Partial<ElectricalData> = {}) => {
+    for (let i = 0; i < times; i++) scheduler.noteReading(deviceId, reading(overrides));
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await storesLoaded();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    removeAppState = jest.fn();
+    jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, handler) => {
+      appStateChange = handler as (state: string) => void;
+      return { remove: removeAppState } as any;
+    });
+
+    deviceId = `polling-${++count}`;
+    useSettingsStore.getState().setDeviceSettings(deviceId, generateDefaultSettings());
+    scheduler = new PollingScheduler();
+    scheduler.start();
+    appStateChange('active');
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    scheduler.forget(deviceId);
+  });
+
+  it('polls every second while readings move', () => {
+    readings(1, { power: 100 });
+    readings(1, { power: 400 });
+
+    expect(scheduler.getMode(deviceId)).toBe('normal');
+    expect(scheduler.getInterval(deviceId)).toBe(1000);
+  });
+
+  it('slows down once five readings agree, and again when the relay is off', () => {
+    readings(4);
+    expect(scheduler.getMode(deviceId)).toBe('normal');
+
+    readings(1, { power: 304, voltage: 221 });
+    expect(scheduler.getInterval(deviceId)).toBe(3000);
+
+    readings(1, { power: 600 });
+    expect(scheduler.getMode(deviceId)).toBe('normal');
+
+    readings(1, { relayState: false, current: 0, power: 0 });
+    expect(scheduler.getMode(deviceId)).toBe('stable');
+  });
+
+  it('counts small loads as stable within a few watts', () => {
+    readings(4, { power: 10 });
+    readings(1, { power: 14 });
+
+    expect(scheduler.getMode(deviceId)).toBe('stable');
+  });
+
+  it('speeds up close to a threshold and while protection is active', () => {
+    readings(5);
+    readings(1, { voltage: 235 });
+    expect(scheduler.getInterval(deviceId)).toBe(500);
+
+    readings(1, { current: 15 });
+    expect(scheduler.getMode(deviceId)).toBe('fast');
+
+    readings(1, { frequency: 49.6 });
+    expect(scheduler.getMode(deviceId)).toBe('fast');
+
+    readings(1, { protectionTriggered: true });
+    expect(scheduler.getMode(deviceId)).toBe('fast');
+
+    readings(1, { reconnectionPending: true });
+    expect(scheduler.getMode(deviceId)).toBe('fast');
+
+    readings(5);
+    expect(scheduler.getMode(deviceId)).toBe('stable');
+  });
+
+  it('takes the thresholds from the breaker\'s own settings', () => {
+    const settings = generateDefaultSettings();
+    useSettingsStore.getState().setDeviceSettings(deviceId, {
+      ...settings,
+      thresholds: { ...settings.thresholds, current: { ...settings.thresholds.current, max: 1.5 } },
+    });
+
+    readings(5);
+
+    expect(scheduler.getMode(deviceId)).toBe('fast');
+  });
+
+  it('polls fast for the length of a boost and tells the watcher', () => {
+    jest.useFakeTimers();
+    const listener = jest.fn();
+    scheduler.watch(deviceId, listener);
+    readings(5);
+
+    scheduler.boost(deviceId, 3000);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMode(deviceId)).toBe('fast');
+
+    jest.advanceTimersByTime(3000);
+    expect(scheduler.getMode(deviceId)).toBe('stable');
+    jest.useRealTimers();
+  });
+
+  it('idles on screens without live readings', () => {
+    const listener = jest.fn();
+    scheduler.watch(deviceId, listener);
+    readings(2);
+
+    scheduler.setScreen('/settings');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(scheduler.getInterval(deviceId)).toBe(5000);
+
+    scheduler.setScreen('/settings');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // Urgency still wins on another screen
+    scheduler.boost(deviceId);
+    expect(scheduler.getMode(deviceId)).toBe('fast');
+
+    scheduler.setScreen('/');
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('polls slowest in the background, and no slower than normal when it matters', () => {
+    const listener = jest.fn();
+    scheduler.watch(deviceId, listener);
+    readings(2);
+
+    appStateChange('background');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(scheduler.getInterval(deviceId)).toBe(15000);
+
+    appStateChange('inactive');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    readings(1, { protectionTriggered: true });
+    expect(scheduler.getMode(deviceId)).toBe('normal');
+
+    appStateChange('active');
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(scheduler.getMode(deviceId)).toBe('fast');
+  });
+
+  it('drops a watcher on unwatch, but not a newer one that replaced it', () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unwatchFirst = scheduler.watch(deviceId, first);
+    const unwatchSecond = scheduler.watch(deviceId, second);
+
+    unwatchFirst();
+    scheduler.boost(deviceId);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+
+    unwatchSecond();
+    scheduler.boost(deviceId);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('forgets a removed breaker\'s readings, boost and watcher', () => {
+    const listener = jest.fn();
+    scheduler.watch(deviceId, listener);
+    readings(1, { protectionTriggered: true });
+    scheduler.boost(deviceId);
+
+    scheduler.forget(deviceId);
+    scheduler.setScreen('/settings');
+    scheduler.setScreen('/');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(scheduler.getMode(deviceId)).toBe('normal');
+  });
+
+  it('stops following the app state', () => {
+    scheduler.stop();
+
+    expect(removeAppState).toHaveBeenCalledTimes(1);
+  });
+});
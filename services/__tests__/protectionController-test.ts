@@ -0,0 +1,160 @@
+// Protection states: trip, wait for stable conditions, reconnect, lock out - and hands off to the breaker
+import { ProtectionController } from '../protectionController';
+import { useSettingsStore } from '../../store/useSettingsStore';
+import { ElectricalData, ReconnectionSettings, RelayCommand, RelayCommandStatus } from '../../types';
+import { generateDefaultSettings } from '../../utils/mockData';
+import { storesLoaded } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const DEVICE = 'breaker-1';
+
+const reading = (changes: Partial<ElectricalData> = {}): ElectricalData => ({
+  voltage: 230,
+  current: 5,
+  power: 1100,
+  energy: 12,
+  frequency: 50,
+  powerFactor: 0.95,
+  apparentPower: 1150,
+  reactivePower: 300,
+  relayState: false,
+  timestamp: Date.now(),
+  ...changes,
+});
+
+const useReconnection = (changes: Partial<ReconnectionSettings> = {}) => {
+  const defaults = generateDefaultSettings();
+  useSettingsStore.setState({
+    settingsByDevice: {
+      [DEVICE]: { ...defaults, reconnection: { ...defaults.reconnection, delay: 10, ...changes } },
+    },
+  });
+};
+
+const command = (deviceId: string, targetState: boolean, status: RelayCommandStatus): RelayCommand => ({
+  id: 'relay-1',
+  deviceId,
+  targetState,
+  status,
+  attempts: 1,
+  issuedAt: 0,
+  ...(status === 'failed' && { error: 'Timed out' }),
+});
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('ProtectionController', () => {
+  const setRelayState = jest.fn<Promise<RelayCommand | null>, [string, boolean]>();
+  let controller: ProtectionController;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await storesLoaded();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    useReconnection();
+    setRelayState.mockReset();
+    setRelayState.mockImplementation(async (deviceId, targetState) => command(deviceId, targetState, 'confirmed'));
+    controller = new ProtectionController();
+    controller.setRelaySwitch(setRelayState);
+  });
+
+  const state = () => controller.getStatus(DEVICE).state;
+
+  it('reconnects once conditions have been safe for the delay', async () => {
+    controller.trip(DEVICE, 'High voltage protection triggered', 0);
+    controller.handleReading(DEVICE, reading({ voltage: 250 }), 1000);
+    expect(state()).toBe('tripped');
+
+    controller.handleReading(DEVICE, reading(), 2000);
+    controller.handleReading(DEVICE, reading(), 11000);
+    expect(state()).toBe('waiting_for_stable');
+    expect(setRelayState).not.toHaveBeenCalled();
+
+    controller.handleReading(DEVICE, reading(), 12000);
+    expect(state()).toBe('reconnecting');
+    await settle();
+
+    expect(setRelayState).toHaveBeenCalledWith(DEVICE, true);
+    expect(controller.getStatus(DEVICE)).toMatchObject({ state: 'armed', attempts: 1 });
+    expect(controller.getTransitions(DEVICE).map((transition) => transition.to)).toEqual([
+      'armed',
+      'reconnecting',
+      'waiting_for_stable',
+      'tripped',
+    ]);
+  });
+
+  it('starts the wait over when conditions turn unsafe', () => {
+    controller.trip(DEVICE, 'High voltage protection triggered', 0);
+    controller.handleReading(DEVICE, reading(), 1000);
+    controller.handleReading(DEVICE, reading({ voltage: 250 }), 8000);
+    expect(state()).toBe('tripped');
+
+    controller.handleReading(DEVICE, reading(), 9000);
+    controller.handleReading(DEVICE, reading(), 15000);
+    expect(state()).toBe('waiting_for_stable');
+    expect(setRelayState).not.toHaveBeenCalled();
+  });
+
+  it('leaves the reconnect to the breaker while it reports its own protection', () => {
+    controller.handleReading(DEVICE, reading({ protectionTriggered: true, protectionReason: 'Overvoltage' }), 0);
+    expect(controller.getStatus(DEVICE)).toMatchObject({ state: 'tripped', reason: 'Overvoltage' });
+
+    controller.handleReading(DEVICE, reading({ reconnectionPending: true }), 1000);
+    controller.handleReading(DEVICE, reading({ reconnectionPending: true }), 60000);
+    expect(state()).toBe('waiting_for_stable');
+    expect(setRelayState).not.toHaveBeenCalled();
+
+    controller.handleReading(DEVICE, reading({ relayState: true }), 61000);
+    expect(state()).toBe('armed');
+  });
+
+  it('locks out after maxAttempts unconfirmed reconnects until switched on by hand', async () => {
+    useReconnection({ maxAttempts: 2 });
+    setRelayState.mockImplementation(async (deviceId, targetState) => command(deviceId, targetState, 'failed'));
+
+    controller.trip(DEVICE, 'Low power factor protection triggered', 0);
+    controller.handleReading(DEVICE, reading(), 1000);
+    controller.handleReading(DEVICE, reading(), 11000);
+    await settle();
+    expect(controller.getStatus(DEVICE)).toMatchObject({ state: 'waiting_for_stable', attempts: 1 });
+
+    // settledAt is the real clock - leave the wait far behind
+    const later = Date.now() + 60000;
+    controller.handleReading(DEVICE, reading(), later);
+    await settle();
+    expect(state()).toBe('locked_out');
+
+    controller.handleReading(DEVICE, reading(), later + 60000);
+    expect(setRelayState).toHaveBeenCalledTimes(2);
+
+    controller.handleReading(DEVICE, reading({ relayState: true }), later + 61000);
+    expect(controller.getStatus(DEVICE)).toMatchObject({ state: 'armed', attempts: 0 });
+  });
+
+  it('locks out at once when auto-reconnect is off', () => {
+    useReconnection({ enabled: false });
+
+    controller.trip(DEVICE, 'High voltage protection triggered', 0);
+    controller.handleReading(DEVICE, reading(), 60000);
+
+    expect(state()).toBe('locked_out');
+    expect(setRelayState).not.toHaveBeenCalled();
+  });
+
+  it('trips on a supply loss', () => {
+    controller.handleReading(DEVICE, reading({ relayState: true }), 0);
+    controller.handleReading(DEVICE, reading({ voltage: 0, relayState: true }), 1000);
+
+    expect(controller.getStatus(DEVICE)).toMatchObject({ state: 'tripped', reason: 'Power outage' });
+  });
+});
@@ -0,0 +1,138 @@
+// Relay commands: confirmed by a status frame, retried with backoff, superseded, timed out
+import { RelayCommandService } from '../relayCommandService';
+import { ESP32Error, ESP32Result } from '../esp32Errors';
+import { ElectricalData } from '../../types';
+
+const mockSetRelayState = jest.fn<Promise<ESP32Result<void>>, [boolean, string]>();
+const accepted: ESP32Result<void> = { ok: true, value: undefined };
+const timedOut: ESP32Result<void> = { ok: false, error: new ESP32Error('timeout', '/api/relay did not answer within 3000 ms') };
+
+jest.mock('../esp32Api', () => ({
+  getDeviceApi: () => ({ setRelayState: mockSetRelayState }),
+}));
+
+const frame = (relayState: boolean): ElectricalData => ({
+  voltage: 230,
+  current: 5,
+  power: 1100,
+  energy: 12,
+  frequency: 50,
+  powerFactor: 0.95,
+  apparentPower: 1150,
+  reactivePower: 300,
+  relayState,
+  timestamp: Date.now(),
+});
+
+describe('RelayCommandService', () => {
+  let service: RelayCommandService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockSetRelayState.mockReset();
+    mockSetRelayState.mockResolvedValue(accepted);
+    service = new RelayCommandService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('confirms once a status frame shows the requested state', async () => {
+    const command = service.send('device-1', false);
+    await jest.advanceTimersByTimeAsync(0);
+
+    service.handleStatus('device-1', frame(true));
+    expect(service.getPending('device-1')).not.toBeNull();
+
+    service.handleStatus('device-1', frame(false));
+    await expect(command).resolves.toMatchObject({ status: 'confirmed', targetState: false, attempts: 1 });
+    expect(service.getPending('device-1')).toBeNull();
+  });
+
+  it('resends the same command with backoff until the device accepts it', async () => {
+    mockSetRelayState.mockResolvedValueOnce(timedOut).mockResolvedValueOnce(timedOut);
+    const command = service.send('device-1', true);
+
+    await jest.advanceTimersByTimeAsync(499);
+    expect(mockSetRelayState).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(mockSetRelayState).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(mockSetRelayState).toHaveBeenCalledTimes(3);
+
+    // Every attempt carries the same command ID and target state
+    const ids = new Set(mockSetRelayState.mock.calls.map(([, id]) => id));
+    expect(ids.size).toBe(1);
+    expect(mockSetRelayState.mock.calls.every(([state]) => state === true)).toBe(true);
+
+    service.handleStatus('device-1', frame(true));
+    await expect(command).resolves.toMatchObject({ status: 'confirmed', attempts: 3 });
+  });
+
+  it('fails when no status frame confirms the state after the last attempt', async () => {
+    const command = service.send('device-1', false);
+
+    // 4 s per attempt, 500 ms and 1 s between them
+    await jest.advanceTimersByTimeAsync(4000 + 500 + 4000 + 1000 + 3999);
+    expect(service.getPending('device-1')).not.toBeNull();
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(command).resolves.toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      error: 'No status frame confirmed the new state',
+    });
+    expect(mockSetRelayState).toHaveBeenCalledTimes(3);
+  });
+
+  it('shares an identical request that is already in flight', async () => {
+    const first = service.send('device-1', false);
+    const second = service.send('device-1', false);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(second).toBe(first);
+    expect(mockSetRelayState).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets the opposite request win', async () => {
+    const off = service.send('device-1', false);
+    await jest.advanceTimersByTimeAsync(0);
+    const on = service.send('device-1', true);
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(off).resolves.toMatchObject({ status: 'failed', error: 'Superseded by a newer command' });
+
+    // The old command's timeout must not touch the new one
+    await jest.advanceTimersByTimeAsync(3000);
+    service.handleStatus('device-1', frame(true));
+    await expect(on).resolves.toMatchObject({ status: 'confirmed', targetState: true, attempts: 1 });
+  });
+
+  it('keeps devices apart and reports every change', async () => {
+    const changes: string[] = [];
+    service.setChangeHandler((command) => changes.push(`${command.deviceId}:${command.status}`));
+
+    const one = service.send('device-1', false);
+    const two = service.send('device-2', false);
+    await jest.advanceTimersByTimeAsync(0);
+
+    service.handleStatus('device-2', frame(false));
+    await expect(two).resolves.toMatchObject({ status: 'confirmed' });
+    expect(service.getPending('device-1')).not.toBeNull();
+
+    service.cancel('device-1', 'Device removed');
+    await expect(one).resolves.toMatchObject({ status: 'failed', error: 'Device removed' });
+    expect(changes).toEqual(['device-1:pending', 'device-2:pending', 'device-2:confirmed', 'device-1:failed']);
+  });
+});
@@ -0,0 +1,76 @@
+// Signatures from the phone checked by the simulator's firmware-side verifier (simulator/auth.js)
+import { signCommand, signRequest } from '../requestSigner';
+import { DeviceCredentials } from '../../types';
+
+const { PairingRegistry } = require('../../simulator/auth');
+
+describe('signRequest against the firmware verifier', () => {
+  let registry: any;
+  let credentials: DeviceCredentials;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    registry = new PairingRegistry({ requireAuth: true });
+    registry.openWindow();
+    const { clientId, secret } = registry.pair('phone-1', 'Test phone');
+    credentials = { clientId, secret, pairedAt: Date.now() };
+  });
+
+  const verify = (method: string, path: string, body: string, signature: ReturnType<typeof signRequest>) =>
+    registry.verify({ method, path, body, ...signature });
+
+  it('accepts a signed request', () => {
+    const body = '{"state":false,"commandId":"cmd-1"}';
+    const signature = signRequest(credentials, 'post', '/api/relay', body, Date.now());
+
+    expect(verify('POST', '/api/relay', body, signature)).toEqual({ ok: true, clientId: 'phone-1' });
+  });
+
+  it('accepts a signed WebSocket command with its exact payload', () => {
+    const { command, payload, auth } = signCommand(credentials, 'setRelay', { state: true }, Date.now());
+
+    expect(verify('WS', command, payload, auth)).toMatchObject({ ok: true });
+  });
+
+  it.each([
+    ['body', { body: '{"state":true,"commandId":"cmd-1"}' }],
+    ['path', { path: '/api/settings' }],
+    ['method', { method: 'PUT' }],
+  ])('rejects a request whose %s was changed after signing', (_part, change) => {
+    const body = '{"state":false,"commandId":"cmd-1"}';
+    const signature = signRequest(credentials, 'POST', '/api/relay', body, Date.now());
+    const request = { method: 'POST', path: '/api/relay', body, ...change };
+
+    expect(verify(request.method, request.path, request.body, signature)).toMatchObject({
+      ok: false,
+      error: 'signature_rejected',
+      reason: 'bad_signature',
+    });
+  });
+
+  it('rejects a request signed with another secret', () => {
+    const signature = signRequest({ ...credentials, secret: 'ff'.repeat(32) }, 'POST', '/api/relay', '{}', Date.now());
+
+    expect(verify('POST', '/api/relay', '{}', signature)).toMatchObject({ ok: false, reason: 'bad_signature' });
+  });
+
+  it('rejects a request stamped more than 30 s off the breaker clock', () => {
+    const signature = signRequest(credentials, 'POST', '/api/relay', '{}', Date.now() - 31000);
+
+    expect(verify('POST', '/api/relay', '{}', signature)).toMatchObject({ ok: false, reason: 'stale' });
+  });
+
+  it('rejects the same request sent twice', () => {
+    const signature = signRequest(credentials, 'POST', '/api/relay', '{}', Date.now());
+
+    expect(verify('POST', '/api/relay', '{}', signature)).toMatchObject({ ok: true });
+    expect(verify('POST', '/api/relay', '{}', signature)).toMatchObject({ ok: false, reason: 'replay' });
+  });
+});
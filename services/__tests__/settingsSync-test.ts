@@ -0,0 +1,125 @@
+// Three-way settings merge against the firmware simulator: adopt, push, conflict, read-back
+import { SettingsSyncService } from '../settingsSync';
+import { getDeviceApi } from '../esp32Api';
+import { useSettingsStore } from '../../store/useSettingsStore';
+import { useSettingsSyncStore } from '../../store/useSettingsSyncStore';
+import { Settings, SyncedSettingField } from '../../types';
+import { generateDefaultSettings } from '../../utils/mockData';
+import { storesLoaded, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+describe('SettingsSyncService', () => {
+  let sim: any;
+  let breakerDefaults: Record<string, number | boolean>;
+  let service: SettingsSyncService;
+  let deviceId: string;
+  let count = 0;
+
+  const local = () => useSettingsStore.getState().getSettingsForDevice(deviceId);
+  const syncState = () => useSettingsSyncStore.getState().getSync(deviceId);
+
+  // A threshold edit on this phone, the way the settings screen makes one
+  const edit = <K extends keyof Settings['thresholds']>(
+    key: K,
+    patch: Partial<Settings['thresholds'][K]>,
+    field: SyncedSettingField
+  ) => {
+    const settings = local();
+    useSettingsStore.getState().setDeviceSettings(deviceId, {
+      ...settings,
+      thresholds: { ...settings.thresholds, [key]: { ...settings.thresholds[key], ...patch } },
+    });
+    service.markDirty(deviceId, [field]);
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await storesLoaded();
+
+    sim = await startSimulator();
+    breakerDefaults = { ...sim.breaker.settings };
+  });
+
+  afterAll(async () => {
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    sim.breaker.settings = { ...breakerDefaults };
+    deviceId = `sync-${++count}`;
+    getDeviceApi(deviceId, '127.0.0.1', String(sim.httpPort));
+    useSettingsStore.getState().setDeviceSettings(deviceId, generateDefaultSettings());
+    service = new SettingsSyncService();
+  });
+
+  it('adopts what only the breaker changed', async () => {
+    // Nothing edited on this phone yet - the breaker's values win outright
+    await expect(service.sync(deviceId)).resolves.toBe('in_sync');
+    expect(local().thresholds.voltage).toMatchObject({ min: 180, max: 250 });
+    expect(local().reconnection.delay).toBe(10);
+    expect(syncState().base).toMatchObject({ maxVoltage: 250, minVoltage: 180, autoResetDelay: 10 });
+
+    sim.breaker.settings.maxCurrent = 20;
+    await expect(service.sync(deviceId)).resolves.toBe('in_sync');
+    expect(local().thresholds.current.max).toBe(20);
+  });
+
+  it('pushes what only this phone changed once the breaker reads it back', async () => {
+    await service.sync(deviceId);
+    edit('voltage', { max: 245 }, 'maxVoltage');
+
+    await expect(service.sync(deviceId)).resolves.toBe('in_sync');
+    expect(sim.breaker.settings.maxVoltage).toBe(245);
+    expect(syncState()).toMatchObject({ dirty: [], conflicts: [], base: { maxVoltage: 245 } });
+  });
+
+  it('flags a field changed on both sides and settles it for the breaker', async () => {
+    await service.sync(deviceId);
+    edit('current', { max: 20 }, 'maxCurrent');
+    sim.breaker.settings.maxCurrent = 25;
+
+    await expect(service.sync(deviceId)).resolves.toBe('conflict');
+    expect(syncState().conflicts).toEqual([{ field: 'maxCurrent', local: 20, device: 25, base: 16 }]);
+    // Neither side moved while it waits for the user
+    expect(sim.breaker.settings.maxCurrent).toBe(25);
+    expect(local().thresholds.current.max).toBe(20);
+
+    await expect(service.resolve(deviceId, 'device')).resolves.toBe('in_sync');
+    expect(local().thresholds.current.max).toBe(25);
+    expect(syncState()).toMatchObject({ dirty: [], conflicts: [] });
+  });
+
+  it('settles a conflict for this phone by pushing its value', async () => {
+    await service.sync(deviceId);
+    edit('voltage', { min: 190 }, 'minVoltage');
+    sim.breaker.settings.minVoltage = 185;
+    await service.sync(deviceId);
+
+    await expect(service.resolve(deviceId, 'app')).resolves.toBe('in_sync');
+    expect(sim.breaker.settings.minVoltage).toBe(190);
+    expect(syncState().base).toMatchObject({ minVoltage: 190 });
+  });
+
+  it('keeps a pushed field dirty until the breaker actually keeps it', async () => {
+    await service.sync(deviceId);
+    edit('voltage', { max: 245 }, 'maxVoltage');
+
+    // Answers 200 but holds on to its old limit
+    const update = sim.breaker.updateSettings.bind(sim.breaker);
+    jest.spyOn(sim.breaker, 'updateSettings').mockImplementationOnce((changes: any) =>
+      update({ ...changes, maxVoltage: sim.breaker.settings.maxVoltage })
+    );
+
+    await expect(service.sync(deviceId)).resolves.toBe('error');
+    expect(syncState()).toMatchObject({ lastError: 'Breaker did not keep maxVoltage', dirty: ['maxVoltage'] });
+
+    await expect(service.sync(deviceId)).resolves.toBe('in_sync');
+    expect(sim.breaker.settings.maxVoltage).toBe(245);
+  });
+});
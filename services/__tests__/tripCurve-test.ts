@@ -0,0 +1,76 @@
+// Trip curves: presets, thermal accumulation from samples, cooling and instant trips
+import { ThermalAccumulator, resolveTripCurve, tripTime } from '../tripCurve';
+import { CurrentThreshold } from '../../types';
+
+const threshold = (changes: Partial<CurrentThreshold> = {}): CurrentThreshold => ({
+  min: 0.5,
+  max: 10,
+  enabled: true,
+  delay: 5,
+  ...changes,
+});
+
+// One sample per second at a constant current; returns the state after the last one
+const feed = (accumulator: ThermalAccumulator, current: number, seconds: number, start = 0) => {
+  const curve = resolveTripCurve(threshold());
+  let state = accumulator.update('device-1', current, 10, curve, start);
+  for (let i = 1; i <= seconds && !state.trip; i++) {
+    state = accumulator.update('device-1', current, 10, curve, start + i * 1000);
+  }
+  return state;
+};
+
+describe('resolveTripCurve', () => {
+  it('defaults to the C curve and pins the delay at 6x', () => {
+    const curve = resolveTripCurve(threshold());
+    expect(curve).toMatchObject({ type: 'C', instantMultiple: 10 });
+    expect(tripTime(curve, 6)).toBeCloseTo(5);
+    expect(tripTime(curve, 1)).toBeNull();
+    expect(tripTime(curve, 10)).toBe(0);
+  });
+
+  it('keeps custom curves within range', () => {
+    const curve = resolveTripCurve(threshold({ curve: 'custom', curveExponent: 9, instantMultiple: 1 }));
+    expect(curve).toMatchObject({ type: 'custom', exponent: 4, instantMultiple: 2 });
+  });
+});
+
+describe('ThermalAccumulator', () => {
+  it('lets a motor start through', () => {
+    const state = feed(new ThermalAccumulator(), 60, 2);   // 6x for 2 s
+    expect(state.trip).toBeNull();
+    expect(state.heat).toBeCloseTo(0.4);
+  });
+
+  it('trips on a sustained overload once the heat reaches 1', () => {
+    const accumulator = new ThermalAccumulator();
+    const curve = resolveTripCurve(threshold());
+    const state = feed(accumulator, 20, 120);                // 2x trips after ~58 s
+
+    expect(state.trip).toBe('thermal');
+    expect(state.heat).toBeGreaterThanOrEqual(1);
+    expect(accumulator.getHeat('device-1', 59000)).toBeCloseTo(state.heat);
+    expect(tripTime(curve, 2)).toBeCloseTo(58.3, 1);
+  });
+
+  it('trips instantly at the instant multiple', () => {
+    expect(feed(new ThermalAccumulator(), 100, 0).trip).toBe('instant');
+  });
+
+  it('cools off below the rating', () => {
+    const accumulator = new ThermalAccumulator();
+    const hot = feed(accumulator, 60, 2).heat;
+    const cooled = feed(accumulator, 5, 0, 2000 + 120000);
+
+    expect(cooled.heat).toBeCloseTo(hot * Math.exp(-1));
+  });
+
+  it('does not heat up across a gap in the readings', () => {
+    const accumulator = new ThermalAccumulator();
+    const curve = resolveTripCurve(threshold());
+    accumulator.update('device-1', 20, 10, curve, 0);
+    const state = accumulator.update('device-1', 20, 10, curve, 600000);
+
+    expect(state.trip).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+// Automation Engine - runs the user's "when X for Y seconds, then Z" rules
+//
+// Every reading of a breaker is checked against its enabled rules. A rule fires once its
+// conditions have held for its hold time, and again only after they stopped holding in
+// between - a rule never repeats its action on every reading. Rules with an event
+// condition fire when a matching event is logged instead. Hold times are measured between
+// readings, so they are as precise as the current polling rate.
+
+import { AutomationRule, ElectricalData, Event, RuleAction, RuleCondition, RuleRunOutcome, SettingsProfile } from '../types';
+import { useAutomationStore } from '../store/useAutomationStore';
+import { useEventsStore, getEventDeviceId } from '../store/useEventsStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useOutboxStore } from '../store/useOutboxStore';
+import { useSessionStore } from '../store/useSessionStore';
+import { useDeviceStore } from '../store/useDeviceStore';
+import { showToast } from '../components/ui/ToastManager';
+import { getProtectionController } from './protectionController';
+
+export const MAX_HOLD_SECONDS = 24 * 60 * 60;
+const EVENT_MAX_AGE = 60000;   // Older events (journal catch-up after a gap) don't trigger rules
+const EVENT_TWIN_WINDOW = 10000; // The breaker's copy of an event the app already logged
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A recorded session is feeding this device's readings; its actions must not reach the real breaker
+const isReplaying = (deviceId: string) => {
+  const replay = useSessionStore.getState().replay;
+  return replay.status === 'playing' && replay.deviceId === deviceId;
+};
+
+// Whether one condition holds for a reading at a given moment; event conditions never do here
+export const conditionHolds = (condition: RuleCondition, data: ElectricalData, now: Date): boolean => {
+  switch (condition.kind) {
+    case 'reading': {
+      const value = data[condition.metric];
+      if (value === undefined || !Number.isFinite(value)) return false;
+      return condition.comparator === 'above' ? value > condition.value : value < condition.value;
+    }
+    case 'flag':
+      return (data[condition.flag] ?? false) === condition.value;
+    case 'time': {
+      const minute = now.getHours() * 60 + now.getMinutes();
+      const from = toMinutes(condition.from);
+      const to = toMinutes(condition.to);
+      if (from < to) {
+        return minute >= from && minute < to && condition.days.includes(now.getDay());
+      }
+      // Spans midnight - the part after midnight belongs to the day the window started
+      if (minute >= from) return condition.days.includes(now.getDay());
+      if (minute < to) return condition.days.includes((now.getDay() + 6) % 7);
+      return false;
+    }
+    case 'event':
+      return false;
+  }
+};
+
+// i18n keys (automation.errors.*) of everything wrong with a rule; empty when it can be saved
+export const validateRule = (rule: AutomationRule, profiles: SettingsProfile[]): string[] => {
+  const errors: string[] = [];
+  const events = rule.conditions.filter((condition) => condition.kind === 'event');
+
+  if (!rule.name.trim()) errors.push('nameRequired');
+  if (rule.conditions.length === 0) errors.push('noConditions');
+  if (!Number.isInteger(rule.holdSeconds) || rule.holdSeconds < 0 || rule.holdSeconds > MAX_HOLD_SECONDS) {
+    errors.push('invalidHold');
+  }
+  if (events.length > 1) errors.push('oneEvent');
+  // An event is a moment - there is nothing to hold
+  if (events.length > 0 && rule.holdSeconds > 0) errors.push('eventHold');
+
+  rule.conditions.forEach((condition) => {
+    if (condition.kind === 'reading' && !Number.isFinite(condition.value)) errors.push('invalidValue');
+    if (condition.kind === 'time') {
+      if (!TIME_PATTERN.test(condition.from) || !TIME_PATTERN.test(condition.to) || condition.from === condition.to) {
+        errors.push('invalidTime');
+      }
+      if (condition.days.length === 0) errors.push('noDays');
+    }
+  });
+
+  if (rule.action.kind === 'notify' && !rule.action.message.trim()) errors.push('messageRequired');
+  if (rule.action.kind === 'profile') {
+    const profileId = rule.action.profileId;
+    if (!profiles.some((profile) => profile.id === profileId)) errors.push('profileRequired');
+  }
+
+  return Array.from(new Set(errors));
+};
+
+interface RuleProgress {
+  updatedAt: number;       // Edits and enable switches start the rule over
+  since: number | null;    // When the conditions started holding
+  fired: boolean;
+}
+
+export class AutomationEngine {
+  private progress = new Map<string, RuleProgress>();
+  private lastReadings = new Map<string, ElectricalData>();
+  private lastEventAt = new Map<string, number>();   // Per rule
+
+  // Check a breaker's continuous rules against a new reading
+  handleReading(deviceId: string, data: ElectricalData) {
+    this.lastReadings.set(deviceId, data);
+    const now = Date.now();
+
+    this.activeRules(deviceId)
+      .filter((rule) => !rule.conditions.some((condition) => condition.kind === 'event'))
+      .forEach((rule) => {
+        const holds = rule.conditions.every((condition) => conditionHolds(condition, data, new Date(now)));
+        const previous = this.progress.get(rule.id);
+        const progress: RuleProgress =
+          previous && previous.updatedAt === rule.updatedAt ? previous : { updatedAt: rule.updatedAt, since: null, fired: false };
+
+        if (!holds) {
+          this.progress.set(rule.id, { ...progress, since: null, fired: false });
+          return;
+        }
+
+        const since = progress.since ?? now;
+        const due = !progress.fired && now - since >= rule.holdSeconds * 1000;
+        this.progress.set(rule.id, { ...progress, since, fired: progress.fired || due });
+        if (due) this.run(rule, data);
+      });
+  }
+
+  // Fire the rules waiting for this kind of event, if the rest of their conditions hold
+  handleEvent(event: Event) {
+    const deviceId = getEventDeviceId(event);
+    const data = event.readings ?? this.lastReadings.get(deviceId) ?? null;
+    const now = new Date();
+
+    this.activeRules(deviceId)
+      .filter((rule) => rule.conditions.some((condition) => condition.kind === 'event' && condition.eventType === event.type))
+      .forEach((rule) => {
+        const others = rule.conditions.filter((condition) => condition.kind !== 'event');
+        if (others.length > 0 && (!data || !others.every((condition) => conditionHolds(condition, data, now)))) return;
+
+        const last = this.lastEventAt.get(rule.id);
+        if (last !== undefined && Math.abs(event.timestamp - last) <= EVENT_TWIN_WINDOW) return;
+        this.lastEventAt.set(rule.id, event.timestamp);
+        this.run(rule, data);
+      });
+  }
+
+  // Drop a breaker's rule progress and last reading (device removed)
+  forget(deviceId: string) {
+    this.lastReadings.delete(deviceId);
+    useAutomationStore
+      .getState()
+      .getRules(deviceId)
+      .forEach((rule) => {
+        this.progress.delete(rule.id);
+        this.lastEventAt.delete(rule.id);
+      });
+  }
+
+  private activeRules(deviceId: string): AutomationRule[] {
+    return useAutomationStore.getState().getRules(deviceId).filter((rule) => rule.enabled);
+  }
+
+  private async run(rule: AutomationRule, data: ElectricalData | null) {
+    console.log(`🤖 Rule "${rule.name}" fired on ${rule.deviceId}`);
+
+    let outcome: RuleRunOutcome = 'done';
+    let detail: string | null = null;
+    try {
+      [outcome, detail] = await this.perform(rule, rule.action, data);
+    } catch (error) {
+      outcome = 'failed';
+      detail = error instanceof Error ? error.message : String(error);
+    }
+
+    if (outcome === 'failed') console.error(`❌ Rule "${rule.name}" failed: ${detail}`);
+    useAutomationStore.getState().logRun({
+      id: `run-${rule.id}-${Date.now()}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      deviceId: rule.deviceId,
+      firedAt: Date.now(),
+      action: rule.action,
+      outcome,
+      detail,
+    });
+  }
+
+  private async perform(
+    rule: AutomationRule,
+    action: RuleAction,
+    data: ElectricalData | null
+  ): Promise<[RuleRunOutcome, string | null]> {
+    const deviceId = rule.deviceId;
+
+    switch (action.kind) {
+      case 'relay': {
+        if (isReplaying(deviceId)) {
+          return ['skipped', 'Session replay - relay not switched'];
+        }
+        if (data?.relayState === action.state) {
+          return ['skipped', `Relay already ${action.state ? 'ON' : 'OFF'}`];
+        }
+        // Protection cut the power - only the breaker, the protection controller or the user may restore it
+        if (action.state && (data?.protectionTriggered || getProtectionController().getStatus(deviceId).state !== 'armed')) {
+          return ['skipped', 'Protection active'];
+        }
+
+        // Dynamic import - the electrical store feeds this engine
+        const { useElectricalStore } = await import('../store/useElectricalStore');
+        const command = await useElectricalStore.getState().setRelayState(action.state, deviceId);
+        return command?.status === 'confirmed'
+          ? ['done', null]
+          : ['failed', command?.error ?? 'Device not connected'];
+      }
+
+      case 'notify': {
+        const { devices, getDevice } = useDeviceStore.getState();
+        const device = getDevice(deviceId);
+        showToast.info(action.message, devices.length > 1 && device ? `${device.name} · ${rule.name}` : rule.name);
+        return ['done', null];
+      }
+
+      case 'profile': {
+        const profileId = action.profileId;
+        const profile = useAutomationStore.getState().profiles.find((candidate) => candidate.id === profileId);
+        if (!profile) return ['failed', 'Profile no longer exists'];
+        // Thresholds go to the real breaker, which the recording stands in for
+        if (isReplaying(deviceId)) {
+          return ['skipped', 'Session replay - profile not applied'];
+        }
+
+        await useSettingsStore.getState().applyThresholds(deviceId, profile.thresholds);
+        const queued = useOutboxStore
+          .getState()
+          .getEntries(deviceId)
+          .some((entry) => entry.kind === 'settings');
+        return ['done', queued ? `${profile.name} - will be sent when the breaker is reachable` : profile.name];
+      }
+    }
+  }
+}
+
+// Singleton instance
+let automationEngineInstance: AutomationEngine | null = null;
+
+export const getAutomationEngine = (): AutomationEngine => {
+  if (!automationEngineInstance) {
+    automationEngineInstance = new AutomationEngine();
+  }
+  return automationEngineInstance;
+};
+
+// Newly logged events, whether the app inferred them or the breaker reported them
+useEventsStore.subscribe((state, previous) => {
+  if (!previous.isLoaded || state.events === previous.events) return;
+
+  const known = new Set(previous.events.map((event) => event.id));
+  const now = Date.now();
+  state.events
+    .filter((event) => !known.has(event.id) && now - event.timestamp <= EVENT_MAX_AGE)
+    .forEach((event) => getAutomationEngine().handleEvent(event));
+});
+
+export default AutomationEngine;
@@ -0,0 +1,120 @@
+// Clock Sync Service - keep each breaker's clock and time zone in step with the phone
+//
+// Schedules run on the breaker's own clock, so it gets epoch time plus a POSIX TZ rule
+// (DST included) rather than a bare hour and minute. The clock is read back
+// periodically; drift past the tolerance, or a different zone rule, triggers a resync.
+
+import { getDeviceApi } from './esp32Api';
+import { getOutbox } from './outbox';
+import { useDiagnosticsStore } from '../store/useDiagnosticsStore';
+import { getPosixTimeZone, getTimeZoneName } from '../utils/timezone';
+
+const CHECK_INTERVAL = 10 * 60 * 1000;
+const DRIFT_TOLERANCE = 2000;           // ms, firmware that reports epoch time
+const LEGACY_DRIFT_TOLERANCE = 60000;   // Minute-resolution clocks can only be judged to the minute
+const MINUTES_PER_WEEK = 7 * 24 * 60;
+
+export class ClockSyncService {
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  // Sync now and keep checking while the breaker is connected
+  start(deviceId: string) {
+    this.stop(deviceId);
+
+    this.sync(deviceId).then((synced) => {
+      if (synced) this.check(deviceId);
+    });
+    this.timers.set(deviceId, setInterval(() => this.check(deviceId), CHECK_INTERVAL));
+  }
+
+  stop(deviceId: string) {
+    const timer = this.timers.get(deviceId);
+    if (timer) {
+      clearInterval(timer);
+      this.timers.delete(deviceId);
+    }
+  }
+
+  async sync(deviceId: string): Promise<boolean> {
+    const now = new Date();
+    const tz = getPosixTimeZone(now);
+
+    const result = await getDeviceApi(deviceId).setTime({
+      hour: now.getHours(),
+      minute: now.getMinutes(),
+      day: now.getDay(),
+      second: now.getSeconds(),
+      epochMs: now.getTime(),
+      tz,
+      zone: getTimeZoneName(),
+    });
+
+    if (result.ok) {
+      useDiagnosticsStore.getState().setClock(deviceId, { syncedAt: Date.now() });
+      getOutbox().acknowledge(deviceId, 'time');
+      console.log(`🕒 Clock synced to ${deviceId}: ${now.toISOString()} (${tz})`);
+    } else {
+      // Sent again, with the time of sending, once the breaker reconnects
+      getOutbox().enqueue(deviceId, 'time');
+      console.error(`❌ Failed to sync clock to ${deviceId}: ${result.error.message}`);
+    }
+    return result.ok;
+  }
+
+  // Read the breaker's clock back - returns drift in ms (device minus phone)
+  async check(deviceId: string): Promise<number | null> {
+    const sentAt = Date.now();
+    const result = await getDeviceApi(deviceId).getTime();
+    const receivedAt = Date.now();
+    if (!result.ok) return null;
+    const time = result.value;
+
+    // Assume the device read its clock halfway through the round trip
+    const midpoint = (sentAt + receivedAt) / 2;
+    let driftMs: number;
+    let precision: 'ms' | 'minute';
+
+    if (time.epochMs !== undefined) {
+      driftMs = Math.round(time.epochMs - midpoint);
+      precision = 'ms';
+    } else {
+      const phone = new Date(midpoint);
+      const phoneMinutes = phone.getDay() * 1440 + phone.getHours() * 60 + phone.getMinutes();
+      const deviceMinutes = time.day * 1440 + time.hour * 60 + time.minute;
+      // Shortest way round the week, so Saturday 23:59 vs Sunday 00:00 is one minute
+      const diff = ((deviceMinutes - phoneMinutes + MINUTES_PER_WEEK * 1.5) % MINUTES_PER_WEEK) - MINUTES_PER_WEEK / 2;
+      driftMs = diff * 60000;
+      precision = 'minute';
+    }
+
+    useDiagnosticsStore.getState().setClock(deviceId, {
+      driftMs,
+      precision,
+      checkedAt: receivedAt,
+      tz: time.tz ?? null,
+    });
+
+    const tolerance = precision === 'ms' ? DRIFT_TOLERANCE : LEGACY_DRIFT_TOLERANCE;
+    const zoneChanged = time.tz !== undefined && time.tz !== getPosixTimeZone();
+
+    if (Math.abs(driftMs) > tolerance || zoneChanged) {
+      console.log(
+        `🕒 ${deviceId} clock ${zoneChanged ? 'is on another time zone rule' : `is off by ${(driftMs / 1000).toFixed(1)} s`}, resyncing`
+      );
+      await this.sync(deviceId);
+    }
+    return driftMs;
+  }
+}
+
+// Singleton instance
+let clockInstance: ClockSyncService | null = null;
+
+export const getClockSync = (): ClockSyncService => {
+  if (!clockInstance) {
+    clockInstance = new ClockSyncService();
+  }
+  return clockInstance;
+};
+
+export default ClockSyncService;
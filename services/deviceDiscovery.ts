@@ -0,0 +1,254 @@
+// Device Discovery Service - find SmartCB breakers on the local network
+//
+// Three probes, cheapest first: an mDNS/DNS-SD query, a UDP broadcast the firmware
+// answers, and a bounded HTTP scan of the phone's own /24 subnet. Every candidate is
+// confirmed with /api/info before it is reported.
+
+import dgram from 'react-native-udp';
+import * as Network from 'expo-network';
+import { DiscoveredDevice, DiscoveryMethod } from '../types';
+import { validateInfo } from './esp32Protocol';
+
+const MDNS_ADDRESS = '224.0.0.251';
+const MDNS_PORT = 5353;
+const MDNS_SERVICES = ['_smartcb._tcp.local', '_http._tcp.local'];
+
+const BROADCAST_ADDRESS = '255.255.255.255';
+const BROADCAST_PORT = 4210;              // Firmware discovery listener
+const BROADCAST_PROBE = 'SMARTCB_DISCOVER';
+
+const LISTEN_WINDOW = 2000;    // How long to collect mDNS/broadcast replies
+const PROBE_TIMEOUT = 800;     // Per-host /api/info timeout
+const SCAN_CONCURRENCY = 24;   // Parallel requests during the subnet scan
+const DEFAULT_PORT = '80';
+
+interface DiscoveryOptions {
+  includeSubnetScan?: boolean;
+  // Stop early once a matching device turns up
+  until?: (device: DiscoveredDevice) => boolean;
+  onFound?: (device: DiscoveredDevice) => void;
+}
+
+interface DiscoveryCandidate {
+  method: DiscoveryMethod;
+  port: string;
+}
+
+// DNS-SD PTR query; the QU bit asks responders to answer us directly
+const buildMdnsQuery = (services: string[]): Uint8Array => {
+  // Header: ID 0, flags 0, QDCOUNT, no answer/authority/additional records
+  const bytes: number[] = [0, 0, 0, 0, services.length >> 8, services.length & 0xff, 0, 0, 0, 0, 0, 0];
+
+  for (const service of services) {
+    for (const label of service.split('.')) {
+      bytes.push(label.length, ...Array.from(label, (char) => char.charCodeAt(0)));
+    }
+    bytes.push(0);
+    bytes.push(0x00, 0x0c);  // QTYPE PTR
+    bytes.push(0x80, 0x01);  // QCLASS IN + unicast-response
+  }
+
+  return new Uint8Array(bytes);
+};
+
+// Broadcast replies may carry {"port": 8080} when the HTTP API is not on 80
+const parseBroadcastPort = (reply: string): string => {
+  try {
+    const port = JSON.parse(reply)?.port;
+    return Number.isInteger(port) && port > 0 && port < 65536 ? String(port) : DEFAULT_PORT;
+  } catch {
+    return DEFAULT_PORT;
+  }
+};
+
+const subnetOf = (ip: string): string | null => {
+  const parts = ip.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part))) return null;
+  return parts.slice(0, 3).join('.');
+};
+
+export class DeviceDiscoveryService {
+  private scanning: boolean = false;
+
+  isScanning(): boolean {
+    return this.scanning;
+  }
+
+  // Run every probe and return the confirmed breakers, one entry per IP
+  async discover(options: DiscoveryOptions = {}): Promise<DiscoveredDevice[]> {
+    const found = new Map<string, DiscoveredDevice>();
+    let done = false;
+
+    const report = (device: DiscoveredDevice) => {
+      if (found.has(device.ip)) return;
+      found.set(device.ip, device);
+      options.onFound?.(device);
+      if (options.until?.(device)) done = true;
+    };
+
+    this.scanning = true;
+    console.log('🔎 Discovery: probing LAN for SmartCB breakers');
+
+    try {
+      const candidates = await this.listenForReplies();
+      await Promise.all(
+        Array.from(candidates, async ([ip, { method, port }]) => {
+          const device = await this.probe(ip, port, method);
+          if (device) report(device);
+        })
+      );
+
+      if (!done && options.includeSubnetScan) {
+        await this.scanSubnet(report, () => done, new Set(found.keys()));
+      }
+    } finally {
+      this.scanning = false;
+    }
+
+    console.log(`🔎 Discovery: ${found.size} breaker(s) found`);
+    return Array.from(found.values());
+  }
+
+  // Locate a known breaker by the deviceId it reports - used after DHCP moves it
+  async findDevice(hardwareId: string): Promise<DiscoveredDevice | null> {
+    const matches = (device: DiscoveredDevice) => device.hardwareId === hardwareId;
+    const devices = await this.discover({ includeSubnetScan: true, until: matches });
+    return devices.find(matches) ?? null;
+  }
+
+  // Confirm a candidate via /api/info
+  async probe(ip: string, port: string, method: DiscoveryMethod): Promise<DiscoveredDevice | null> {
+    const controller = new AbortController();
+    // Runs until the body is in - a host that sends headers and then stalls is no breaker either
+    const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+
+    try {
+      const response = await fetch(`http://${ip}:${port}/api/info`, {
+        method: 'GET',
+        signal: controller.signal,
+      });
+
+      if (!response.ok) return null;
+
+      const result = validateInfo(await response.json());
+      // Other HTTP devices answer too - a breaker always reports an ID or model
+      if (!result.ok || !(result.value.deviceId || result.value.model)) return null;
+
+      return {
+        ip,
+        port,
+        deviceName: result.value.deviceName,
+        model: result.value.model,
+        firmwareVersion: result.value.firmwareVersion,
+        hardwareId: result.value.deviceId,
+        method,
+      };
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  // mDNS query + UDP broadcast on one socket; collect whoever answers
+  private listenForReplies(): Promise<Map<string, DiscoveryCandidate>> {
+    return new Promise((resolve) => {
+      const candidates = new Map<string, DiscoveryCandidate>();
+      let socket: ReturnType<typeof dgram.createSocket>;
+
+      try {
+        socket = dgram.createSocket({ type: 'udp4', reusePort: true });
+      } catch (error) {
+        console.warn('⚠️ Discovery: UDP unavailable, skipping mDNS/broadcast', error);
+        resolve(candidates);
+        return;
+      }
+
+      const finish = () => {
+        try {
+          socket.close();
+        } catch {
+          // Already closed
+        }
+        resolve(candidates);
+      };
+
+      socket.on('message', (msg: { toString(): string }, rinfo: { address: string; port: number }) => {
+        if (candidates.has(rinfo.address)) return;
+
+        if (rinfo.port === MDNS_PORT) {
+          candidates.set(rinfo.address, { method: 'mdns', port: DEFAULT_PORT });
+        } else {
+          candidates.set(rinfo.address, { method: 'broadcast', port: parseBroadcastPort(msg.toString()) });
+        }
+      });
+
+      socket.on('error', (error: unknown) => {
+        console.warn('⚠️ Discovery socket error:', error);
+      });
+
+      socket.once('listening', () => {
+        try {
+          socket.setBroadcast(true);
+          const query = buildMdnsQuery(MDNS_SERVICES);
+          socket.send(query, 0, query.length, MDNS_PORT, MDNS_ADDRESS);
+          socket.send(BROADCAST_PROBE, undefined, undefined, BROADCAST_PORT, BROADCAST_ADDRESS);
+        } catch (error) {
+          console.warn('⚠️ Discovery: probe send failed', error);
+        }
+        setTimeout(finish, LISTEN_WINDOW);
+      });
+
+      socket.bind(0);
+    });
+  }
+
+  // HTTP sweep of the phone's /24, SCAN_CONCURRENCY hosts at a time
+  private async scanSubnet(
+    report: (device: DiscoveredDevice) => void,
+    shouldStop: () => boolean,
+    skip: Set<string>
+  ) {
+    let ownIp: string;
+    try {
+      ownIp = await Network.getIpAddressAsync();
+    } catch {
+      console.warn('⚠️ Discovery: could not read phone IP, skipping subnet scan');
+      return;
+    }
+
+    const subnet = subnetOf(ownIp);
+    if (!subnet) return;
+
+    const hosts: string[] = [];
+    for (let i = 1; i <= 254; i++) {
+      const ip = `${subnet}.${i}`;
+      if (ip !== ownIp && !skip.has(ip)) hosts.push(ip);
+    }
+
+    console.log(`🔎 Discovery: scanning ${subnet}.0/24`);
+
+    let next = 0;
+    const worker = async () => {
+      while (next < hosts.length && !shouldStop()) {
+        const ip = hosts[next++];
+        const device = await this.probe(ip, DEFAULT_PORT, 'scan');
+        if (device) report(device);
+      }
+    };
+
+    await Promise.all(Array.from({ length: SCAN_CONCURRENCY }, worker));
+  }
+}
+
+// Singleton instance
+let discoveryInstance: DeviceDiscoveryService | null = null;
+
+export const getDeviceDiscovery = (): DeviceDiscoveryService => {
+  if (!discoveryInstance) {
+    discoveryInstance = new DeviceDiscoveryService();
+  }
+  return discoveryInstance;
+};
+
+export default DeviceDiscoveryService;
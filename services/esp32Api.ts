@@ -1,123 +1,305 @@
 // ESP32 API Service for Real-time Communication
 
-import { ElectricalData } from '../types';
+import {
+  ElectricalData,
+  DeviceInfoPayload,
+  DeviceSettingsPayload,
+  DeviceSchedulesPayload,
+  DeviceTimePayload,
+  DeviceTimeSync,
+  PayloadSource,
+  WifiScanPayload,
+  WifiStatusPayload,
+  DeviceCredentials,
+  DeviceAuthState,
+  PairingPayload,
+  PairedClientsPayload,
+  FirmwareStatusPayload,
+  EventJournalPayload,
+} from '../types';
+import {
+  ValidationResult,
+  validateStatus,
+  validateSettings,
+  validateInfo,
+  validateSchedules,
+  validateTime,
+  validateCommandResult,
+  validateWifiScan,
+  validateWifiStatus,
+  validatePairing,
+  validatePairedClients,
+  validateAuthError,
+  validateFirmwareStatus,
+  validateEventJournal,
+} from './esp32Protocol';
+import { ESP32Error, ESP32Result, httpError, isESP32Error, timeoutError, transportError } from './esp32Errors';
+import * as FileSystem from 'expo-file-system/legacy';
+import { signRequest, signRequestDigest, signatureHeaders } from './requestSigner';
+import { useDiagnosticsStore } from '../store/useDiagnosticsStore';
+import { useAuthStore } from '../store/useAuthStore';
+import { getLinkQuality } from './linkQuality';
+import { getSessionRecorder } from './sessionRecorder';
+
+type RejectionHandler = (source: PayloadSource, errors: string[]) => void;
+type AuthHandler = (state: DeviceAuthState) => void;
+type RequestObserver = (path: string, latencyMs: number, ok: boolean) => void;
+type PayloadObserver = (source: PayloadSource, payload: unknown) => void;
+
+const REQUEST_TIMEOUT = 5000; // Requests without their own deadline
+const MIN_POLL_GAP = 200;     // Breathing room after a poll that took longer than the interval
+
+export type PairingResult =
+  | { ok: true; pairing: PairingPayload }
+  | { ok: false; reason: 'closed' | 'unreachable' | 'invalid' };
 
 export class ESP32ApiService {
   private baseUrl: string;
-  private pollingInterval: NodeJS.Timeout | null = null;
+  private pollingTimer: NodeJS.Timeout | null = null;
+  private pollingRun: number = 0;        // Bumped on start/stop so a late answer from an old run is dropped
+  private pollingStartedAt: number = 0;  // When the last poll went out
+  private pollingDelay: () => number = () => 1000;
+  private pollingTick: (() => void) | null = null;
   private connectionCheckInterval: NodeJS.Timeout | null = null;
+  private onRejected?: RejectionHandler;
+  private onAuthChange?: AuthHandler;
+  private onRequest?: RequestObserver;
+  private onPayload?: PayloadObserver;
+  private credentials: DeviceCredentials | null = null;
+  private clockOffset: number = 0; // Device clock minus phone clock, learned from 'stale' rejections
 
   constructor(ipAddress: string = '192.168.4.1', port: string = '80') {
     this.baseUrl = `http://${ipAddress}:${port}`;
   }
 
-  // Update base URL when IP changes
-  updateConnection(ipAddress: string, port: string = '80') {
-    this.baseUrl = `http://${ipAddress}:${port}`;
+  // Called for every payload that fails its schema
+  setRejectionHandler(handler: RejectionHandler) {
+    this.onRejected = handler;
   }
 
-  // Test connection to ESP32
-  async testConnection(): Promise<boolean> {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000);
+  // Pairing secret for this breaker - every request is signed while it is set
+  setCredentials(credentials: DeviceCredentials | null) {
+    this.credentials = credentials;
+  }
 
-      const response = await fetch(`${this.baseUrl}/api/info`, {
-        method: 'GET',
-        signal: controller.signal,
-      });
+  // Called when the firmware accepts a signed request or refuses an unsigned/badly signed one
+  setAuthHandler(handler: AuthHandler) {
+    this.onAuthChange = handler;
+  }
 
-      clearTimeout(timeoutId);
-      return response.ok;
-    } catch (error) {
-      console.error('Connection test failed:', error);
-      return false;
-    }
+  // Told how long each request took and whether the breaker answered it
+  setRequestObserver(observer: RequestObserver) {
+    this.onRequest = observer;
   }
 
-  // Get current electrical status
-  async getStatus(): Promise<ElectricalData | null> {
+  // Sees every parsed response body before its schema check (session recording)
+  setPayloadObserver(observer: PayloadObserver) {
+    this.onPayload = observer;
+  }
+
+  // fetch() against the device and read the answer, all within one deadline - signed once
+  // paired; a 'stale' rejection resyncs the clock and retries once. Throws ESP32Error.
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    read: (response: Response) => Promise<T>,
+    timeout: number = REQUEST_TIMEOUT,
+    retry: boolean = true
+  ): Promise<T> {
+    const method = init.method ?? 'GET';
+    const body = typeof init.body === 'string' ? init.body : '';
+    const headers: Record<string, string> = { ...(init.headers as Record<string, string> | undefined) };
+
+    if (this.credentials) {
+      const signature = signRequest(this.credentials, method, path, body, Date.now() + this.clockOffset);
+      Object.assign(headers, signatureHeaders(signature));
+    }
+
+    // A breaker that stops answering mid-request - or mid-body - would otherwise hang the caller
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const startedAt = Date.now();
+
     try {
-      const response = await fetch(`${this.baseUrl}/api/status`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${path}`, { ...init, headers, signal: controller.signal });
+      } catch (error) {
+        this.onRequest?.(path, Date.now() - startedAt, false);
+        // The abort error differs between platforms - our own signal says whether it was the deadline
+        throw controller.signal.aborted ? timeoutError(path, timeout) : transportError(error, path);
+      }
+      // 4xx is the breaker answering; 5xx is it failing to
+      this.onRequest?.(path, Date.now() - startedAt, response.status < 500);
+
+      if (response.status === 401 || response.status === 403) {
+        let payload: unknown = null;
+        try {
+          payload = await response.clone().json();
+        } catch {
+          // Not an auth error body
+        }
+
+        const rejection = this.noteAuthRejection(payload, path, retry);
+        if (rejection === 'retry') {
+          return await this.request(path, init, read, timeout, false);
+        }
+      } else if (response.ok && this.credentials) {
+        this.onAuthChange?.('paired');
+      }
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch status');
+      try {
+        return await read(response);
+      } catch (error) {
+        throw controller.signal.aborted && !isESP32Error(error) ? timeoutError(path, timeout) : transportError(error, path);
       }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
 
-      const data = await response.json();
-
-      // Map API response to ElectricalData type
-      return {
-        voltage: data.voltage || 0,
-        current: data.current || 0,
-        power: data.power || 0,
-        energy: data.energy || 0,
-        frequency: data.frequency || 0,
-        powerFactor: data.powerFactor || 0,
-        apparentPower: data.apparentPower || 0,
-        reactivePower: data.reactivePower || 0,
-        relayState: data.relayState || false,
-        timestamp: Date.now(), // ALWAYS use app timestamp, ESP32 uses millis() not unix time
-        // ESP32 status fields (BUG-001 fix)
-        protectionTriggered: data.protectionTriggered || false,
-        protectionReason: data.protectionReason || '',
-        manualMode: data.manualMode || false,
-        powerOutage: data.powerOutage || false,
-        reconnectionPending: data.reconnectionPending || false,
-      };
-    } catch (error) {
-      console.error('Error fetching status:', error);
-      return null;
+  // GET a JSON resource and schema-check it
+  private get<T>(
+    path: string,
+    source: PayloadSource,
+    validator: (payload: unknown) => ValidationResult<T>,
+    timeout?: number
+  ): Promise<T> {
+    return this.request(
+      path,
+      { method: 'GET', headers: { 'Content-Type': 'application/json' } },
+      (response) => this.readPayload(response, path, source, validator),
+      timeout
+    );
+  }
+
+  // POST a command; resolves once the breaker answers { success: true }
+  private post(path: string, body: unknown, timeout?: number): Promise<void> {
+    return this.request(
+      path,
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
+      (response) => this.readCommandResult(response, path),
+      timeout
+    );
+  }
+
+  // Report a refused request; 'retry' when only the clock was off and it has been corrected
+  private noteAuthRejection(payload: unknown, path: string, canRetry: boolean): 'retry' | 'rejected' | null {
+    const rejection = validateAuthError(payload);
+    if (!rejection.ok) return null;
+
+    const { error, reason, serverTime } = rejection.value;
+
+    if (reason === 'stale' && serverTime && canRetry && this.credentials) {
+      this.clockOffset = serverTime - Date.now();
+      console.log(`🔐 Clock offset to ${this.baseUrl}: ${this.clockOffset} ms, retrying ${path}`);
+      return 'retry';
     }
+
+    if (error === 'pairing_required' || reason === 'unknown_client') {
+      console.warn(`🔐 ${this.baseUrl} requires pairing (${path})`);
+      this.onAuthChange?.('pairing_required');
+    } else if (error === 'signature_rejected') {
+      console.warn(`🔐 ${this.baseUrl} rejected signature on ${path}: ${reason ?? 'unknown'}`);
+      this.onAuthChange?.('signature_rejected');
+    }
+    return 'rejected';
+  }
+
+  private rejectPayload(source: PayloadSource, errors: string[]) {
+    console.warn(`⚠️ Rejected ${source} payload from ${this.baseUrl}:`, errors.join('; '));
+    this.onRejected?.(source, errors);
   }
 
-  // Control relay (circuit breaker)
-  async setRelayState(state: boolean): Promise<boolean> {
+  // Check the status, parse and schema-check a response body
+  private async readPayload<T>(
+    response: Response,
+    path: string,
+    source: PayloadSource,
+    validator: (payload: unknown) => ValidationResult<T>
+  ): Promise<T> {
+    if (!response.ok) {
+      throw httpError(path, response.status);
+    }
+
+    // Read first - a body that stops arriving is a timeout, not bad JSON
+    const text = await response.text();
+    let payload: unknown;
     try {
-      const response = await fetch(`${this.baseUrl}/api/relay`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ state }),
-      });
+      payload = JSON.parse(text);
+    } catch {
+      this.rejectPayload(source, ['malformed JSON']);
+      throw new ESP32Error('malformed', `${path} answered with malformed JSON`, { path });
+    }
+    this.onPayload?.(source, payload);
 
-      if (!response.ok) {
-        throw new Error('Failed to control relay');
-      }
+    const result = validator(payload);
+    if (!result.ok) {
+      this.rejectPayload(source, result.errors);
+      throw new ESP32Error('invalid', `${path} answered ${result.errors.join('; ')}`, { path, errors: result.errors });
+    }
+    return result.value;
+  }
 
-      const result = await response.json();
-      return result.success === true;
-    } catch (error) {
-      console.error('Error controlling relay:', error);
-      return false;
+  // Command endpoints answer { success } - anything else counts as a failure
+  private async readCommandResult(response: Response, path: string): Promise<void> {
+    const result = await this.readPayload(response, path, 'command', validateCommandResult);
+    if (!result.success) {
+      throw new ESP32Error('rejected', `${path} refused${result.message ? `: ${result.message}` : ''}`, { path });
     }
   }
 
-  // Get device settings
-  async getSettings(): Promise<any> {
+  // Hand the caller the reason along with the failure
+  private failure(error: unknown, context: string): { ok: false; error: ESP32Error } {
+    const failure = isESP32Error(error)
+      ? error
+      : new ESP32Error('unreachable', error instanceof Error ? error.message : String(error));
+    console.error(`${context}:`, failure.message);
+    return { ok: false, error: failure };
+  }
+
+  // Run one call against the breaker - its value, or why it failed
+  private async attempt<T>(context: string, call: () => Promise<T>): Promise<ESP32Result<T>> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/settings`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
+      return { ok: true, value: await call() };
+    } catch (error) {
+      return this.failure(error, context);
+    }
+  }
+
+  // Update base URL when IP changes
+  updateConnection(ipAddress: string, port: string = '80') {
+    this.baseUrl = `http://${ipAddress}:${port}`;
+  }
+
+  // Test connection to ESP32
+  async testConnection(): Promise<ESP32Result<void>> {
+    return this.attempt('Connection test failed', () =>
+      this.request(
+        '/api/info',
+        { method: 'GET' },
+        async (response) => {
+          if (!response.ok) throw httpError('/api/info', response.status);
         },
-      });
+        3000
+      )
+    );
+  }
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch settings');
-      }
+  // Get current electrical status
+  async getStatus(): Promise<ESP32Result<ElectricalData>> {
+    // Schema-checked and mapped to ElectricalData (includes BUG-001 status fields)
+    return this.attempt('Error fetching status', () => this.get('/api/status', 'status', validateStatus));
+  }
 
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching settings:', error);
-      return null;
-    }
+  // Set relay (circuit breaker) to a state - commandId lets the firmware drop duplicate sends
+  async setRelayState(state: boolean, commandId?: string, timeout: number = 3000): Promise<ESP32Result<void>> {
+    return this.attempt('Error controlling relay', () => this.post('/api/relay', { state, commandId }, timeout));
+  }
+
+  // Get device settings
+  async getSettings(): Promise<ESP32Result<DeviceSettingsPayload>> {
+    return this.attempt('Error fetching settings', () => this.get('/api/settings', 'settings', validateSettings));
   }
 
   // Update device settings (ENHANCED with advanced thresholds)
@@ -136,68 +318,30 @@ export class ESP32ApiService {
     powerFactorProtection?: boolean;
     autoResetDelay?: number;  // Reconnection delay in seconds
     autoReconnectEnabled?: boolean;  // BUG-008 fix: Enable/disable auto-reconnect
-  }): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/settings`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(settings),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update settings');
-      }
-
-      const result = await response.json();
-      return result.success === true;
-    } catch (error) {
-      console.error('Error updating settings:', error);
-      return false;
-    }
+  }): Promise<ESP32Result<void>> {
+    return this.attempt('Error updating settings', () => this.post('/api/settings', settings));
   }
 
   // Get device information
-  async getDeviceInfo(): Promise<any> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/info`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch device info');
-      }
-
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching device info:', error);
-      return null;
-    }
+  async getDeviceInfo(): Promise<ESP32Result<DeviceInfoPayload>> {
+    return this.attempt('Error fetching device info', () => this.get('/api/info', 'info', validateInfo));
   }
 
   // Get schedules (NEW)
-  async getSchedules(): Promise<any> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/schedules`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch schedules');
-      }
+  async getSchedules(): Promise<ESP32Result<DeviceSchedulesPayload>> {
+    return this.attempt('Error fetching schedules', () => this.get('/api/schedules', 'schedules', validateSchedules));
+  }
 
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching schedules:', error);
-      return null;
-    }
+  // Journal entries after `since`; null on firmware without a journal (404)
+  async getEventJournal(since: number, limit: number): Promise<ESP32Result<EventJournalPayload | null>> {
+    const path = `/api/events?since=${since}&limit=${limit}`;
+    return this.attempt('Error fetching event journal', () =>
+      this.request(
+        path,
+        { method: 'GET', headers: { 'Content-Type': 'application/json' } },
+        async (response) => (response.status === 404 ? null : this.readPayload(response, path, 'events', validateEventJournal))
+      )
+    );
   }
 
   // Update schedules (NEW)
@@ -209,104 +353,211 @@ export class ESP32ApiService {
       offTime: string;
       days: number[];
     }>;
-  }): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/schedules`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(schedules),
-      });
+  }): Promise<ESP32Result<void>> {
+    return this.attempt('Error updating schedules', () => this.post('/api/schedules', schedules));
+  }
 
-      if (!response.ok) {
-        throw new Error('Failed to update schedules');
-      }
+  // Get current time from ESP32 (NEW)
+  async getTime(): Promise<ESP32Result<DeviceTimePayload>> {
+    return this.attempt('Error fetching time', () => this.get('/api/time', 'time', validateTime));
+  }
 
-      const result = await response.json();
-      return result.success === true;
-    } catch (error) {
-      console.error('Error updating schedules:', error);
-      return false;
-    }
+  // Set the ESP32 clock - epoch time plus the zone rule; hour/minute/day for older firmware
+  async setTime(time: DeviceTimeSync): Promise<ESP32Result<void>> {
+    return this.attempt('Error setting time', () => this.post('/api/time', time));
   }
 
-  // Get current time from ESP32 (NEW)
-  async getTime(): Promise<any> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/time`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+  // Networks the ESP32 can see (access-point mode provisioning)
+  async scanWifiNetworks(): Promise<ESP32Result<WifiScanPayload>> {
+    // The radio scan itself takes a few seconds
+    return this.attempt('Error scanning WiFi networks', () => this.get('/api/wifi/scan', 'wifi', validateWifiScan, 15000));
+  }
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch time');
-      }
+  // Hand home WiFi credentials to the ESP32 - it starts joining in the background
+  async setWifiCredentials(credentials: { ssid: string; password: string }): Promise<ESP32Result<void>> {
+    return this.attempt('Error sending WiFi credentials', () => this.post('/api/wifi', credentials));
+  }
 
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching time:', error);
-      return null;
-    }
+  // Progress of the station-mode join started by setWifiCredentials
+  async getWifiStatus(): Promise<ESP32Result<WifiStatusPayload>> {
+    return this.attempt('Error fetching WiFi status', () => this.get('/api/wifi/status', 'wifi', validateWifiStatus, 3000));
   }
 
-  // Set current time on ESP32 (NEW)
-  async setTime(time: {
-    hour: number;
-    minute: number;
-    day: number;
-  }): Promise<boolean> {
+  // Ask for a pairing secret - only succeeds while the breaker's pairing window is open
+  async pair(clientId: string, clientName: string): Promise<PairingResult> {
+    const path = '/api/pair';
     try {
-      const response = await fetch(`${this.baseUrl}/api/time`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const pairing = await this.request(
+        path,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ clientId, name: clientName }),
         },
-        body: JSON.stringify(time),
-      });
+        async (response) => (response.status === 403 ? null : this.readPayload(response, path, 'pairing', validatePairing))
+      );
+      return pairing ? { ok: true, pairing } : { ok: false, reason: 'closed' };
+    } catch (error) {
+      const { error: failure } = this.failure(error, 'Error pairing');
+      const invalid = failure.kind === 'malformed' || failure.kind === 'invalid';
+      return { ok: false, reason: invalid ? 'invalid' : 'unreachable' };
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error('Failed to set time');
+  // Phones holding a secret for this breaker (signed)
+  async getPairedClients(): Promise<ESP32Result<PairedClientsPayload>> {
+    return this.attempt('Error fetching paired phones', () => this.get('/api/pair/clients', 'pairing', validatePairedClients));
+  }
+
+  // Revoke a phone's secret (signed) - it must pair again to send commands
+  async revokeClient(clientId: string): Promise<ESP32Result<void>> {
+    return this.attempt('Error revoking phone', () => this.post('/api/pair/revoke', { clientId }));
+  }
+
+  // Running image and whether an unconfirmed update is waiting for validation
+  async getFirmwareStatus(): Promise<ESP32Result<FirmwareStatusPayload>> {
+    return this.attempt('Error fetching firmware status', () => this.get('/api/firmware', 'firmware', validateFirmwareStatus, 3000));
+  }
+
+  // Stream an image to the OTA slot; the breaker reboots into it after answering
+  async uploadFirmware(
+    fileUri: string,
+    image: { sha256: string; version: string },
+    onProgress?: (fraction: number) => void
+  ): Promise<ESP32Result<void>> {
+    const path = '/api/firmware';
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/octet-stream',
+        'X-Firmware-SHA256': image.sha256,
+        'X-Firmware-Version': image.version,
+      };
+      if (this.credentials) {
+        const signature = signRequestDigest(this.credentials, 'POST', path, image.sha256, Date.now() + this.clockOffset);
+        Object.assign(headers, signatureHeaders(signature));
       }
 
-      const result = await response.json();
-      return result.success === true;
-    } catch (error) {
-      console.error('Error setting time:', error);
-      return false;
+      try {
+        const task = FileSystem.createUploadTask(
+          `${this.baseUrl}${path}`,
+          fileUri,
+          {
+            httpMethod: 'POST',
+            uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+            headers,
+          },
+          ({ totalBytesSent, totalBytesExpectedToSend }) => {
+            if (totalBytesExpectedToSend > 0) onProgress?.(totalBytesSent / totalBytesExpectedToSend);
+          }
+        );
+        const result = await task.uploadAsync();
+        if (!result) throw new ESP32Error('unreachable', `${path} upload was cancelled`, { path });
+
+        if (result.status === 401 || result.status === 403) {
+          let payload: unknown = null;
+          try {
+            payload = JSON.parse(result.body);
+          } catch {
+            // Not an auth error body
+          }
+          if (this.noteAuthRejection(payload, path, attempt === 0) === 'retry') continue;
+          throw httpError(path, result.status);
+        }
+
+        if (result.status < 200 || result.status >= 300) {
+          throw httpError(path, result.status);
+        }
+
+        let payload: unknown = null;
+        try {
+          payload = JSON.parse(result.body);
+        } catch {
+          this.rejectPayload('command', ['malformed JSON']);
+          throw new ESP32Error('malformed', `${path} answered with malformed JSON`, { path });
+        }
+        const command = validateCommandResult(payload);
+        if (!command.ok) {
+          this.rejectPayload('command', command.errors);
+          throw new ESP32Error('invalid', `${path} answered ${command.errors.join('; ')}`, { path, errors: command.errors });
+        }
+        if (this.credentials) this.onAuthChange?.('paired');
+        if (!command.value.success) {
+          throw new ESP32Error('rejected', `${path} refused the image`, { path });
+        }
+        return { ok: true, value: undefined };
+      } catch (error) {
+        return this.failure(error, 'Error uploading firmware');
+      }
     }
+    // Only a second 'stale' rejection gets here - the retry already carried the corrected clock
+    return this.failure(httpError(path, 401), 'Error uploading firmware');
   }
 
-  // Start polling for real-time updates
-  startPolling(callback: (data: ElectricalData | null) => void, interval: number = 1000) {
-    if (this.pollingInterval) {
-      this.stopPolling();
-    }
+  // Mark the running image valid so the bootloader keeps it
+  async confirmFirmware(): Promise<ESP32Result<void>> {
+    return this.attempt('Error confirming firmware', () => this.post('/api/firmware/confirm', {}));
+  }
 
-    // Initial fetch
-    this.getStatus().then(callback);
+  // Reboot into the image in the other OTA slot
+  async rollbackFirmware(): Promise<ESP32Result<void>> {
+    return this.attempt('Error rolling back firmware', () => this.post('/api/firmware/rollback', {}));
+  }
 
-    // Set up polling
-    this.pollingInterval = setInterval(async () => {
-      const data = await this.getStatus();
-      callback(data);
-    }, interval);
+  // Start polling for real-time updates - one request at a time, the interval may change between polls
+  startPolling(callback: (result: ESP32Result<ElectricalData>) => void, interval: number | (() => number) = 1000) {
+    this.stopPolling();
+
+    const run = this.pollingRun;
+    this.pollingDelay = typeof interval === 'function' ? interval : () => interval;
+
+    const poll = async () => {
+      this.pollingTimer = null;
+      this.pollingStartedAt = Date.now();
+      const result = await this.getStatus();
+      if (run !== this.pollingRun) return;
+
+      callback(result);
+      this.scheduleNextPoll();
+    };
+
+    this.pollingTick = poll;
+    poll();
+  }
+
+  // Interval changed while waiting - re-time the next poll; one already in flight is left alone
+  reschedulePolling() {
+    if (this.pollingTimer) {
+      this.scheduleNextPoll();
+    }
   }
 
   // Stop polling
   stopPolling() {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
+    this.pollingRun++;
+    this.pollingTick = null;
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
+      this.pollingTimer = null;
     }
   }
 
+  // The interval counts from when the last poll went out, so a slow answer shortens the wait
+  private scheduleNextPoll() {
+    const tick = this.pollingTick;
+    if (!tick) return;
+
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
+    }
+    const elapsed = Date.now() - this.pollingStartedAt;
+    this.pollingTimer = setTimeout(tick, Math.max(this.pollingDelay() - elapsed, MIN_POLL_GAP));
+  }
+
   // Start connection monitoring
   startConnectionMonitoring(
     onConnected: () => void,
-    onDisconnected: () => void,
+    onDisconnected: (error: ESP32Error) => void,
     interval: number = 5000
   ) {
     if (this.connectionCheckInterval) {
@@ -314,11 +565,11 @@ export class ESP32ApiService {
     }
 
     this.connectionCheckInterval = setInterval(async () => {
-      const isConnected = await this.testConnection();
-      if (isConnected) {
+      const result = await this.testConnection();
+      if (result.ok) {
         onConnected();
       } else {
-        onDisconnected();
+        onDisconnected(result.error);
       }
     }, interval);
   }
@@ -338,16 +589,36 @@ export class ESP32ApiService {
   }
 }
 
-// Singleton instance
-let esp32ApiInstance: ESP32ApiService | null = null;
-
-export const getESP32Api = (ipAddress?: string, port?: string): ESP32ApiService => {
-  if (!esp32ApiInstance) {
-    esp32ApiInstance = new ESP32ApiService(ipAddress, port);
+// Per-device instances - each breaker polls and monitors independently
+const deviceApiInstances = new Map<string, ESP32ApiService>();
+
+export const getDeviceApi = (deviceId: string, ipAddress?: string, port?: string): ESP32ApiService => {
+  let instance = deviceApiInstances.get(deviceId);
+  if (!instance) {
+    instance = new ESP32ApiService(ipAddress, port);
+    instance.setRejectionHandler((source, errors) =>
+      useDiagnosticsStore.getState().recordRejection(deviceId, source, errors)
+    );
+    instance.setCredentials(useAuthStore.getState().getCredentials(deviceId) ?? null);
+    instance.setAuthHandler((state) => useAuthStore.getState().setStatus(deviceId, state));
+    instance.setRequestObserver((path, latencyMs, ok) => getLinkQuality().recordRequest(deviceId, path, latencyMs, ok));
+    instance.setPayloadObserver((source, payload) => {
+      if (source === 'status') getSessionRecorder().record(deviceId, 'status', 'http', payload);
+    });
+    deviceApiInstances.set(deviceId, instance);
   } else if (ipAddress && port) {
-    esp32ApiInstance.updateConnection(ipAddress, port);
+    instance.updateConnection(ipAddress, port);
+  }
+  return instance;
+};
+
+// Stop and forget a device's instance (device removed from registry)
+export const releaseDeviceApi = (deviceId: string) => {
+  const instance = deviceApiInstances.get(deviceId);
+  if (instance) {
+    instance.cleanup();
+    deviceApiInstances.delete(deviceId);
   }
-  return esp32ApiInstance;
 };
 
 // Export default instance
@@ -0,0 +1,58 @@
+// ESP32 Errors - why talking to a breaker failed, handed back instead of a bare null or false
+//
+// Every API call answers an ESP32Result: the value, or an ESP32Error with a kind and,
+// where there is one, the HTTP status or WebSocket close code. The WebSocket client
+// passes the same errors to its connection callback when an attempt fails or the socket closes.
+
+import { ESP32ErrorKind } from '../types';
+
+interface ESP32ErrorDetails {
+  path?: string;        // Request path, or the socket URL
+  status?: number;      // HTTP status ('http', 'auth')
+  code?: number;        // WebSocket close code ('closed')
+  errors?: string[];    // Schema errors ('invalid')
+}
+
+export class ESP32Error extends Error {
+  readonly kind: ESP32ErrorKind;
+  readonly path?: string;
+  readonly status?: number;
+  readonly code?: number;
+  readonly errors: string[];
+  readonly at: number;
+
+  constructor(kind: ESP32ErrorKind, message: string, details: ESP32ErrorDetails = {}) {
+    super(message);
+    this.name = 'ESP32Error';
+    this.kind = kind;
+    this.path = details.path;
+    this.status = details.status;
+    this.code = details.code;
+    this.errors = details.errors ?? [];
+    this.at = Date.now();
+  }
+}
+
+export type ESP32Result<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: ESP32Error };
+
+export const isESP32Error = (error: unknown): error is ESP32Error => error instanceof ESP32Error;
+
+// A non-2xx answer - 401/403 are the breaker refusing this phone, not failing
+export const httpError = (path: string, status: number): ESP32Error =>
+  new ESP32Error(
+    status === 401 || status === 403 ? 'auth' : 'http',
+    `${path} answered ${status}`,
+    { path, status }
+  );
+
+export const timeoutError = (path: string, timeout: number): ESP32Error =>
+  new ESP32Error('timeout', `${path} did not answer within ${timeout} ms`, { path });
+
+// What fetch() or reading the body threw when it was not our deadline
+export const transportError = (error: unknown, path: string): ESP32Error => {
+  if (isESP32Error(error)) return error;
+  const reason = error instanceof Error ? error.message : String(error);
+  return new ESP32Error('unreachable', `${path} unreachable: ${reason}`, { path });
+};
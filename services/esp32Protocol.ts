@@ -0,0 +1,508 @@
+// ESP32 Protocol - runtime schemas for every /api/* response and WebSocket message
+//
+// Payloads are checked before they reach the stores. A missing or mistyped field
+// rejects the whole payload instead of turning into a believable 0 V reading.
+
+import {
+  ElectricalData,
+  DeviceInfoPayload,
+  DeviceSettingsPayload,
+  DeviceSchedulesPayload,
+  DeviceTimePayload,
+  CommandResultPayload,
+  DeviceEventPayload,
+  EventJournalPayload,
+  ProtocolNegotiation,
+  WifiScanPayload,
+  WifiStatusPayload,
+  PairingPayload,
+  PairedClientsPayload,
+  AuthErrorPayload,
+  FirmwareStatusPayload,
+  FirmwareManifest,
+  StreamBatchPayload,
+  StreamEndPayload,
+} from '../types';
+
+// Protocol versions this app can read - firmware v4.x speaks version 4
+export const PROTOCOL_VERSION = 4;
+export const MIN_PROTOCOL_VERSION = 4;
+
+type FieldType = 'number' | 'boolean' | 'string' | 'array';
+
+interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+  min?: number;
+  max?: number;
+}
+
+type Schema = Record<string, FieldSpec>;
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+const StatusSchema: Schema = {
+  voltage: { type: 'number', min: 0, max: 500 },
+  current: { type: 'number', min: 0, max: 200 },
+  power: { type: 'number', min: 0 },
+  energy: { type: 'number', min: 0 },
+  frequency: { type: 'number', min: 0, max: 100 },
+  powerFactor: { type: 'number', min: 0, max: 1 },
+  apparentPower: { type: 'number', optional: true, min: 0 },
+  reactivePower: { type: 'number', optional: true },
+  relayState: { type: 'boolean' },
+  protectionTriggered: { type: 'boolean', optional: true },
+  protectionReason: { type: 'string', optional: true },
+  manualMode: { type: 'boolean', optional: true },
+  powerOutage: { type: 'boolean', optional: true },
+  reconnectionPending: { type: 'boolean', optional: true },
+  rssi: { type: 'number', optional: true, min: -120, max: 0 },
+};
+
+const SettingsSchema: Schema = {
+  maxCurrent: { type: 'number', min: 0 },
+  maxVoltage: { type: 'number', min: 0 },
+  minVoltage: { type: 'number', min: 0 },
+  protectionEnabled: { type: 'boolean' },
+  maxFrequency: { type: 'number', optional: true, min: 0 },
+  minFrequency: { type: 'number', optional: true, min: 0 },
+  minPowerFactor: { type: 'number', optional: true, min: 0, max: 1 },
+  voltageProtection: { type: 'boolean', optional: true },
+  frequencyProtection: { type: 'boolean', optional: true },
+  powerFactorProtection: { type: 'boolean', optional: true },
+  autoResetDelay: { type: 'number', optional: true, min: 0 },
+  autoReconnectEnabled: { type: 'boolean', optional: true },
+};
+
+const InfoSchema: Schema = {
+  deviceName: { type: 'string', optional: true },
+  deviceId: { type: 'string', optional: true },
+  model: { type: 'string', optional: true },
+  firmwareVersion: { type: 'string', optional: true },
+  protocolVersion: { type: 'number', optional: true, min: 0 },
+  wsPort: { type: 'number', optional: true, min: 1, max: 65535 },
+  authRequired: { type: 'boolean', optional: true },
+};
+
+const SchedulesSchema: Schema = {
+  schedules: { type: 'array' },
+};
+
+const ScheduleEntrySchema: Schema = {
+  id: { type: 'number' },
+  enabled: { type: 'boolean' },
+  onTime: { type: 'string' },
+  offTime: { type: 'string' },
+  days: { type: 'array' },
+};
+
+const TimeSchema: Schema = {
+  hour: { type: 'number', min: 0, max: 23 },
+  minute: { type: 'number', min: 0, max: 59 },
+  day: { type: 'number', min: 0, max: 6 },
+  second: { type: 'number', optional: true, min: 0, max: 59 },
+  epochMs: { type: 'number', optional: true, min: 0 },
+  tz: { type: 'string', optional: true },
+  zone: { type: 'string', optional: true },
+};
+
+const CommandResultSchema: Schema = {
+  success: { type: 'boolean' },
+  message: { type: 'string', optional: true },
+};
+
+const EventSchema: Schema = {
+  event: { type: 'string' },
+  message: { type: 'string' },
+  seq: { type: 'number', optional: true, min: 0 },
+  boot: { type: 'number', optional: true, min: 0 },
+  uptime: { type: 'number', optional: true, min: 0 },
+  time: { type: 'number', optional: true, min: 0 },
+  relayState: { type: 'boolean', optional: true },
+  reason: { type: 'string', optional: true },
+};
+
+const EventJournalSchema: Schema = {
+  journalId: { type: 'string' },
+  latestSeq: { type: 'number', min: 0 },
+  oldestSeq: { type: 'number', min: 0 },
+  boot: { type: 'number', min: 0 },
+  uptime: { type: 'number', min: 0 },
+  time: { type: 'number', optional: true, min: 0 },
+  events: { type: 'array' },
+};
+
+const JournalEntrySchema: Schema = {
+  ...EventSchema,
+  seq: { type: 'number', min: 0 },
+  boot: { type: 'number', min: 0 },
+  uptime: { type: 'number', min: 0 },
+};
+
+const WifiScanSchema: Schema = {
+  networks: { type: 'array' },
+};
+
+const WifiNetworkSchema: Schema = {
+  ssid: { type: 'string' },
+  rssi: { type: 'number', min: -120, max: 0 },
+  secure: { type: 'boolean', optional: true },
+};
+
+const WifiStatusSchema: Schema = {
+  state: { type: 'string' },
+  ssid: { type: 'string', optional: true },
+  ip: { type: 'string', optional: true },
+  reason: { type: 'string', optional: true },
+};
+
+const WIFI_JOIN_STATES = ['idle', 'connecting', 'connected', 'failed'];
+
+const PairingSchema: Schema = {
+  clientId: { type: 'string' },
+  secret: { type: 'string' },
+};
+
+const PairedClientsSchema: Schema = {
+  clients: { type: 'array' },
+};
+
+const PairedClientSchema: Schema = {
+  clientId: { type: 'string' },
+  name: { type: 'string', optional: true },
+  pairedAt: { type: 'number', optional: true, min: 0 },
+  lastSeen: { type: 'number', optional: true, min: 0 },
+};
+
+const AuthErrorSchema: Schema = {
+  error: { type: 'string' },
+  reason: { type: 'string', optional: true },
+  serverTime: { type: 'number', optional: true, min: 0 },
+};
+
+const FirmwareStatusSchema: Schema = {
+  version: { type: 'string' },
+  state: { type: 'string' },
+  previousVersion: { type: 'string', optional: true },
+  canRollback: { type: 'boolean', optional: true },
+};
+
+const FIRMWARE_IMAGE_STATES = ['valid', 'pending_verify'];
+
+const FirmwareManifestSchema: Schema = {
+  version: { type: 'string' },
+  url: { type: 'string' },
+  sha256: { type: 'string' },
+  size: { type: 'number', optional: true, min: 1 },
+  model: { type: 'string', optional: true },
+  notes: { type: 'string', optional: true },
+  releasedAt: { type: 'string', optional: true },
+};
+
+const StreamBatchSchema: Schema = {
+  streamId: { type: 'string' },
+  seq: { type: 'number', min: 0 },
+  rate: { type: 'number', min: 1 },
+  samples: { type: 'array' },
+};
+
+const StreamEndSchema: Schema = {
+  streamId: { type: 'string' },
+  reason: { type: 'string' },
+  batches: { type: 'number', optional: true, min: 0 },
+};
+
+const STREAM_END_REASONS = ['complete', 'stopped', 'busy', 'unsupported'];
+
+const AUTH_ERROR_CODES = ['pairing_required', 'signature_rejected', 'pairing_closed'];
+
+// WebSocket message types the firmware sends; 'pong' answers our keep-alive ping,
+// 'error' reports a refused (unsigned or badly signed) command, 'stream' and
+// 'streamEnd' carry a high-rate capture
+export const WS_MESSAGE_TYPES = ['status', 'settings', 'event', 'pong', 'error', 'stream', 'streamEnd'] as const;
+export type WebSocketMessageType = typeof WS_MESSAGE_TYPES[number];
+
+export const isObject = (payload: unknown): payload is Record<string, unknown> =>
+  typeof payload === 'object' && payload !== null && !Array.isArray(payload);
+
+const describe = (value: unknown): string => (Array.isArray(value) ? 'array' : typeof value);
+
+const checkField = (field: string, spec: FieldSpec, value: unknown): string | null => {
+  if (value === undefined || value === null) {
+    return spec.optional ? null : `${field}: missing`;
+  }
+
+  switch (spec.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${field}: expected number, got ${describe(value)}`;
+      }
+      if (spec.min !== undefined && value < spec.min) return `${field}: ${value} below ${spec.min}`;
+      if (spec.max !== undefined && value > spec.max) return `${field}: ${value} above ${spec.max}`;
+      return null;
+    case 'array':
+      return Array.isArray(value) ? null : `${field}: expected array, got ${describe(value)}`;
+    default:
+      return typeof value === spec.type ? null : `${field}: expected ${spec.type}, got ${describe(value)}`;
+  }
+};
+
+const validate = <T>(schema: Schema, payload: unknown): ValidationResult<T> => {
+  if (!isObject(payload)) {
+    return { ok: false, errors: [`expected object, got ${describe(payload)}`] };
+  }
+
+  const errors: string[] = [];
+  for (const [field, spec] of Object.entries(schema)) {
+    const error = checkField(field, spec, payload[field]);
+    if (error) errors.push(error);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload as T };
+};
+
+// /api/status and WebSocket 'status' - mapped to the app's ElectricalData
+export const validateStatus = (payload: unknown): ValidationResult<ElectricalData> => {
+  const result = validate<Record<string, any>>(StatusSchema, payload);
+  if (!result.ok) return result;
+
+  const raw = result.value;
+  // Older builds don't send S and Q - derive them rather than report zero
+  const apparentPower = raw.apparentPower ?? raw.voltage * raw.current;
+  const reactivePower = raw.reactivePower ?? Math.sqrt(Math.max(apparentPower ** 2 - raw.power ** 2, 0));
+
+  return {
+    ok: true,
+    value: {
+      voltage: raw.voltage,
+      current: raw.current,
+      power: raw.power,
+      energy: raw.energy,
+      frequency: raw.frequency,
+      powerFactor: raw.powerFactor,
+      apparentPower,
+      reactivePower,
+      relayState: raw.relayState,
+      timestamp: Date.now(), // ALWAYS use app timestamp, ESP32 uses millis() not unix time
+      protectionTriggered: raw.protectionTriggered ?? false,
+      protectionReason: raw.protectionReason ?? '',
+      manualMode: raw.manualMode ?? false,
+      powerOutage: raw.powerOutage ?? false,
+      reconnectionPending: raw.reconnectionPending ?? false,
+      ...(raw.rssi !== undefined ? { rssi: raw.rssi } : {}),
+    },
+  };
+};
+
+export const validateSettings = (payload: unknown): ValidationResult<DeviceSettingsPayload> =>
+  validate<DeviceSettingsPayload>(SettingsSchema, payload);
+
+// Remote settings commands (MQTT): any subset of the settings, nothing the firmware doesn't know
+export const validateSettingsPatch = (payload: unknown): ValidationResult<Partial<DeviceSettingsPayload>> => {
+  const optionalSchema: Schema = {};
+  Object.entries(SettingsSchema).forEach(([field, spec]) => {
+    optionalSchema[field] = { ...spec, optional: true };
+  });
+
+  const result = validate<Partial<DeviceSettingsPayload>>(optionalSchema, payload);
+  if (!result.ok) return result;
+
+  const unknown = Object.keys(result.value).filter((field) => !(field in SettingsSchema));
+  if (unknown.length > 0) {
+    return { ok: false, errors: unknown.map((field) => `${field}: not a device setting`) };
+  }
+  if (Object.keys(result.value).length === 0) {
+    return { ok: false, errors: ['no settings given'] };
+  }
+  return result;
+};
+
+export const validateInfo = (payload: unknown): ValidationResult<DeviceInfoPayload> =>
+  validate<DeviceInfoPayload>(InfoSchema, payload);
+
+export const validateTime = (payload: unknown): ValidationResult<DeviceTimePayload> =>
+  validate<DeviceTimePayload>(TimeSchema, payload);
+
+export const validateCommandResult = (payload: unknown): ValidationResult<CommandResultPayload> =>
+  validate<CommandResultPayload>(CommandResultSchema, payload);
+
+export const validateEvent = (payload: unknown): ValidationResult<DeviceEventPayload> =>
+  validate<DeviceEventPayload>(EventSchema, payload);
+
+export const validateEventJournal = (payload: unknown): ValidationResult<EventJournalPayload> => {
+  const result = validate<EventJournalPayload>(EventJournalSchema, payload);
+  if (!result.ok) return result;
+
+  const errors: string[] = [];
+  result.value.events.forEach((entry, index) => {
+    const entryResult = validate(JournalEntrySchema, entry);
+    if (!entryResult.ok) {
+      errors.push(...entryResult.errors.map((error) => `events[${index}].${error}`));
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : result;
+};
+
+export const validateSchedules = (payload: unknown): ValidationResult<DeviceSchedulesPayload> => {
+  const result = validate<DeviceSchedulesPayload>(SchedulesSchema, payload);
+  if (!result.ok) return result;
+
+  const errors: string[] = [];
+  result.value.schedules.forEach((entry, index) => {
+    const entryResult = validate(ScheduleEntrySchema, entry);
+    if (!entryResult.ok) {
+      errors.push(...entryResult.errors.map((error) => `schedules[${index}].${error}`));
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : result;
+};
+
+export const validateWifiScan = (payload: unknown): ValidationResult<WifiScanPayload> => {
+  const result = validate<WifiScanPayload>(WifiScanSchema, payload);
+  if (!result.ok) return result;
+
+  const errors: string[] = [];
+  result.value.networks.forEach((entry, index) => {
+    const entryResult = validate(WifiNetworkSchema, entry);
+    if (!entryResult.ok) {
+      errors.push(...entryResult.errors.map((error) => `networks[${index}].${error}`));
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : result;
+};
+
+export const validateWifiStatus = (payload: unknown): ValidationResult<WifiStatusPayload> => {
+  const result = validate<WifiStatusPayload>(WifiStatusSchema, payload);
+  if (!result.ok) return result;
+
+  if (!WIFI_JOIN_STATES.includes(result.value.state)) {
+    return { ok: false, errors: [`state: unknown value "${result.value.state}"`] };
+  }
+  return result;
+};
+
+// 64 hex chars = 256-bit HMAC key
+export const validatePairing = (payload: unknown): ValidationResult<PairingPayload> => {
+  const result = validate<PairingPayload>(PairingSchema, payload);
+  if (!result.ok) return result;
+
+  if (!/^[0-9a-f]{64}$/i.test(result.value.secret)) {
+    return { ok: false, errors: ['secret: expected 64 hex characters'] };
+  }
+  return result;
+};
+
+export const validatePairedClients = (payload: unknown): ValidationResult<PairedClientsPayload> => {
+  const result = validate<PairedClientsPayload>(PairedClientsSchema, payload);
+  if (!result.ok) return result;
+
+  const errors: string[] = [];
+  result.value.clients.forEach((entry, index) => {
+    const entryResult = validate(PairedClientSchema, entry);
+    if (!entryResult.ok) {
+      errors.push(...entryResult.errors.map((error) => `clients[${index}].${error}`));
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : result;
+};
+
+export const validateAuthError = (payload: unknown): ValidationResult<AuthErrorPayload> => {
+  const result = validate<AuthErrorPayload>(AuthErrorSchema, payload);
+  if (!result.ok) return result;
+
+  if (!AUTH_ERROR_CODES.includes(result.value.error)) {
+    return { ok: false, errors: [`error: unknown value "${result.value.error}"`] };
+  }
+  return result;
+};
+
+export const validateFirmwareStatus = (payload: unknown): ValidationResult<FirmwareStatusPayload> => {
+  const result = validate<FirmwareStatusPayload>(FirmwareStatusSchema, payload);
+  if (!result.ok) return result;
+
+  if (!FIRMWARE_IMAGE_STATES.includes(result.value.state)) {
+    return { ok: false, errors: [`state: unknown value "${result.value.state}"`] };
+  }
+  return result;
+};
+
+// Not a device payload, but checked the same way before anything is flashed
+export const validateFirmwareManifest = (payload: unknown): ValidationResult<FirmwareManifest> => {
+  const result = validate<FirmwareManifest>(FirmwareManifestSchema, payload);
+  if (!result.ok) return result;
+
+  if (!/^[0-9a-f]{64}$/i.test(result.value.sha256)) {
+    return { ok: false, errors: ['sha256: expected 64 hex characters'] };
+  }
+  return result;
+};
+
+// Samples are [t, voltage, current, power] tuples - a batch with one bad sample is dropped whole
+export const validateStreamBatch = (payload: unknown): ValidationResult<StreamBatchPayload> => {
+  const result = validate<StreamBatchPayload>(StreamBatchSchema, payload);
+  if (!result.ok) return result;
+
+  const errors: string[] = [];
+  result.value.samples.forEach((sample: unknown, index) => {
+    if (!Array.isArray(sample) || sample.length !== 4) {
+      errors.push(`samples[${index}]: expected [t, voltage, current, power]`);
+    } else if (!sample.every((value) => typeof value === 'number' && Number.isFinite(value))) {
+      errors.push(`samples[${index}]: expected numbers`);
+    } else if (sample[0] < 0) {
+      errors.push(`samples[${index}].t: ${sample[0]} below 0`);
+    }
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : result;
+};
+
+export const validateStreamEnd = (payload: unknown): ValidationResult<StreamEndPayload> => {
+  const result = validate<StreamEndPayload>(StreamEndSchema, payload);
+  if (!result.ok) return result;
+
+  if (!STREAM_END_REASONS.includes(result.value.reason)) {
+    return { ok: false, errors: [`reason: unknown value "${result.value.reason}"`] };
+  }
+  return result;
+};
+
+// WebSocket envelope - only the 'type' discriminator is checked here
+export const validateMessageType = (payload: unknown): ValidationResult<WebSocketMessageType> => {
+  if (!isObject(payload)) {
+    return { ok: false, errors: [`expected object, got ${describe(payload)}`] };
+  }
+  if (!WS_MESSAGE_TYPES.includes(payload.type as WebSocketMessageType)) {
+    return { ok: false, errors: [`type: unknown message type "${String(payload.type)}"`] };
+  }
+  return { ok: true, value: payload.type as WebSocketMessageType };
+};
+
+export const negotiateProtocol = (info: DeviceInfoPayload | null): ProtocolNegotiation => {
+  const negotiatedAt = Date.now();
+
+  if (!info) {
+    return { deviceVersion: null, compatibility: 'unknown', negotiatedAt };
+  }
+
+  // Firmware that predates the version field speaks the legacy protocol - its payloads are
+  // still schema-checked, so it runs degraded rather than being turned away
+  if (info.protocolVersion === undefined) {
+    return { deviceVersion: null, firmwareVersion: info.firmwareVersion, compatibility: 'legacy', negotiatedAt };
+  }
+
+  const deviceVersion = Math.floor(info.protocolVersion);
+  const compatible = deviceVersion >= MIN_PROTOCOL_VERSION && deviceVersion <= PROTOCOL_VERSION;
+
+  return {
+    deviceVersion,
+    firmwareVersion: info.firmwareVersion,
+    compatibility: compatible ? 'compatible' : 'incompatible',
+    negotiatedAt,
+  };
+};
@@ -0,0 +1,196 @@
+// ESP32 Transport Service - live readings over WebSocket with HTTP polling fallback
+//
+// Prefers the port-81 push stream. When the socket drops, readings continue via
+// ESP32ApiService.startPolling and the socket is retried in the background; once
+// it is back, polling stops again. The polling rate comes from PollingScheduler.
+
+import { DeviceEventPayload, ElectricalData, TransportType } from '../types';
+import { ESP32ApiService, getDeviceApi, releaseDeviceApi } from './esp32Api';
+import { ESP32WebSocketService, getDeviceWebSocket, releaseDeviceWebSocket } from './esp32WebSocket';
+import { ESP32Error } from './esp32Errors';
+import { getPollingScheduler } from './pollingScheduler';
+
+const WEBSOCKET_PORT = '81';
+const MONITORING_INTERVAL = 5000;    // /api/info check while polling
+const SOCKET_RETRY_INTERVAL = 15000; // How often to try moving back to the socket
+
+interface TransportCallbacks {
+  onData: (data: ElectricalData) => void;
+  onConnectionChange: (connected: boolean, error?: ESP32Error) => void;   // error: why the breaker stopped answering
+  onTransportChange?: (transport: TransportType) => void;
+  onEvent?: (event: DeviceEventPayload) => void;
+}
+
+export class ESP32TransportService {
+  private deviceId: string;
+  private api: ESP32ApiService;
+  private ws: ESP32WebSocketService;
+  private callbacks: TransportCallbacks | null = null;
+  private transport: TransportType = 'none';
+  private socketRetryInterval: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private generation: number = 0;   // Bumped by every start() so a stale one can tell
+  private unwatchPolling: (() => void) | null = null;
+
+  constructor(deviceId: string, api: ESP32ApiService, ws: ESP32WebSocketService) {
+    this.deviceId = deviceId;
+    this.api = api;
+    this.ws = ws;
+  }
+
+  // Start live updates - resolves with the transport that came up first
+  async start(callbacks: TransportCallbacks): Promise<TransportType> {
+    this.stop();
+
+    this.callbacks = callbacks;
+    this.running = true;
+    const generation = ++this.generation;
+
+    const socketConnected = await this.connectSocket();
+
+    // Stopped or restarted while the socket was connecting - the newer start() decides
+    if (!socketConnected && this.running && generation === this.generation) {
+      this.fallBackToPolling();
+    }
+
+    return this.transport;
+  }
+
+  // Stop every timer and close the socket
+  stop() {
+    this.running = false;
+    this.clearSocketRetry();
+    this.stopPolling();
+    this.api.stopConnectionMonitoring();
+    this.ws.disconnect();
+    this.setTransport('none');
+  }
+
+  // Which transport is delivering readings right now
+  getTransport(): TransportType {
+    return this.transport;
+  }
+
+  private connectSocket(): Promise<boolean> {
+    return this.ws.connect(
+      (data) => {
+        if (this.running && this.transport === 'websocket') {
+          this.callbacks?.onData(data);
+        }
+      },
+      (connected) => this.handleSocketChange(connected),
+      (event) => this.callbacks?.onEvent?.(event)
+    );
+  }
+
+  private handleSocketChange(connected: boolean) {
+    // disconnect() during stop() also reports false - ignore it
+    if (!this.running) return;
+
+    if (connected) {
+      this.useWebSocket();
+    } else {
+      this.fallBackToPolling();
+    }
+  }
+
+  private useWebSocket() {
+    this.clearSocketRetry();
+    this.stopPolling();
+    this.api.stopConnectionMonitoring();
+
+    console.log('⚡ Transport: WebSocket push stream active');
+    this.setTransport('websocket');
+    this.callbacks?.onConnectionChange(true);
+  }
+
+  private fallBackToPolling() {
+    if (this.transport === 'polling') return;
+
+    console.log('🔁 Transport: WebSocket unavailable, falling back to HTTP polling');
+    this.setTransport('polling');
+
+    const scheduler = getPollingScheduler();
+    this.api.startPolling((result) => {
+      if (result.ok && this.running) {
+        scheduler.noteReading(this.deviceId, result.value);
+        this.callbacks?.onData(result.value);
+      }
+    }, () => scheduler.getInterval(this.deviceId));
+    this.unwatchPolling = scheduler.watch(this.deviceId, () => this.api.reschedulePolling());
+
+    this.api.startConnectionMonitoring(
+      () => this.callbacks?.onConnectionChange(true),
+      (error) => this.callbacks?.onConnectionChange(false, error),
+      MONITORING_INTERVAL
+    );
+
+    this.scheduleSocketRetry();
+  }
+
+  // The socket service gives up after its own backoff - keep trying while polling
+  private scheduleSocketRetry() {
+    this.clearSocketRetry();
+
+    this.socketRetryInterval = setInterval(() => {
+      if (this.running && !this.ws.isConnected()) {
+        this.ws.resetReconnectAttempts();
+        this.connectSocket();
+      }
+    }, SOCKET_RETRY_INTERVAL);
+  }
+
+  private stopPolling() {
+    this.api.stopPolling();
+    this.unwatchPolling?.();
+    this.unwatchPolling = null;
+  }
+
+  private clearSocketRetry() {
+    if (this.socketRetryInterval) {
+      clearInterval(this.socketRetryInterval);
+      this.socketRetryInterval = null;
+    }
+  }
+
+  private setTransport(transport: TransportType) {
+    if (this.transport === transport) return;
+
+    this.transport = transport;
+    this.callbacks?.onTransportChange?.(transport);
+  }
+}
+
+// Per-device instances
+const deviceTransportInstances = new Map<string, ESP32TransportService>();
+
+export const getDeviceTransport = (
+  deviceId: string,
+  ipAddress?: string,
+  port?: string,
+  wsPort?: string
+): ESP32TransportService => {
+  const api = getDeviceApi(deviceId, ipAddress, port);
+  const ws = getDeviceWebSocket(deviceId, ipAddress, ipAddress ? wsPort ?? WEBSOCKET_PORT : undefined);
+
+  let instance = deviceTransportInstances.get(deviceId);
+  if (!instance) {
+    instance = new ESP32TransportService(deviceId, api, ws);
+    deviceTransportInstances.set(deviceId, instance);
+  }
+  return instance;
+};
+
+// Stop and forget a device's transport along with its API and socket
+export const releaseDeviceTransport = (deviceId: string) => {
+  const instance = deviceTransportInstances.get(deviceId);
+  if (instance) {
+    instance.stop();
+    deviceTransportInstances.delete(deviceId);
+  }
+  getPollingScheduler().forget(deviceId);
+  releaseDeviceApi(deviceId);
+  releaseDeviceWebSocket(deviceId);
+};
+
+export default ESP32TransportService;
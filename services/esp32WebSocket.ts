@@ -1,12 +1,54 @@
 // ESP32 WebSocket Service for Real-time Communication
 
-import { ElectricalData } from '../types';
-
-interface WebSocketMessage {
-  type: 'status' | 'settings' | 'event';
-  [key: string]: any;
+import {
+  ElectricalData,
+  DeviceSettingsPayload,
+  DeviceEventPayload,
+  PayloadSource,
+  DeviceCredentials,
+  DeviceAuthState,
+  StreamBatchPayload,
+  StreamEndPayload,
+} from '../types';
+import {
+  validateMessageType,
+  validateStatus,
+  validateSettings,
+  validateEvent,
+  validateAuthError,
+  validateStreamBatch,
+  validateStreamEnd,
+} from './esp32Protocol';
+import { signCommand } from './requestSigner';
+import { ESP32Error } from './esp32Errors';
+import { useDiagnosticsStore } from '../store/useDiagnosticsStore';
+import { useAuthStore } from '../store/useAuthStore';
+import { getLinkQuality } from './linkQuality';
+import { getSessionRecorder } from './sessionRecorder';
+
+type RejectionHandler = (source: PayloadSource, errors: string[]) => void;
+type AuthHandler = (state: DeviceAuthState) => void;
+type PingObserver = (latencyMs: number, ok: boolean) => void;
+type MessageObserver = (message: unknown) => void;
+// error says why, when the socket failed to open or the breaker or network closed it
+type ConnectionHandler = (connected: boolean, error?: ESP32Error) => void;
+
+interface StreamHandler {
+  onBatch: (batch: StreamBatchPayload) => void;
+  onEnd: (end: StreamEndPayload) => void;
 }
 
+const PING_INTERVAL = 10000; // Keeps the socket alive and the round trip measured
+const CONNECT_TIMEOUT = 5000; // A handshake that hangs counts as a failed attempt
+
+export const RECONNECT_BASE_DELAY = 1000;
+export const RECONNECT_MAX_DELAY = 10000;
+export const MAX_RECONNECT_ATTEMPTS = 5;
+
+// Backoff before reconnect attempt `attempt` (from 0): 1 s, 2 s, 4 s, 8 s, then 10 s
+export const reconnectDelay = (attempt: number): number =>
+  Math.min(RECONNECT_BASE_DELAY * Math.pow(2, attempt), RECONNECT_MAX_DELAY);
+
 export class ESP32WebSocketService {
   private ws: WebSocket | null = null;
   private reconnectInterval: NodeJS.Timeout | null = null;
@@ -14,23 +56,66 @@ export class ESP32WebSocketService {
   private wsUrl: string;
   private isConnecting: boolean = false;
   private reconnectAttempts: number = 0;
-  private maxReconnectAttempts: number = 5;
+  private maxReconnectAttempts: number = MAX_RECONNECT_ATTEMPTS;
 
   // Callbacks
   private onStatusUpdate?: (data: ElectricalData) => void;
-  private onConnectionChange?: (connected: boolean) => void;
-  private onEvent?: (event: string, message: string) => void;
-  private onSettingsUpdate?: (settings: any) => void;
+  private onConnectionChange?: ConnectionHandler;
+  private onEvent?: (event: DeviceEventPayload) => void;
+  private onSettingsUpdate?: (settings: DeviceSettingsPayload) => void;
+  private onRejected?: RejectionHandler;
+  private onAuthChange?: AuthHandler;
+  private onPing?: PingObserver;
+  private onStream: StreamHandler | null = null;
+  private onMessage?: MessageObserver;
+  private pingSentAt: number | null = null;
+  private credentials: DeviceCredentials | null = null;
+  private clockOffset: number = 0;
 
   constructor(ipAddress: string = '192.168.4.1', port: string = '81') {
     this.wsUrl = `ws://${ipAddress}:${port}`;
   }
 
+  // Pairing secret for this breaker - commands are signed while it is set
+  setCredentials(credentials: DeviceCredentials | null) {
+    this.credentials = credentials;
+  }
+
+  // Called when the firmware refuses a command with { type: 'error' }
+  setAuthHandler(handler: AuthHandler) {
+    this.onAuthChange = handler;
+  }
+
+  // Told each ping's round trip, or a failure when the pong never came
+  setPingObserver(observer: PingObserver) {
+    this.onPing = observer;
+  }
+
+  // Sees every parsed message before its schema check (session recording)
+  setMessageObserver(observer: MessageObserver) {
+    this.onMessage = observer;
+  }
+
+  // Receives high-rate capture batches (LiveStreamService)
+  setStreamHandler(handler: StreamHandler | null) {
+    this.onStream = handler;
+  }
+
+  // Called for every message that fails its schema
+  setRejectionHandler(handler: RejectionHandler) {
+    this.onRejected = handler;
+  }
+
+  private rejectMessage(errors: string[]) {
+    console.warn(`⚠️ Rejected WebSocket message from ${this.wsUrl}:`, errors.join('; '));
+    this.onRejected?.('websocket', errors);
+  }
+
   // Connect to WebSocket server
   connect(
     onStatusUpdate?: (data: ElectricalData) => void,
-    onConnectionChange?: (connected: boolean) => void,
-    onEvent?: (event: string, message: string) => void
+    onConnectionChange?: ConnectionHandler,
+    onEvent?: (event: DeviceEventPayload) => void
   ): Promise<boolean> {
     return new Promise((resolve) => {
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
@@ -51,10 +136,26 @@ export class ESP32WebSocketService {
       console.log(`Connecting to WebSocket: ${this.wsUrl}`);
 
       try {
-        this.ws = new WebSocket(this.wsUrl);
+        const ws = new WebSocket(this.wsUrl);
+        this.ws = ws;
+        let failure: ESP32Error | null = null;  // Why this attempt never opened
+
+        // Give up on a handshake the breaker never finishes; onclose schedules the retry
+        const connectTimer = setTimeout(() => {
+          if (ws.readyState !== WebSocket.CONNECTING) return;
+          failure = new ESP32Error('timeout', `${this.wsUrl} did not connect within ${CONNECT_TIMEOUT} ms`, { path: this.wsUrl });
+          ws.close();
+        }, CONNECT_TIMEOUT);
 
         // Connection opened
         this.ws.onopen = () => {
+          clearTimeout(connectTimer);
+          // Disconnected or replaced during the handshake - nobody wants this socket any more
+          if (this.ws !== ws) {
+            ws.close(1000, 'Superseded');
+            resolve(false);
+            return;
+          }
           console.log('WebSocket connected');
           this.isConnecting = false;
           this.reconnectAttempts = 0;
@@ -74,27 +175,44 @@ export class ESP32WebSocketService {
 
         // Message received
         this.ws.onmessage = (event) => {
+          if (this.ws !== ws) return;
+          let message: unknown;
           try {
-            const message: WebSocketMessage = JSON.parse(event.data);
-            this.handleMessage(message);
-          } catch (error) {
-            console.error('Error parsing WebSocket message:', error);
+            message = JSON.parse(event.data);
+          } catch {
+            this.rejectMessage(['malformed JSON']);
+            return;
           }
+          this.onMessage?.(message);
+          this.handleMessage(message);
         };
 
         // Connection closed
         this.ws.onclose = (event) => {
+          clearTimeout(connectTimer);
+          // disconnect() already reported it
+          if (this.ws !== ws) {
+            resolve(false);
+            return;
+          }
           console.log('WebSocket disconnected:', event.code, event.reason);
           this.isConnecting = false;
+          const error = failure ?? (event.code !== 1000
+            ? new ESP32Error(
+              'closed',
+              `${this.wsUrl} closed (${event.code}${event.reason ? ` ${event.reason}` : ''})`,
+              { path: this.wsUrl, code: event.code }
+            )
+            : undefined);
 
           if (this.onConnectionChange) {
-            this.onConnectionChange(false);
+            this.onConnectionChange(false, error);
           }
 
           this.stopPing();
 
-          // Auto-reconnect if not manually closed
-          if (event.code !== 1000) {
+          // Auto-reconnect if not manually closed (closing a hung handshake reports 1000 on some platforms)
+          if (event.code !== 1000 || failure) {
             this.scheduleReconnect();
           }
 
@@ -103,7 +221,15 @@ export class ESP32WebSocketService {
 
         // Connection error
         this.ws.onerror = (error) => {
+          if (this.ws !== ws) {
+            resolve(false);
+            return;
+          }
           console.error('WebSocket error:', error);
+          // Failing before the handshake completes is the breaker being unreachable
+          if (this.isConnecting && !failure) {
+            failure = new ESP32Error('unreachable', `${this.wsUrl} unreachable`, { path: this.wsUrl });
+          }
           this.isConnecting = false;
           resolve(false);
         };
@@ -111,46 +237,97 @@ export class ESP32WebSocketService {
       } catch (error) {
         console.error('Failed to create WebSocket:', error);
         this.isConnecting = false;
+        this.onConnectionChange?.(false, new ESP32Error('unreachable', `Cannot open ${this.wsUrl}`, { path: this.wsUrl }));
         resolve(false);
       }
     });
   }
 
-  // Handle incoming messages
-  private handleMessage(message: WebSocketMessage) {
-    switch (message.type) {
-      case 'status':
-        if (this.onStatusUpdate) {
-          const data: ElectricalData = {
-            voltage: message.voltage || 0,
-            current: message.current || 0,
-            power: message.power || 0,
-            energy: message.energy || 0,
-            frequency: message.frequency || 0,
-            powerFactor: message.powerFactor || 0,
-            apparentPower: message.apparentPower || 0,
-            reactivePower: message.reactivePower || 0,
-            relayState: message.relayState || false,
-            protectionStatus: message.protectionEnabled ? 'armed' : 'disarmed',
-          };
-          this.onStatusUpdate(data);
+  // Handle incoming messages - each type is schema-checked before it is delivered
+  private handleMessage(message: unknown) {
+    const envelope = validateMessageType(message);
+    if (!envelope.ok) {
+      this.rejectMessage(envelope.errors);
+      return;
+    }
+
+    switch (envelope.value) {
+      case 'status': {
+        // Same schema as ESP32ApiService.getStatus so both transports are interchangeable
+        const status = validateStatus(message);
+        if (!status.ok) {
+          this.rejectMessage(status.errors.map((error) => `status.${error}`));
+        } else if (this.onStatusUpdate) {
+          this.onStatusUpdate(status.value);
+        }
+        break;
+      }
+
+      case 'event': {
+        const event = validateEvent(message);
+        if (!event.ok) {
+          this.rejectMessage(event.errors.map((error) => `event.${error}`));
+        } else if (this.onEvent) {
+          this.onEvent(event.value);
         }
         break;
+      }
+
+      case 'settings': {
+        const settings = validateSettings(message);
+        if (!settings.ok) {
+          this.rejectMessage(settings.errors.map((error) => `settings.${error}`));
+        } else if (this.onSettingsUpdate) {
+          this.onSettingsUpdate(settings.value);
+        }
+        break;
+      }
+
+      case 'error': {
+        const rejection = validateAuthError(message);
+        if (!rejection.ok) {
+          this.rejectMessage(rejection.errors.map((error) => `error.${error}`));
+          break;
+        }
+
+        const { error, reason, serverTime } = rejection.value;
+        if (serverTime) {
+          this.clockOffset = serverTime - Date.now(); // Next command goes out with the device's clock
+        }
+        console.warn(`🔐 ${this.wsUrl} refused command: ${error}${reason ? ` (${reason})` : ''}`);
+
+        if (error === 'pairing_required' || reason === 'unknown_client') {
+          this.onAuthChange?.('pairing_required');
+        } else if (error === 'signature_rejected' && reason !== 'stale') {
+          this.onAuthChange?.('signature_rejected');
+        }
+        break;
+      }
+
+      case 'stream': {
+        const batch = validateStreamBatch(message);
+        if (!batch.ok) {
+          this.rejectMessage(batch.errors.map((error) => `stream.${error}`));
+        } else {
+          this.onStream?.onBatch(batch.value);
+        }
+        break;
+      }
 
-      case 'event':
-        if (this.onEvent) {
-          this.onEvent(message.event, message.message);
+      case 'streamEnd': {
+        const end = validateStreamEnd(message);
+        if (!end.ok) {
+          this.rejectMessage(end.errors.map((error) => `streamEnd.${error}`));
+        } else {
+          this.onStream?.onEnd(end.value);
         }
         break;
+      }
 
-      case 'settings':
-        if (this.onSettingsUpdate) {
-          this.onSettingsUpdate({
-            maxCurrent: message.maxCurrent,
-            maxVoltage: message.maxVoltage,
-            minVoltage: message.minVoltage,
-            protectionEnabled: message.protectionEnabled,
-          });
+      case 'pong':
+        if (this.pingSentAt !== null) {
+          this.onPing?.(Date.now() - this.pingSentAt, true);
+          this.pingSentAt = null;
         }
         break;
     }
@@ -164,10 +341,10 @@ export class ESP32WebSocketService {
     }
 
     try {
-      const message = {
-        command,
-        ...params,
-      };
+      // Paired: { command, payload, auth } signed like an HTTP request; legacy: { command, ...params }
+      const message = this.credentials
+        ? signCommand(this.credentials, command, params, Date.now() + this.clockOffset)
+        : { command, ...params };
 
       this.ws.send(JSON.stringify(message));
       return true;
@@ -192,19 +369,34 @@ export class ESP32WebSocketService {
     return this.sendCommand('getSettings');
   }
 
+  // Ask for `duration` seconds of samples at `rate` per second, sent in batches
+  startStream(streamId: string, rate: number, duration: number): boolean {
+    return this.sendCommand('startStream', { streamId, rate, duration });
+  }
+
+  stopStream(streamId: string): boolean {
+    return this.sendCommand('stopStream', { streamId });
+  }
+
   // Start ping to keep connection alive
   private startPing() {
     this.stopPing();
 
     this.pingInterval = setInterval(() => {
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+        // Previous ping still unanswered
+        if (this.pingSentAt !== null) {
+          this.onPing?.(Date.now() - this.pingSentAt, false);
+        }
+        this.pingSentAt = Date.now();
         this.sendCommand('ping');
       }
-    }, 30000); // Ping every 30 seconds
+    }, PING_INTERVAL);
   }
 
   // Stop ping
   private stopPing() {
+    this.pingSentAt = null;
     if (this.pingInterval) {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
@@ -222,7 +414,7 @@ export class ESP32WebSocketService {
       clearTimeout(this.reconnectInterval);
     }
 
-    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 10000);
+    const delay = reconnectDelay(this.reconnectAttempts);
     this.reconnectAttempts++;
 
     console.log(`Scheduling reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
@@ -244,10 +436,13 @@ export class ESP32WebSocketService {
     this.stopPing();
 
     if (this.ws) {
-      if (this.ws.readyState === WebSocket.OPEN) {
-        this.ws.close(1000, 'Client disconnect');
-      }
+      const ws = this.ws;
       this.ws = null;
+      // A handshake still in progress is abandoned too, so the next connect() can start over
+      this.isConnecting = false;
+      if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+        ws.close(1000, 'Client disconnect');
+      }
     }
 
     if (this.onConnectionChange) {
@@ -297,16 +492,37 @@ export class ESP32WebSocketService {
   }
 }
 
-// Singleton instance
-let webSocketInstance: ESP32WebSocketService | null = null;
-
-export const getESP32WebSocket = (ipAddress?: string, port?: string): ESP32WebSocketService => {
-  if (!webSocketInstance) {
-    webSocketInstance = new ESP32WebSocketService(ipAddress, port);
+// Per-device instances - one socket per breaker
+const deviceWebSocketInstances = new Map<string, ESP32WebSocketService>();
+
+export const getDeviceWebSocket = (deviceId: string, ipAddress?: string, port?: string): ESP32WebSocketService => {
+  let instance = deviceWebSocketInstances.get(deviceId);
+  if (!instance) {
+    instance = new ESP32WebSocketService(ipAddress, port);
+    instance.setRejectionHandler((source, errors) =>
+      useDiagnosticsStore.getState().recordRejection(deviceId, source, errors)
+    );
+    instance.setCredentials(useAuthStore.getState().getCredentials(deviceId) ?? null);
+    instance.setAuthHandler((state) => useAuthStore.getState().setStatus(deviceId, state));
+    instance.setPingObserver((latencyMs, ok) => getLinkQuality().recordRequest(deviceId, 'ping', latencyMs, ok));
+    instance.setMessageObserver((message) => {
+      const type = (message as { type?: unknown } | null)?.type;
+      if (type === 'status' || type === 'event') getSessionRecorder().record(deviceId, type, 'websocket', message);
+    });
+    deviceWebSocketInstances.set(deviceId, instance);
   } else if (ipAddress && port) {
-    webSocketInstance.updateUrl(ipAddress, port);
+    instance.updateUrl(ipAddress, port);
+  }
+  return instance;
+};
+
+// Close and forget a device's socket (device removed from registry)
+export const releaseDeviceWebSocket = (deviceId: string) => {
+  const instance = deviceWebSocketInstances.get(deviceId);
+  if (instance) {
+    instance.disconnect();
+    deviceWebSocketInstances.delete(deviceId);
   }
-  return webSocketInstance;
 };
 
 export default ESP32WebSocketService;
\ No newline at end of file
@@ -0,0 +1,191 @@
+// Event Journal Service - pull what a breaker logged while the app wasn't watching
+//
+// The firmware keeps trips, outages and button presses in a ring buffer in flash, each
+// with a sequence number. On every (re)connect the app reads everything after its
+// stored cursor; live 'event' messages on the socket advance the same cursor.
+
+import {
+  DeviceEventPayload,
+  Event,
+  EventJournalPayload,
+  EventJournalEntryPayload,
+  EventType,
+} from '../types';
+import { getDeviceApi } from './esp32Api';
+import { useEventsStore } from '../store/useEventsStore';
+
+const PAGE_SIZE = 50;
+const MAX_PAGES = 10;   // A full journal on current firmware is 200 entries
+
+const TRIP_TYPES: Record<string, EventType> = {
+  overvoltage: 'overvoltage',
+  undervoltage: 'undervoltage',
+  overcurrent: 'overcurrent',
+  overload: 'overload',
+};
+
+// Firmware event names -> app event types; null for names this app doesn't know yet
+const toEventType = (payload: DeviceEventPayload): EventType | null => {
+  const relayOn = payload.relayState ?? /\bON\b/.test(payload.message);
+
+  switch (payload.event) {
+    case 'outage':
+      return 'outage';
+    case 'restore':
+      return 'restore';
+    case 'protection':
+      return TRIP_TYPES[payload.reason ?? ''] ?? 'auto_off';
+    case 'reconnect':
+      return 'auto_on';
+    case 'schedule':
+      return relayOn ? 'auto_on' : 'auto_off';
+    case 'relay':
+    case 'manual':
+      return relayOn ? 'manual_on' : 'manual_off';
+    default:
+      return null;
+  }
+};
+
+// Place a journal entry on the phone's clock
+const resolveTime = (entry: EventJournalEntryPayload, journal: EventJournalPayload, receivedAt: number) => {
+  if (entry.time !== undefined && journal.time !== undefined) {
+    return { timestamp: entry.time + (receivedAt - journal.time), approximateTime: false };
+  }
+  if (entry.boot === journal.boot) {
+    return { timestamp: receivedAt - (journal.uptime - entry.uptime), approximateTime: false };
+  }
+  // Earlier boot on a breaker without a set clock - all we know is it was before this boot
+  return { timestamp: receivedAt - journal.uptime, approximateTime: true };
+};
+
+export class EventJournalService {
+  private syncing = new Map<string, Promise<number>>();
+  private resyncRequested = new Set<string>();
+
+  // Pull new journal entries - resolves with how many events were added
+  sync(deviceId: string): Promise<number> {
+    const running = this.syncing.get(deviceId);
+    if (running) {
+      this.resyncRequested.add(deviceId);
+      return running;
+    }
+
+    const promise = this.pull(deviceId).finally(() => {
+      this.syncing.delete(deviceId);
+      if (this.resyncRequested.delete(deviceId)) {
+        this.sync(deviceId);
+      }
+    });
+    this.syncing.set(deviceId, promise);
+    return promise;
+  }
+
+  // WebSocket 'event' message
+  handleLiveEvent(deviceId: string, payload: DeviceEventPayload) {
+    const store = useEventsStore.getState();
+    const type = toEventType(payload);
+
+    // Older firmware has no journal - keep the event, it only exists right now
+    if (payload.seq === undefined) {
+      if (type) {
+        store.mergeDeviceEvents(deviceId, [this.toEvent(deviceId, `live-${Date.now()}`, type, payload, Date.now(), false)]);
+      }
+      return;
+    }
+
+    const cursor = store.getJournalCursor(deviceId);
+    if (!cursor || payload.seq !== cursor.seq + 1) {
+      // Missed something in between (or never synced) - the journal has it all
+      this.sync(deviceId);
+      return;
+    }
+
+    if (type) {
+      store.mergeDeviceEvents(deviceId, [
+        this.toEvent(deviceId, `${cursor.journalId}-${payload.seq}`, type, payload, Date.now(), false),
+      ]);
+    }
+    store.setJournalCursor(deviceId, { ...cursor, seq: payload.seq, syncedAt: Date.now() });
+  }
+
+  private async pull(deviceId: string): Promise<number> {
+    const api = getDeviceApi(deviceId);
+    const store = useEventsStore.getState();
+    let cursor = store.getJournalCursor(deviceId);
+    let added = 0;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const result = await api.getEventJournal(cursor?.seq ?? 0, PAGE_SIZE);
+      const receivedAt = Date.now();
+      // Unreachable, or firmware without a journal
+      if (!result.ok || !result.value) break;
+      const journal = result.value;
+
+      // Erased or replaced journal - our sequence numbers mean nothing there
+      if (cursor && (cursor.journalId !== journal.journalId || journal.latestSeq < cursor.seq)) {
+        console.log(`📒 ${deviceId}: event journal was reset, reading it from the start`);
+        cursor = null;
+        continue;
+      }
+
+      if (cursor && cursor.seq + 1 < journal.oldestSeq) {
+        console.warn(`⚠️ ${deviceId}: ${journal.oldestSeq - cursor.seq - 1} journal entries were overwritten before sync`);
+      }
+
+      const events: Event[] = [];
+      journal.events.forEach((entry) => {
+        const type = toEventType(entry);
+        if (!type) {
+          console.log(`📒 ${deviceId}: skipping unknown journal event "${entry.event}"`);
+          return;
+        }
+        const { timestamp, approximateTime } = resolveTime(entry, journal, receivedAt);
+        events.push(this.toEvent(deviceId, `${journal.journalId}-${entry.seq}`, type, entry, timestamp, approximateTime));
+      });
+      added += store.mergeDeviceEvents(deviceId, events);
+
+      const lastSeq = journal.events.reduce((max, entry) => Math.max(max, entry.seq), cursor?.seq ?? 0);
+      cursor = { journalId: journal.journalId, seq: lastSeq, syncedAt: receivedAt };
+      store.setJournalCursor(deviceId, cursor);
+
+      if (journal.events.length === 0 || lastSeq >= journal.latestSeq) break;
+    }
+
+    if (added > 0) {
+      console.log(`📒 ${deviceId}: ${added} event(s) from the breaker's journal`);
+    }
+    return added;
+  }
+
+  private toEvent(
+    deviceId: string,
+    key: string,
+    type: EventType,
+    payload: DeviceEventPayload,
+    timestamp: number,
+    approximateTime: boolean
+  ): Event {
+    return {
+      id: `dev-${deviceId}-${key}`,
+      type,
+      timestamp,
+      description: payload.message,
+      deviceId,
+      source: 'device',
+      ...(approximateTime ? { approximateTime } : {}),
+    };
+  }
+}
+
+// Singleton instance
+let journalInstance: EventJournalService | null = null;
+
+export const getEventJournal = (): EventJournalService => {
+  if (!journalInstance) {
+    journalInstance = new EventJournalService();
+  }
+  return journalInstance;
+};
+
+export default EventJournalService;
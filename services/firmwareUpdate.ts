@@ -0,0 +1,283 @@
+// Firmware Update Service - check a manifest, flash a breaker over the LAN and verify it afterwards
+//
+// The image is downloaded and checked against the manifest's SHA-256 before anything
+// touches the breaker. After the reboot the new image stays 'pending_verify' until the
+// app has seen it report a valid reading and confirms it; otherwise it is rolled back.
+
+import * as FileSystem from 'expo-file-system/legacy';
+import {
+  FirmwareCheck,
+  FirmwareUpdateFailure,
+  FirmwareUpdateResult,
+  FirmwareUpdateStage,
+} from '../types';
+import { getDeviceApi } from './esp32Api';
+import { negotiateProtocol, validateFirmwareManifest } from './esp32Protocol';
+import { fromBase64, sha256, toHex } from '../utils/crypto';
+import { FIRMWARE_UPDATE_MAX_LOAD } from '../utils/constants';
+import { useElectricalStore } from '../store/useElectricalStore';
+import { useDeviceStore } from '../store/useDeviceStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+
+const REBOOT_GRACE = 5000;        // Don't poll while the breaker is writing flash and restarting
+const REBOOT_TIMEOUT = 90000;     // Give up waiting for it to come back
+const HEALTH_TIMEOUT = 30000;     // New image must report a valid reading within this window
+const POLL_INTERVAL = 3000;
+
+type ProgressCallback = (stage: FirmwareUpdateStage, fraction?: number) => void;
+
+export type ManifestResult =
+  | { ok: true; check: FirmwareCheck }
+  | { ok: false; reason: 'unreachable' | 'invalid' | 'not_connected' };
+
+// 'unknown' when the breaker did not answer /api/status - not the same as a load above the limit
+export type LoadCheck =
+  | { ok: true; load: number; limit: number }
+  | { ok: false; reason: 'load_too_high'; load: number; limit: number }
+  | { ok: false; reason: 'unknown'; limit: number };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Numeric dotted comparison; "4.10.0" > "4.9.2", missing parts count as 0
+export const compareVersions = (a: string, b: string): number => {
+  const parse = (version: string) => version.replace(/^v/i, '').split(/[.+-]/).map((part) => parseInt(part, 10) || 0);
+  const left = parse(a);
+  const right = parse(b);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff > 0 ? 1 : -1;
+  }
+  return 0;
+};
+
+const resolveUrl = (url: string, base: string): string => {
+  if (/^[a-z]+:\/\//i.test(url)) return url;
+  return base.replace(/[^/]*$/, '') + url.replace(/^\.\//, '');
+};
+
+export class FirmwareUpdateService {
+  private updating = new Set<string>();
+
+  isUpdating(deviceId: string): boolean {
+    return this.updating.has(deviceId);
+  }
+
+  // Manifest from http(s):// or a file:// copy on the phone, compared with what the breaker runs
+  async check(deviceId: string, source: string): Promise<ManifestResult> {
+    let raw: unknown;
+    try {
+      const text = source.startsWith('file://')
+        ? await FileSystem.readAsStringAsync(source)
+        : await (await fetch(source)).text();
+      raw = JSON.parse(text);
+    } catch (error) {
+      console.error('❌ Firmware manifest unavailable:', error);
+      return { ok: false, reason: 'unreachable' };
+    }
+
+    const manifest = validateFirmwareManifest(raw);
+    if (!manifest.ok) {
+      console.warn('⚠️ Rejected firmware manifest:', manifest.errors.join('; '));
+      return { ok: false, reason: 'invalid' };
+    }
+
+    const answer = await getDeviceApi(deviceId).getDeviceInfo();
+    if (!answer.ok) {
+      return { ok: false, reason: 'not_connected' };
+    }
+    const info = answer.value;
+
+    const currentVersion = info.firmwareVersion ?? null;
+    return {
+      ok: true,
+      check: {
+        manifest: manifest.value,
+        imageUrl: resolveUrl(manifest.value.url, source),
+        currentVersion,
+        updateAvailable: !currentVersion || compareVersions(manifest.value.version, currentVersion) > 0,
+        modelMismatch: !!(manifest.value.model && info.model && manifest.value.model !== info.model),
+      },
+    };
+  }
+
+  loadLimit(deviceId: string): number {
+    return useSettingsStore.getState().getSettingsForDevice(deviceId).device.updateLoadLimit ?? FIRMWARE_UPDATE_MAX_LOAD;
+  }
+
+  // Flashing reboots the breaker; don't drop a live load above the configured limit
+  async checkLoad(deviceId: string): Promise<LoadCheck> {
+    const limit = this.loadLimit(deviceId);
+    const result = await getDeviceApi(deviceId).getStatus();
+    if (!result.ok) return { ok: false, reason: 'unknown', limit };
+
+    const status = result.value;
+    const load = status.relayState ? status.power : 0;
+    return load <= limit ? { ok: true, load, limit } : { ok: false, reason: 'load_too_high', load, limit };
+  }
+
+  async update(deviceId: string, check: FirmwareCheck, onProgress?: ProgressCallback): Promise<FirmwareUpdateResult> {
+    const device = useDeviceStore.getState().getDevice(deviceId);
+    if (!device || this.updating.has(deviceId)) {
+      return { ok: false, reason: 'not_connected' };
+    }
+
+    this.updating.add(deviceId);
+    try {
+      return await this.runUpdate(deviceId, device.ip, device.port, check, onProgress);
+    } finally {
+      this.updating.delete(deviceId);
+    }
+  }
+
+  private async runUpdate(
+    deviceId: string,
+    ip: string,
+    port: string,
+    { manifest, imageUrl }: FirmwareCheck,
+    onProgress?: ProgressCallback
+  ): Promise<FirmwareUpdateResult> {
+    const api = getDeviceApi(deviceId);
+    const fail = (reason: FirmwareUpdateFailure): FirmwareUpdateResult => {
+      console.warn(`⚠️ Firmware update on ${deviceId} stopped: ${reason}`);
+      return { ok: false, reason };
+    };
+
+    const before = await api.getFirmwareStatus();
+    if (!before.ok) return fail('not_connected');
+    const load = await this.checkLoad(deviceId);
+    if (!load.ok) return fail(load.reason === 'unknown' ? 'not_connected' : 'load_too_high');
+
+    // 1. Download and verify before the breaker is involved
+    onProgress?.('downloading', 0);
+    const fileUri = `${FileSystem.cacheDirectory}firmware-${manifest.version}.bin`;
+    try {
+      const download = FileSystem.createDownloadResumable(imageUrl, fileUri, {}, ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+        const total = totalBytesExpectedToWrite > 0 ? totalBytesExpectedToWrite : manifest.size ?? 0;
+        if (total > 0) onProgress?.('downloading', totalBytesWritten / total);
+      });
+      const result = await download.downloadAsync();
+      if (!result || result.status !== 200) return fail('download_failed');
+    } catch (error) {
+      console.error('❌ Firmware download failed:', error);
+      return fail('download_failed');
+    }
+
+    onProgress?.('verifying');
+    const image = fromBase64(await FileSystem.readAsStringAsync(fileUri, { encoding: FileSystem.EncodingType.Base64 }));
+    const digest = toHex(sha256(image));
+    if (digest !== manifest.sha256.toLowerCase() || (manifest.size && image.length !== manifest.size)) {
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+      return fail('checksum_mismatch');
+    }
+
+    // 2. Load may have changed during the download
+    const loadNow = await this.checkLoad(deviceId);
+    if (!loadNow.ok) return fail(loadNow.reason === 'unknown' ? 'unreachable' : 'load_too_high');
+
+    const store = useElectricalStore.getState();
+    store.stopRealTimeUpdates(deviceId);
+
+    onProgress?.('uploading', 0);
+    const uploaded = await api.uploadFirmware(fileUri, { sha256: digest, version: manifest.version }, (fraction) =>
+      onProgress?.('uploading', fraction)
+    );
+    await FileSystem.deleteAsync(fileUri, { idempotent: true });
+
+    if (!uploaded.ok) {
+      await store.connectToESP32(ip, port, deviceId);
+      return fail('upload_failed');
+    }
+
+    // 3. Wait for the reboot, then make sure the new image actually works
+    onProgress?.('rebooting');
+    const after = await this.waitForReboot(deviceId);
+    if (!after) {
+      await store.connectToESP32(ip, port, deviceId);
+      return fail('unreachable');
+    }
+
+    if (after.version !== manifest.version) {
+      await store.connectToESP32(ip, port, deviceId);
+      return fail('rejected_image');
+    }
+
+    onProgress?.('confirming');
+    const healthy = await this.waitForHealthy(deviceId);
+    if (!healthy || !(await api.confirmFirmware()).ok) {
+      onProgress?.('rolling_back');
+      await api.rollbackFirmware();
+      await this.waitForReboot(deviceId);
+      await store.connectToESP32(ip, port, deviceId);
+      return fail('unhealthy');
+    }
+
+    console.log(`✅ ${deviceId} now runs firmware ${manifest.version} (was ${before.value.version})`);
+    this.recordVersion(deviceId, manifest.version);
+    await store.connectToESP32(ip, port, deviceId);
+    return { ok: true, version: manifest.version };
+  }
+
+  // Manual rollback to the image in the other OTA slot
+  async rollback(deviceId: string): Promise<string | null> {
+    const device = useDeviceStore.getState().getDevice(deviceId);
+    if (!device) return null;
+
+    const store = useElectricalStore.getState();
+    store.stopRealTimeUpdates(deviceId);
+
+    if (!(await getDeviceApi(deviceId).rollbackFirmware()).ok) {
+      await store.connectToESP32(device.ip, device.port, deviceId);
+      return null;
+    }
+
+    const after = await this.waitForReboot(deviceId);
+    await store.connectToESP32(device.ip, device.port, deviceId);
+    if (after) this.recordVersion(deviceId, after.version);
+    return after?.version ?? null;
+  }
+
+  private async waitForReboot(deviceId: string) {
+    await sleep(REBOOT_GRACE);
+    const deadline = Date.now() + REBOOT_TIMEOUT;
+
+    while (Date.now() < deadline) {
+      const status = await getDeviceApi(deviceId).getFirmwareStatus();
+      if (status.ok) return status.value;
+      await sleep(POLL_INTERVAL);
+    }
+    return null;
+  }
+
+  // Healthy = speaks a protocol we support and produces a schema-valid reading
+  private async waitForHealthy(deviceId: string): Promise<boolean> {
+    const api = getDeviceApi(deviceId);
+    const deadline = Date.now() + HEALTH_TIMEOUT;
+
+    while (Date.now() < deadline) {
+      const info = await api.getDeviceInfo();
+      if (info.ok && negotiateProtocol(info.value).compatibility === 'incompatible') return false;
+      if (info.ok && (await api.getStatus()).ok) return true;
+      await sleep(POLL_INTERVAL);
+    }
+    return false;
+  }
+
+  private recordVersion(deviceId: string, firmwareVersion: string) {
+    const settingsStore = useSettingsStore.getState();
+    if (settingsStore.activeDeviceId !== deviceId) return;
+    settingsStore.updateSettings({ device: { ...settingsStore.settings.device, firmwareVersion } });
+  }
+}
+
+// Singleton instance
+let firmwareInstance: FirmwareUpdateService | null = null;
+
+export const getFirmwareUpdater = (): FirmwareUpdateService => {
+  if (!firmwareInstance) {
+    firmwareInstance = new FirmwareUpdateService();
+  }
+  return firmwareInstance;
+};
+
+export default FirmwareUpdateService;
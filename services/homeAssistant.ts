@@ -0,0 +1,150 @@
+// Home Assistant - MQTT discovery configs for each breaker
+//
+// Published retained under <discovery prefix>/<component>/smartcb_<device>/<object>/config,
+// so Home Assistant creates the entities on its own. Every entity reads the bridge's
+// retained status topic. Energy is a total_increasing kWh sensor, the shape the Energy
+// dashboard accepts; the counter restarting at 0 after a reboot is read as a new cycle.
+
+import { Device, ElectricalData, EventType } from '../types';
+
+export interface DiscoveryMessage {
+  topic: string;
+  payload: string;   // Empty = remove the entity
+}
+
+export interface DiscoveryOptions {
+  prefix: string;            // Bridge topic prefix
+  discoveryPrefix: string;   // Home Assistant's, 'homeassistant' unless changed there
+  topicId: string;
+  allowCommands: boolean;    // Relay as a switch only when the bridge takes commands
+  firmwareVersion?: string;
+}
+
+interface SensorSpec {
+  key: keyof ElectricalData;
+  name: string;
+  deviceClass: string;
+  stateClass: 'measurement' | 'total_increasing';
+  unit?: string;
+  precision: number;
+}
+
+const SENSORS: SensorSpec[] = [
+  { key: 'voltage', name: 'Voltage', deviceClass: 'voltage', stateClass: 'measurement', unit: 'V', precision: 1 },
+  { key: 'current', name: 'Current', deviceClass: 'current', stateClass: 'measurement', unit: 'A', precision: 2 },
+  { key: 'power', name: 'Power', deviceClass: 'power', stateClass: 'measurement', unit: 'W', precision: 0 },
+  { key: 'energy', name: 'Energy', deviceClass: 'energy', stateClass: 'total_increasing', unit: 'kWh', precision: 3 },
+  { key: 'frequency', name: 'Frequency', deviceClass: 'frequency', stateClass: 'measurement', unit: 'Hz', precision: 2 },
+  // HA's power_factor class takes a bare 0-1 ratio when there is no unit
+  { key: 'powerFactor', name: 'Power factor', deviceClass: 'power_factor', stateClass: 'measurement', precision: 2 },
+];
+
+const BINARY_SENSORS: Array<{ key: keyof ElectricalData; name: string }> = [
+  { key: 'protectionTriggered', name: 'Protection tripped' },
+  { key: 'powerOutage', name: 'Power outage' },
+];
+
+// Keyed by EventType so a new event type fails to compile until it is listed here
+const EVENT_TYPES: Record<EventType, true> = {
+  manual_on: true,
+  manual_off: true,
+  auto_on: true,
+  auto_off: true,
+  outage: true,
+  restore: true,
+  threshold_breach: true,
+  overvoltage: true,
+  undervoltage: true,
+  overcurrent: true,
+  overload: true,
+  underload: true,
+  frequency_min: true,
+  frequency_max: true,
+  power_factor_min: true,
+};
+
+const onOff = (key: keyof ElectricalData) => `{{ 'ON' if value_json.${key} else 'OFF' }}`;
+
+export const buildDiscoveryMessages = (device: Device, options: DiscoveryOptions): DiscoveryMessage[] => {
+  const { prefix, discoveryPrefix, topicId, allowCommands, firmwareVersion } = options;
+  const nodeId = `smartcb_${topicId}`;
+  const base = `${prefix}/${topicId}`;
+  const configTopic = (component: string, objectId: string) => `${discoveryPrefix}/${component}/${nodeId}/${objectId}/config`;
+
+  // Shared by every entity: one HA device per breaker, unavailable unless bridge and breaker are both up
+  const common = {
+    availability: [{ topic: `${prefix}/bridge/availability` }, { topic: `${base}/availability` }],
+    availability_mode: 'all',
+    device: {
+      identifiers: [nodeId],
+      name: device.name,
+      manufacturer: 'SmartCB',
+      model: device.model ?? 'Smart Circuit Breaker',
+      ...(firmwareVersion ? { sw_version: firmwareVersion } : {}),
+    },
+  };
+
+  const message = (component: string, objectId: string, config: Record<string, unknown>): DiscoveryMessage => ({
+    topic: configTopic(component, objectId),
+    payload: JSON.stringify({ ...config, unique_id: `${nodeId}_${objectId}`, ...common }),
+  });
+
+  const messages = SENSORS.map((sensor) =>
+    message('sensor', sensor.key, {
+      name: sensor.name,
+      state_topic: `${base}/status`,
+      value_template: `{{ value_json.${sensor.key} }}`,
+      device_class: sensor.deviceClass,
+      state_class: sensor.stateClass,
+      ...(sensor.unit ? { unit_of_measurement: sensor.unit } : {}),
+      suggested_display_precision: sensor.precision,
+    })
+  );
+
+  BINARY_SENSORS.forEach((sensor) => {
+    messages.push(message('binary_sensor', sensor.key, {
+      name: sensor.name,
+      state_topic: `${base}/status`,
+      value_template: onOff(sensor.key),
+      device_class: 'problem',
+    }));
+  });
+
+  // Read-only bridges get a relay state sensor instead, and the other one is removed
+  const relay = {
+    name: 'Relay',
+    state_topic: `${base}/status`,
+    value_template: onOff('relayState'),
+  };
+  if (allowCommands) {
+    messages.push(message('switch', 'relay', {
+      ...relay,
+      command_topic: `${base}/relay/set`,
+      payload_on: 'ON',
+      payload_off: 'OFF',
+      state_on: 'ON',
+      state_off: 'OFF',
+      device_class: 'switch',
+    }));
+    messages.push({ topic: configTopic('binary_sensor', 'relay'), payload: '' });
+  } else {
+    messages.push(message('binary_sensor', 'relay', { ...relay, device_class: 'power' }));
+    messages.push({ topic: configTopic('switch', 'relay'), payload: '' });
+  }
+
+  messages.push(message('event', 'events', {
+    name: 'Events',
+    state_topic: `${base}/event`,
+    event_types: Object.keys(EVENT_TYPES),
+    value_template: "{{ {'event_type': value_json.type, 'description': value_json.description} | to_json }}",
+  }));
+
+  return messages;
+};
+
+// Empty retained configs - Home Assistant deletes the entities
+export const buildDiscoveryRemovals = (device: Device, options: DiscoveryOptions): DiscoveryMessage[] =>
+  buildDiscoveryMessages(device, options)
+    .concat(buildDiscoveryMessages(device, { ...options, allowCommands: !options.allowCommands }))
+    .filter((entry, index, all) => all.findIndex((other) => other.topic === entry.topic) === index)
+    .map((entry) => ({ topic: entry.topic, payload: '' }));
@@ -0,0 +1,204 @@
+// Link Quality Service - measured connection quality per breaker
+//
+// Every HTTP request and WebSocket ping reports its round trip and whether it
+// succeeded; every valid status frame resets the staleness clock and carries the
+// breaker's own RSSI when the firmware reports it. A breaker that is connected but
+// slow, failing, stale or on a weak signal counts as degraded.
+
+import { DegradedReason, ElectricalData, LinkQuality, LinkQualitySample } from '../types';
+import { useDiagnosticsStore } from '../store/useDiagnosticsStore';
+
+const WINDOW = 60 * 1000;               // Requests older than this no longer count
+const EVALUATE_INTERVAL = 2000;
+const HISTORY_INTERVAL = 10 * 1000;     // One diagnostics sample per this, the view keeps ~5 minutes
+
+const LATENCY_LIMIT = 1000;             // ms, median round trip
+const FAILURE_LIMIT = 0.25;             // Share of failed or timed-out requests
+const FAILURE_MIN_REQUESTS = 4;         // A single failed request is not a trend
+const STALE_LIMIT = 5000;               // ms without a valid frame
+const RSSI_LIMIT = -80;                 // dBm
+
+// Slow by design - they say nothing about the link
+const UNTIMED_PATHS = ['/api/wifi/scan', '/api/firmware'];
+
+interface RequestSample {
+  at: number;
+  latencyMs: number | null;   // null when it failed or its latency is not meaningful
+  ok: boolean;
+}
+
+interface LinkState {
+  requests: RequestSample[];
+  lastFrameAt: number | null;
+  rssi: number | null;
+  startedAt: number;
+  lastSampleAt: number;
+  degraded: boolean;
+  signalStrength: number;
+}
+
+type ChangeHandler = (deviceId: string, quality: LinkQuality) => void;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+// -90 dBm and below is unusable, -40 dBm and above is as good as it gets
+export const rssiToSignal = (rssi: number): number => clamp((rssi + 90) * 2);
+
+export class LinkQualityService {
+  private links = new Map<string, LinkState>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private onChange?: ChangeHandler;
+
+  // Called whenever a breaker's signal strength or degraded state changes
+  setChangeHandler(handler: ChangeHandler) {
+    this.onChange = handler;
+  }
+
+  // Begin judging a freshly connected breaker - history from an earlier connection is dropped
+  start(deviceId: string) {
+    this.stop(deviceId);
+
+    const link = this.getLink(deviceId);
+    link.requests = [];
+    link.lastFrameAt = null;
+    link.startedAt = Date.now();
+    link.degraded = false;
+
+    this.timers.set(deviceId, setInterval(() => this.evaluate(deviceId), EVALUATE_INTERVAL));
+  }
+
+  stop(deviceId: string) {
+    const timer = this.timers.get(deviceId);
+    if (timer) {
+      clearInterval(timer);
+      this.timers.delete(deviceId);
+    }
+  }
+
+  // Device removed from the registry
+  forget(deviceId: string) {
+    this.stop(deviceId);
+    this.links.delete(deviceId);
+  }
+
+  recordRequest(deviceId: string, path: string, latencyMs: number, ok: boolean) {
+    const timed = ok && !UNTIMED_PATHS.some((prefix) => path.startsWith(prefix));
+    this.getLink(deviceId).requests.push({ at: Date.now(), latencyMs: timed ? latencyMs : null, ok });
+  }
+
+  recordFrame(deviceId: string, data: ElectricalData) {
+    const link = this.getLink(deviceId);
+    link.lastFrameAt = Date.now();
+    if (data.rssi !== undefined) {
+      link.rssi = data.rssi;
+    }
+  }
+
+  // 0-100 for ConnectionStatus - the breaker's RSSI when known, otherwise judged from the link
+  getSignalStrength(deviceId: string): number {
+    return this.links.get(deviceId)?.signalStrength ?? 0;
+  }
+
+  evaluate(deviceId: string): LinkQuality {
+    const link = this.getLink(deviceId);
+    const now = Date.now();
+    link.requests = link.requests.filter((request) => now - request.at <= WINDOW);
+
+    const latencyMs = median(
+      link.requests.filter((request) => request.latencyMs !== null).map((request) => request.latencyMs as number)
+    );
+    const failures = link.requests.filter((request) => !request.ok).length;
+    const failureRate = link.requests.length ? failures / link.requests.length : 0;
+    // A connection that has not produced a frame yet is judged from when it started
+    const frameAgeMs = now - (link.lastFrameAt ?? link.startedAt);
+
+    const degradedReasons: DegradedReason[] = [];
+    if (latencyMs !== null && latencyMs > LATENCY_LIMIT) degradedReasons.push('latency');
+    if (link.requests.length >= FAILURE_MIN_REQUESTS && failureRate > FAILURE_LIMIT) degradedReasons.push('failures');
+    if (frameAgeMs > STALE_LIMIT) degradedReasons.push('stale');
+    if (link.rssi !== null && link.rssi < RSSI_LIMIT) degradedReasons.push('weak_signal');
+
+    // Without an RSSI: full marks under 100 ms, nothing at 2 s, scaled down by the failure rate
+    const signalStrength =
+      link.rssi !== null
+        ? rssiToSignal(link.rssi)
+        : clamp((latencyMs === null ? 100 : 100 - ((latencyMs - 100) / 1900) * 100) * (1 - failureRate));
+
+    const quality: LinkQuality = {
+      latencyMs: latencyMs === null ? null : Math.round(latencyMs),
+      failureRate,
+      requestCount: link.requests.length,
+      lastFrameAt: link.lastFrameAt,
+      rssi: link.rssi,
+      signalStrength,
+      degradedReasons,
+      updatedAt: now,
+    };
+
+    let sample: LinkQualitySample | undefined;
+    if (now - link.lastSampleAt >= HISTORY_INTERVAL) {
+      link.lastSampleAt = now;
+      sample = {
+        at: now,
+        latencyMs: quality.latencyMs,
+        failureRate,
+        frameAgeMs: link.lastFrameAt === null ? null : frameAgeMs,
+        rssi: link.rssi,
+        degraded: degradedReasons.length > 0,
+      };
+    }
+    useDiagnosticsStore.getState().setLink(deviceId, quality, sample);
+
+    const degraded = degradedReasons.length > 0;
+    if (degraded !== link.degraded || signalStrength !== link.signalStrength) {
+      if (degraded !== link.degraded) {
+        console.log(
+          degraded
+            ? `📶 ${deviceId} link degraded: ${degradedReasons.join(', ')}`
+            : `📶 ${deviceId} link recovered`
+        );
+      }
+      link.degraded = degraded;
+      link.signalStrength = signalStrength;
+      this.onChange?.(deviceId, quality);
+    }
+
+    return quality;
+  }
+
+  private getLink(deviceId: string): LinkState {
+    let link = this.links.get(deviceId);
+    if (!link) {
+      link = {
+        requests: [],
+        lastFrameAt: null,
+        rssi: null,
+        startedAt: Date.now(),
+        lastSampleAt: 0,
+        degraded: false,
+        signalStrength: 0,
+      };
+      this.links.set(deviceId, link);
+    }
+    return link;
+  }
+}
+
+// Singleton instance
+let linkQualityInstance: LinkQualityService | null = null;
+
+export const getLinkQuality = (): LinkQualityService => {
+  if (!linkQualityInstance) {
+    linkQualityInstance = new LinkQualityService();
+  }
+  return linkQualityInstance;
+};
+
+export default LinkQualityService;
@@ -0,0 +1,243 @@
+// Live Stream Service - short high-rate captures over the WebSocket for live diagnostics
+//
+// The normal feed is one status frame a second and history keeps far less. For motor
+// inrush or relay chatter the app asks the breaker for a few seconds at up to 50
+// samples a second; they arrive in numbered batches, so a lost batch is counted rather
+// than silently closing the gap. A capture can be saved as a CSV file of its own.
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { SavedCapture, StreamBatchPayload, StreamEndPayload, StreamSample } from '../types';
+import { getDeviceWebSocket } from './esp32WebSocket';
+import { useStreamStore } from '../store/useStreamStore';
+import { useDeviceStore } from '../store/useDeviceStore';
+
+export const STREAM_RATES = [10, 25, 50];           // Samples per second the firmware offers
+export const STREAM_DURATIONS = [5, 10, 30, 60];    // seconds
+
+const FIRST_BATCH_TIMEOUT = 3000;   // Firmware without streaming never answers startStream
+const BATCH_GAP_LIMIT = 3000;       // Socket dropped mid-capture
+const END_GRACE = 5000;             // After the requested duration, waiting for streamEnd
+
+const CAPTURE_DIR = `${FileSystem.documentDirectory}captures/`;
+
+interface ActiveStream {
+  streamId: string;
+  endsAt: number;
+  nextSeq: number;
+  watchdog: NodeJS.Timeout | null;
+  deadline: NodeJS.Timeout | null;
+}
+
+export class LiveStreamService {
+  private streams = new Map<string, ActiveStream>();
+
+  // Ask the breaker for `duration` seconds at `rate` samples per second - replaces any running capture
+  start(deviceId: string, rate: number, duration: number): boolean {
+    this.cancel(deviceId);
+
+    const ws = getDeviceWebSocket(deviceId);
+    const streamId = Date.now().toString(36);
+    useStreamStore.getState().begin({
+      id: streamId,
+      deviceId,
+      requestedRate: rate,
+      rate,
+      duration,
+      startedAt: Date.now(),
+      endedAt: null,
+      samples: [],
+      lostBatches: 0,
+      status: 'starting',
+      error: null,
+    });
+
+    // Batches only come over the push stream; polling has no equivalent
+    if (!ws.isConnected()) {
+      useStreamStore.getState().finish(deviceId, 'failed', 'not_connected');
+      return false;
+    }
+
+    const stream: ActiveStream = { streamId, endsAt: Date.now() + duration * 1000, nextSeq: 0, watchdog: null, deadline: null };
+    this.streams.set(deviceId, stream);
+    ws.setStreamHandler({
+      onBatch: (batch) => this.handleBatch(deviceId, batch),
+      onEnd: (end) => this.handleEnd(deviceId, end),
+    });
+
+    if (!ws.startStream(streamId, rate, duration)) {
+      this.end(deviceId, 'failed', 'not_connected');
+      return false;
+    }
+
+    this.armWatchdog(deviceId, FIRST_BATCH_TIMEOUT, 'unsupported');
+    // Firmware that keeps streaming past the duration is told to stop
+    stream.deadline = setTimeout(() => {
+      getDeviceWebSocket(deviceId).stopStream(streamId);
+      this.end(deviceId, 'complete');
+    }, duration * 1000 + END_GRACE);
+    console.log(`📈 ${deviceId}: streaming ${duration} s at ${rate} samples/s`);
+    return true;
+  }
+
+  // Stop early - the samples so far stay
+  stop(deviceId: string) {
+    const stream = this.streams.get(deviceId);
+    if (!stream) return;
+
+    getDeviceWebSocket(deviceId).stopStream(stream.streamId);
+    this.end(deviceId, 'stopped');
+  }
+
+  // Drop the capture entirely (device removed, screen reset)
+  cancel(deviceId: string) {
+    const stream = this.streams.get(deviceId);
+    if (stream) {
+      getDeviceWebSocket(deviceId).stopStream(stream.streamId);
+      this.end(deviceId, 'stopped');
+    }
+    useStreamStore.getState().clear(deviceId);
+  }
+
+  isStreaming(deviceId: string): boolean {
+    return this.streams.has(deviceId);
+  }
+
+  // Write the capture as CSV to the app's documents folder; returns the file
+  async save(deviceId: string): Promise<SavedCapture | null> {
+    const capture = useStreamStore.getState().captures[deviceId];
+    if (!capture || capture.samples.length === 0) return null;
+
+    const device = useDeviceStore.getState().getDevice(deviceId);
+    const started = new Date(capture.startedAt).toISOString();
+    const name = `stream-${deviceId}-${started.replace(/[:.]/g, '-')}.csv`;
+    const lines = [
+      `# SmartCB live capture`,
+      `# device: ${device?.name ?? deviceId} (${deviceId})`,
+      `# started: ${started}`,
+      `# rate: ${capture.rate} samples/s`,
+      `# lost batches: ${capture.lostBatches}`,
+      't_ms,voltage,current,power',
+      ...capture.samples.map((sample) => `${sample.t},${sample.voltage},${sample.current},${sample.power}`),
+    ];
+
+    try {
+      await FileSystem.makeDirectoryAsync(CAPTURE_DIR, { intermediates: true });
+      const uri = `${CAPTURE_DIR}${name}`;
+      await FileSystem.writeAsStringAsync(uri, lines.join('\n') + '\n');
+      const info = await FileSystem.getInfoAsync(uri);
+
+      console.log(`💾 Saved ${capture.samples.length} samples to ${uri}`);
+      return { name, uri, size: info.exists ? info.size : 0, modifiedAt: Date.now() };
+    } catch (error) {
+      console.error('❌ Failed to save capture:', error);
+      return null;
+    }
+  }
+
+  // Saved captures, newest first
+  async listSaved(): Promise<SavedCapture[]> {
+    try {
+      const dir = await FileSystem.getInfoAsync(CAPTURE_DIR);
+      if (!dir.exists) return [];
+
+      const names = await FileSystem.readDirectoryAsync(CAPTURE_DIR);
+      const files = await Promise.all(
+        names
+          .filter((name) => name.endsWith('.csv'))
+          .map(async (name) => {
+            const uri = `${CAPTURE_DIR}${name}`;
+            const info = await FileSystem.getInfoAsync(uri);
+            return {
+              name,
+              uri,
+              size: info.exists ? info.size : 0,
+              modifiedAt: info.exists ? info.modificationTime * 1000 : 0,
+            };
+          })
+      );
+      return files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+    } catch (error) {
+      console.error('Failed to list captures:', error);
+      return [];
+    }
+  }
+
+  async deleteSaved(uri: string) {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+
+  private handleBatch(deviceId: string, batch: StreamBatchPayload) {
+    const stream = this.streams.get(deviceId);
+    // A batch of an earlier capture still in flight
+    if (!stream || batch.streamId !== stream.streamId) return;
+
+    const lost = Math.max(0, batch.seq - stream.nextSeq);
+    if (lost > 0) console.warn(`⚠️ ${deviceId}: lost ${lost} stream batch(es) before #${batch.seq}`);
+    stream.nextSeq = Math.max(stream.nextSeq, batch.seq + 1);
+
+    const samples: StreamSample[] = batch.samples.map(([t, voltage, current, power]) => ({ t, voltage, current, power }));
+    useStreamStore.getState().append(deviceId, samples, batch.rate, lost);
+    this.armWatchdog(deviceId, BATCH_GAP_LIMIT, 'interrupted');
+  }
+
+  private handleEnd(deviceId: string, end: StreamEndPayload) {
+    const stream = this.streams.get(deviceId);
+    if (!stream || end.streamId !== stream.streamId) return;
+
+    // Batches that never arrived after the last one we saw
+    const lostAtEnd = end.batches !== undefined ? Math.max(0, end.batches - stream.nextSeq) : 0;
+    const capture = useStreamStore.getState().captures[deviceId];
+    if (lostAtEnd > 0 && capture) {
+      useStreamStore.getState().append(deviceId, [], capture.rate, lostAtEnd);
+    }
+
+    if (end.reason === 'complete' || end.reason === 'stopped') {
+      this.end(deviceId, end.reason === 'complete' ? 'complete' : 'stopped');
+    } else {
+      this.end(deviceId, 'failed', end.reason);
+    }
+  }
+
+  // Fail the capture if no batch arrives within `ms`
+  private armWatchdog(deviceId: string, ms: number, error: string) {
+    const stream = this.streams.get(deviceId);
+    if (!stream) return;
+
+    if (stream.watchdog) clearTimeout(stream.watchdog);
+    stream.watchdog = setTimeout(() => {
+      // Every batch is in and only streamEnd went missing
+      if (Date.now() >= stream.endsAt && stream.nextSeq > 0) {
+        this.end(deviceId, 'complete');
+        return;
+      }
+      getDeviceWebSocket(deviceId).stopStream(stream.streamId);
+      this.end(deviceId, 'failed', error);
+    }, ms);
+  }
+
+  private end(deviceId: string, status: 'complete' | 'stopped' | 'failed', error: string | null = null) {
+    const stream = this.streams.get(deviceId);
+    if (!stream) return;
+
+    if (stream.watchdog) clearTimeout(stream.watchdog);
+    if (stream.deadline) clearTimeout(stream.deadline);
+    this.streams.delete(deviceId);
+    getDeviceWebSocket(deviceId).setStreamHandler(null);
+
+    useStreamStore.getState().finish(deviceId, status, error);
+    const samples = useStreamStore.getState().captures[deviceId]?.samples.length ?? 0;
+    console.log(`📈 ${deviceId}: capture ${status}${error ? ` (${error})` : ''}, ${samples} samples`);
+  }
+}
+
+// Singleton instance
+let liveStreamInstance: LiveStreamService | null = null;
+
+export const getLiveStream = (): LiveStreamService => {
+  if (!liveStreamInstance) {
+    liveStreamInstance = new LiveStreamService();
+  }
+  return liveStreamInstance;
+};
+
+export default LiveStreamService;
@@ -0,0 +1,448 @@
+// MQTT Bridge - mirror every breaker onto the user's MQTT broker and take commands back
+//
+// Topics live under <prefix>/<device>/, where <device> is the breaker's hardware ID:
+//   status, settings, availability (retained) · event · relay/set → relay/result ·
+//   settings/set → settings/result
+// The bridge's last will marks <prefix>/bridge/availability offline when the phone drops off.
+// With Home Assistant on, each breaker also gets retained discovery configs (see homeAssistant.ts).
+// Remote commands take the same path as taps in the app: relay commands are confirmed by
+// RelayCommandService, settings pass the protocol schemas before they reach the breaker.
+
+import {
+  Device,
+  DeviceSettingsPayload,
+  ElectricalData,
+  Event,
+  MqttCommandResult,
+  MqttRelayCommandPayload,
+} from '../types';
+import { MqttClient, MqttMessage } from './mqttClient';
+import { buildDiscoveryMessages, buildDiscoveryRemovals, DiscoveryMessage, DiscoveryOptions } from './homeAssistant';
+import { getDeviceApi } from './esp32Api';
+import { isObject, validateSettings, validateSettingsPatch, ValidationResult } from './esp32Protocol';
+import { getSettingsSync, unkeptFields } from './settingsSync';
+import { useMqttStore } from '../store/useMqttStore';
+import { useElectricalStore } from '../store/useElectricalStore';
+import { useEventsStore, getEventDeviceId } from '../store/useEventsStore';
+import { useDeviceStore } from '../store/useDeviceStore';
+import { useAuthStore } from '../store/useAuthStore';
+import { useDiagnosticsStore } from '../store/useDiagnosticsStore';
+
+const COMMAND_MAX_AGE = 30000;   // A relay command older than this is stale, not late
+
+// Hardware IDs survive re-linking and DHCP moves; registry IDs are only a fallback
+export const getTopicId = (device: Device): string =>
+  (device.hardwareId ?? device.id).replace(/[^A-Za-z0-9_-]/g, '_');
+
+const normalizePrefix = (prefix: string) => prefix.trim().replace(/^\/+|\/+$/g, '') || 'smartcb';
+
+// "ON" / "OFF" for dashboards, JSON for senders that want a matching result
+const parseRelayCommand = (payload: string): ValidationResult<MqttRelayCommandPayload> => {
+  const text = payload.trim();
+  if (/^(on|true|1)$/i.test(text)) return { ok: true, value: { state: true } };
+  if (/^(off|false|0)$/i.test(text)) return { ok: true, value: { state: false } };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = undefined;
+  }
+  if (!isObject(parsed)) {
+    return { ok: false, errors: ['expected ON, OFF or {"state": true|false}'] };
+  }
+
+  const { state, id, ts } = parsed;
+  const errors: string[] = [];
+  if (typeof state !== 'boolean') errors.push('state: expected boolean');
+  if (id !== undefined && typeof id !== 'string') errors.push('id: expected string');
+  if (ts !== undefined && typeof ts !== 'number') errors.push('ts: expected number');
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: { state: state as boolean, id: id as string | undefined, ts: ts as number | undefined } };
+};
+
+// Limits that only make sense together
+const checkRanges = (settings: DeviceSettingsPayload): string[] => {
+  const errors: string[] = [];
+  if (settings.minVoltage >= settings.maxVoltage) {
+    errors.push('minVoltage: must be below maxVoltage');
+  }
+  if (settings.minFrequency !== undefined && settings.maxFrequency !== undefined &&
+      settings.minFrequency >= settings.maxFrequency) {
+    errors.push('minFrequency: must be below maxFrequency');
+  }
+  return errors;
+};
+
+export class MqttBridge {
+  private client: MqttClient | null = null;
+  private prefix = 'smartcb';
+  private discoveryPrefix = 'homeassistant';
+  private unsubscribers: Array<() => void> = [];
+  private lastStatus = new Map<string, { at: number; data: ElectricalData }>();
+
+  // (Re)connect with the stored config; does nothing while the bridge is disabled
+  start() {
+    if (!useMqttStore.persist.hasHydrated()) {
+      useMqttStore.persist.onFinishHydration(() => this.start());
+      return;
+    }
+
+    this.shutdown();
+    const { config, setState } = useMqttStore.getState();
+    if (!config.enabled || !config.url.trim()) {
+      setState('disabled', null);
+      return;
+    }
+
+    this.prefix = normalizePrefix(config.topicPrefix);
+    this.discoveryPrefix = normalizePrefix(config.discoveryPrefix || 'homeassistant');
+    const client = new MqttClient({
+      url: config.url.trim(),
+      clientId: `smartcb-${useAuthStore.getState().clientId}`,
+      username: config.username || undefined,
+      password: config.password || undefined,
+      will: { topic: this.bridgeTopic(), payload: 'offline', retain: true, qos: 1 },
+    });
+    this.client = client;
+
+    setState('connecting', null);
+    client.subscribe([`${this.prefix}/+/relay/set`, `${this.prefix}/+/settings/set`]);
+    if (config.homeAssistant) {
+      // HA announces restarts here; answering with fresh configs and states is the documented contract
+      client.subscribe([`${this.discoveryPrefix}/status`]);
+    }
+    client.start({
+      onConnectionChange: (connected, error) => {
+        useMqttStore.getState().setState(connected ? 'connected' : 'error', connected ? null : error ?? null);
+        if (connected) this.publishAll();
+      },
+      onMessage: (message) => this.handleMessage(message),
+    });
+
+    this.unsubscribers = [
+      useElectricalStore.subscribe((state, prev) => {
+        Object.entries(state.devices).forEach(([deviceId, runtime]) => {
+          const before = prev.devices[deviceId];
+          if (runtime.connection.isConnected !== before?.connection.isConnected) {
+            this.publishAvailability(deviceId, runtime.connection.isConnected);
+            if (runtime.connection.isConnected) {
+              this.publishSettings(deviceId);
+              this.publishDiscovery(deviceId);   // Firmware version may have changed
+            }
+          }
+          if (runtime.data && runtime.data !== before?.data) {
+            this.publishStatus(deviceId, runtime.data);
+          }
+        });
+      }),
+      useDeviceStore.subscribe((state, prev) => {
+        state.devices
+          .filter((device) => {
+            const before = prev.devices.find((candidate) => candidate.id === device.id);
+            return !before || before.name !== device.name || before.model !== device.model;
+          })
+          .forEach((device) => this.publishDiscovery(device.id));
+        prev.devices
+          .filter((device) => !state.devices.some((current) => current.id === device.id))
+          .forEach((device) => this.forgetDevice(device));
+      }),
+      useEventsStore.subscribe((state, prev) => {
+        // Skip the initial load from storage - only events that happen now are news
+        if (!prev.isLoaded || state.events === prev.events) return;
+        const known = new Set(prev.events.map((event) => event.id));
+        state.events
+          .filter((event) => !known.has(event.id))
+          .reverse()
+          .forEach((event) => this.publishEvent(event));
+      }),
+    ];
+  }
+
+  // Mark the bridge offline on purpose; a clean DISCONNECT suppresses the last will
+  async stop() {
+    const client = this.client;
+    if (client?.isConnected()) {
+      await client.publish(this.bridgeTopic(), 'offline', { retain: true, qos: 1 });
+    }
+    this.shutdown();
+    useMqttStore.getState().setState('disabled', null);
+  }
+
+  private shutdown() {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.lastStatus.clear();
+    this.client?.stop();
+    this.client = null;
+  }
+
+  private bridgeTopic() {
+    return `${this.prefix}/bridge/availability`;
+  }
+
+  private deviceTopic(deviceId: string, suffix: string): string | null {
+    const device = useDeviceStore.getState().getDevice(deviceId);
+    return device ? `${this.prefix}/${getTopicId(device)}/${suffix}` : null;
+  }
+
+  private publish(topic: string | null, payload: unknown, retain = false) {
+    if (!topic || !this.client?.isConnected()) return;
+    const text = typeof payload === 'string' ? payload : JSON.stringify(payload);
+    this.client.publish(topic, text, { retain, qos: 1 }).then((ok) => {
+      if (ok) useMqttStore.getState().markPublished();
+    });
+  }
+
+  // Everything retained, right after (re)connecting
+  private publishAll() {
+    this.publish(this.bridgeTopic(), 'online', true);
+    this.lastStatus.clear();
+
+    const runtimes = useElectricalStore.getState().devices;
+    useDeviceStore.getState().devices.forEach((device) => {
+      const runtime = runtimes[device.id];
+      const connected = runtime?.connection.isConnected ?? false;
+      this.publishAvailability(device.id, connected);
+      if (runtime?.data) this.publishStatus(device.id, runtime.data);
+      if (connected) this.publishSettings(device.id);
+      this.publishDiscovery(device.id);
+    });
+  }
+
+  // Turning Home Assistant off: delete its entities while the connection is still up
+  async clearDiscovery() {
+    const client = this.client;
+    if (!client?.isConnected()) return;
+
+    await Promise.all(
+      useDeviceStore.getState().devices.flatMap((device) =>
+        buildDiscoveryRemovals(device, this.discoveryOptions(device)).map((entry) =>
+          client.publish(entry.topic, entry.payload, { retain: true, qos: 1 })
+        )
+      )
+    );
+  }
+
+  private discoveryOptions(device: Device): DiscoveryOptions {
+    const { config } = useMqttStore.getState();
+    return {
+      prefix: this.prefix,
+      discoveryPrefix: this.discoveryPrefix,
+      topicId: getTopicId(device),
+      allowCommands: config.allowCommands,
+      firmwareVersion: useDiagnosticsStore.getState().getDiagnostics(device.id).protocol?.firmwareVersion,
+    };
+  }
+
+  private publishDiscovery(deviceId: string) {
+    const device = useDeviceStore.getState().getDevice(deviceId);
+    if (!device || !useMqttStore.getState().config.homeAssistant) return;
+    this.publishDiscoveryMessages(buildDiscoveryMessages(device, this.discoveryOptions(device)));
+  }
+
+  private publishDiscoveryMessages(messages: DiscoveryMessage[]) {
+    messages.forEach((entry) => this.publish(entry.topic, entry.payload, true));
+  }
+
+  private publishAvailability(deviceId: string, online: boolean) {
+    this.publish(this.deviceTopic(deviceId, 'availability'), online ? 'online' : 'offline', true);
+  }
+
+  // Readings arrive about once a second; pass on state changes at once, the rest at the set interval
+  private publishStatus(deviceId: string, data: ElectricalData) {
+    const previous = this.lastStatus.get(deviceId);
+    const interval = useMqttStore.getState().config.publishInterval * 1000;
+    const changed =
+      !previous ||
+      previous.data.relayState !== data.relayState ||
+      previous.data.protectionTriggered !== data.protectionTriggered ||
+      previous.data.powerOutage !== data.powerOutage;
+
+    if (!changed && Date.now() - previous.at < interval) return;
+
+    this.lastStatus.set(deviceId, { at: Date.now(), data });
+    this.publish(this.deviceTopic(deviceId, 'status'), data, true);
+  }
+
+  private async publishSettings(deviceId: string) {
+    if (!this.client?.isConnected()) return;
+    const settings = await getDeviceApi(deviceId).getSettings();
+    if (settings.ok) {
+      this.publish(this.deviceTopic(deviceId, 'settings'), settings.value, true);
+    }
+  }
+
+  private publishEvent(event: Event) {
+    const { readings: _readings, deviceId: _deviceId, ...payload } = event;
+    this.publish(this.deviceTopic(getEventDeviceId(event), 'event'), payload);
+  }
+
+  // Unlinked breaker: clear its retained topics so dashboards don't show a ghost
+  private forgetDevice(device: Device) {
+    this.lastStatus.delete(device.id);
+    if (useMqttStore.getState().config.homeAssistant) {
+      this.publishDiscoveryMessages(buildDiscoveryRemovals(device, this.discoveryOptions(device)));
+    }
+    ['status', 'settings', 'availability'].forEach((suffix) => {
+      this.publish(`${this.prefix}/${getTopicId(device)}/${suffix}`, '', true);
+    });
+  }
+
+  private handleMessage(message: MqttMessage) {
+    if (message.topic === `${this.discoveryPrefix}/status`) {
+      if (message.payload === 'online' && !message.retain) {
+        console.log('🏠 Home Assistant restarted, republishing');
+        this.publishAll();
+      }
+      return;
+    }
+
+    if (!message.topic.startsWith(`${this.prefix}/`)) return;
+
+    const [topicId, kind, action] = message.topic.slice(this.prefix.length + 1).split('/');
+    if (action !== 'set' || (kind !== 'relay' && kind !== 'settings')) return;
+
+    const resultTopic = `${this.prefix}/${topicId}/${kind}/result`;
+    const reject = (error: string, id?: string) => {
+      console.warn(`⚠️ MQTT ${kind} command for ${topicId} rejected: ${error}`);
+      this.publishResult(resultTopic, { id, status: 'rejected', error, at: Date.now() });
+    };
+
+    // A retained command would fire again on every reconnect
+    if (message.retain) {
+      reject('Retained commands are not accepted');
+      return;
+    }
+
+    const device = useDeviceStore.getState().devices.find((candidate) => getTopicId(candidate) === topicId);
+    if (!device) {
+      reject('Unknown breaker');
+      return;
+    }
+
+    if (!useMqttStore.getState().config.allowCommands) {
+      reject('Remote control is disabled on the bridge');
+      return;
+    }
+
+    if (kind === 'relay') {
+      this.handleRelayCommand(device, message.payload, resultTopic, reject);
+    } else {
+      this.handleSettingsCommand(device, message.payload, resultTopic, reject);
+    }
+  }
+
+  private async handleRelayCommand(
+    device: Device,
+    payload: string,
+    resultTopic: string,
+    reject: (error: string, id?: string) => void
+  ) {
+    const parsed = parseRelayCommand(payload);
+    if (!parsed.ok) {
+      reject(parsed.errors.join('; '));
+      return;
+    }
+
+    const { state, id, ts } = parsed.value;
+    if (ts !== undefined && Math.abs(Date.now() - ts) > COMMAND_MAX_AGE) {
+      reject('Command is too old', id);
+      return;
+    }
+
+    console.log(`📡 MQTT relay command for ${device.name}: ${state ? 'ON' : 'OFF'}`);
+    const command = await useElectricalStore.getState().setRelayState(state, device.id);
+
+    this.publishResult(resultTopic, command
+      ? {
+          id,
+          status: command.status === 'confirmed' ? 'confirmed' : 'failed',
+          state,
+          commandId: command.id,
+          attempts: command.attempts,
+          error: command.error,
+          at: Date.now(),
+        }
+      : { id, status: 'failed', state, error: 'Breaker not connected', at: Date.now() });
+  }
+
+  private async handleSettingsCommand(
+    device: Device,
+    payload: string,
+    resultTopic: string,
+    reject: (error: string, id?: string) => void
+  ) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(payload);
+    } catch {
+      reject('malformed JSON');
+      return;
+    }
+    if (!isObject(parsed)) {
+      reject('expected a JSON object of settings');
+      return;
+    }
+
+    const { id: rawId, ...fields } = parsed;
+    const id = typeof rawId === 'string' ? rawId : undefined;
+    const patch = validateSettingsPatch(fields);
+    if (!patch.ok) {
+      reject(patch.errors.join('; '), id);
+      return;
+    }
+
+    const api = getDeviceApi(device.id);
+    const current = await api.getSettings();
+    if (!current.ok) {
+      this.publishResult(resultTopic, { id, status: 'failed', error: 'Could not read the breaker\'s settings', at: Date.now() });
+      return;
+    }
+
+    const merged = validateSettings({ ...current.value, ...patch.value });
+    const errors = merged.ok ? checkRanges(merged.value) : merged.errors;
+    if (!merged.ok || errors.length > 0) {
+      reject(errors.join('; '), id);
+      return;
+    }
+
+    console.log(`📡 MQTT settings command for ${device.name}:`, patch.value);
+    const accepted = await api.updateSettings(merged.value);
+    if (!accepted.ok) {
+      this.publishResult(resultTopic, { id, status: 'failed', error: 'Breaker did not accept the settings', at: Date.now() });
+      return;
+    }
+
+    // A 200 only says the request arrived - read back what the breaker kept
+    const readBack = await api.getSettings();
+    const unkept = readBack.ok ? unkeptFields(merged.value, readBack.value) : [];
+    const error = !readBack.ok
+      ? 'Could not read the breaker\'s settings back'
+      : unkept.length > 0 ? `Breaker did not keep ${unkept.join(', ')}` : null;
+    this.publishResult(resultTopic, error
+      ? { id, status: 'failed', error, at: Date.now() }
+      : { id, status: 'confirmed', at: Date.now() });
+
+    // Even a partly kept change has reached the breaker
+    this.publishSettings(device.id);
+    getSettingsSync().sync(device.id); // The phone's copy follows the remote change
+  }
+
+  private publishResult(topic: string, result: MqttCommandResult) {
+    this.publish(topic, result);
+  }
+}
+
+// Singleton instance
+let bridgeInstance: MqttBridge | null = null;
+
+export const getMqttBridge = (): MqttBridge => {
+  if (!bridgeInstance) {
+    bridgeInstance = new MqttBridge();
+  }
+  return bridgeInstance;
+};
+
+export default MqttBridge;
@@ -0,0 +1,409 @@
+// MQTT Client - minimal MQTT 3.1.1 over WebSocket for the remote bridge
+//
+// Mosquitto and most brokers accept MQTT on a WebSocket listener, which React Native
+// can open without a native module. Covers what the bridge needs: QoS 0/1 publish with
+// retain, subscribe, keep-alive and a last will. No QoS 2 and no offline queue.
+
+import { utf8Bytes, fromUtf8 } from '../utils/crypto';
+
+export type MqttQoS = 0 | 1;
+
+export interface MqttWill {
+  topic: string;
+  payload: string;
+  retain?: boolean;
+  qos?: MqttQoS;
+}
+
+export interface MqttClientOptions {
+  url: string;
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepAlive?: number;   // seconds
+  will?: MqttWill;
+}
+
+export interface MqttMessage {
+  topic: string;
+  payload: string;
+  retain: boolean;
+}
+
+interface MqttHandlers {
+  onMessage?: (message: MqttMessage) => void;
+  onConnectionChange?: (connected: boolean, error?: string) => void;
+}
+
+// Control packet types (high nibble of the first byte)
+const CONNECT = 1;
+const CONNACK = 2;
+const PUBLISH = 3;
+const PUBACK = 4;
+const SUBSCRIBE = 8;
+const SUBACK = 9;
+const PINGREQ = 12;
+const PINGRESP = 13;
+const DISCONNECT = 14;
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'Broker does not speak MQTT 3.1.1',
+  2: 'Client ID rejected',
+  3: 'Broker unavailable',
+  4: 'Bad username or password',
+  5: 'Not authorized',
+};
+
+const DEFAULT_KEEP_ALIVE = 30;
+const CONNECT_TIMEOUT = 10000;
+const ACK_TIMEOUT = 10000;
+const RECONNECT_BASE_DELAY = 2000;
+const RECONNECT_MAX_DELAY = 60000;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+};
+
+const uint16 = (value: number) => new Uint8Array([(value >> 8) & 0xff, value & 0xff]);
+
+// Length-prefixed UTF-8, how MQTT encodes every string
+const encodeString = (text: string) => {
+  const bytes = utf8Bytes(text);
+  return concat([uint16(bytes.length), bytes]);
+};
+
+const encodeLength = (length: number) => {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return new Uint8Array(bytes);
+};
+
+const packet = (firstByte: number, parts: Uint8Array[]) => {
+  const body = concat(parts);
+  return concat([new Uint8Array([firstByte]), encodeLength(body.length), body]);
+};
+
+export class MqttClient {
+  private ws: WebSocket | null = null;
+  private buffer: Uint8Array = new Uint8Array(0);
+  private connected = false;
+  private stopped = true;
+  private handlers: MqttHandlers = {};
+  private subscriptions: string[] = [];
+  private nextPacketId = 1;
+  private acks = new Map<number, { resolve: (ok: boolean) => void; timer: NodeJS.Timeout }>();
+  private connectTimer: NodeJS.Timeout | null = null;
+  private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempts = 0;
+  private awaitingPong = false;
+  private lastError: string | undefined;
+
+  constructor(private options: MqttClientOptions) {}
+
+  // Connect and stay connected (with backoff) until stop()
+  start(handlers: MqttHandlers) {
+    this.handlers = handlers;
+    this.stopped = false;
+    this.open();
+  }
+
+  // Clean DISCONNECT - the broker discards the will, so publish offline markers first
+  stop() {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.connected) {
+      this.write(packet(DISCONNECT << 4, []));
+    }
+    this.teardown();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  // Subscriptions are remembered and renewed after every reconnect
+  subscribe(filters: string[]) {
+    const added = filters.filter((filter) => !this.subscriptions.includes(filter));
+    this.subscriptions.push(...added);
+    if (this.connected && added.length > 0) {
+      this.sendSubscribe(added);
+    }
+  }
+
+  // QoS 1 resolves once the broker acknowledges; QoS 0 once the packet is written
+  publish(topic: string, payload: string, options: { qos?: MqttQoS; retain?: boolean } = {}): Promise<boolean> {
+    if (!this.connected) return Promise.resolve(false);
+
+    const qos = options.qos ?? 0;
+    const packetId = qos > 0 ? this.takePacketId() : 0;
+    const flags = (qos << 1) | (options.retain ? 1 : 0);
+
+    const sent = this.write(packet((PUBLISH << 4) | flags, [
+      encodeString(topic),
+      ...(qos > 0 ? [uint16(packetId)] : []),
+      utf8Bytes(payload),
+    ]));
+
+    if (!sent || qos === 0) return Promise.resolve(sent);
+    return this.awaitAck(packetId);
+  }
+
+  private open() {
+    if (this.stopped) return;
+
+    const { url } = this.options;
+    console.log(`📡 MQTT: connecting to ${url}`);
+
+    try {
+      // Brokers only accept WebSocket clients that ask for the 'mqtt' subprotocol
+      const ws = new WebSocket(url, ['mqtt']);
+      ws.binaryType = 'arraybuffer';
+      this.ws = ws;
+
+      ws.onopen = () => this.write(this.connectPacket());
+      ws.onmessage = (event) => {
+        if (event.data instanceof ArrayBuffer) {
+          this.receive(new Uint8Array(event.data));
+        }
+      };
+      ws.onerror = () => {
+        this.lastError = this.lastError ?? `Cannot reach ${url}`;
+      };
+      ws.onclose = () => {
+        if (this.ws === ws) this.handleClose();
+      };
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.handleClose();
+      return;
+    }
+
+    this.connectTimer = setTimeout(() => {
+      this.lastError = 'Broker did not answer CONNECT';
+      this.ws?.close();
+    }, CONNECT_TIMEOUT);
+  }
+
+  private connectPacket() {
+    const { clientId, username, password, will } = this.options;
+    const keepAlive = this.options.keepAlive ?? DEFAULT_KEEP_ALIVE;
+
+    let flags = 0x02; // Clean session: commands queued while we were away must not replay
+    if (will) {
+      flags |= 0x04 | ((will.qos ?? 0) << 3) | (will.retain ? 0x20 : 0);
+    }
+    if (username) flags |= 0x80;
+    if (username && password) flags |= 0x40;
+
+    return packet(CONNECT << 4, [
+      encodeString('MQTT'),
+      new Uint8Array([4, flags]),
+      uint16(keepAlive),
+      encodeString(clientId),
+      ...(will ? [encodeString(will.topic), encodeString(will.payload)] : []),
+      ...(username ? [encodeString(username)] : []),
+      ...(username && password ? [encodeString(password)] : []),
+    ]);
+  }
+
+  private receive(chunk: Uint8Array) {
+    this.buffer = this.buffer.length > 0 ? concat([this.buffer, chunk]) : chunk;
+
+    // One WebSocket frame may hold several packets, or part of one
+    while (this.buffer.length >= 2) {
+      let length = 0;
+      let multiplier = 1;
+      let offset = 1;
+      let byte: number;
+      do {
+        if (offset >= this.buffer.length) return;
+        byte = this.buffer[offset++];
+        length += (byte & 0x7f) * multiplier;
+        multiplier *= 128;
+      } while (byte & 0x80);
+
+      if (this.buffer.length < offset + length) return;
+
+      const header = this.buffer[0];
+      const body = this.buffer.subarray(offset, offset + length);
+      this.buffer = this.buffer.subarray(offset + length);
+      this.handlePacket(header, body);
+    }
+  }
+
+  private handlePacket(header: number, body: Uint8Array) {
+    switch (header >> 4) {
+      case CONNACK: {
+        const code = body[1];
+        if (code !== 0) {
+          this.lastError = CONNACK_ERRORS[code] ?? `Connection refused (${code})`;
+          this.ws?.close();
+          return;
+        }
+        this.handleConnected();
+        return;
+      }
+      case PUBLISH: {
+        const qos = (header >> 1) & 0x03;
+        const topicLength = (body[0] << 8) | body[1];
+        const topic = fromUtf8(body.subarray(2, 2 + topicLength));
+        let offset = 2 + topicLength;
+        if (qos > 0) {
+          const packetId = (body[offset] << 8) | body[offset + 1];
+          offset += 2;
+          this.write(packet(PUBACK << 4, [uint16(packetId)]));
+        }
+        this.handlers.onMessage?.({
+          topic,
+          payload: fromUtf8(body.subarray(offset)),
+          retain: (header & 0x01) === 1,
+        });
+        return;
+      }
+      case PUBACK:
+      case SUBACK:
+        this.settleAck((body[0] << 8) | body[1], header >> 4 === PUBACK || body[2] !== 0x80);
+        return;
+      case PINGRESP:
+        this.awaitingPong = false;
+        return;
+    }
+  }
+
+  private handleConnected() {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+    this.connected = true;
+    this.reconnectAttempts = 0;
+    this.lastError = undefined;
+    console.log('✅ MQTT: connected');
+
+    if (this.subscriptions.length > 0) {
+      this.sendSubscribe(this.subscriptions);
+    }
+    this.startPing();
+    this.handlers.onConnectionChange?.(true);
+  }
+
+  private handleClose() {
+    const wasConnected = this.connected;
+    const error = this.lastError;
+    this.teardown();
+
+    if (wasConnected) {
+      console.log('📡 MQTT: connection lost');
+    } else if (error) {
+      console.warn(`⚠️ MQTT: ${error}`);
+    }
+    this.handlers.onConnectionChange?.(false, error);
+
+    if (!this.stopped) {
+      const delay = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, this.reconnectAttempts), RECONNECT_MAX_DELAY);
+      this.reconnectAttempts++;
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.open();
+      }, delay);
+    }
+  }
+
+  private teardown() {
+    this.connected = false;
+    this.buffer = new Uint8Array(0);
+    this.awaitingPong = false;
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    this.acks.forEach(({ resolve, timer }) => {
+      clearTimeout(timer);
+      resolve(false);
+    });
+    this.acks.clear();
+
+    const ws = this.ws;
+    this.ws = null;
+    if (ws) {
+      ws.onopen = null;
+      ws.onmessage = null;
+      ws.onerror = null;
+      ws.onclose = null;
+      ws.close();
+    }
+  }
+
+  // The broker drops us after 1.5x keep-alive of silence; we give up after one missed PINGRESP
+  private startPing() {
+    const interval = (this.options.keepAlive ?? DEFAULT_KEEP_ALIVE) * 1000;
+    this.pingTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        this.lastError = 'Broker stopped answering';
+        this.ws?.close();
+        return;
+      }
+      this.awaitingPong = true;
+      this.write(packet(PINGREQ << 4, []));
+    }, interval);
+  }
+
+  private sendSubscribe(filters: string[]) {
+    const packetId = this.takePacketId();
+    this.write(packet((SUBSCRIBE << 4) | 0x02, [
+      uint16(packetId),
+      ...filters.map((filter) => concat([encodeString(filter), new Uint8Array([1])])),
+    ]));
+    this.awaitAck(packetId).then((ok) => {
+      if (!ok) console.warn(`⚠️ MQTT: broker refused subscription to ${filters.join(', ')}`);
+    });
+  }
+
+  private takePacketId() {
+    const id = this.nextPacketId;
+    this.nextPacketId = id >= 0xffff ? 1 : id + 1;
+    return id;
+  }
+
+  private awaitAck(packetId: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.settleAck(packetId, false), ACK_TIMEOUT);
+      this.acks.set(packetId, { resolve, timer });
+    });
+  }
+
+  private settleAck(packetId: number, ok: boolean) {
+    const ack = this.acks.get(packetId);
+    if (!ack) return;
+    clearTimeout(ack.timer);
+    this.acks.delete(packetId);
+    ack.resolve(ok);
+  }
+
+  private write(bytes: Uint8Array): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(bytes);
+    return true;
+  }
+}
+
+export default MqttClient;
@@ -4,8 +4,13 @@
 import { Vibration, Platform } from 'react-native';
 import { useSettingsStore } from '../store/useSettingsStore';
 import { useEventsStore } from '../store/useEventsStore';
-import { ElectricalData, EventType } from '../types';
+import { useDeviceStore } from '../store/useDeviceStore';
+import { useSessionStore } from '../store/useSessionStore';
+import { CurrentThreshold, ElectricalData, EventType, TripDetails } from '../types';
 import { showToast } from '../components/ui/ToastManager';
+import { DEFAULT_DEVICE_ID } from '../utils/constants';
+import { getThermalAccumulator, resolveTripCurve } from './tripCurve';
+import { getProtectionController } from './protectionController';
 
 // expo-notifications removed from Expo Go SDK 53+
 // Push notifications only work in production builds, not Expo Go
@@ -15,13 +20,22 @@ let notificationsAvailable = false;
 
 console.log('ℹ️ Using toast notifications (Expo Go doesn\'t support push notifications)');
 
+// Alerts for violations and outages - checkAndLogEvents logs those once per episode
+const EPISODE_ALERTS = new Set(['overvoltage', 'undervoltage', 'overcurrent', 'overfrequency', 'underfrequency', 'lowpowerfactor', 'outage', 'restore']);
+
+// The event every other alert logs; the phone's link and test alerts say nothing about the breaker itself
+const ALERT_EVENTS: Record<string, EventType | null> = {
+  offline: null,
+  online: null,
+  test: null,
+};
+
 class NotificationService {
   private notificationPermission: boolean = false;
+  // Alert bookkeeping is keyed "<deviceId>:<alertId>" so breakers never share cooldowns
   private activeAlerts: Set<string> = new Set();
   private lastNotificationTime: Map<string, number> = new Map();
   private NOTIFICATION_COOLDOWN = 30000; // 30 seconds between same alerts
-  private autoCutoffTime: number = 0; // Timestamp when automatic cutoff happened
-  private reconnectTimer: any = null; // Timer for auto-reconnect
 
   constructor() {
     this.initializeNotifications();
@@ -36,8 +50,8 @@ class NotificationService {
   }
 
   // Check thresholds and trigger alerts
-  public checkThresholdAlerts(data: ElectricalData): void {
-    const settings = useSettingsStore.getState().settings;
+  public checkThresholdAlerts(data: ElectricalData, deviceId: string = DEFAULT_DEVICE_ID): void {
+    const settings = useSettingsStore.getState().getSettingsForDevice(deviceId);
     const thresholds = settings.thresholds;
     const notifications = settings.notifications;
 
@@ -50,8 +64,8 @@ class NotificationService {
       voltageAction: thresholds.voltage.action
     });
 
-    // Check if we should auto-reconnect after cutoff
-    this.checkAutoReconnect(data, thresholds);
+    // Overcurrent follows the trip curve - the accumulator needs every sample, and a trip is a trip
+    this.checkOvercurrent(data, thresholds.current, notifications.thresholdBreach, deviceId);
 
     // Check voltage thresholds
     if (notifications.thresholdBreach) {
@@ -61,13 +75,14 @@ class NotificationService {
           'overvoltage',
           '⚠️ High Voltage Alert',
           `Voltage is ${data.voltage.toFixed(1)}V (Max: ${thresholds.voltage.max}V)`,
-          'danger'
+          'danger',
+          deviceId
         );
 
         // 🔥 CRITICAL: Check if we should cutoff power
         if (thresholds.voltage.action === 'cutoff' && data.relayState) {
           console.log('🚨 CUTOFF MODE: High voltage detected - turning OFF relay');
-          this.cutoffPower('High voltage protection triggered');
+          this.cutoffPower('High voltage protection triggered', deviceId);
         }
       }
 
@@ -77,29 +92,14 @@ class NotificationService {
           'undervoltage',
           '⚠️ Low Voltage Alert',
           `Voltage is ${data.voltage.toFixed(1)}V (Min: ${thresholds.voltage.min}V)`,
-          'warning'
+          'warning',
+          deviceId
         );
 
         // 🔥 CRITICAL: Check if we should cutoff power
         if (thresholds.voltage.action === 'cutoff' && data.relayState) {
           console.log('🚨 CUTOFF MODE: Low voltage detected - turning OFF relay');
-          this.cutoffPower('Low voltage protection triggered');
-        }
-      }
-
-      // Current overload alert
-      if (data.current > thresholds.current.max) {
-        this.triggerAlert(
-          'overcurrent',
-          '🔥 Overload Alert',
-          `Current is ${data.current.toFixed(2)}A (Max: ${thresholds.current.max}A)`,
-          'danger'
-        );
-
-        // 🔥 CRITICAL: Always cutoff on overcurrent (safety)
-        if (data.relayState) {
-          console.log('🚨 CUTOFF MODE: Overcurrent detected - turning OFF relay');
-          this.cutoffPower('Overcurrent protection triggered');
+          this.cutoffPower('Low voltage protection triggered', deviceId);
         }
       }
 
@@ -110,7 +110,8 @@ class NotificationService {
             'overfrequency',
             '📊 High Frequency Alert',
             `Frequency is ${data.frequency.toFixed(1)}Hz (Max: ${thresholds.frequency.max}Hz)`,
-            'warning'
+            'warning',
+            deviceId
           );
         }
 
@@ -119,7 +120,8 @@ class NotificationService {
             'underfrequency',
             '📊 Low Frequency Alert',
             `Frequency is ${data.frequency.toFixed(1)}Hz (Min: ${thresholds.frequency.min}Hz)`,
-            'warning'
+            'warning',
+            deviceId
           );
         }
       }
@@ -130,59 +132,77 @@ class NotificationService {
           'lowpowerfactor',
           '⚠️ Low Power Factor Alert',
           `Power factor is ${data.powerFactor.toFixed(2)} (Min: ${thresholds.powerFactor.min})`,
-          'warning'
+          'warning',
+          deviceId
         );
 
         // 🔥 CRITICAL: Cutoff power when power factor falls below threshold
         if (data.relayState) {
           console.log('🚨 CUTOFF MODE: Low power factor detected - turning OFF relay');
-          this.cutoffPower('Low power factor protection triggered');
+          this.cutoffPower('Low power factor protection triggered', deviceId);
         }
       }
     }
 
     // Power outage/restore detection
-    if (data.voltage < 100 && !this.activeAlerts.has('outage')) {
+    if (data.voltage < 100 && !this.activeAlerts.has(this.alertKey(deviceId, 'outage'))) {
       if (notifications.powerOutage) {
         this.triggerAlert(
           'outage',
           '🔌 Power Outage',
           'Power supply has been interrupted',
-          'danger'
+          'danger',
+          deviceId
         );
       }
-    } else if (data.voltage > 180 && this.activeAlerts.has('outage')) {
+    } else if (data.voltage > 180 && this.activeAlerts.has(this.alertKey(deviceId, 'outage'))) {
       if (notifications.powerRestore) {
-        this.clearAlert('outage');
+        this.clearAlert('outage', deviceId);
         this.triggerAlert(
           'restore',
           '✅ Power Restored',
           'Power supply has been restored',
-          'success'
+          'success',
+          deviceId
         );
       }
     }
   }
 
+  // Key for per-device alert bookkeeping
+  private alertKey(deviceId: string, alertId: string): string {
+    return `${deviceId}:${alertId}`;
+  }
+
+  // Prefix titles with the breaker name once more than one is linked
+  private withDeviceName(title: string, deviceId: string): string {
+    const { devices, getDevice } = useDeviceStore.getState();
+    const device = getDevice(deviceId);
+    return devices.length > 1 && device ? `${device.name} · ${title}` : title;
+  }
+
   // Trigger an alert
   private triggerAlert(
     alertId: string,
     title: string,
     message: string,
-    severity: 'info' | 'warning' | 'danger' | 'success'
+    severity: 'info' | 'warning' | 'danger' | 'success',
+    deviceId: string = DEFAULT_DEVICE_ID
   ): void {
     // Check cooldown
-    const lastTime = this.lastNotificationTime.get(alertId);
+    const key = this.alertKey(deviceId, alertId);
+    const lastTime = this.lastNotificationTime.get(key);
     const now = Date.now();
 
     if (lastTime && (now - lastTime) < this.NOTIFICATION_COOLDOWN) {
-      console.log(`⏳ Alert ${alertId} on cooldown, skipping`);
+      console.log(`⏳ Alert ${key} on cooldown, skipping`);
       return;
     }
 
     // Add to active alerts
-    this.activeAlerts.add(alertId);
-    this.lastNotificationTime.set(alertId, now);
+    this.activeAlerts.add(key);
+    this.lastNotificationTime.set(key, now);
+    title = this.withDeviceName(title, deviceId);
 
     console.log(`🚨 ALERT TRIGGERED: ${title} - ${message}`);
 
@@ -200,40 +220,34 @@ class NotificationService {
     const toastType = this.mapSeverityToToastType(severity);
     showToast[toastType](message, title);
 
-    // Log event
-    const eventsStore = useEventsStore.getState();
-    eventsStore.addEvent({
-      id: `alert-${alertId}-${now}`,
-      type: this.mapAlertToEventType(alertId),
-      timestamp: now,
-      description: `${title}: ${message}`,
-      readings: undefined,
-    });
+    // Log event - unless the events store already logs it as an episode
+    const type = this.mapAlertToEventType(alertId);
+    if (type) {
+      useEventsStore.getState().addEvent({
+        id: `alert-${deviceId}-${alertId}-${now}`,
+        type,
+        timestamp: now,
+        description: `${title}: ${message}`,
+        readings: undefined,
+        deviceId,
+      });
+    }
   }
 
   // Note: Push notifications not available in Expo Go
   // Toast notifications are used instead and work perfectly!
 
   // Clear an active alert
-  private clearAlert(alertId: string): void {
-    this.activeAlerts.delete(alertId);
-    console.log(`✅ Alert cleared: ${alertId}`);
+  private clearAlert(alertId: string, deviceId: string = DEFAULT_DEVICE_ID): void {
+    const key = this.alertKey(deviceId, alertId);
+    this.activeAlerts.delete(key);
+    console.log(`✅ Alert cleared: ${key}`);
   }
 
-  // Map alert ID to event type
-  private mapAlertToEventType(alertId: string): EventType {
-    const mapping: Record<string, EventType> = {
-      'overvoltage': 'overvoltage',
-      'undervoltage': 'undervoltage',
-      'overcurrent': 'overload',
-      'overfrequency': 'frequency_max',
-      'underfrequency': 'frequency_min',
-      'lowpowerfactor': 'power_factor_min', // Low power factor event
-      'outage': 'outage',
-      'restore': 'restore',
-    };
-
-    return mapping[alertId] || 'manual_off';
+  // Map alert ID to event type - null when the alert logs no event of its own
+  private mapAlertToEventType(alertId: string): EventType | null {
+    if (EPISODE_ALERTS.has(alertId)) return null;
+    return ALERT_EVENTS[alertId] ?? null;
   }
 
   // Map severity to toast type
@@ -255,195 +269,129 @@ class NotificationService {
     );
   }
 
+  // Heat the breaker's trip curve with a sample; warn while it heats and cut off when it trips
+  private checkOvercurrent(data: ElectricalData, threshold: CurrentThreshold, alert: boolean, deviceId: string): void {
+    const curve = resolveTripCurve(threshold);
+    const state = getThermalAccumulator().update(deviceId, data.current, threshold.max, curve);
+
+    if (alert && state.secondsToTrip !== null) {
+      this.triggerAlert(
+        'overcurrent',
+        '🔥 Overload Alert',
+        state.trip
+          ? `Current is ${data.current.toFixed(2)}A (Max: ${threshold.max}A) - tripping`
+          : `Current is ${data.current.toFixed(2)}A (Max: ${threshold.max}A) - trips in ~${Math.ceil(state.secondsToTrip)}s`,
+        'danger',
+        deviceId
+      );
+    }
+
+    if (state.trip && data.relayState) {
+      console.log(`🚨 CUTOFF MODE: ${state.trip} overcurrent trip on the ${curve.type} curve - turning OFF relay`);
+      this.cutoffPower(`Overcurrent protection triggered (${state.trip} trip, ${curve.type} curve)`, deviceId, {
+        curve: curve.type,
+        kind: state.trip,
+        heat: state.heat,
+        current: data.current,
+        pickup: threshold.max,
+      });
+    }
+  }
+
   // Cut off power (turn relay OFF) for safety
-  private cutoffPower(reason: string): void {
-    console.log('🚨 CUTOFF POWER:', reason);
+  private cutoffPower(reason: string, deviceId: string = DEFAULT_DEVICE_ID, trip?: TripDetails): void {
+    console.log(`🚨 CUTOFF POWER (${deviceId}):`, reason);
 
     // Prevent multiple cutoff calls within cooldown
-    if (this.activeAlerts.has('cutoff')) {
+    const cutoffKey = this.alertKey(deviceId, 'cutoff');
+    if (this.activeAlerts.has(cutoffKey)) {
       console.log('⏳ Cutoff already in progress, skipping');
       return;
     }
 
-    this.activeAlerts.add('cutoff');
+    this.activeAlerts.add(cutoffKey);
 
     // Import and call the relay control - use dynamic import to avoid circular dependency
     import('../store/useElectricalStore').then(({ useElectricalStore }) => {
       const store = useElectricalStore.getState();
+      const deviceData = store.devices[deviceId]?.data;
 
       // Only turn off if relay is currently on
-      if (store.data?.relayState) {
-        console.log('🔌 Calling toggleRelay to turn OFF power');
-        store.toggleRelay();
-
-        // Mark the time when automatic cutoff happened
-        this.autoCutoffTime = Date.now();
-        console.log(`⏰ Auto-cutoff at ${new Date(this.autoCutoffTime).toLocaleTimeString()}`);
-
-        // Schedule auto-reconnect check
-        this.scheduleAutoReconnect();
-
-        // Log the cutoff event
-        const eventsStore = useEventsStore.getState();
-        eventsStore.addEvent({
-          id: `cutoff-${Date.now()}`,
-          type: 'auto_off',
-          timestamp: Date.now(),
-          description: `⚠️ Automatic Power Cutoff: ${reason}`,
-          readings: store.data || undefined,
-        });
-
-        // Show critical toast notification
-        showToast.error('Power has been automatically disconnected for safety', '🚨 Safety Cutoff');
+      if (deviceData?.relayState) {
+        // Replayed readings must never switch the real breaker - the replay notes the cutoff as suppressed
+        const replay = useSessionStore.getState().replay;
+        if (replay.status === 'playing' && replay.deviceId === deviceId) {
+          console.log(`🚫 Session replay - cutoff for ${deviceId} suppressed`);
+          store.setRelayState(false, deviceId).finally(() => this.activeAlerts.delete(cutoffKey));
+          return;
+        }
 
-        console.log('✅ Power cutoff complete');
+        console.log('🔌 Commanding relay OFF');
+        store.setRelayState(false, deviceId).then((command) => {
+          // The cutoff only counts once a status frame shows the relay OFF
+          if (command?.status !== 'confirmed') {
+            console.error(`❌ Safety cutoff not confirmed: ${command?.error ?? 'device not connected'}`);
+            showToast.error(
+              'The breaker did not confirm the cutoff - check it manually',
+              this.withDeviceName('🚨 Safety Cutoff Failed', deviceId)
+            );
+            return;
+          }
+
+          // The protection controller decides if and when power comes back
+          getProtectionController().trip(deviceId, reason);
+
+          // Log the cutoff event
+          const eventsStore = useEventsStore.getState();
+          eventsStore.addEvent({
+            id: `cutoff-${deviceId}-${Date.now()}`,
+            type: 'auto_off',
+            timestamp: Date.now(),
+            description: `⚠️ Automatic Power Cutoff: ${reason}`,
+            readings: deviceData,
+            deviceId,
+            ...(trip && { trip }),
+          });
+
+          // Show critical toast notification
+          showToast.error('Power has been automatically disconnected for safety', this.withDeviceName('🚨 Safety Cutoff', deviceId));
+
+          console.log('✅ Power cutoff complete');
+        }).finally(() => {
+          // Hold the cutoff flag until the command settles so retries aren't doubled up
+          this.activeAlerts.delete(cutoffKey);
+        });
       } else {
         console.log('ℹ️ Relay already OFF, no action needed');
-      }
-
-      // Clear cutoff flag after 5 seconds
-      setTimeout(() => {
-        this.activeAlerts.delete('cutoff');
-      }, 5000);
-    });
-  }
-
-  // Schedule auto-reconnect after delay
-  private scheduleAutoReconnect(): void {
-    const settings = useSettingsStore.getState().settings;
-
-    if (!settings.reconnection.enabled) {
-      console.log('ℹ️ Auto-reconnect is disabled in settings');
-      return;
-    }
-
-    const delayMs = settings.reconnection.delay * 1000; // Convert seconds to milliseconds
-
-    // Clear any existing timer
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-    }
-
-    console.log(`⏰ Auto-reconnect scheduled in ${settings.reconnection.delay} seconds`);
-
-    // Set timer for auto-reconnect
-    this.reconnectTimer = setTimeout(() => {
-      console.log('⏰ Auto-reconnect timer expired, checking conditions...');
-      this.attemptAutoReconnect();
-    }, delayMs);
-  }
-
-  // Check if conditions are safe for auto-reconnect
-  private checkAutoReconnect(data: ElectricalData, thresholds: any): void {
-    // Only check if relay is OFF and we had an automatic cutoff
-    if (data.relayState || this.autoCutoffTime === 0) {
-      return;
-    }
-
-    const settings = useSettingsStore.getState().settings;
-    if (!settings.reconnection.enabled) {
-      return;
-    }
-
-    const timeSinceCutoff = Date.now() - this.autoCutoffTime;
-    const delayMs = settings.reconnection.delay * 1000;
 
-    // Check if enough time has passed
-    if (timeSinceCutoff >= delayMs) {
-      // Check if all conditions are safe
-      const isSafe = this.areConditionsSafe(data, thresholds);
-
-      if (isSafe) {
-        console.log('✅ Conditions are safe, attempting auto-reconnect...');
-        this.attemptAutoReconnect();
-      } else {
-        console.log('⚠️ Conditions still unsafe, delaying reconnect');
-      }
-    }
-  }
-
-  // Check if all electrical conditions are safe
-  private areConditionsSafe(data: ElectricalData, thresholds: any): boolean {
-    const voltageOK = data.voltage >= thresholds.voltage.min && data.voltage <= thresholds.voltage.max;
-    const currentOK = data.current <= thresholds.current.max;
-    const frequencyOK = !thresholds.frequency.enabled ||
-                        (data.frequency >= thresholds.frequency.min && data.frequency <= thresholds.frequency.max);
-
-    // Power factor safety check:
-    // - IGNORE if current is very low (< 0.5A) - no load means PF is meaningless
-    // - Otherwise: Safe when ABOVE threshold (protection triggers when < threshold)
-    const powerFactorOK = !thresholds.powerFactor.enabled ||
-                          data.current < 0.5 ||  // 🔥 KEY: Ignore PF when no load!
-                          (data.powerFactor >= thresholds.powerFactor.min);
-
-    console.log('🔍 Safety check:', {
-      voltage: `${voltageOK ? '✅' : '❌'} (${data.voltage}V, min:${thresholds.voltage.min}, max:${thresholds.voltage.max})`,
-      current: `${currentOK ? '✅' : '❌'} (${data.current}A, max:${thresholds.current.max})`,
-      frequency: `${frequencyOK ? '✅' : '❌'} (${data.frequency}Hz)`,
-      powerFactor: `${powerFactorOK ? '✅' : '❌'} (${data.powerFactor}, threshold:${thresholds.powerFactor.min}, current:${data.current}A)`
-    });
-
-    return voltageOK && currentOK && frequencyOK && powerFactorOK;
-  }
-
-  // Attempt to automatically reconnect power
-  private attemptAutoReconnect(): void {
-    console.log('🔌 Attempting automatic reconnection...');
-
-    // Check if auto-reconnect is enabled
-    const settings = useSettingsStore.getState().settings;
-    if (!settings.reconnection.enabled) {
-      console.log('ℹ️ Auto-reconnect is disabled, manual reset required');
-      return;
-    }
-
-    import('../store/useElectricalStore').then(({ useElectricalStore }) => {
-      const store = useElectricalStore.getState();
-
-      // Only reconnect if relay is OFF
-      if (!store.data?.relayState) {
-        console.log('✅ Turning relay ON (auto-reconnect)');
-        store.toggleRelay();
-
-        // Reset cutoff time
-        this.autoCutoffTime = 0;
-
-        // Log the reconnect event
-        const eventsStore = useEventsStore.getState();
-        eventsStore.addEvent({
-          id: `reconnect-${Date.now()}`,
-          type: 'auto_on',
-          timestamp: Date.now(),
-          description: '✅ Automatic Reconnection: Conditions are safe',
-          readings: store.data || undefined,
-        });
-
-        // Show success notification
-        showToast.success('Power has been automatically restored', '✅ Auto-Reconnect');
-
-        console.log('✅ Auto-reconnect complete');
+        // Clear cutoff flag after 5 seconds
+        setTimeout(() => {
+          this.activeAlerts.delete(cutoffKey);
+        }, 5000);
       }
     });
   }
 
   // Check device offline
-  public checkDeviceOffline(isConnected: boolean): void {
-    const settings = useSettingsStore.getState().settings.notifications;
+  public checkDeviceOffline(isConnected: boolean, deviceId: string = DEFAULT_DEVICE_ID): void {
+    const settings = useSettingsStore.getState().getSettingsForDevice(deviceId).notifications;
 
-    if (!isConnected && settings.deviceOffline && !this.activeAlerts.has('offline')) {
+    if (!isConnected && settings.deviceOffline && !this.activeAlerts.has(this.alertKey(deviceId, 'offline'))) {
       this.triggerAlert(
         'offline',
         '📡 Device Offline',
         'Connection to ESP32 has been lost',
-        'warning'
+        'warning',
+        deviceId
       );
-    } else if (isConnected && this.activeAlerts.has('offline')) {
-      this.clearAlert('offline');
+    } else if (isConnected && this.activeAlerts.has(this.alertKey(deviceId, 'offline'))) {
+      this.clearAlert('offline', deviceId);
       this.triggerAlert(
         'online',
         '✅ Device Online',
         'Connection to ESP32 restored',
-        'success'
+        'success',
+        deviceId
       );
     }
   }
@@ -453,10 +401,14 @@ class NotificationService {
 export const notificationService = new NotificationService();
 
 // Helper function to check all alerts
-export const checkAllAlerts = (data: ElectricalData, isConnected: boolean): void => {
+export const checkAllAlerts = (
+  data: ElectricalData,
+  isConnected: boolean,
+  deviceId: string = DEFAULT_DEVICE_ID
+): void => {
   console.log('🔔 Running alert checks...');
-  notificationService.checkThresholdAlerts(data);
-  notificationService.checkDeviceOffline(isConnected);
+  notificationService.checkThresholdAlerts(data, deviceId);
+  notificationService.checkDeviceOffline(isConnected, deviceId);
 };
 
 // Export test function
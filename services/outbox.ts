@@ -0,0 +1,118 @@
+// Outbox Service - settings, schedule and clock writes replayed once a breaker is reachable
+//
+// A write that cannot reach its breaker waits in a persisted outbox, one entry per
+// breaker and kind, so a newer edit supersedes an older one instead of queueing behind
+// it. Entries are replayed oldest first when the breaker reconnects and stay in the
+// outbox, shown as "pending sync", until the breaker acknowledges them.
+
+import { OutboxEntry, OutboxKind, SyncedSettingField } from '../types';
+import { getDeviceApi } from './esp32Api';
+import { getSettingsSync } from './settingsSync';
+import { getClockSync } from './clockSync';
+import { useOutboxStore } from '../store/useOutboxStore';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useSettingsSyncStore } from '../store/useSettingsSyncStore';
+
+export class OutboxService {
+  private flushing = new Map<string, Promise<void>>();
+
+  enqueue(deviceId: string, kind: OutboxKind, fields?: SyncedSettingField[]) {
+    if (fields && fields.length === 0) return;
+    useOutboxStore.getState().enqueue(deviceId, kind, fields);
+  }
+
+  // The breaker confirmed this kind of write some other way
+  acknowledge(deviceId: string, kind: OutboxKind) {
+    useOutboxStore.getState().acknowledge(deviceId, kind);
+  }
+
+  // Replay a breaker's pending writes in order, stopping at the first one it does not take.
+  // A flush already running picks up anything enqueued meanwhile.
+  flush(deviceId: string): Promise<void> {
+    const running = this.flushing.get(deviceId);
+    if (running) return running;
+
+    const flush = this.run(deviceId).finally(() => this.flushing.delete(deviceId));
+    this.flushing.set(deviceId, flush);
+    return flush;
+  }
+
+  private async run(deviceId: string) {
+    for (;;) {
+      const entry = useOutboxStore.getState().getEntries(deviceId)[0];
+      if (!entry) return;
+
+      let error: string | null;
+      try {
+        error = await this.replay(entry);
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+
+      const latest = useOutboxStore.getState().entries.find((item) => item.id === entry.id);
+      if (!latest) continue;   // Acknowledged by the replay itself (clock sync does this)
+
+      if (error) {
+        useOutboxStore.getState().updateEntry(entry.id, { attempts: latest.attempts + 1, lastError: error });
+        console.warn(`📮 ${deviceId} ${entry.kind} write still pending: ${error}`);
+        return;
+      }
+
+      // Superseded while it was in flight - the newer write goes out on the next pass
+      if (latest.revision !== entry.revision) continue;
+
+      useOutboxStore.getState().acknowledge(deviceId, entry.kind);
+      console.log(`📮 ${deviceId} ${entry.kind} write acknowledged`);
+    }
+  }
+
+  // Send one entry; returns an error, or null once the breaker has it
+  private async replay(entry: OutboxEntry): Promise<string | null> {
+    switch (entry.kind) {
+      case 'settings': {
+        const status = await getSettingsSync().sync(entry.deviceId);
+        const sync = useSettingsSyncStore.getState().getSync(entry.deviceId);
+        if (status === 'error') return sync.lastError ?? 'Settings sync failed';
+
+        // Conflicting fields wait for the user on the sync screen rather than in the outbox
+        const conflicting = sync.conflicts.map((conflict) => conflict.field);
+        const remaining = (entry.fields ?? []).filter(
+          (field) => sync.dirty.includes(field) && !conflicting.includes(field)
+        );
+        return remaining.length > 0 ? `Breaker has not confirmed ${remaining.join(', ')}` : null;
+      }
+
+      case 'schedules': {
+        const { enabled, schedules } = useSettingsStore.getState().getSettingsForDevice(entry.deviceId).schedule;
+        // Firmware numbers its slots; the app keys schedules by string ID
+        const accepted = await getDeviceApi(entry.deviceId).updateSchedules({
+          schedules: schedules.map((schedule, index) => ({
+            id: index,
+            enabled: enabled && schedule.enabled,
+            onTime: schedule.onTime,
+            offTime: schedule.offTime,
+            days: schedule.days,
+          })),
+        });
+        return accepted.ok ? null : 'Breaker did not accept the schedules';
+      }
+
+      case 'time': {
+        const synced = await getClockSync().sync(entry.deviceId);
+        return synced ? null : 'Breaker did not accept the time';
+      }
+    }
+  }
+}
+
+// Singleton instance
+let outboxInstance: OutboxService | null = null;
+
+export const getOutbox = (): OutboxService => {
+  if (!outboxInstance) {
+    outboxInstance = new OutboxService();
+  }
+  return outboxInstance;
+};
+
+export default OutboxService;
@@ -0,0 +1,85 @@
+// Pairing Service - exchange a per-phone secret with a breaker and manage paired phones
+//
+// The breaker only hands out a secret while its pairing window is open (hold the
+// button for 3 s until the LED blinks). From then on every command from this phone
+// is signed with it; revoking a phone deletes its secret on the breaker.
+
+import * as ExpoDevice from 'expo-device';
+import { DeviceCredentials, PairedClientPayload } from '../types';
+import { getDeviceApi } from './esp32Api';
+import { getDeviceWebSocket } from './esp32WebSocket';
+import { useAuthStore } from '../store/useAuthStore';
+
+export type PairingFailure = 'closed' | 'unreachable' | 'invalid';
+
+export type PairResult = { ok: true } | { ok: false; reason: PairingFailure };
+
+const phoneName = () => ExpoDevice.deviceName ?? ExpoDevice.modelName ?? 'Phone';
+
+export class PairingService {
+  // Hand the stored secret (or none) to the device's HTTP and WebSocket clients
+  applyCredentials(deviceId: string) {
+    const credentials: DeviceCredentials | null = useAuthStore.getState().getCredentials(deviceId) ?? null;
+    getDeviceApi(deviceId).setCredentials(credentials);
+    getDeviceWebSocket(deviceId).setCredentials(credentials);
+  }
+
+  async pair(deviceId: string): Promise<PairResult> {
+    const auth = useAuthStore.getState();
+    const result = await getDeviceApi(deviceId).pair(auth.clientId, phoneName());
+
+    if (!result.ok) {
+      console.warn(`🔐 Pairing with ${deviceId} failed: ${result.reason}`);
+      return result;
+    }
+
+    auth.saveCredentials(deviceId, {
+      clientId: result.pairing.clientId,
+      secret: result.pairing.secret,
+      pairedAt: Date.now(),
+    });
+    this.applyCredentials(deviceId);
+
+    console.log(`🔐 Paired with ${deviceId} as ${result.pairing.clientId}`);
+    return { ok: true };
+  }
+
+  isThisPhone(deviceId: string, clientId: string): boolean {
+    return useAuthStore.getState().getCredentials(deviceId)?.clientId === clientId;
+  }
+
+  async listPhones(deviceId: string): Promise<PairedClientPayload[] | null> {
+    const result = await getDeviceApi(deviceId).getPairedClients();
+    return result.ok ? result.value.clients : null;
+  }
+
+  // Revoking this phone also drops its local secret
+  async revoke(deviceId: string, clientId: string): Promise<boolean> {
+    const revoked = await getDeviceApi(deviceId).revokeClient(clientId);
+    if (!revoked.ok) return false;
+
+    if (this.isThisPhone(deviceId, clientId)) {
+      this.forget(deviceId);
+      useAuthStore.getState().setStatus(deviceId, 'pairing_required');
+    }
+    return true;
+  }
+
+  // Drop the local secret; the breaker keeps its entry until revoked there
+  forget(deviceId: string) {
+    useAuthStore.getState().forgetCredentials(deviceId);
+    this.applyCredentials(deviceId);
+  }
+}
+
+// Singleton instance
+let pairingInstance: PairingService | null = null;
+
+export const getPairingService = (): PairingService => {
+  if (!pairingInstance) {
+    pairingInstance = new PairingService();
+  }
+  return pairingInstance;
+};
+
+export default PairingService;
@@ -0,0 +1,173 @@
+// Polling Scheduler - how often each breaker is polled while its WebSocket is down
+//
+// Fast around relay commands, active protection and readings close to a threshold;
+// slower when the relay is off or readings are flat, when no screen shows live
+// readings, and slowest with the app in the background. ESP32ApiService asks for the
+// next delay after every answer, so a slow request never overlaps the next one.
+
+import { AppState, AppStateStatus } from 'react-native';
+import { ElectricalData } from '../types';
+import { useSettingsStore } from '../store/useSettingsStore';
+
+export type PollingMode = 'fast' | 'normal' | 'stable' | 'idle' | 'background';
+
+const INTERVALS: Record<PollingMode, number> = {
+  fast: 500,
+  normal: 1000,
+  stable: 3000,
+  idle: 5000,
+  background: 15000,
+};
+
+const BOOST_DURATION = 15000;       // Covers every attempt of a relay command
+const STABLE_SAMPLES = 5;           // Readings that must agree before the rate drops
+const STABLE_POWER_DELTA = 0.02;    // ±2% ...
+const STABLE_POWER_FLOOR = 5;       // ... or ±5 W at low loads
+const STABLE_VOLTAGE_DELTA = 2;     // V
+const VOLTAGE_MARGIN = 0.03;        // Within 3% of a voltage limit
+const CURRENT_MARGIN = 0.9;         // Above 90% of the current limit
+const FREQUENCY_MARGIN = 0.2;       // Hz
+
+// Screens that show live readings - elsewhere polling only has to keep state fresh
+const LIVE_SCREENS = ['/'];
+
+interface DeviceActivity {
+  recent: ElectricalData[];
+  boostUntil: number;
+  mode: PollingMode | null;
+}
+
+export class PollingScheduler {
+  private activity = new Map<string, DeviceActivity>();
+  private watchers = new Map<string, () => void>();
+  private appActive: boolean = AppState.currentState === 'active';
+  private screen: string = '/';
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  // Follow the app going to and coming back from the background
+  start() {
+    if (this.appStateSubscription) return;
+    this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+      const active = state === 'active';
+      if (active !== this.appActive) {
+        this.appActive = active;
+        this.notifyAll();
+      }
+    });
+  }
+
+  stop() {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+  }
+
+  // Current route, from the tab layout
+  setScreen(screen: string) {
+    if (screen === this.screen) return;
+    this.screen = screen;
+    this.notifyAll();
+  }
+
+  // Poll quickly for a while - a relay command is waiting for its confirming frame
+  boost(deviceId: string, durationMs: number = BOOST_DURATION) {
+    this.getActivity(deviceId).boostUntil = Date.now() + durationMs;
+    this.watchers.get(deviceId)?.();
+  }
+
+  noteReading(deviceId: string, data: ElectricalData) {
+    const activity = this.getActivity(deviceId);
+    activity.recent = [...activity.recent, data].slice(-STABLE_SAMPLES);
+  }
+
+  // Told when the device's rate may have changed outside a poll (boost, app or screen change)
+  watch(deviceId: string, listener: () => void): () => void {
+    this.watchers.set(deviceId, listener);
+    return () => {
+      if (this.watchers.get(deviceId) === listener) {
+        this.watchers.delete(deviceId);
+      }
+    };
+  }
+
+  forget(deviceId: string) {
+    this.activity.delete(deviceId);
+    this.watchers.delete(deviceId);
+  }
+
+  getMode(deviceId: string): PollingMode {
+    const activity = this.getActivity(deviceId);
+    const latest = activity.recent[activity.recent.length - 1];
+    const urgent =
+      Date.now() < activity.boostUntil ||
+      (latest !== undefined && (latest.protectionTriggered || latest.reconnectionPending || this.nearThreshold(deviceId, latest)));
+
+    if (!this.appActive) return urgent ? 'normal' : 'background';
+    if (urgent) return 'fast';
+    if (!LIVE_SCREENS.includes(this.screen)) return 'idle';
+    if (latest && (!latest.relayState || this.isStable(activity.recent))) return 'stable';
+    return 'normal';
+  }
+
+  // Delay before the next poll of this device
+  getInterval(deviceId: string): number {
+    const mode = this.getMode(deviceId);
+    const activity = this.getActivity(deviceId);
+    if (mode !== activity.mode) {
+      console.log(`⏱️ Polling ${deviceId}: ${mode} (${INTERVALS[mode]} ms)`);
+      activity.mode = mode;
+    }
+    return INTERVALS[mode];
+  }
+
+  private nearThreshold(deviceId: string, data: ElectricalData): boolean {
+    const { voltage, current, frequency } = useSettingsStore.getState().getSettingsForDevice(deviceId).thresholds;
+
+    if (data.voltage > 0) {
+      if (data.voltage >= voltage.max * (1 - VOLTAGE_MARGIN)) return true;
+      if (data.voltage <= voltage.min * (1 + VOLTAGE_MARGIN)) return true;
+    }
+    if (current.max > 0 && data.current >= current.max * CURRENT_MARGIN) return true;
+    if (frequency.enabled && data.frequency > 0) {
+      if (data.frequency >= frequency.max - FREQUENCY_MARGIN) return true;
+      if (data.frequency <= frequency.min + FREQUENCY_MARGIN) return true;
+    }
+    return false;
+  }
+
+  private isStable(recent: ElectricalData[]): boolean {
+    if (recent.length < STABLE_SAMPLES) return false;
+
+    const powers = recent.map((reading) => reading.power);
+    const voltages = recent.map((reading) => reading.voltage);
+    const powerSpread = Math.max(...powers) - Math.min(...powers);
+    const voltageSpread = Math.max(...voltages) - Math.min(...voltages);
+    const powerTolerance = Math.max(Math.max(...powers) * STABLE_POWER_DELTA, STABLE_POWER_FLOOR);
+
+    return powerSpread <= powerTolerance && voltageSpread <= STABLE_VOLTAGE_DELTA;
+  }
+
+  private notifyAll() {
+    this.watchers.forEach((listener) => listener());
+  }
+
+  private getActivity(deviceId: string): DeviceActivity {
+    let activity = this.activity.get(deviceId);
+    if (!activity) {
+      activity = { recent: [], boostUntil: 0, mode: null };
+      this.activity.set(deviceId, activity);
+    }
+    return activity;
+  }
+}
+
+// Singleton instance
+let pollingSchedulerInstance: PollingScheduler | null = null;
+
+export const getPollingScheduler = (): PollingScheduler => {
+  if (!pollingSchedulerInstance) {
+    pollingSchedulerInstance = new PollingScheduler();
+  }
+  return pollingSchedulerInstance;
+};
+
+export default PollingScheduler;
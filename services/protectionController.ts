@@ -0,0 +1,237 @@
+// Protection Controller - the one place that decides when a breaker may switch itself back on
+//
+// Each breaker is in one of five states:
+//   armed              - protecting; a violation, a supply loss or the breaker's own protection trips it
+//   tripped            - power is off and conditions are not safe yet
+//   waiting_for_stable - conditions are safe; they have to stay safe for the reconnection delay
+//   reconnecting       - a confirmed relay-ON command is on its way
+//   locked_out         - out of attempts or auto-reconnect is off; only a manual switch-on re-arms
+// A relay that comes back on while conditions are safe re-arms from any state but reconnecting,
+// whoever switched it. While the breaker reports protectionTriggered or reconnectionPending its
+// firmware owns the reconnect (autoReconnectEnabled), and the app never sends a command of its own.
+// Timing is measured between readings, so it is as precise as the current polling rate.
+
+import { ElectricalData, ProtectionState, ProtectionStatus, ProtectionTransition, RelayCommand, Thresholds } from '../types';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useEventsStore } from '../store/useEventsStore';
+import { useSessionStore } from '../store/useSessionStore';
+import { useDeviceStore } from '../store/useDeviceStore';
+import { showToast } from '../components/ui/ToastManager';
+import { getThermalAccumulator, RECLOSE_HEAT } from './tripCurve';
+
+const OUTAGE_VOLTAGE = 100;              // V - below this the supply is gone
+const ATTEMPTS_RESET_TIME = 10 * 60000;  // Armed this long and a reconnect counts as having held
+const MAX_TRANSITIONS = 50;              // Kept per device
+
+// Whether a reading is safe to switch back on into; heat is the trip curve's accumulated heat
+export const conditionsSafe = (data: ElectricalData, thresholds: Thresholds, heat: number): boolean => {
+  const voltageOK = data.voltage >= thresholds.voltage.min && data.voltage <= thresholds.voltage.max;
+  // A tripped curve has to cool off before the breaker may close again
+  const currentOK = data.current <= thresholds.current.max && heat < RECLOSE_HEAT;
+  const frequencyOK = !thresholds.frequency.enabled ||
+                      (data.frequency >= thresholds.frequency.min && data.frequency <= thresholds.frequency.max);
+  // Power factor means nothing without a load
+  const powerFactorOK = !thresholds.powerFactor.enabled ||
+                        data.current < 0.5 ||
+                        data.powerFactor >= thresholds.powerFactor.min;
+
+  return voltageOK && currentOK && frequencyOK && powerFactorOK;
+};
+
+const ARMED: ProtectionStatus = { state: 'armed', since: 0, reason: 'Armed', attempts: 0 };
+
+export class ProtectionController {
+  private statuses = new Map<string, ProtectionStatus>();
+  private transitions = new Map<string, ProtectionTransition[]>();
+  private lastReadings = new Map<string, ElectricalData>();
+  private onChange?: (deviceId: string, status: ProtectionStatus) => void;
+  private switchRelay?: (deviceId: string, state: boolean) => Promise<RelayCommand | null>;
+
+  // Called on every transition
+  setChangeHandler(handler: (deviceId: string, status: ProtectionStatus) => void) {
+    this.onChange = handler;
+  }
+
+  // How a reconnect reaches the relay - the electrical store hands in its confirmed setRelayState
+  setRelaySwitch(handler: (deviceId: string, state: boolean) => Promise<RelayCommand | null>) {
+    this.switchRelay = handler;
+  }
+
+  getStatus(deviceId: string): ProtectionStatus {
+    return this.statuses.get(deviceId) ?? ARMED;
+  }
+
+  // Newest first
+  getTransitions(deviceId: string): ProtectionTransition[] {
+    return this.transitions.get(deviceId) ?? [];
+  }
+
+  // Power is off for a reason - the app's cutoff, the breaker's own protection or a supply loss
+  trip(deviceId: string, reason: string, now: number = Date.now()) {
+    const status = this.getStatus(deviceId);
+    if (status.state === 'tripped' || status.state === 'locked_out') return;
+
+    // A reconnect that held long enough no longer counts against the next one
+    const attempts = status.state === 'armed' && now - status.since >= ATTEMPTS_RESET_TIME ? 0 : status.attempts;
+    const reconnection = useSettingsStore.getState().getSettingsForDevice(deviceId).reconnection;
+
+    if (!reconnection.enabled) {
+      this.transition(deviceId, 'locked_out', `${reason} - auto-reconnect is off`, now, attempts);
+    } else if (attempts >= reconnection.maxAttempts) {
+      this.lockOut(deviceId, `${reason} - ${attempts} reconnects did not hold`, now, attempts);
+    } else {
+      this.transition(deviceId, 'tripped', reason, now, attempts);
+    }
+  }
+
+  // Feed every status frame
+  handleReading(deviceId: string, data: ElectricalData, now: number = Date.now()) {
+    // Replayed readings must never switch the real breaker
+    const replay = useSessionStore.getState().replay;
+    if (replay.status === 'playing' && replay.deviceId === deviceId) return;
+
+    const previousVoltage = this.lastReadings.get(deviceId)?.voltage;
+    this.lastReadings.set(deviceId, data);
+
+    const settings = useSettingsStore.getState().getSettingsForDevice(deviceId);
+    const safe = conditionsSafe(data, settings.thresholds, getThermalAccumulator().getHeat(deviceId, now));
+    const deviceOwned = data.protectionTriggered || data.reconnectionPending;
+    const status = this.getStatus(deviceId);
+
+    switch (status.state) {
+      case 'armed':
+        if (deviceOwned) {
+          this.trip(deviceId, data.protectionReason || 'Breaker protection triggered', now);
+        } else if (data.voltage < OUTAGE_VOLTAGE && previousVoltage !== undefined && previousVoltage >= OUTAGE_VOLTAGE) {
+          this.trip(deviceId, 'Power outage', now);
+        }
+        break;
+
+      case 'tripped':
+        if (data.relayState && safe) {
+          this.transition(deviceId, 'armed', 'Relay back on', now);
+        } else if (data.reconnectionPending) {
+          this.transition(deviceId, 'waiting_for_stable', 'Breaker is reconnecting by itself', now);
+        } else if (safe && !data.protectionTriggered) {
+          this.transition(deviceId, 'waiting_for_stable', 'Conditions safe', now);
+        }
+        break;
+
+      case 'waiting_for_stable':
+        if (data.relayState && safe) {
+          this.transition(deviceId, 'armed', 'Relay back on', now);
+        } else if (deviceOwned) {
+          // The breaker's own reconnect - wait for it
+        } else if (!safe) {
+          this.transition(deviceId, 'tripped', 'Conditions unsafe again', now);
+        } else if (now - status.since >= settings.reconnection.delay * 1000) {
+          this.reconnect(deviceId, now);
+        }
+        break;
+
+      case 'reconnecting':
+        // The command settles this state
+        break;
+
+      case 'locked_out':
+        if (data.relayState && safe) {
+          this.transition(deviceId, 'armed', 'Relay switched on manually', now, 0);
+        }
+        break;
+    }
+  }
+
+  forget(deviceId: string) {
+    this.statuses.delete(deviceId);
+    this.transitions.delete(deviceId);
+    this.lastReadings.delete(deviceId);
+  }
+
+  private reconnect(deviceId: string, now: number) {
+    const status = this.getStatus(deviceId);
+    const reconnection = useSettingsStore.getState().getSettingsForDevice(deviceId).reconnection;
+
+    if (!reconnection.enabled) {
+      this.transition(deviceId, 'locked_out', 'Auto-reconnect was switched off', now);
+      return;
+    }
+    if (status.attempts >= reconnection.maxAttempts) {
+      this.lockOut(deviceId, `${status.attempts} reconnects did not hold`, now);
+      return;
+    }
+
+    const attempts = status.attempts + 1;
+    this.transition(deviceId, 'reconnecting', `Attempt ${attempts}/${reconnection.maxAttempts}`, now, attempts);
+
+    this.sendReconnect(deviceId, attempts, reconnection.maxAttempts);
+  }
+
+  private async sendReconnect(deviceId: string, attempts: number, maxAttempts: number) {
+    const command = this.switchRelay ? await this.switchRelay(deviceId, true) : null;
+
+    // Forgotten or re-armed in the meantime
+    if (this.getStatus(deviceId).state !== 'reconnecting') return;
+    const now = Date.now();
+
+    if (command?.status !== 'confirmed') {
+      const reason = `Reconnect not confirmed: ${command?.error ?? 'device not connected'}`;
+      if (attempts >= maxAttempts) {
+        this.lockOut(deviceId, reason, now);
+      } else {
+        // Conditions have to hold for another full delay before the next attempt
+        this.transition(deviceId, 'waiting_for_stable', reason, now);
+      }
+      return;
+    }
+
+    this.transition(deviceId, 'armed', 'Reconnected', now);
+    useEventsStore.getState().addEvent({
+      id: `reconnect-${deviceId}-${now}`,
+      type: 'auto_on',
+      timestamp: now,
+      description: `✅ Automatic Reconnection: Conditions are safe (attempt ${attempts}/${maxAttempts})`,
+      readings: this.lastReadings.get(deviceId),
+      deviceId,
+    });
+    showToast.success('Power has been automatically restored', this.withDeviceName('✅ Auto-Reconnect', deviceId));
+  }
+
+  private lockOut(deviceId: string, reason: string, now: number, attempts?: number) {
+    this.transition(deviceId, 'locked_out', reason, now, attempts);
+    showToast.warning(
+      'Automatic reconnection gave up - switch the breaker on manually once it is safe',
+      this.withDeviceName('🔒 Breaker Locked Out', deviceId)
+    );
+  }
+
+  private transition(deviceId: string, to: ProtectionState, reason: string, now: number, attempts?: number) {
+    const previous = this.getStatus(deviceId);
+    const status: ProtectionStatus = { state: to, since: now, reason, attempts: attempts ?? previous.attempts };
+    this.statuses.set(deviceId, status);
+
+    const transition: ProtectionTransition = { deviceId, from: previous.state, to, at: now, reason };
+    this.transitions.set(deviceId, [transition, ...this.getTransitions(deviceId)].slice(0, MAX_TRANSITIONS));
+    console.log(`🛡️ Protection ${deviceId}: ${previous.state} → ${to} (${reason})`);
+
+    this.onChange?.(deviceId, status);
+  }
+
+  // Prefix titles with the breaker name once more than one is linked
+  private withDeviceName(title: string, deviceId: string): string {
+    const { devices, getDevice } = useDeviceStore.getState();
+    const device = getDevice(deviceId);
+    return devices.length > 1 && device ? `${device.name} · ${title}` : title;
+  }
+}
+
+// Singleton instance
+let protectionControllerInstance: ProtectionController | null = null;
+
+export const getProtectionController = (): ProtectionController => {
+  if (!protectionControllerInstance) {
+    protectionControllerInstance = new ProtectionController();
+  }
+  return protectionControllerInstance;
+};
+
+export default ProtectionController;
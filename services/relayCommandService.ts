@@ -0,0 +1,158 @@
+// Relay Command Service - confirmed set-to-state relay commands
+//
+// Every command gets an ID and is resent with backoff until a status frame shows
+// the relay in the requested state, or the last attempt times out. Because the
+// command carries the target state, a duplicate send can never flip the relay back.
+
+import { ElectricalData, RelayCommand } from '../types';
+import { getDeviceApi } from './esp32Api';
+
+const ATTEMPT_TIMEOUT = 4000;   // Wait this long for a confirming status frame
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 500;   // Backoff: 500ms, 1s, ...
+
+interface PendingCommand {
+  command: RelayCommand;
+  timer: NodeJS.Timeout | null;
+  promise: Promise<RelayCommand>;
+  resolve: (command: RelayCommand) => void;
+}
+
+export class RelayCommandService {
+  private pending = new Map<string, PendingCommand>();
+  private onChange?: (command: RelayCommand) => void;
+
+  // Called whenever a command is issued, retried or settled
+  setChangeHandler(handler: (command: RelayCommand) => void) {
+    this.onChange = handler;
+  }
+
+  // Drive the relay to targetState - resolves once confirmed or failed
+  send(deviceId: string, targetState: boolean): Promise<RelayCommand> {
+    const current = this.pending.get(deviceId);
+
+    // Same request already in flight - share it instead of sending twice
+    if (current && current.command.targetState === targetState) {
+      return current.promise;
+    }
+
+    // Opposite request wins; the old one can no longer be confirmed
+    if (current) {
+      this.settle(deviceId, 'failed', 'Superseded by a newer command');
+    }
+
+    const command: RelayCommand = {
+      id: `relay-${deviceId}-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`,
+      deviceId,
+      targetState,
+      status: 'pending',
+      attempts: 0,
+      issuedAt: Date.now(),
+    };
+
+    let resolve: (command: RelayCommand) => void = () => {};
+    const promise = new Promise<RelayCommand>((r) => {
+      resolve = r;
+    });
+
+    const entry: PendingCommand = { command, timer: null, promise, resolve };
+    this.pending.set(deviceId, entry);
+
+    console.log(`📡 Relay command ${command.id}: set ${targetState ? 'ON' : 'OFF'}`);
+    this.attempt(entry);
+
+    return promise;
+  }
+
+  // Feed every status frame - confirms the device's pending command when the relay matches
+  handleStatus(deviceId: string, data: ElectricalData) {
+    const entry = this.pending.get(deviceId);
+    if (entry && data.relayState === entry.command.targetState) {
+      this.settle(deviceId, 'confirmed');
+    }
+  }
+
+  // Drop a device's pending command (device removed or disconnected)
+  cancel(deviceId: string, reason: string = 'Cancelled') {
+    if (this.pending.has(deviceId)) {
+      this.settle(deviceId, 'failed', reason);
+    }
+  }
+
+  getPending(deviceId: string): RelayCommand | null {
+    return this.pending.get(deviceId)?.command ?? null;
+  }
+
+  private async attempt(entry: PendingCommand) {
+    const { command } = entry;
+
+    entry.command = { ...command, attempts: command.attempts + 1 };
+    this.emit(entry.command);
+
+    const accepted = await getDeviceApi(command.deviceId).setRelayState(command.targetState, command.id);
+
+    // Confirmed (or superseded) while the request was in flight
+    if (this.pending.get(command.deviceId) !== entry) return;
+
+    if (!accepted.ok) {
+      console.warn(`⚠️ Relay command ${command.id}: attempt ${entry.command.attempts} not accepted (${accepted.error.kind})`);
+      this.retryOrFail(entry, 'Device did not accept the command');
+      return;
+    }
+
+    entry.timer = setTimeout(
+      () => this.retryOrFail(entry, 'No status frame confirmed the new state'),
+      ATTEMPT_TIMEOUT
+    );
+  }
+
+  private retryOrFail(entry: PendingCommand, error: string) {
+    if (this.pending.get(entry.command.deviceId) !== entry) return;
+
+    if (entry.command.attempts >= MAX_ATTEMPTS) {
+      this.settle(entry.command.deviceId, 'failed', error);
+      return;
+    }
+
+    const delay = RETRY_BASE_DELAY * Math.pow(2, entry.command.attempts - 1);
+    console.log(`🔁 Relay command ${entry.command.id}: retrying in ${delay}ms`);
+    entry.timer = setTimeout(() => this.attempt(entry), delay);
+  }
+
+  private settle(deviceId: string, status: 'confirmed' | 'failed', error?: string) {
+    const entry = this.pending.get(deviceId);
+    if (!entry) return;
+
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    this.pending.delete(deviceId);
+
+    const command: RelayCommand = { ...entry.command, status, error, resolvedAt: Date.now() };
+
+    if (status === 'confirmed') {
+      console.log(`✅ Relay command ${command.id}: confirmed after ${command.attempts} attempt(s)`);
+    } else {
+      console.error(`❌ Relay command ${command.id}: failed - ${error}`);
+    }
+
+    this.emit(command);
+    entry.resolve(command);
+  }
+
+  private emit(command: RelayCommand) {
+    this.onChange?.(command);
+  }
+}
+
+// Singleton instance
+let relayCommandInstance: RelayCommandService | null = null;
+
+export const getRelayCommandService = (): RelayCommandService => {
+  if (!relayCommandInstance) {
+    relayCommandInstance = new RelayCommandService();
+  }
+  return relayCommandInstance;
+};
+
+export default RelayCommandService;
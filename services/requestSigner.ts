@@ -0,0 +1,74 @@
+// Request Signer - HMAC-SHA256 signatures for commands sent to paired breakers
+//
+// Canonical string: METHOD \n PATH \n TIMESTAMP \n NONCE \n SHA256(BODY), with the query
+// string as part of PATH. The firmware accepts a timestamp within 30 s of its own clock
+// and refuses a nonce it has already seen from that phone inside the window, so a
+// captured request cannot be replayed.
+
+import { DeviceCredentials } from '../types';
+import { fromHex, hmacSha256Hex, randomHex, sha256Hex } from '../utils/crypto';
+
+export const AUTH_HEADERS = {
+  client: 'X-SmartCB-Client',
+  timestamp: 'X-SmartCB-Timestamp',
+  nonce: 'X-SmartCB-Nonce',
+  signature: 'X-SmartCB-Signature',
+} as const;
+
+export interface RequestSignature {
+  client: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+export const signRequest = (
+  credentials: DeviceCredentials,
+  method: string,
+  path: string,
+  body: string,
+  timestamp: number
+): RequestSignature => signRequestDigest(credentials, method, path, sha256Hex(body), timestamp);
+
+// Same signature when the body is a file already hashed (firmware images)
+export const signRequestDigest = (
+  credentials: DeviceCredentials,
+  method: string,
+  path: string,
+  bodySha256: string,
+  timestamp: number
+): RequestSignature => {
+  const nonce = randomHex(12);
+  const canonical = [method.toUpperCase(), path, timestamp, nonce, bodySha256.toLowerCase()].join('\n');
+
+  return {
+    client: credentials.clientId,
+    timestamp,
+    nonce,
+    signature: hmacSha256Hex(fromHex(credentials.secret), canonical),
+  };
+};
+
+export const signatureHeaders = (signature: RequestSignature): Record<string, string> => ({
+  [AUTH_HEADERS.client]: signature.client,
+  [AUTH_HEADERS.timestamp]: String(signature.timestamp),
+  [AUTH_HEADERS.nonce]: signature.nonce,
+  [AUTH_HEADERS.signature]: signature.signature,
+});
+
+// WebSocket commands are signed as method 'WS' with the command as the path. The
+// params travel as the exact JSON string that was hashed, since the firmware cannot
+// reproduce the phone's key order when re-serializing.
+export const signCommand = (
+  credentials: DeviceCredentials,
+  command: string,
+  params: Record<string, unknown> | undefined,
+  timestamp: number
+) => {
+  const payload = JSON.stringify(params ?? {});
+  return {
+    command,
+    payload,
+    auth: signRequest(credentials, 'WS', command, payload, timestamp),
+  };
+};
@@ -0,0 +1,151 @@
+// Session Recorder - raw breaker traffic captured to a file for later replay
+//
+// While a breaker is being recorded, every status frame and event it sends is kept as
+// received - before schema checks, so a frame the app rejected can be replayed to see
+// why - stamped with its offset from the start of the recording. Recordings are saved
+// as JSON files of their own and played back by the session replay service.
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { RecordedFrame, RecordedFrameKind, RecordedFrameSource, SavedCapture, SessionRecording } from '../types';
+import { useSessionStore } from '../store/useSessionStore';
+import { useDeviceStore } from '../store/useDeviceStore';
+
+const MAX_FRAMES = 20000;           // About five hours of one frame a second
+const SESSION_DIR = `${FileSystem.documentDirectory}sessions/`;
+
+interface ActiveRecording {
+  startedAt: number;
+  frames: RecordedFrame[];
+}
+
+export class SessionRecorderService {
+  private recordings = new Map<string, ActiveRecording>();
+
+  start(deviceId: string) {
+    const startedAt = Date.now();
+    this.recordings.set(deviceId, { startedAt, frames: [] });
+    useSessionStore.getState().setRecorder(deviceId, { deviceId, startedAt, frameCount: 0 });
+    console.log(`⏺️ ${deviceId}: recording session`);
+  }
+
+  isRecording(deviceId: string): boolean {
+    return this.recordings.has(deviceId);
+  }
+
+  // Called by the API and WebSocket clients for every parsed payload - cheap when not recording
+  record(deviceId: string, kind: RecordedFrameKind, source: RecordedFrameSource, payload: unknown) {
+    const recording = this.recordings.get(deviceId);
+    if (!recording) return;
+
+    // Full - keep what we have rather than grow without limit
+    if (recording.frames.length >= MAX_FRAMES) return;
+
+    recording.frames.push({ at: Date.now() - recording.startedAt, kind, source, payload });
+    useSessionStore.getState().setRecorder(deviceId, {
+      deviceId,
+      startedAt: recording.startedAt,
+      frameCount: recording.frames.length,
+    });
+    if (recording.frames.length === MAX_FRAMES) {
+      console.warn(`⚠️ ${deviceId}: session recording is full (${MAX_FRAMES} frames)`);
+    }
+  }
+
+  // Stop and write the recording; returns the file, or null if nothing was recorded
+  async stop(deviceId: string): Promise<SavedCapture | null> {
+    const recording = this.recordings.get(deviceId);
+    this.discard(deviceId);
+    if (!recording || recording.frames.length === 0) return null;
+
+    const device = useDeviceStore.getState().getDevice(deviceId);
+    const session: SessionRecording = {
+      format: 'smartcb-session',
+      version: 1,
+      deviceId,
+      deviceName: device?.name ?? deviceId,
+      startedAt: recording.startedAt,
+      endedAt: Date.now(),
+      frames: recording.frames,
+    };
+    const started = new Date(recording.startedAt).toISOString();
+    const name = `session-${deviceId}-${started.replace(/[:.]/g, '-')}.json`;
+
+    try {
+      await FileSystem.makeDirectoryAsync(SESSION_DIR, { intermediates: true });
+      const uri = `${SESSION_DIR}${name}`;
+      await FileSystem.writeAsStringAsync(uri, JSON.stringify(session));
+      const info = await FileSystem.getInfoAsync(uri);
+
+      console.log(`💾 Saved ${recording.frames.length} frames to ${uri}`);
+      return { name, uri, size: info.exists ? info.size : 0, modifiedAt: Date.now() };
+    } catch (error) {
+      console.error('❌ Failed to save session:', error);
+      return null;
+    }
+  }
+
+  // Stop without saving (device removed)
+  discard(deviceId: string) {
+    this.recordings.delete(deviceId);
+    useSessionStore.getState().setRecorder(deviceId, null);
+  }
+
+  // Read a saved recording back; null if the file is not one of ours
+  async load(uri: string): Promise<SessionRecording | null> {
+    try {
+      const session = JSON.parse(await FileSystem.readAsStringAsync(uri));
+      if (session?.format !== 'smartcb-session' || session.version !== 1 || !Array.isArray(session.frames)) {
+        console.warn(`⚠️ ${uri} is not a session recording`);
+        return null;
+      }
+      return session as SessionRecording;
+    } catch (error) {
+      console.error('❌ Failed to read session:', error);
+      return null;
+    }
+  }
+
+  // Saved recordings, newest first
+  async listSaved(): Promise<SavedCapture[]> {
+    try {
+      const dir = await FileSystem.getInfoAsync(SESSION_DIR);
+      if (!dir.exists) return [];
+
+      const names = await FileSystem.readDirectoryAsync(SESSION_DIR);
+      const files = await Promise.all(
+        names
+          .filter((name) => name.endsWith('.json'))
+          .map(async (name) => {
+            const uri = `${SESSION_DIR}${name}`;
+            const info = await FileSystem.getInfoAsync(uri);
+            return {
+              name,
+              uri,
+              size: info.exists ? info.size : 0,
+              modifiedAt: info.exists ? info.modificationTime * 1000 : 0,
+            };
+          })
+      );
+      return files.sort((a, b) => b.modifiedAt - a.modifiedAt);
+    } catch (error) {
+      console.error('Failed to list sessions:', error);
+      return [];
+    }
+  }
+
+  async deleteSaved(uri: string) {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  }
+}
+
+// Singleton instance
+let sessionRecorderInstance: SessionRecorderService | null = null;
+
+export const getSessionRecorder = (): SessionRecorderService => {
+  if (!sessionRecorderInstance) {
+    sessionRecorderInstance = new SessionRecorderService();
+  }
+  return sessionRecorderInstance;
+};
+
+export default SessionRecorderService;
@@ -0,0 +1,171 @@
+// Session Replay Service - plays a recorded session back through the app's real pipeline
+//
+// Recorded frames go through the same schema checks and the same store actions as live
+// ones, so history, event detection and alerts react exactly as they did (or would
+// have). The breaker's live feed is paused for the duration and every relay command the
+// app issues meanwhile - auto-reconnect, a trip, a tap - is held back and listed instead
+// of being sent. Faster speeds keep fewer history samples: the pipeline's own throttling
+// runs on wall-clock time.
+
+import { PayloadSource, RecordedFrame, SessionRecording } from '../types';
+import { validateEvent, validateStatus } from './esp32Protocol';
+import { getEventJournal } from './eventJournal';
+import { getRelayCommandService } from './relayCommandService';
+import { useSessionStore } from '../store/useSessionStore';
+import { useElectricalStore } from '../store/useElectricalStore';
+import { useDeviceStore } from '../store/useDeviceStore';
+import { useDiagnosticsStore } from '../store/useDiagnosticsStore';
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+interface ActiveReplay {
+  deviceId: string;
+  frames: RecordedFrame[];
+  speed: number;
+  startedAt: number;
+  next: number;
+  timer: NodeJS.Timeout | null;
+}
+
+export class SessionReplayService {
+  private active: ActiveReplay | null = null;
+
+  // Play `recording` into its breaker (or the active one if it has since been removed)
+  start(recording: SessionRecording, file: string, speed: number = 1): string {
+    this.stop();
+
+    const deviceId = useDeviceStore.getState().getDevice(recording.deviceId)
+      ? recording.deviceId
+      : useElectricalStore.getState().activeDeviceId;
+
+    // Take the breaker off its live feed; nothing it has in flight may be retried
+    const electrical = useElectricalStore.getState();
+    getRelayCommandService().cancel(deviceId, 'Session replay started');
+    electrical.stopRealTimeUpdates(deviceId);
+    electrical.setConnected(true, deviceId);
+
+    const frames = [...recording.frames].sort((a, b) => a.at - b.at);
+    this.active = { deviceId, frames, speed, startedAt: Date.now(), next: 0, timer: null };
+    useSessionStore.getState().patchReplay({
+      status: 'playing',
+      deviceId,
+      file,
+      speed,
+      position: 0,
+      total: frames.length,
+      suppressed: [],
+    });
+
+    console.log(`▶️ Replaying ${frames.length} frames into ${deviceId} at ${speed}x`);
+    this.schedule();
+    return deviceId;
+  }
+
+  // End early; the breaker goes back to its live feed
+  stop() {
+    if (this.active) this.finish('stopped');
+  }
+
+  // End without reconnecting (device removed)
+  cancel(deviceId: string) {
+    if (this.active?.deviceId !== deviceId) return;
+    this.finish('stopped', false);
+  }
+
+  isReplaying(deviceId: string): boolean {
+    return this.active?.deviceId === deviceId;
+  }
+
+  // Relay commands end up here instead of at the breaker while it is being replayed
+  suppressRelay(deviceId: string, state: boolean): boolean {
+    const replay = this.active;
+    if (replay?.deviceId !== deviceId) return false;
+
+    const at = (Date.now() - replay.startedAt) * replay.speed;
+    useSessionStore.getState().addSuppressed({ at, state });
+    console.log(`🚫 Replay: relay ${state ? 'ON' : 'OFF'} for ${deviceId} not sent`);
+    return true;
+  }
+
+  private schedule() {
+    const replay = this.active;
+    if (!replay) return;
+
+    const frame = replay.frames[replay.next];
+    if (!frame) {
+      this.finish('finished');
+      return;
+    }
+
+    const due = replay.startedAt + frame.at / replay.speed;
+    replay.timer = setTimeout(() => {
+      if (this.active !== replay) return;
+      this.play(replay.deviceId, frame);
+      replay.next += 1;
+      useSessionStore.getState().patchReplay({ position: replay.next });
+      this.schedule();
+    }, Math.max(0, due - Date.now()));
+  }
+
+  private play(deviceId: string, frame: RecordedFrame) {
+    const source: PayloadSource = frame.source === 'websocket' ? 'websocket' : frame.kind === 'event' ? 'events' : 'status';
+
+    switch (frame.kind) {
+      case 'status': {
+        const status = validateStatus(frame.payload);
+        if (!status.ok) {
+          useDiagnosticsStore.getState().recordRejection(deviceId, source, status.errors.map((error) => `replay.${error}`));
+          return;
+        }
+        useElectricalStore.getState().updateData(status.value, deviceId);
+        return;
+      }
+
+      case 'event': {
+        const event = validateEvent(frame.payload);
+        if (!event.ok) {
+          useDiagnosticsStore.getState().recordRejection(deviceId, source, event.errors.map((error) => `replay.${error}`));
+          return;
+        }
+        // Without a sequence number the journal keeps it as-is instead of asking the breaker
+        getEventJournal().handleLiveEvent(deviceId, { ...event.value, seq: undefined });
+        return;
+      }
+
+      case 'connection': {
+        const isConnected = (frame.payload as { isConnected?: unknown } | null)?.isConnected === true;
+        useElectricalStore.getState().setConnected(isConnected, deviceId);
+        return;
+      }
+    }
+  }
+
+  private finish(status: 'finished' | 'stopped', reconnect: boolean = true) {
+    const replay = this.active;
+    if (!replay) return;
+
+    if (replay.timer) clearTimeout(replay.timer);
+    this.active = null;
+    useSessionStore.getState().patchReplay({ status });
+    console.log(`⏹️ Replay ${status} after ${replay.next}/${replay.frames.length} frames`);
+
+    const device = useDeviceStore.getState().getDevice(replay.deviceId);
+    if (!reconnect || !device) return;
+
+    // Back to the breaker's real readings
+    useElectricalStore.getState().setConnected(false, replay.deviceId);
+    useElectricalStore.getState().connectToESP32(device.ip, device.port, device.id);
+  }
+}
+
+// Singleton instance
+let sessionReplayInstance: SessionReplayService | null = null;
+
+export const getSessionReplay = (): SessionReplayService => {
+  if (!sessionReplayInstance) {
+    sessionReplayInstance = new SessionReplayService();
+  }
+  return sessionReplayInstance;
+};
+
+export default SessionReplayService;
@@ -0,0 +1,303 @@
+// Settings Sync Service - two-way sync of protection settings between the app and each breaker
+//
+// Every field is merged three ways: the value last confirmed by the breaker (base),
+// the phone's value and the breaker's current value. A field only the breaker changed
+// is adopted, one only the phone changed is pushed, and one both changed is a conflict
+// the user settles. Pushed fields count as synced once a read-back shows them.
+
+import {
+  DeviceSettingsPayload,
+  Settings,
+  SettingsConflict,
+  SettingsSyncStatus,
+  SyncedSettingField,
+} from '../types';
+import { getDeviceApi } from './esp32Api';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useSettingsSyncStore } from '../store/useSettingsSyncStore';
+
+type SettingValue = number | boolean;
+
+interface FieldBinding {
+  read: (settings: Settings) => SettingValue;
+  write: (settings: Settings, value: SettingValue) => Settings;
+}
+
+const withThreshold = <K extends keyof Settings['thresholds']>(
+  settings: Settings,
+  key: K,
+  patch: Partial<Settings['thresholds'][K]>
+): Settings => ({
+  ...settings,
+  thresholds: { ...settings.thresholds, [key]: { ...settings.thresholds[key], ...patch } },
+});
+
+// Keyed by every firmware field so a new one fails to compile until it is mapped
+const FIELDS: Record<SyncedSettingField, FieldBinding> = {
+  maxCurrent: {
+    read: (s) => s.thresholds.current.max,
+    write: (s, v) => withThreshold(s, 'current', { max: v as number }),
+  },
+  maxVoltage: {
+    read: (s) => s.thresholds.voltage.max,
+    write: (s, v) => withThreshold(s, 'voltage', { max: v as number }),
+  },
+  minVoltage: {
+    read: (s) => s.thresholds.voltage.min,
+    write: (s, v) => withThreshold(s, 'voltage', { min: v as number }),
+  },
+  protectionEnabled: {
+    read: (s) => s.thresholds.current.enabled,
+    write: (s, v) => withThreshold(s, 'current', { enabled: v as boolean }),
+  },
+  maxFrequency: {
+    read: (s) => s.thresholds.frequency.max,
+    write: (s, v) => withThreshold(s, 'frequency', { max: v as number }),
+  },
+  minFrequency: {
+    read: (s) => s.thresholds.frequency.min,
+    write: (s, v) => withThreshold(s, 'frequency', { min: v as number }),
+  },
+  minPowerFactor: {
+    read: (s) => s.thresholds.powerFactor.min,
+    write: (s, v) => withThreshold(s, 'powerFactor', { min: v as number }),
+  },
+  // The app always asks for voltage protection; turning it off elsewhere shows up as a conflict
+  voltageProtection: {
+    read: () => true,
+    write: (s) => s,
+  },
+  frequencyProtection: {
+    read: (s) => s.thresholds.frequency.enabled,
+    write: (s, v) => withThreshold(s, 'frequency', { enabled: v as boolean }),
+  },
+  powerFactorProtection: {
+    read: (s) => s.thresholds.powerFactor.enabled,
+    write: (s, v) => withThreshold(s, 'powerFactor', { enabled: v as boolean }),
+  },
+  autoResetDelay: {
+    read: (s) => s.reconnection.delay,
+    write: (s, v) => ({ ...s, reconnection: { ...s.reconnection, delay: v as number } }),
+  },
+  autoReconnectEnabled: {
+    read: (s) => s.reconnection.enabled,
+    write: (s, v) => ({ ...s, reconnection: { ...s.reconnection, enabled: v as boolean } }),
+  },
+};
+
+export const SYNCED_FIELDS = Object.keys(FIELDS) as SyncedSettingField[];
+
+// The firmware stores floats - 0.85 reads back as 0.8500000238
+const sameValue = (a: SettingValue | undefined, b: SettingValue | undefined): boolean => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= 1e-4 * Math.max(1, Math.abs(a));
+  }
+  return a === b;
+};
+
+// The app's settings as the firmware payload
+export const toDevicePayload = (settings: Settings): DeviceSettingsPayload => {
+  const payload: Record<string, SettingValue> = {};
+  SYNCED_FIELDS.forEach((field) => {
+    payload[field] = FIELDS[field].read(settings);
+  });
+  return payload as unknown as DeviceSettingsPayload;
+};
+
+// Fields of a settings payload that the breaker's read-back holds different values for
+export const unkeptFields = (sent: DeviceSettingsPayload, kept: DeviceSettingsPayload): string[] => {
+  const after = kept as unknown as Record<string, SettingValue | undefined>;
+  return Object.entries(sent).filter(([field, value]) => !sameValue(after[field], value)).map(([field]) => field);
+};
+
+// Firmware fields that differ between two versions of the app's settings
+export const changedFields = (before: Settings, after: Settings): SyncedSettingField[] =>
+  SYNCED_FIELDS.filter((field) => !sameValue(FIELDS[field].read(before), FIELDS[field].read(after)));
+
+export class SettingsSyncService {
+  private queues = new Map<string, Promise<SettingsSyncStatus>>();
+
+  // Remember fields edited on this phone until the breaker confirms them
+  markDirty(deviceId: string, fields: SyncedSettingField[]) {
+    if (fields.length === 0) return;
+    const sync = useSettingsSyncStore.getState().getSync(deviceId);
+    const dirty = Array.from(new Set([...sync.dirty, ...fields]));
+    useSettingsSyncStore.getState().patchSync(deviceId, { dirty });
+  }
+
+  // Pull, merge and push - runs one at a time per breaker
+  sync(deviceId: string): Promise<SettingsSyncStatus> {
+    const previous = this.queues.get(deviceId) ?? Promise.resolve<SettingsSyncStatus>('idle');
+    const next = previous.catch(() => 'error' as const).then(() => this.run(deviceId));
+    this.queues.set(deviceId, next);
+
+    const cleanup = () => {
+      if (this.queues.get(deviceId) === next) this.queues.delete(deviceId);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  // Settle conflicts: 'device' takes the breaker's value, 'app' pushes this phone's
+  async resolve(deviceId: string, winner: 'app' | 'device', fields?: SyncedSettingField[]): Promise<SettingsSyncStatus> {
+    const syncStore = useSettingsSyncStore.getState();
+    const sync = syncStore.getSync(deviceId);
+    const settled = sync.conflicts.filter((conflict) => !fields || fields.includes(conflict.field));
+    if (settled.length === 0) return sync.status;
+
+    const base = { ...sync.base };
+    let dirty = [...sync.dirty];
+    let settings = useSettingsStore.getState().getSettingsForDevice(deviceId);
+
+    settled.forEach((conflict) => {
+      // Either way the breaker's value becomes the agreed base; 'app' stays dirty so it is pushed
+      (base as Record<string, SettingValue>)[conflict.field] = conflict.device;
+      if (winner === 'device') {
+        settings = FIELDS[conflict.field].write(settings, conflict.device);
+        dirty = dirty.filter((field) => field !== conflict.field);
+      }
+    });
+
+    if (winner === 'device') {
+      useSettingsStore.getState().setDeviceSettings(deviceId, settings);
+    }
+    syncStore.patchSync(deviceId, {
+      base,
+      dirty,
+      conflicts: sync.conflicts.filter((conflict) => !settled.includes(conflict)),
+    });
+
+    console.log(`🔀 ${deviceId}: ${settled.map((conflict) => conflict.field).join(', ')} → ${winner === 'app' ? 'this phone' : 'breaker'}`);
+    return this.sync(deviceId);
+  }
+
+  private async run(deviceId: string): Promise<SettingsSyncStatus> {
+    const syncStore = useSettingsSyncStore.getState();
+    const api = getDeviceApi(deviceId);
+    syncStore.patchSync(deviceId, { status: 'syncing' });
+
+    const answer = await api.getSettings();
+    if (!answer.ok) {
+      return this.finish(deviceId, 'error', 'Could not read the breaker\'s settings');
+    }
+    const device = answer.value;
+
+    // Merge against what is saved for this breaker, not the defaults shown before it loads
+    const { activeDeviceId, isLoaded, settingsByDevice, loadFromStorage } = useSettingsStore.getState();
+    if (deviceId === activeDeviceId ? !isLoaded : !settingsByDevice[deviceId]) {
+      await loadFromStorage(deviceId);
+    }
+
+    const sync = syncStore.getSync(deviceId);
+    const base: Record<string, SettingValue> = { ...(sync.base as Record<string, SettingValue>) };
+    const dirty = new Set(sync.dirty);
+    const deviceValues = device as unknown as Record<string, SettingValue | undefined>;
+    let settings = useSettingsStore.getState().getSettingsForDevice(deviceId);
+    const adopted: SyncedSettingField[] = [];
+    const push: SyncedSettingField[] = [];
+    const conflicts: SettingsConflict[] = [];
+
+    SYNCED_FIELDS.forEach((field) => {
+      const deviceValue = deviceValues[field];
+      const local = FIELDS[field].read(settings);
+
+      // Older firmware without this field - nothing to keep in step
+      if (deviceValue === undefined) {
+        dirty.delete(field);
+        return;
+      }
+
+      if (sameValue(local, deviceValue)) {
+        base[field] = deviceValue;
+        dirty.delete(field);
+      } else if (!dirty.has(field)) {
+        settings = FIELDS[field].write(settings, deviceValue);
+        base[field] = deviceValue;
+        adopted.push(field);
+      } else if (field in base && sameValue(deviceValue, base[field])) {
+        push.push(field);
+      } else {
+        conflicts.push({ field, local, device: deviceValue, base: field in base ? base[field] : null });
+      }
+    });
+
+    if (adopted.length > 0) {
+      console.log(`📥 ${deviceId} settings changed on the breaker: ${adopted.join(', ')}`);
+      // Onto the latest settings, not the snapshot - the user may have edited meanwhile
+      let latest = useSettingsStore.getState().getSettingsForDevice(deviceId);
+      adopted.forEach((field) => {
+        latest = FIELDS[field].write(latest, deviceValues[field] as SettingValue);
+      });
+      useSettingsStore.getState().setDeviceSettings(deviceId, latest);
+    }
+
+    let error: string | null = null;
+    if (push.length > 0) {
+      const payload: Record<string, SettingValue> = { ...(device as unknown as Record<string, SettingValue>) };
+      push.forEach((field) => {
+        payload[field] = FIELDS[field].read(settings);
+      });
+
+      const { ok: accepted } = await api.updateSettings(payload as unknown as DeviceSettingsPayload);
+      // A 200 only says the request arrived - read back what the breaker kept
+      const readBack = accepted ? await api.getSettings() : null;
+      const kept = readBack?.ok ? (readBack.value as unknown as Record<string, SettingValue | undefined>) : null;
+
+      const unconfirmed = push.filter((field) => !kept || !sameValue(kept[field], payload[field]));
+      const latest = useSettingsStore.getState().getSettingsForDevice(deviceId);
+      push
+        .filter((field) => !unconfirmed.includes(field))
+        .forEach((field) => {
+          base[field] = payload[field];
+          // Edited again while the write was in flight - that value still has to go out
+          if (sameValue(FIELDS[field].read(latest), payload[field])) dirty.delete(field);
+        });
+
+      if (!accepted) {
+        error = 'Breaker did not accept the settings';
+      } else if (unconfirmed.length > 0) {
+        error = `Breaker did not keep ${unconfirmed.join(', ')}`;
+      } else {
+        console.log(`📤 ${deviceId} settings confirmed: ${push.join(', ')}`);
+      }
+    }
+
+    // Keep edits made on this phone while the sync was running
+    syncStore.getSync(deviceId).dirty
+      .filter((field) => !sync.dirty.includes(field))
+      .forEach((field) => dirty.add(field));
+
+    syncStore.patchSync(deviceId, {
+      base: base as Partial<DeviceSettingsPayload>,
+      dirty: Array.from(dirty),
+      conflicts,
+    });
+
+    if (conflicts.length > 0) {
+      console.warn(`⚠️ ${deviceId} settings differ on both sides: ${conflicts.map((conflict) => conflict.field).join(', ')}`);
+    }
+    return this.finish(deviceId, error ? 'error' : conflicts.length > 0 ? 'conflict' : 'in_sync', error);
+  }
+
+  private finish(deviceId: string, status: SettingsSyncStatus, error: string | null = null): SettingsSyncStatus {
+    useSettingsSyncStore.getState().patchSync(deviceId, {
+      status,
+      lastError: error,
+      ...(status === 'error' ? {} : { lastSyncedAt: Date.now() }),
+    });
+    if (error) console.error(`❌ Settings sync with ${deviceId}: ${error}`);
+    return status;
+  }
+}
+
+// Singleton instance
+let settingsSyncInstance: SettingsSyncService | null = null;
+
+export const getSettingsSync = (): SettingsSyncService => {
+  if (!settingsSyncInstance) {
+    settingsSyncInstance = new SettingsSyncService();
+  }
+  return settingsSyncInstance;
+};
+
+export default SettingsSyncService;
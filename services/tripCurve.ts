@@ -0,0 +1,116 @@
+// Trip Curve - inverse-time overcurrent protection, like a real breaker's bimetal strip
+//
+// A curve says how long a breaker tolerates a current at a multiple M of its rating:
+// t(M) = k / (M^a - 1). Every reading above the rating adds dt / t(M) to the device's heat,
+// and the breaker trips when the heat reaches 1; below the rating the heat cools off.
+// Currents at or above the instant multiple trip on the spot. A motor start at 6x for a
+// second or two therefore passes, a sustained overload trips, and a short circuit trips now.
+
+import { CurrentThreshold, TripCurveType } from '../types';
+
+export interface TripCurve {
+  type: TripCurveType;
+  exponent: number;
+  instantMultiple: number;
+  k: number;
+}
+
+export type TripKind = 'thermal' | 'instant';
+
+export interface ThermalState {
+  heat: number;
+  multiple: number;
+  trip: TripKind | null;
+  secondsToTrip: number | null;   // At the current multiple; null below the rating
+}
+
+export const REFERENCE_MULTIPLE = 6;   // `delay` is the trip time at this multiple
+
+// Instant-trip multiples as in IEC 60898; the thermal part shares one shape
+export const TRIP_CURVE_PRESETS: Record<Exclude<TripCurveType, 'custom'>, { exponent: number; instantMultiple: number }> = {
+  B: { exponent: 2, instantMultiple: 5 },
+  C: { exponent: 2, instantMultiple: 10 },
+  D: { exponent: 2, instantMultiple: 20 },
+};
+
+export const CUSTOM_EXPONENT_RANGE = { min: 0.5, max: 4 };
+export const CUSTOM_INSTANT_RANGE = { min: 2, max: 50 };
+
+const MAX_STEP = 5000;            // A gap in the readings heats no more than this
+const COOLING_TIME = 120000;      // ms, time constant of cooling below the rating
+export const RECLOSE_HEAT = 0.5;  // Cool down to this before an automatic reconnect
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// The curve a current threshold describes
+export const resolveTripCurve = (threshold: CurrentThreshold): TripCurve => {
+  const type = threshold.curve ?? 'C';
+  const { exponent, instantMultiple } =
+    type === 'custom'
+      ? {
+          exponent: clamp(threshold.curveExponent ?? 2, CUSTOM_EXPONENT_RANGE.min, CUSTOM_EXPONENT_RANGE.max),
+          instantMultiple: clamp(threshold.instantMultiple ?? 10, CUSTOM_INSTANT_RANGE.min, CUSTOM_INSTANT_RANGE.max),
+        }
+      : TRIP_CURVE_PRESETS[type];
+  const delay = Math.max(0.1, threshold.delay);
+
+  return { type, exponent, instantMultiple, k: delay * (Math.pow(REFERENCE_MULTIPLE, exponent) - 1) };
+};
+
+// Seconds until a trip from cold at a constant multiple of the rating; null = never, 0 = instant
+export const tripTime = (curve: TripCurve, multiple: number): number | null => {
+  if (multiple >= curve.instantMultiple) return 0;
+  if (multiple <= 1) return null;
+  return curve.k / (Math.pow(multiple, curve.exponent) - 1);
+};
+
+export class ThermalAccumulator {
+  private states = new Map<string, { heat: number; at: number }>();
+
+  // Feed one current sample and say whether the breaker trips on it
+  update(deviceId: string, current: number, pickup: number, curve: TripCurve, now: number = Date.now()): ThermalState {
+    const previous = this.states.get(deviceId);
+    const elapsed = previous ? Math.max(0, now - previous.at) : 0;
+    const multiple = pickup > 0 ? current / pickup : 0;
+    const seconds = tripTime(curve, multiple);
+    let heat = previous?.heat ?? 0;
+
+    if (seconds === null) {
+      heat *= Math.exp(-elapsed / COOLING_TIME);
+    } else if (seconds > 0) {
+      heat += Math.min(elapsed, MAX_STEP) / 1000 / seconds;
+    }
+    this.states.set(deviceId, { heat, at: now });
+
+    const trip: TripKind | null = seconds === 0 ? 'instant' : heat >= 1 ? 'thermal' : null;
+    return {
+      heat,
+      multiple,
+      trip,
+      secondsToTrip: seconds === null ? null : Math.max(0, (1 - heat) * seconds),
+    };
+  }
+
+  // Heat as of now, cooled since the last sample
+  getHeat(deviceId: string, now: number = Date.now()): number {
+    const state = this.states.get(deviceId);
+    if (!state) return 0;
+    return state.heat * Math.exp(-Math.max(0, now - state.at) / COOLING_TIME);
+  }
+
+  forget(deviceId: string) {
+    this.states.delete(deviceId);
+  }
+}
+
+// Singleton instance
+let thermalAccumulatorInstance: ThermalAccumulator | null = null;
+
+export const getThermalAccumulator = (): ThermalAccumulator => {
+  if (!thermalAccumulatorInstance) {
+    thermalAccumulatorInstance = new ThermalAccumulator();
+  }
+  return thermalAccumulatorInstance;
+};
+
+export default ThermalAccumulator;
@@ -0,0 +1,182 @@
+// WiFi Provisioning Service - move a breaker from its setup hotspot onto the home network
+//
+// The phone talks to the ESP32 at 192.168.4.1 while it is in access-point mode:
+// list the networks it can see, hand over credentials, and poll /api/wifi/status
+// while it joins. Once it is in station mode the phone returns to the home network
+// and the breaker is located at its new address.
+
+import { Platform } from 'react-native';
+import WifiManager from 'react-native-wifi-reborn';
+import { DiscoveredDevice, WifiNetworkPayload, WifiJoinFailure } from '../types';
+import { ESP32ApiService } from './esp32Api';
+import { getDeviceDiscovery } from './deviceDiscovery';
+
+const SETUP_IP = '192.168.4.1';
+const SETUP_SSID_PREFIX = 'SmartCB-SETUP';
+const DEFAULT_PORT = '80';
+
+const JOIN_TIMEOUT = 30000;          // ESP32 gives up on a network after ~20s
+const STATUS_POLL_INTERVAL = 1000;
+const MAX_STATUS_MISSES = 3;         // Hotspot gone - the breaker has switched to station mode
+const PHONE_REJOIN_TIMEOUT = 20000;
+const LOCATE_ATTEMPTS = 5;
+const LOCATE_RETRY_DELAY = 2000;
+
+export type ProvisioningStage = 'sending' | 'joining' | 'switching' | 'locating';
+
+export type ProvisioningFailure =
+  | 'unreachable'       // Phone isn't on the setup hotspot
+  | 'rejected'          // Breaker refused the credentials request
+  | WifiJoinFailure     // Breaker reported why it couldn't join
+  | 'not_found';        // Joined, but didn't show up on the home network
+
+export type ProvisioningResult =
+  | { ok: true; device: DiscoveredDevice }
+  | { ok: false; reason: ProvisioningFailure };
+
+type JoinOutcome =
+  | { state: 'connected'; ip?: string }
+  | { state: 'failed'; reason: WifiJoinFailure }
+  | { state: 'lost' };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class WiFiProvisioningService {
+  private api = new ESP32ApiService(SETUP_IP, DEFAULT_PORT);
+
+  // Networks the breaker can see - strongest first, one entry per SSID
+  async scanNetworks(): Promise<WifiNetworkPayload[] | null> {
+    const result = await this.api.scanWifiNetworks();
+    if (!result.ok) return null;
+
+    const strongest = new Map<string, WifiNetworkPayload>();
+    for (const network of result.value.networks) {
+      if (!network.ssid) continue;
+      const current = strongest.get(network.ssid);
+      if (!current || network.rssi > current.rssi) {
+        strongest.set(network.ssid, network);
+      }
+    }
+
+    return Array.from(strongest.values()).sort((a, b) => b.rssi - a.rssi);
+  }
+
+  async provision(
+    ssid: string,
+    password: string,
+    onStage?: (stage: ProvisioningStage) => void
+  ): Promise<ProvisioningResult> {
+    // Remember who we are provisioning so it can be recognised after the IP changes
+    const info = await this.api.getDeviceInfo();
+    if (!info.ok) {
+      return { ok: false, reason: 'unreachable' };
+    }
+
+    onStage?.('sending');
+    console.log(`📶 Provisioning: sending credentials for "${ssid}"`);
+
+    const accepted = await this.api.setWifiCredentials({ ssid, password });
+    if (!accepted.ok) {
+      // Dropped on the way is not the breaker saying no
+      return { ok: false, reason: accepted.error.kind === 'rejected' ? 'rejected' : 'unreachable' };
+    }
+
+    onStage?.('joining');
+    const outcome = await this.waitForJoin();
+
+    if (outcome.state === 'failed') {
+      console.warn(`❌ Provisioning: breaker could not join "${ssid}" (${outcome.reason})`);
+      return { ok: false, reason: outcome.reason };
+    }
+
+    onStage?.('switching');
+    await this.returnToHomeNetwork(ssid, password);
+
+    onStage?.('locating');
+    const device = await this.locate(outcome.state === 'connected' ? outcome.ip : undefined, info.value.deviceId);
+
+    if (!device) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    console.log(`✅ Provisioning: ${device.deviceName || 'breaker'} is on "${ssid}" at ${device.ip}`);
+    return { ok: true, device };
+  }
+
+  // Poll the join started by setWifiCredentials until it settles
+  private async waitForJoin(): Promise<JoinOutcome> {
+    const deadline = Date.now() + JOIN_TIMEOUT;
+    let misses = 0;
+
+    while (Date.now() < deadline) {
+      const result = await this.api.getWifiStatus();
+
+      if (!result.ok) {
+        misses++;
+        if (misses >= MAX_STATUS_MISSES) return { state: 'lost' };
+      } else {
+        misses = 0;
+        const status = result.value;
+        if (status.state === 'connected') return { state: 'connected', ip: status.ip };
+        if (status.state === 'failed') return { state: 'failed', reason: status.reason ?? 'timeout' };
+      }
+
+      await sleep(STATUS_POLL_INTERVAL);
+    }
+
+    return { state: 'failed', reason: 'timeout' };
+  }
+
+  // Leave the setup hotspot and wait until the phone is on the breaker's new network
+  private async returnToHomeNetwork(ssid: string, password: string) {
+    try {
+      if (Platform.OS === 'ios') {
+        await WifiManager.disconnectFromSSID(SETUP_SSID_PREFIX);
+      } else {
+        await WifiManager.connectToProtectedWifiSSID({ ssid, password: password || null });
+      }
+    } catch (error) {
+      // The OS usually rejoins a known network by itself once the hotspot disappears
+      console.log('ℹ️ Provisioning: could not switch WiFi automatically', error);
+    }
+
+    const deadline = Date.now() + PHONE_REJOIN_TIMEOUT;
+    while (Date.now() < deadline) {
+      try {
+        if ((await WifiManager.getCurrentWifiSSID()) === ssid) return;
+      } catch {
+        // Not connected to anything yet
+      }
+      await sleep(STATUS_POLL_INTERVAL);
+    }
+
+    console.warn(`⚠️ Provisioning: phone is not on "${ssid}" yet, searching anyway`);
+  }
+
+  // Reported address first, then LAN discovery by hardware ID
+  private async locate(reportedIp: string | undefined, hardwareId: string | undefined): Promise<DiscoveredDevice | null> {
+    const discovery = getDeviceDiscovery();
+
+    if (reportedIp) {
+      for (let attempt = 0; attempt < LOCATE_ATTEMPTS; attempt++) {
+        const device = await discovery.probe(reportedIp, DEFAULT_PORT, 'reported');
+        if (device && (!hardwareId || device.hardwareId === hardwareId)) return device;
+        await sleep(LOCATE_RETRY_DELAY);
+      }
+    }
+
+    return hardwareId ? discovery.findDevice(hardwareId) : null;
+  }
+}
+
+// Singleton instance
+let provisioningInstance: WiFiProvisioningService | null = null;
+
+export const getWiFiProvisioning = (): WiFiProvisioningService => {
+  if (!provisioningInstance) {
+    provisioningInstance = new WiFiProvisioningService();
+  }
+  return provisioningInstance;
+};
+
+export default WiFiProvisioningService;
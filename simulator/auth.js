@@ -0,0 +1,92 @@
+// Pairing and request signatures - the firmware side of services/requestSigner.ts
+//
+// A phone pairs while the window is open (the breaker's 3 s button hold) and gets a
+// 256-bit secret. Signed requests carry client, timestamp, nonce and an HMAC of
+// METHOD \n PATH \n TIMESTAMP \n NONCE \n SHA256(BODY).
+
+const crypto = require('crypto');
+
+const PAIRING_WINDOW = 60000;
+const MAX_SKEW = 30000;      // Accept timestamps within 30 s of our clock
+const NONCE_TTL = 2 * MAX_SKEW;
+
+const sha256Hex = (text) => crypto.createHash('sha256').update(text).digest('hex');
+
+class PairingRegistry {
+  constructor(options = {}) {
+    this.requireAuth = options.requireAuth === true;
+    this.clients = new Map();
+    this.nonces = new Map();
+    this.windowOpenUntil = 0;
+  }
+
+  openWindow(ms = PAIRING_WINDOW) {
+    this.windowOpenUntil = Date.now() + ms;
+    console.log(`🔐 [sim] Pairing window open for ${Math.round(ms / 1000)} s`);
+  }
+
+  isWindowOpen() {
+    return Date.now() < this.windowOpenUntil;
+  }
+
+  // POST /api/pair - null when the window is closed
+  pair(clientId, name) {
+    if (!this.isWindowOpen()) return null;
+
+    const secret = crypto.randomBytes(32).toString('hex');
+    this.clients.set(clientId, { clientId, name, secret, pairedAt: Date.now(), lastSeen: undefined });
+    this.windowOpenUntil = 0;
+    console.log(`🔐 [sim] Paired ${name || clientId}`);
+    return { clientId, secret };
+  }
+
+  list() {
+    return Array.from(this.clients.values(), ({ secret, ...client }) => client);
+  }
+
+  revoke(clientId) {
+    const removed = this.clients.delete(clientId);
+    if (removed) console.log(`🔐 [sim] Revoked ${clientId}`);
+    return removed;
+  }
+
+  // Returns { ok: true, clientId } or { ok: false, error, reason }
+  // Binary uploads (firmware images) pass their digest as bodySha256 instead of a text body
+  verify({ method, path, body, bodySha256, client, timestamp, nonce, signature }) {
+    const reject = (error, reason) => ({ ok: false, error, reason, serverTime: Date.now() });
+
+    if (!client || !signature) return reject('pairing_required');
+
+    const entry = this.clients.get(client);
+    if (!entry) return reject('signature_rejected', 'unknown_client');
+
+    const ts = Number(timestamp);
+    if (!Number.isFinite(ts) || Math.abs(Date.now() - ts) > MAX_SKEW) {
+      return reject('signature_rejected', 'stale');
+    }
+
+    const canonical = [method.toUpperCase(), path, ts, nonce, bodySha256 || sha256Hex(body)].join('\n');
+    const expected = crypto.createHmac('sha256', Buffer.from(entry.secret, 'hex')).update(canonical).digest();
+    const given = Buffer.from(String(signature), 'hex');
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      return reject('signature_rejected', 'bad_signature');
+    }
+
+    this.pruneNonces();
+    const nonceKey = `${client}:${nonce}`;
+    if (this.nonces.has(nonceKey)) return reject('signature_rejected', 'replay');
+    this.nonces.set(nonceKey, Date.now());
+
+    entry.lastSeen = Date.now();
+    return { ok: true, clientId: client };
+  }
+
+  pruneNonces() {
+    const cutoff = Date.now() - NONCE_TTL;
+    for (const [key, seenAt] of this.nonces) {
+      if (seenAt < cutoff) this.nonces.delete(key);
+    }
+  }
+}
+
+module.exports = { PairingRegistry, PAIRING_WINDOW };
@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+// ESP32 Simulator CLI
+//
+//   npm run simulator -- --scenario overload
+//   npm run simulator -- --scenario ./my-scenario.json --http 8080 --ws 8081
+//
+// While running, type commands on stdin: scenario <name>, relay on|off, button, pair,
+// phones, outage on|off, voltage <V>, current <A>, pzem fail|ok, latency <ms>, drop <0-1>, firmware,
+// journal, clock [±ms], clockdrift <ppm>, rssi <dBm>, status
+
+const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+const { createSimulator, scenarios } = require('./index');
+
+const parseArgs = (argv) => {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[arg.slice(2)] = true;
+    } else {
+      args[arg.slice(2)] = next;
+      i++;
+    }
+  }
+  return args;
+};
+
+const loadScenario = (value) => {
+  if (!value) return 'normal';
+  if (scenarios[value]) return value;
+  return JSON.parse(fs.readFileSync(path.resolve(value), 'utf8'));
+};
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    console.log('Usage: node simulator/cli.js [--scenario name|file.json] [--http 8080] [--ws 8081] [--host 0.0.0.0] [--no-discovery] [--wifi-password pw] [--auth] [--firmware 4.0.0] [--firmware-fault bad-image|unhealthy]');
+    console.log(`Scenarios: ${Object.keys(scenarios).join(', ')}`);
+    return;
+  }
+
+  const sim = createSimulator({
+    host: args.host,
+    httpPort: args.http ? Number(args.http) : undefined,
+    wsPort: args.ws ? Number(args.ws) : undefined,
+    discoveryPort: args['no-discovery'] ? null : undefined,
+    scenario: loadScenario(args.scenario),
+    wifiPassword: args['wifi-password'],
+    requireAuth: args.auth === true,
+    firmwareVersion: args.firmware,
+    firmwareFault: args['firmware-fault'],
+  });
+
+  await sim.start();
+  console.log('💡 Connect the app to this machine\'s LAN IP and port', sim.httpPort);
+
+  const commands = {
+    scenario: (name) => sim.setScenario(loadScenario(name)),
+    relay: (value) => sim.breaker.setRelay(value === 'on'),
+    button: () => sim.pressButton(),
+    pair: () => sim.openPairing(),
+    phones: () => console.log(sim.pairing.list()),
+    outage: (value) => sim.apply({ mains: { outage: value !== 'off' } }),
+    voltage: (value) => sim.apply({ mains: { voltage: Number(value) } }),
+    current: (value) => sim.apply({ load: { current: Number(value) } }),
+    pzem: (value) => sim.apply({ faults: { pzemFailure: value === 'fail' } }),
+    latency: (value) => sim.apply({ faults: { latencyMs: Number(value) } }),
+    drop: (value) => sim.apply({ faults: { dropRate: Number(value) } }),
+    firmware: () => console.log(sim.firmware.status()),
+    journal: () => console.log(sim.journal.read(0, 20)),
+    clock: (value) => (value ? sim.breaker.skewClock(Number(value)) : console.log(sim.breaker.time())),
+    clockdrift: (value) => sim.apply({ faults: { clockDriftPpm: Number(value) } }),
+    rssi: (value) => sim.apply({ wifi: { rssi: Number(value) } }),
+    status: () => console.log(sim.getStatus()),
+  };
+
+  const rl = readline.createInterface({ input: process.stdin });
+  rl.on('line', (line) => {
+    const [name, value] = line.trim().split(/\s+/);
+    if (!name) return;
+    const command = commands[name];
+    if (!command) {
+      console.log(`❓ Unknown command "${name}" (${Object.keys(commands).join(', ')})`);
+      return;
+    }
+    try {
+      command(value);
+    } catch (error) {
+      console.error('❌', error.message);
+    }
+  });
+
+  const shutdown = async () => {
+    rl.close();
+    await sim.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+main().catch((error) => {
+  console.error('❌ Simulator failed to start:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,332 @@
+// Simulated SmartCB breaker - the firmware's state machine without the hardware
+//
+// Mirrors what the ESP32 does every second: read the PZEM, run protection,
+// handle auto-reconnect and report status. Scenarios drive the mains supply,
+// the load and injected faults.
+
+const NOMINAL_VOLTAGE = 230;
+const NOMINAL_FREQUENCY = 50;
+const INRUSH_FACTOR = 6;      // Motor start: current peaks at 6x the running load ...
+const INRUSH_DECAY = 80;      // ... and settles with this time constant (ms)
+
+const DEFAULT_SETTINGS = {
+  maxCurrent: 16,
+  maxVoltage: 250,
+  minVoltage: 180,
+  protectionEnabled: true,
+  maxFrequency: 51,
+  minFrequency: 49,
+  minPowerFactor: 0.85,
+  voltageProtection: true,
+  frequencyProtection: true,
+  powerFactorProtection: false,
+  autoResetDelay: 10,
+  autoReconnectEnabled: true,
+};
+
+const DEFAULT_CONDITIONS = {
+  mains: { voltage: NOMINAL_VOLTAGE, frequency: NOMINAL_FREQUENCY, outage: false },
+  load: { current: 5, powerFactor: 0.95 },
+  faults: {
+    pzemFailure: false,
+    latencyMs: 0,          // Delay before the response starts
+    bodyDelayMs: 0,        // Headers at once, body this much later
+    dropRate: 0,
+    httpStatus: 0,         // Answer every request with this status instead
+    malformedJson: false,  // Cut every JSON body short
+    omitFields: [],        // Leave these fields out of every response body
+    clockDriftPpm: 0,
+  },
+  wifi: { rssi: -58 },
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Wall-clock fields in the zone the app sent (the firmware applies the POSIX rule instead)
+const localFields = (epochMs, zone) => {
+  let format;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone || 'UTC',
+      hourCycle: 'h23',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+  } catch {
+    return localFields(epochMs, 'UTC');
+  }
+  const parts = format.formatToParts(new Date(epochMs));
+  const get = (type) => parts.find((part) => part.type === type).value;
+  return {
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+    day: WEEKDAYS.indexOf(get('weekday')),
+  };
+};
+
+// Small deterministic jitter so readings look alive without randomness in tests
+const jitter = (seed, amplitude) => Math.sin(seed * 1.7) * amplitude;
+
+class SimulatedBreaker {
+  constructor(options = {}) {
+    this.info = {
+      deviceName: options.deviceName || 'SmartCB Simulator',
+      deviceId: options.deviceId || 'SIM-0001',
+      model: 'ESP32-SmartCB',
+      firmwareVersion: options.firmwareVersion || '4.0.0',
+      protocolVersion: options.protocolVersion ?? 4,
+    };
+
+    this.settings = { ...DEFAULT_SETTINGS };
+    this.schedules = [];
+    this.conditions = JSON.parse(JSON.stringify(DEFAULT_CONDITIONS));
+    this.clock = { hour: 12, minute: 0, day: 1, setAt: 0 };
+    this.wifi = { state: 'idle', ssid: undefined, ip: undefined, reason: undefined };
+
+    this.relayState = true;
+    this.energy = 0;
+    this.elapsed = 0;
+    this.manualMode = false;
+    this.protectionTriggered = false;
+    this.protectionReason = '';
+    this.trippedAt = null;
+    this.switchedOnAt = 0;    // Wall clock, for the inrush seen in live captures
+    this.handledCommands = new Set();
+    this.listeners = [];
+  }
+
+  // Subscribe to firmware-style events ({ event, message })
+  onEvent(listener) {
+    this.listeners.push(listener);
+  }
+
+  emit(event, message) {
+    console.log(`📣 [sim] ${event}: ${message}`);
+    this.listeners.forEach((listener) => listener(event, message));
+  }
+
+  // Merge scenario conditions ({ mains, load, faults, wifi })
+  applyConditions(conditions) {
+    const wasOutage = this.conditions.mains.outage;
+
+    for (const key of ['mains', 'load', 'faults', 'wifi']) {
+      if (conditions[key]) {
+        this.conditions[key] = { ...this.conditions[key], ...conditions[key] };
+      }
+    }
+
+    if (!wasOutage && this.conditions.mains.outage) this.emit('outage', 'Power outage detected');
+    if (wasOutage && !this.conditions.mains.outage) this.emit('restore', 'Power restored');
+  }
+
+  resetConditions() {
+    this.conditions = JSON.parse(JSON.stringify(DEFAULT_CONDITIONS));
+  }
+
+  // Advance the firmware loop by ms
+  tick(ms) {
+    this.elapsed += ms;
+
+    const reading = this.measure();
+    if (reading.power > 0) {
+      this.energy += (reading.power * ms) / 3600000 / 1000; // kWh
+    }
+
+    this.runProtection(reading);
+    this.runAutoReconnect(reading);
+  }
+
+  // What the PZEM would read right now (null fields when the sensor fails)
+  measure() {
+    const { mains, load } = this.conditions;
+    const seed = this.elapsed / 1000;
+
+    const voltage = mains.outage ? 0 : Math.max(mains.voltage + jitter(seed, 0.8), 0);
+    const frequency = mains.outage ? 0 : mains.frequency + jitter(seed + 3, 0.02);
+    const current = mains.outage || !this.relayState ? 0 : Math.max(load.current + jitter(seed + 7, 0.05), 0);
+    const powerFactor = current > 0 ? load.powerFactor : 0;
+    const apparentPower = voltage * current;
+    const power = apparentPower * powerFactor;
+    const reactivePower = Math.sqrt(Math.max(apparentPower ** 2 - power ** 2, 0));
+
+    return { voltage, current, power, frequency, powerFactor, apparentPower, reactivePower };
+  }
+
+  runProtection(reading) {
+    if (!this.settings.protectionEnabled || !this.relayState || this.conditions.mains.outage) return;
+
+    const s = this.settings;
+    let reason = '';
+
+    if (reading.current > s.maxCurrent) reason = 'overcurrent';
+    else if (s.voltageProtection && reading.voltage > s.maxVoltage) reason = 'overvoltage';
+    else if (s.voltageProtection && reading.voltage < s.minVoltage) reason = 'undervoltage';
+    else if (s.frequencyProtection && (reading.frequency > s.maxFrequency || reading.frequency < s.minFrequency)) reason = 'frequency';
+    else if (s.powerFactorProtection && reading.current > 0 && reading.powerFactor < s.minPowerFactor) reason = 'power_factor';
+
+    if (reason) {
+      this.relayState = false;
+      this.protectionTriggered = true;
+      this.protectionReason = reason;
+      this.trippedAt = this.elapsed;
+      this.emit('protection', `Protection triggered: ${reason}`);
+    }
+  }
+
+  runAutoReconnect() {
+    if (!this.protectionTriggered || this.manualMode || !this.settings.autoReconnectEnabled) return;
+    if (this.elapsed - this.trippedAt < this.settings.autoResetDelay * 1000) return;
+
+    const { mains, load } = this.conditions;
+    const s = this.settings;
+    const safe =
+      !mains.outage &&
+      load.current <= s.maxCurrent &&
+      (!s.voltageProtection || (mains.voltage >= s.minVoltage && mains.voltage <= s.maxVoltage));
+
+    if (safe) {
+      this.relayState = true;
+      this.switchedOnAt = Date.now();
+      this.protectionTriggered = false;
+      this.protectionReason = '';
+      this.trippedAt = null;
+      this.emit('reconnect', 'Auto-reconnect: conditions are safe');
+    }
+  }
+
+  // POST /api/relay - set-to-state, duplicate command IDs are acknowledged but ignored
+  setRelay(state, commandId) {
+    if (commandId && this.handledCommands.has(commandId)) return;
+    if (commandId) this.handledCommands.add(commandId);
+
+    if (state && !this.relayState) this.switchedOnAt = Date.now();
+    this.relayState = state;
+    this.manualMode = false;
+    if (state) {
+      this.protectionTriggered = false;
+      this.protectionReason = '';
+      this.trippedAt = null;
+    }
+    this.emit('relay', `Relay ${state ? 'ON' : 'OFF'}`);
+  }
+
+  // Physical button on the breaker
+  pressButton() {
+    this.relayState = !this.relayState;
+    if (this.relayState) this.switchedOnAt = Date.now();
+    this.manualMode = true;
+    this.emit('manual', `Manual button: relay ${this.relayState ? 'ON' : 'OFF'}`);
+  }
+
+  // One live-capture sample at wall-clock time `at`: the current reading plus ripple and
+  // inrush after the relay closes. null while the PZEM is failing.
+  sample(at) {
+    if (this.conditions.faults.pzemFailure) return null;
+
+    const reading = this.measure();
+    const sinceOn = at - this.switchedOnAt;
+    if (sinceOn < 0) return { voltage: reading.voltage, current: 0, power: 0 }; // Relay was still open
+
+    const inrush = 1 + (INRUSH_FACTOR - 1) * Math.exp(-sinceOn / INRUSH_DECAY);
+    const current = reading.current * inrush + (reading.current > 0 ? jitter(at / 7, 0.08) : 0);
+    // The supply sags a little under the inrush
+    const voltage = reading.voltage - (inrush - 1) * 1.5 + jitter(at / 11, 0.4);
+    const round = (value, digits) => Number(Math.max(value, 0).toFixed(digits));
+
+    return {
+      voltage: round(voltage, 1),
+      current: round(current, 3),
+      power: round(voltage * current * this.conditions.load.powerFactor, 1),
+    };
+  }
+
+  // GET /api/status body
+  status() {
+    const reading = this.measure();
+    const base = {
+      relayState: this.relayState,
+      protectionTriggered: this.protectionTriggered,
+      protectionReason: this.protectionReason,
+      manualMode: this.manualMode,
+      powerOutage: this.conditions.mains.outage,
+      reconnectionPending: this.protectionTriggered && this.settings.autoReconnectEnabled,
+      rssi: this.conditions.wifi.rssi, // WiFi.RSSI() of the breaker's own link
+    };
+
+    // ArduinoJson serializes the PZEM's NaN readings as null
+    if (this.conditions.faults.pzemFailure) {
+      return {
+        ...base,
+        voltage: null,
+        current: null,
+        power: null,
+        energy: null,
+        frequency: null,
+        powerFactor: null,
+      };
+    }
+
+    const round = (value, digits) => Number(value.toFixed(digits));
+    return {
+      ...base,
+      voltage: round(reading.voltage, 1),
+      current: round(reading.current, 3),
+      power: round(reading.power, 1),
+      energy: round(this.energy, 4),
+      frequency: round(reading.frequency, 2),
+      powerFactor: round(reading.powerFactor, 2),
+      apparentPower: round(reading.apparentPower, 1),
+      reactivePower: round(reading.reactivePower, 1),
+    };
+  }
+
+  updateSettings(changes) {
+    this.settings = { ...this.settings, ...changes };
+  }
+
+  // POST /api/time - a full sync carries epochMs and the zone; older apps send hour/minute/day
+  setTime(time) {
+    if (typeof time.epochMs === 'number') {
+      this.clock = { epochMs: time.epochMs, tz: time.tz, zone: time.zone, setAt: Date.now() };
+    } else {
+      this.clock = { hour: time.hour, minute: time.minute, day: time.day, setAt: this.elapsed };
+    }
+  }
+
+  // No RTC battery: a reboot loses the time until the app syncs it again
+  resetClock() {
+    this.clock = { hour: 0, minute: 0, day: 4, setAt: this.elapsed };
+  }
+
+  // Jump the clock, e.g. +5000 to make it run 5 s fast
+  skewClock(ms) {
+    if (this.clock.epochMs !== undefined) this.clock.epochMs += ms;
+  }
+
+  // Unix ms on the breaker's clock; undefined until a full sync
+  epochNow() {
+    if (this.clock.epochMs === undefined) return undefined;
+    const ppm = this.conditions.faults.clockDriftPpm || 0;
+    return Math.round(this.clock.epochMs + (Date.now() - this.clock.setAt) * (1 + ppm / 1e6));
+  }
+
+  time() {
+    const epochMs = this.epochNow();
+    if (epochMs !== undefined) {
+      return { ...localFields(epochMs, this.clock.zone), epochMs, tz: this.clock.tz, zone: this.clock.zone };
+    }
+
+    const minutes = this.clock.hour * 60 + this.clock.minute + Math.floor((this.elapsed - this.clock.setAt) / 60000);
+    const dayOffset = Math.floor(minutes / 1440);
+    return {
+      hour: Math.floor(minutes / 60) % 24,
+      minute: minutes % 60,
+      day: (this.clock.day + dayOffset) % 7,
+    };
+  }
+}
+
+module.exports = { SimulatedBreaker, DEFAULT_SETTINGS, NOMINAL_VOLTAGE, NOMINAL_FREQUENCY };
@@ -0,0 +1,114 @@
+// OTA slots - the firmware side of services/firmwareUpdate.ts
+//
+// An uploaded image boots as 'pending_verify'. The app confirms it once it reports valid
+// readings; if nobody does within the confirm window the breaker boots the previous image.
+
+const crypto = require('crypto');
+
+const REBOOT_DELAY = 4000;
+const CONFIRM_WINDOW = 60000;
+
+class FirmwareSlots {
+  // fault: 'bad-image' (bootloader refuses it) or 'unhealthy' (boots but readings are garbage)
+  constructor(info, options = {}) {
+    this.info = info;
+    this.fault = options.firmwareFault || null;
+    this.rebootDelay = options.rebootDelay ?? REBOOT_DELAY;
+    this.confirmWindow = options.confirmWindow ?? CONFIRM_WINDOW;
+    this.state = 'valid';
+    this.previousVersion = undefined;
+    this.rebooting = false;
+    this.confirmTimer = null;
+    this.rebootTimer = null;
+    this.onReboot = () => {};
+  }
+
+  get version() {
+    return this.info.firmwareVersion;
+  }
+
+  isRebooting() {
+    return this.rebooting;
+  }
+
+  // Garbage status frames while the 'unhealthy' fault is running unconfirmed
+  isUnhealthy() {
+    return this.fault === 'unhealthy' && this.state === 'pending_verify';
+  }
+
+  status() {
+    return {
+      version: this.version,
+      state: this.state,
+      previousVersion: this.previousVersion,
+      canRollback: this.previousVersion !== undefined,
+    };
+  }
+
+  // POST /api/firmware - returns an error message or null when the image was accepted
+  install(image, { sha256, version }) {
+    if (!sha256 || crypto.createHash('sha256').update(image).digest('hex') !== String(sha256).toLowerCase()) {
+      return 'checksum mismatch';
+    }
+    if (!version) return 'version required';
+
+    console.log(`📦 [sim] Received firmware ${version} (${image.length} bytes)`);
+    const bootable = this.fault !== 'bad-image';
+    this.reboot(() => {
+      if (!bootable) {
+        console.log(`📦 [sim] Image ${version} failed to boot, staying on ${this.version}`);
+        return;
+      }
+      this.previousVersion = this.version;
+      this.info.firmwareVersion = version;
+      this.state = 'pending_verify';
+      this.confirmTimer = setTimeout(() => {
+        console.log(`📦 [sim] ${version} was never confirmed, rolling back`);
+        this.rollback();
+      }, this.confirmWindow);
+    });
+    return null;
+  }
+
+  confirm() {
+    if (this.state !== 'pending_verify') return false;
+    clearTimeout(this.confirmTimer);
+    this.state = 'valid';
+    console.log(`📦 [sim] Firmware ${this.version} confirmed`);
+    return true;
+  }
+
+  rollback() {
+    if (this.previousVersion === undefined) return false;
+    clearTimeout(this.confirmTimer);
+
+    const target = this.previousVersion;
+    this.reboot(() => {
+      this.previousVersion = this.version;
+      this.info.firmwareVersion = target;
+      this.state = 'valid';
+    });
+    return true;
+  }
+
+  // Answer the request first, then go dark for the reboot
+  reboot(afterBoot) {
+    this.rebootTimer = setTimeout(() => {
+      this.rebooting = true;
+      this.onReboot();
+      console.log('🔄 [sim] Rebooting...');
+      this.rebootTimer = setTimeout(() => {
+        afterBoot();
+        this.rebooting = false;
+        console.log(`🔄 [sim] Up on firmware ${this.version} (${this.state})`);
+      }, this.rebootDelay);
+    }, 100);
+  }
+
+  stop() {
+    clearTimeout(this.confirmTimer);
+    clearTimeout(this.rebootTimer);
+  }
+}
+
+module.exports = { FirmwareSlots };
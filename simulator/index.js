@@ -0,0 +1,480 @@
+// ESP32 Simulator - the SmartCB firmware's HTTP API and port-81 push stream in Node
+//
+// const { createSimulator } = require('./simulator');
+// const sim = createSimulator({ httpPort: 0, wsPort: 0, manualClock: true });
+// await sim.start();
+// sim.setScenario('overload');
+// sim.advance(16000);
+// await sim.stop();
+
+const http = require('http');
+const dgram = require('dgram');
+const { SimulatedBreaker } = require('./device');
+const { scenarios } = require('./scenarios');
+const { createWebSocketServer } = require('./websocket');
+const { PairingRegistry } = require('./auth');
+const { FirmwareSlots } = require('./firmware');
+const { EventJournal } = require('./journal');
+
+const DISCOVERY_PROBE = 'SMARTCB_DISCOVER';
+const MAX_STEP = 1000; // advance() moves the firmware loop at most 1 s at a time
+const STREAM_BATCH_INTERVAL = 200; // Live capture: one batch per this
+const STREAM_MAX_RATE = 50;        // samples/s
+const STREAM_MAX_DURATION = 60;    // s
+
+const DEFAULT_WIFI_NETWORKS = [
+  { ssid: 'HomeWiFi', rssi: -52, secure: true },
+  { ssid: 'HomeWiFi-5G', rssi: -61, secure: true },
+  { ssid: 'Neighbor', rssi: -79, secure: true },
+  { ssid: 'CoffeeShop', rssi: -85, secure: false },
+];
+
+// Raw bytes are kept because signatures cover the exact bytes that were sent
+const readBody = (req) =>
+  new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+
+const parseJson = (raw) => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return null;
+  }
+};
+
+// Always signed: managing paired phones
+const SIGNED_ROUTES = new Set(['GET /api/pair/clients', 'POST /api/pair/revoke']);
+// Never signed: pairing itself and AP-mode WiFi setup (the phone has no secret yet)
+const OPEN_ROUTES = new Set(['POST /api/pair', 'POST /api/wifi']);
+// Binary bodies; signed over the X-Firmware-SHA256 digest instead of the bytes
+const RAW_ROUTES = new Set(['POST /api/firmware']);
+
+const listen = (server, port, host) =>
+  new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve(server.address().port));
+  });
+
+const close = (server) => new Promise((resolve) => server.close(() => resolve()));
+
+function createSimulator(options = {}) {
+  const host = options.host || '0.0.0.0';
+  const tickInterval = options.tickInterval || 1000;
+  const pushInterval = options.pushInterval || 1000;
+  const wifiNetworks = options.wifiNetworks || DEFAULT_WIFI_NETWORKS;
+
+  const breaker = new SimulatedBreaker(options);
+  const pairing = new PairingRegistry(options);
+  const firmware = new FirmwareSlots(breaker.info, options);
+  const journal = new EventJournal(options);
+  let httpPort = options.httpPort ?? 8080;
+  let wsPort = options.wsPort ?? 8081;
+  const discoveryPort = options.discoveryPort === undefined ? 4210 : options.discoveryPort;
+
+  let scenario = null;
+  let scenarioElapsed = 0;
+  let nextStep = 0;
+  let sincePush = 0;
+  let timer = null;
+  let discoverySocket = null;
+  let stream = null; // The live capture in progress - the firmware runs one at a time
+
+  // --- Scenario runner ---
+
+  const resolveScenario = (nameOrScript) => {
+    if (typeof nameOrScript === 'object' && nameOrScript) return nameOrScript;
+    const found = scenarios[nameOrScript];
+    if (!found) throw new Error(`Unknown scenario "${nameOrScript}" (have: ${Object.keys(scenarios).join(', ')})`);
+    return found;
+  };
+
+  const applyDueSteps = () => {
+    while (scenario && nextStep < scenario.steps.length && scenario.steps[nextStep].at <= scenarioElapsed) {
+      const step = scenario.steps[nextStep++];
+      if (step.reset) breaker.resetConditions();
+      breaker.applyConditions(step);
+      if (step.log) console.log(`🎬 [sim] ${step.log}`);
+    }
+  };
+
+  const setScenario = (nameOrScript) => {
+    scenario = resolveScenario(nameOrScript);
+    scenarioElapsed = 0;
+    nextStep = 0;
+    console.log(`🎬 [sim] Scenario: ${scenario.description || 'custom'}`);
+    applyDueSteps();
+    pushStatus();
+  };
+
+  // Move simulated time forward - driven by a timer, or by tests with manualClock
+  const advance = (ms) => {
+    let remaining = ms;
+    while (remaining > 0) {
+      const step = Math.min(remaining, MAX_STEP);
+      remaining -= step;
+
+      scenarioElapsed += step;
+      if (scenario && scenario.loop && scenario.duration && scenarioElapsed >= scenario.duration) {
+        scenarioElapsed -= scenario.duration;
+        nextStep = 0;
+      }
+      applyDueSteps();
+
+      breaker.tick(step);
+
+      sincePush += step;
+      if (sincePush >= pushInterval) {
+        sincePush = 0;
+        pushStatus();
+      }
+    }
+  };
+
+  // --- WebSocket (port 81 protocol) ---
+
+  // Signed: { command, payload, auth }; unsigned: { command, ...params }
+  const unwrapCommand = (client, message) => {
+    if (message && message.auth) {
+      const { auth } = message;
+      const result = pairing.verify({ method: 'WS', path: String(message.command), body: String(message.payload ?? ''), ...auth });
+      if (!result.ok) {
+        client.send({ type: 'error', error: result.error, reason: result.reason, serverTime: result.serverTime });
+        return null;
+      }
+      return { command: message.command, ...parseJson(message.payload) };
+    }
+
+    if (pairing.requireAuth && message && message.command === 'setRelay') {
+      client.send({ type: 'error', error: 'pairing_required', serverTime: Date.now() });
+      return null;
+    }
+    return message;
+  };
+
+  // A freshly flashed image that can't read its sensors yet
+  const statusFrame = () => (firmware.isUnhealthy() ? { error: 'sensor_init_failed' } : breaker.status());
+
+  // --- Live capture (startStream / stopStream) ---
+
+  const endStream = (reason) => {
+    if (!stream) return;
+    clearInterval(stream.timer);
+    stream.client.send({ type: 'streamEnd', streamId: stream.streamId, reason, batches: stream.seq });
+    console.log(`📈 [sim] Stream ${stream.streamId} ${reason} after ${stream.sent} samples`);
+    stream = null;
+  };
+
+  const startStream = (client, { streamId, rate, duration }) => {
+    if (stream && stream.client !== client) {
+      client.send({ type: 'streamEnd', streamId, reason: 'busy', batches: 0 });
+      return;
+    }
+    endStream('stopped');
+
+    if (!(rate > 0 && rate <= STREAM_MAX_RATE && duration > 0 && duration <= STREAM_MAX_DURATION)) {
+      client.send({ type: 'streamEnd', streamId, reason: 'unsupported', batches: 0 });
+      return;
+    }
+
+    const current = { client, streamId, rate, total: Math.round(rate * duration), sent: 0, seq: 0, startedAt: Date.now(), timer: null };
+    current.timer = setInterval(() => {
+      if (!client.open || firmware.isRebooting()) {
+        clearInterval(current.timer);
+        if (stream === current) stream = null;
+        return;
+      }
+
+      // Every sample that fell due since the last batch, each taken at its own time
+      const due = Math.min(current.total, Math.floor(((Date.now() - current.startedAt) * rate) / 1000));
+      const samples = [];
+      for (; current.sent < due; current.sent++) {
+        const t = Math.round((current.sent * 1000) / rate);
+        const reading = breaker.sample(current.startedAt + t);
+        if (reading) samples.push([t, reading.voltage, reading.current, reading.power]);
+      }
+
+      if (samples.length > 0) {
+        client.send({ type: 'stream', streamId, seq: current.seq++, rate, samples });
+      }
+      if (current.sent >= current.total) endStream('complete');
+    }, STREAM_BATCH_INTERVAL);
+
+    stream = current;
+    console.log(`📈 [sim] Streaming ${duration} s at ${rate} samples/s`);
+  };
+
+  const ws = createWebSocketServer({
+    onConnection: (client) => {
+      if (firmware.isRebooting()) return client.close();
+      client.send({ type: 'status', ...statusFrame() });
+    },
+    onMessage: (client, raw) => {
+      const message = unwrapCommand(client, raw);
+      switch (message && message.command) {
+        case 'getStatus':
+          client.send({ type: 'status', ...statusFrame() });
+          break;
+        case 'getSettings':
+          client.send({ type: 'settings', ...breaker.settings });
+          break;
+        case 'setRelay':
+          breaker.setRelay(message.state === true, message.commandId);
+          break;
+        case 'ping':
+          client.send({ type: 'pong' });
+          break;
+        case 'startStream':
+          startStream(client, message);
+          break;
+        case 'stopStream':
+          if (stream && stream.client === client && stream.streamId === message.streamId) endStream('stopped');
+          break;
+      }
+    },
+  });
+
+  function pushStatus() {
+    if (firmware.isRebooting()) return;
+    ws.broadcast({ type: 'status', ...statusFrame() });
+  }
+
+  firmware.onReboot = () => {
+    ws.closeAll();
+    journal.reboot();
+    breaker.resetClock();
+  };
+
+  breaker.onEvent((event, message) => {
+    const entry = journal.record(event, message, {
+      time: breaker.epochNow(),
+      relayState: breaker.relayState,
+      ...(event === 'protection' ? { reason: breaker.protectionReason } : {}),
+    });
+    ws.broadcast({ type: 'event', ...entry });
+    pushStatus();
+  });
+
+  // --- HTTP API ---
+
+  const startJoin = ({ ssid, password }) => {
+    breaker.wifi = { state: 'connecting', ssid };
+
+    setTimeout(() => {
+      const network = wifiNetworks.find((candidate) => candidate.ssid === ssid);
+      const expected = options.wifiPassword;
+
+      if (!network) {
+        breaker.wifi = { state: 'failed', ssid, reason: 'no_ssid' };
+      } else if (network.secure && (expected ? password !== expected : !password)) {
+        breaker.wifi = { state: 'failed', ssid, reason: 'wrong_password' };
+      } else {
+        breaker.wifi = { state: 'connected', ssid, ip: options.stationIp || '127.0.0.1' };
+      }
+      console.log(`📶 [sim] WiFi join "${ssid}": ${breaker.wifi.state}${breaker.wifi.reason ? ` (${breaker.wifi.reason})` : ''}`);
+    }, options.wifiJoinDelay ?? 3000);
+  };
+
+  const routes = {
+    'GET /api/info': () => ({ ...breaker.info, wsPort, authRequired: pairing.requireAuth }),
+    'GET /api/status': () => statusFrame(),
+    'POST /api/relay': (body) => {
+      if (typeof body.state !== 'boolean') return { success: false, message: 'state must be boolean' };
+      breaker.setRelay(body.state, body.commandId);
+      return { success: true };
+    },
+    'GET /api/settings': () => breaker.settings,
+    'POST /api/settings': (body) => {
+      breaker.updateSettings(body);
+      ws.broadcast({ type: 'settings', ...breaker.settings });
+      return { success: true };
+    },
+    'GET /api/events': (body, req) => {
+      const query = new URL(req.url, 'http://sim').searchParams;
+      return { ...journal.read(Number(query.get('since')) || 0, Number(query.get('limit')) || 50), time: breaker.epochNow() };
+    },
+    'GET /api/schedules': () => ({ schedules: breaker.schedules }),
+    'POST /api/schedules': (body) => {
+      if (!Array.isArray(body.schedules)) return { success: false, message: 'schedules must be an array' };
+      breaker.schedules = body.schedules;
+      return { success: true };
+    },
+    'GET /api/time': () => breaker.time(),
+    'POST /api/time': (body) => {
+      breaker.setTime(body);
+      return { success: true };
+    },
+    'GET /api/wifi/scan': () => ({ networks: wifiNetworks }),
+    'POST /api/wifi': (body) => {
+      if (typeof body.ssid !== 'string' || !body.ssid) return { success: false, message: 'ssid required' };
+      startJoin(body);
+      return { success: true };
+    },
+    'GET /api/wifi/status': () => breaker.wifi,
+    'POST /api/pair': (body) => {
+      if (typeof body.clientId !== 'string' || !body.clientId) return { success: false, message: 'clientId required' };
+      return pairing.pair(body.clientId, body.name) ?? { status: 403, body: { error: 'pairing_closed' } };
+    },
+    'GET /api/pair/clients': () => ({ clients: pairing.list() }),
+    'POST /api/pair/revoke': (body) => ({ success: pairing.revoke(body.clientId) }),
+    'GET /api/firmware': () => firmware.status(),
+    'POST /api/firmware': (image, req) => {
+      const error = firmware.install(image, {
+        sha256: req.headers['x-firmware-sha256'],
+        version: req.headers['x-firmware-version'],
+      });
+      return error ? { status: 400, body: { success: false, message: error } } : { success: true };
+    },
+    'POST /api/firmware/confirm': () => ({ success: firmware.confirm() }),
+    'POST /api/firmware/rollback': () => ({ success: firmware.rollback() }),
+  };
+
+  // null when the request may proceed, else the 401 body
+  const checkSignature = (req, key, raw) => {
+    const path = req.url; // Query string is signed too
+    const signed = req.headers['x-smartcb-signature'] !== undefined;
+    const mustSign = SIGNED_ROUTES.has(key) || (pairing.requireAuth && req.method === 'POST' && !OPEN_ROUTES.has(key));
+    if (!signed && !mustSign) return null;
+
+    const result = pairing.verify({
+      method: req.method,
+      path,
+      body: raw,
+      bodySha256: RAW_ROUTES.has(key) ? req.headers['x-firmware-sha256'] : undefined,
+      client: req.headers['x-smartcb-client'],
+      timestamp: req.headers['x-smartcb-timestamp'],
+      nonce: req.headers['x-smartcb-nonce'],
+      signature: req.headers['x-smartcb-signature'],
+    });
+    return result.ok ? null : { error: result.error, reason: result.reason, serverTime: result.serverTime };
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const { faults } = breaker.conditions;
+
+    if (firmware.isRebooting() || (faults.dropRate && Math.random() < faults.dropRate)) {
+      req.socket.destroy();
+      return;
+    }
+
+    const key = `${req.method} ${req.url.split('?')[0]}`;
+    const route = routes[key];
+    const bytes = await readBody(req);
+    const raw = RAW_ROUTES.has(key) ? '' : bytes.toString('utf8');
+    const body = RAW_ROUTES.has(key) ? bytes : req.method === 'POST' ? parseJson(raw) : {};
+
+    const send = (status, payload) => {
+      let text = JSON.stringify(
+        payload && typeof payload === 'object' && faults.omitFields.length > 0
+          ? Object.fromEntries(Object.entries(payload).filter(([field]) => !faults.omitFields.includes(field)))
+          : payload
+      );
+      if (faults.malformedJson) text = text.slice(0, Math.floor(text.length / 2));
+
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      if (faults.bodyDelayMs) {
+        res.flushHeaders();
+        setTimeout(() => res.end(text), faults.bodyDelayMs);
+      } else {
+        res.end(text);
+      }
+    };
+
+    const respond = () => {
+      if (faults.httpStatus) return send(faults.httpStatus, { error: `Injected ${faults.httpStatus}` });
+      if (!route) return send(404, { error: 'Not found' });
+      if (body === null) return send(400, { success: false, message: 'Invalid JSON' });
+
+      const authError = checkSignature(req, key, raw);
+      if (authError) return send(401, authError);
+
+      const result = route(body, req);
+      if (result && result.status) return send(result.status, result.body);
+      send(200, result);
+    };
+
+    if (faults.latencyMs) {
+      setTimeout(respond, faults.latencyMs);
+    } else {
+      respond();
+    }
+  });
+
+  // --- UDP discovery (answers DeviceDiscoveryService's broadcast probe) ---
+
+  const startDiscovery = () =>
+    new Promise((resolve) => {
+      discoverySocket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+      discoverySocket.on('message', (msg, rinfo) => {
+        if (msg.toString().trim() !== DISCOVERY_PROBE) return;
+        const reply = JSON.stringify({ deviceId: breaker.info.deviceId, port: httpPort });
+        discoverySocket.send(reply, rinfo.port, rinfo.address);
+      });
+      discoverySocket.on('error', (error) => {
+        console.warn(`⚠️ [sim] Discovery listener disabled: ${error.message}`);
+        discoverySocket.close();
+        discoverySocket = null;
+        resolve();
+      });
+      discoverySocket.bind(discoveryPort, () => resolve());
+    });
+
+  return {
+    breaker,
+    advance,
+    setScenario,
+    pushStatus,
+    apply: (conditions) => {
+      breaker.applyConditions(conditions);
+      pushStatus();
+    },
+    pressButton: () => breaker.pressButton(),
+    closeSockets: (code, reason) => ws.closeAll(code, reason),
+    openPairing: (ms) => pairing.openWindow(ms),
+    pairing,
+    firmware,
+    journal,
+    getStatus: () => breaker.status(),
+
+    get httpPort() {
+      return httpPort;
+    },
+    get wsPort() {
+      return wsPort;
+    },
+    get url() {
+      return `http://${host === '0.0.0.0' ? '127.0.0.1' : host}:${httpPort}`;
+    },
+
+    async start() {
+      httpPort = await listen(httpServer, httpPort, host);
+      wsPort = await listen(ws.server, wsPort, host);
+      if (discoveryPort !== null) await startDiscovery();
+
+      setScenario(options.scenario || 'normal');
+
+      if (!options.manualClock) {
+        timer = setInterval(() => advance(tickInterval), tickInterval);
+      }
+
+      console.log(`⚡ [sim] ${breaker.info.deviceName} - HTTP :${httpPort}, WebSocket :${wsPort}`);
+      return { httpPort, wsPort };
+    },
+
+    async stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+      if (stream) clearInterval(stream.timer);
+      stream = null;
+      firmware.stop();
+      ws.closeAll();
+      if (discoverySocket) discoverySocket.close();
+      discoverySocket = null;
+      await Promise.all([close(httpServer), close(ws.server)]);
+    },
+  };
+}
+
+module.exports = { createSimulator, scenarios };
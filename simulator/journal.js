@@ -0,0 +1,49 @@
+// Event journal - the firmware's ring buffer behind GET /api/events
+//
+// Entries survive reboots (they live in flash on the ESP32). Each one records the boot
+// counter and millis(), plus wall-clock time once the app has set the clock.
+
+const crypto = require('crypto');
+
+const CAPACITY = 200;
+
+class EventJournal {
+  constructor(options = {}) {
+    this.capacity = options.journalCapacity || CAPACITY;
+    this.journalId = crypto.randomBytes(4).toString('hex'); // A new simulator run is an erased journal
+    this.entries = [];
+    this.latestSeq = 0;
+    this.boot = 1;
+    this.bootedAt = Date.now();
+  }
+
+  uptime() {
+    return Date.now() - this.bootedAt;
+  }
+
+  reboot() {
+    this.boot++;
+    this.bootedAt = Date.now();
+  }
+
+  record(event, message, extra = {}) {
+    const entry = { seq: ++this.latestSeq, event, message, boot: this.boot, uptime: this.uptime(), ...extra };
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) this.entries.shift();
+    return entry;
+  }
+
+  // GET /api/events?since=<seq>&limit=<n>
+  read(since = 0, limit = 50) {
+    return {
+      journalId: this.journalId,
+      latestSeq: this.latestSeq,
+      oldestSeq: this.entries.length > 0 ? this.entries[0].seq : this.latestSeq + 1,
+      boot: this.boot,
+      uptime: this.uptime(),
+      events: this.entries.filter((entry) => entry.seq > since).slice(0, limit),
+    };
+  }
+}
+
+module.exports = { EventJournal };
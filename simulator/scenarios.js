@@ -0,0 +1,76 @@
+// Built-in simulator scenarios
+//
+// A scenario is a list of steps applied at `at` ms after it starts. Each step merges
+// { mains, load, faults } into the breaker's conditions. `loop` restarts the script
+// after `duration` ms. Custom scenarios use the same shape in a JSON file.
+
+const scenarios = {
+  normal: {
+    description: 'Steady 230 V supply, 5 A load',
+    steps: [{ at: 0, reset: true }],
+  },
+
+  outage: {
+    description: 'Mains drops for 10 s every 30 s',
+    loop: true,
+    duration: 30000,
+    steps: [
+      { at: 0, reset: true },
+      { at: 10000, mains: { outage: true }, log: 'Mains lost' },
+      { at: 20000, mains: { outage: false }, log: 'Mains back' },
+    ],
+  },
+
+  'voltage-sag': {
+    description: 'Supply sags to 185 V, then below the 180 V limit, then recovers',
+    loop: true,
+    duration: 40000,
+    steps: [
+      { at: 0, reset: true },
+      { at: 8000, mains: { voltage: 185 }, log: 'Sag to 185 V' },
+      { at: 16000, mains: { voltage: 172 }, log: 'Deep sag to 172 V' },
+      { at: 24000, mains: { voltage: 230 }, log: 'Supply recovered' },
+    ],
+  },
+
+  overload: {
+    description: 'Load ramps past the 16 A limit and trips the breaker',
+    loop: true,
+    duration: 45000,
+    steps: [
+      { at: 0, reset: true },
+      { at: 5000, load: { current: 12 }, log: 'Heater on (12 A)' },
+      { at: 10000, load: { current: 15.5 }, log: 'Near limit (15.5 A)' },
+      { at: 15000, load: { current: 21 }, log: 'Overload (21 A)' },
+      { at: 20000, load: { current: 4 }, log: 'Load removed' },
+    ],
+  },
+
+  'pzem-failure': {
+    description: 'Energy meter stops answering for 10 s (status fields become null)',
+    loop: true,
+    duration: 25000,
+    steps: [
+      { at: 0, reset: true },
+      { at: 5000, faults: { pzemFailure: true }, log: 'PZEM read failure' },
+      { at: 15000, faults: { pzemFailure: false }, log: 'PZEM recovered' },
+    ],
+  },
+
+  slow: {
+    description: 'Every HTTP response takes 2.5 s',
+    steps: [{ at: 0, reset: true, faults: { latencyMs: 2500 } }],
+  },
+
+  flaky: {
+    description: 'A third of HTTP requests are dropped without a response',
+    steps: [{ at: 0, reset: true, faults: { dropRate: 0.33 } }],
+  },
+
+  'weak-signal': {
+    description: 'The breaker is at the edge of WiFi range and responses slow down',
+    steps: [{ at: 0, reset: true, wifi: { rssi: -84 }, faults: { latencyMs: 1200 } }],
+  },
+};
+
+module.exports = { scenarios };
@@ -0,0 +1,164 @@
+// Minimal RFC 6455 WebSocket server - just enough for the ESP32's port-81 protocol
+//
+// Text frames only, no extensions. Keeps the simulator free of npm dependencies.
+
+const http = require('http');
+const crypto = require('crypto');
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+};
+
+// Pull complete frames off the front of buffer; returns { frames, rest }
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+class Client {
+  constructor(socket) {
+    this.socket = socket;
+    this.open = true;
+  }
+
+  send(message) {
+    if (!this.open) return;
+    this.socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+  }
+
+  // 1000 is a normal closure; anything else tells the phone to reconnect
+  close(code = 1000, reason = '') {
+    if (!this.open) return;
+    this.open = false;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.socket.end(encodeFrame(OPCODE_CLOSE, payload));
+  }
+}
+
+// onConnection(client) and onMessage(client, parsedJsonOrText)
+const createWebSocketServer = ({ onConnection, onMessage }) => {
+  const clients = new Set();
+  const server = http.createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('WebSocket only');
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (!key) {
+      socket.destroy();
+      return;
+    }
+
+    const accept = crypto.createHash('sha1').update(key + GUID).digest('base64');
+    socket.write(
+      'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+
+    const client = new Client(socket);
+    clients.add(client);
+    let pending = Buffer.alloc(0);
+
+    socket.on('data', (chunk) => {
+      const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+      pending = rest;
+
+      for (const frame of frames) {
+        if (frame.opcode === OPCODE_CLOSE) {
+          client.close();
+        } else if (frame.opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        } else if (frame.opcode === OPCODE_TEXT) {
+          const text = frame.payload.toString('utf8');
+          let message = text;
+          try {
+            message = JSON.parse(text);
+          } catch {
+            // Pass raw text through
+          }
+          onMessage(client, message);
+        }
+      }
+    });
+
+    const drop = () => {
+      client.open = false;
+      clients.delete(client);
+    };
+    socket.on('close', drop);
+    socket.on('error', drop);
+
+    onConnection(client);
+  });
+
+  return {
+    server,
+    clients,
+    broadcast: (message) => clients.forEach((client) => client.send(message)),
+    closeAll: (code, reason) => clients.forEach((client) => client.close(code, reason)),
+  };
+};
+
+module.exports = { createWebSocketServer, encodeFrame, decodeFrames };
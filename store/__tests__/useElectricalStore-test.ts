@@ -0,0 +1,125 @@
+// The electrical store against the firmware simulator: link, live stream, confirmed relay commands
+import { useElectricalStore } from '../useElectricalStore';
+import { useAutomationStore } from '../useAutomationStore';
+import { useEventsStore } from '../useEventsStore';
+import { useSettingsStore } from '../useSettingsStore';
+import { generateDefaultSettings } from '../../utils/mockData';
+import { storesLoaded, waitFor, startSimulator } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// History keeps minute and five-minute timers from import on; readings need not reach it here
+jest.mock('../useHistoryStore', () => ({
+  useHistoryStore: {
+    getState: () => ({ logReading: jest.fn(), setActiveDevice: jest.fn(), removeDevice: jest.fn() }),
+  },
+}));
+
+// React Native provides WebSocket; Node 20 does not
+(global as any).WebSocket = require('ws');
+
+describe('useElectricalStore with a live breaker', () => {
+  let sim: any;
+  let deviceId: string;
+
+  const runtime = () => useElectricalStore.getState().devices[deviceId];
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await storesLoaded();
+
+    sim = await startSimulator();
+
+    await expect(useElectricalStore.getState().connectToESP32('127.0.0.1', String(sim.httpPort))).resolves.toMatchObject({ ok: true });
+    deviceId = useElectricalStore.getState().activeDeviceId;
+    await waitFor(() => runtime()?.connection.transport === 'websocket');
+  });
+
+  afterAll(async () => {
+    useElectricalStore.getState().removeDevice(deviceId);
+    await sim.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('confirms a relay command from the next pushed status frame', async () => {
+    const issuedAt = Date.now();
+    const command = await useElectricalStore.getState().setRelayState(false, deviceId);
+
+    expect(command).toMatchObject({ status: 'confirmed', targetState: false, attempts: 1 });
+    // Well inside the first attempt's 4 s - the push stream confirmed it, not a timeout
+    expect(Date.now() - issuedAt).toBeLessThan(2000);
+    expect(sim.getStatus().relayState).toBe(false);
+    expect(runtime()).toMatchObject({ data: { relayState: false }, relayCommand: { status: 'confirmed' } });
+  });
+
+  it('switches back on the same way', async () => {
+    const command = await useElectricalStore.getState().setRelayState(true, deviceId);
+
+    expect(command).toMatchObject({ status: 'confirmed', targetState: true });
+    expect(sim.getStatus().relayState).toBe(true);
+  });
+
+  it('cuts off on high voltage and reconnects once conditions hold for the delay', async () => {
+    const defaults = generateDefaultSettings();
+    useSettingsStore.getState().setDeviceSettings(deviceId, {
+      ...defaults,
+      reconnection: { ...defaults.reconnection, delay: 1 },
+    });
+    const eventTypes = () =>
+      useEventsStore.getState().events.filter((event) => event.deviceId === deviceId).map((event) => event.type);
+
+    sim.apply({ mains: { voltage: 250 } });
+    sim.pushStatus();
+    await waitFor(() => runtime()?.protection?.state === 'tripped');
+
+    // The cutoff went through the command service and the breaker confirmed it
+    expect(sim.getStatus().relayState).toBe(false);
+    expect(eventTypes()).toContain('auto_off');
+
+    sim.apply({ mains: { voltage: 230 } });
+    const stream = setInterval(() => sim.pushStatus(), 100);
+    try {
+      await waitFor(() => runtime()?.protection?.state === 'armed');
+    } finally {
+      clearInterval(stream);
+    }
+
+    expect(sim.getStatus().relayState).toBe(true);
+    expect(runtime()).toMatchObject({ data: { relayState: true }, relayCommand: { status: 'confirmed', targetState: true } });
+    expect(eventTypes()).toContain('auto_on');
+  });
+
+  it('runs a relay rule through the command service and logs it done', async () => {
+    useAutomationStore.setState({
+      rules: [
+        {
+          id: 'rule-off',
+          name: 'Off when on',
+          deviceId,
+          enabled: true,
+          conditions: [{ kind: 'flag', flag: 'relayState', value: true }],
+          holdSeconds: 0,
+          action: { kind: 'relay', state: false },
+          createdAt: 0,
+          updatedAt: 0,
+        },
+      ],
+      runs: [],
+    });
+    const runs = () => useAutomationStore.getState().runs;
+
+    try {
+      sim.pushStatus();
+      await waitFor(() => runs().length > 0);
+    } finally {
+      useAutomationStore.setState({ rules: [] });
+    }
+
+    expect(runs()).toMatchObject([{ ruleId: 'rule-off', deviceId, outcome: 'done', detail: null }]);
+    expect(sim.getStatus().relayState).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+// Event detection: one episode per violation, debounced, ending past the hysteresis band
+import { useEventsStore, computeEventStatistics } from '../useEventsStore';
+import { ElectricalData } from '../../types';
+import { storesLoaded } from '../../test-utils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const reading = (changes: Partial<ElectricalData> = {}): ElectricalData => ({
+  voltage: 230,
+  current: 5,
+  power: 1100,
+  energy: 12,
+  frequency: 50,
+  powerFactor: 0.95,
+  apparentPower: 1150,
+  reactivePower: 300,
+  relayState: true,
+  timestamp: Date.now(),
+  ...changes,
+});
+
+describe('checkAndLogEvents', () => {
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // The stores load from storage 100 ms after import - let that finish before the clock is faked
+    await storesLoaded();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2026, 2, 3, 12) });
+    useEventsStore.setState({ events: [], lastReadingsByDevice: {}, episodesByDevice: {} });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // One status frame per second
+  const frames = (voltages: number[]) =>
+    voltages.forEach((voltage) => {
+      useEventsStore.getState().checkAndLogEvents(reading({ voltage }), 'device-1');
+      jest.advanceTimersByTime(1000);
+    });
+
+  const sags = () => useEventsStore.getState().events.filter((event) => event.type === 'undervoltage');
+
+  it('logs a sag once, from when it started', () => {
+    const start = Date.now();
+    frames([190, 190, 190, 190, 190, 190]);
+
+    expect(sags()).toHaveLength(1);
+    expect(sags()[0]).toMatchObject({ timestamp: start, deviceId: 'device-1', open: true });
+    expect(sags()[0].endedAt).toBeUndefined();
+  });
+
+  it('ignores dips shorter than the debounce', () => {
+    frames([190, 230, 190, 230, 190, 230]);
+
+    expect(sags()).toHaveLength(0);
+  });
+
+  it('keeps the sag open while the voltage hovers inside the hysteresis band', () => {
+    frames([190, 190, 190, 201, 199, 202, 201]);
+
+    expect(sags()).toHaveLength(1);
+    expect(sags()[0].endedAt).toBeUndefined();
+  });
+
+  it('closes the sag with its duration and extremes once the voltage has been back for the debounce', () => {
+    const start = Date.now();
+    frames([190, 185, 192, 230, 230, 230, 190]);
+
+    expect(sags()).toHaveLength(1);
+    expect(sags()[0]).toMatchObject({
+      open: false,
+      endedAt: start + 3000,
+      duration: 3000,
+      extremes: { quantity: 'voltage', peak: 192, peakAt: start + 2000, min: 185, minAt: start + 1000 },
+    });
+  });
+
+  it('records outages as episodes and counts their downtime', () => {
+    const start = Date.now();
+    frames([230, 0, 0, 0, 0, 230]);
+
+    const outage = useEventsStore.getState().events.find((event) => event.type === 'outage');
+    expect(outage).toMatchObject({ timestamp: start + 1000, open: false, duration: 4000 });
+    expect(computeEventStatistics(useEventsStore.getState().events)).toMatchObject({
+      totalOutages: 1,
+      totalDowntime: 4000,
+      averageOutageDuration: 4000,
+    });
+  });
+});
@@ -4,4 +4,13 @@ export * from './useSettingsStore';
 export * from './useEventsStore';
 export * from './useThemeStore';
 export * from './useLanguageStore';
-export * from './useHistoryStore';
\ No newline at end of file
+export * from './useHistoryStore';
+export * from './useDeviceStore';
+export * from './useDiagnosticsStore';
+export * from './useAuthStore';
+export * from './useMqttStore';
+export * from './useSettingsSyncStore';
+export * from './useOutboxStore';
+export * from './useStreamStore';
+export * from './useSessionStore';
+export * from './useAutomationStore';
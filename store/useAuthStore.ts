@@ -0,0 +1,60 @@
+// Auth Store - this phone's identity and the pairing secret for each breaker
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DeviceAuthState, DeviceCredentials } from '../types';
+import { randomHex } from '../utils/crypto';
+
+interface AuthStore {
+  clientId: string;                                  // Stable per install, sent when pairing
+  credentials: Record<string, DeviceCredentials>;    // Keyed by registry device ID
+  status: Record<string, DeviceAuthState>;           // Live, not persisted
+
+  // Actions
+  saveCredentials: (deviceId: string, credentials: DeviceCredentials) => void;
+  forgetCredentials: (deviceId: string) => void;
+  getCredentials: (deviceId: string) => DeviceCredentials | undefined;
+  setStatus: (deviceId: string, status: DeviceAuthState) => void;
+  getStatus: (deviceId: string) => DeviceAuthState;
+}
+
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set, get) => ({
+      clientId: `phone-${randomHex(8)}`,
+      credentials: {},
+      status: {},
+
+      saveCredentials: (deviceId, credentials) =>
+        set((state) => ({
+          credentials: { ...state.credentials, [deviceId]: credentials },
+          status: { ...state.status, [deviceId]: 'paired' },
+        })),
+
+      forgetCredentials: (deviceId) =>
+        set((state) => {
+          const { [deviceId]: _removed, ...credentials } = state.credentials;
+          const { [deviceId]: _status, ...status } = state.status;
+          return { credentials, status };
+        }),
+
+      getCredentials: (deviceId) => get().credentials[deviceId],
+
+      setStatus: (deviceId, status) => {
+        if (get().status[deviceId] === status) return;
+        set((state) => ({ status: { ...state.status, [deviceId]: status } }));
+      },
+
+      getStatus: (deviceId) => get().status[deviceId] ?? 'not_required',
+    }),
+    {
+      name: 'smartcb-auth',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        clientId: state.clientId,
+        credentials: state.credentials,
+      }),
+    }
+  )
+);
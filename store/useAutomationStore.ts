@@ -0,0 +1,87 @@
+// Automation Store - user rules, the settings profiles they can switch to, and their execution log
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AutomationRule, RuleRun, SettingsProfile, Thresholds } from '../types';
+
+const MAX_RUNS = 200;
+
+interface AutomationStore {
+  rules: AutomationRule[];
+  profiles: SettingsProfile[];
+  runs: RuleRun[];   // Newest first
+
+  // Actions
+  saveRule: (rule: AutomationRule) => void;
+  deleteRule: (ruleId: string) => void;
+  setRuleEnabled: (ruleId: string, enabled: boolean) => void;
+  getRules: (deviceId: string) => AutomationRule[];
+  addProfile: (name: string, thresholds: Thresholds) => SettingsProfile;
+  deleteProfile: (profileId: string) => void;
+  logRun: (run: RuleRun) => void;
+  clearRuns: (deviceId: string) => void;
+  removeDevice: (deviceId: string) => void;
+}
+
+export const useAutomationStore = create<AutomationStore>()(
+  persist(
+    (set, get) => ({
+      rules: [],
+      profiles: [],
+      runs: [],
+
+      // Adds a new rule or replaces the one with the same id
+      saveRule: (rule) =>
+        set((state) => ({
+          rules: state.rules.some((existing) => existing.id === rule.id)
+            ? state.rules.map((existing) => (existing.id === rule.id ? rule : existing))
+            : [...state.rules, rule],
+        })),
+
+      deleteRule: (ruleId) =>
+        set((state) => ({
+          rules: state.rules.filter((rule) => rule.id !== ruleId),
+        })),
+
+      setRuleEnabled: (ruleId, enabled) =>
+        set((state) => ({
+          rules: state.rules.map((rule) => (rule.id === ruleId ? { ...rule, enabled, updatedAt: Date.now() } : rule)),
+        })),
+
+      getRules: (deviceId) => get().rules.filter((rule) => rule.deviceId === deviceId),
+
+      addProfile: (name, thresholds) => {
+        const profile: SettingsProfile = { id: `profile-${Date.now()}`, name, thresholds, createdAt: Date.now() };
+        set((state) => ({ profiles: [...state.profiles, profile] }));
+        return profile;
+      },
+
+      deleteProfile: (profileId) =>
+        set((state) => ({
+          profiles: state.profiles.filter((profile) => profile.id !== profileId),
+        })),
+
+      logRun: (run) =>
+        set((state) => ({
+          runs: [run, ...state.runs].slice(0, MAX_RUNS),
+        })),
+
+      clearRuns: (deviceId) =>
+        set((state) => ({
+          runs: state.runs.filter((run) => run.deviceId !== deviceId),
+        })),
+
+      removeDevice: (deviceId) =>
+        set((state) => ({
+          rules: state.rules.filter((rule) => rule.deviceId !== deviceId),
+          runs: state.runs.filter((run) => run.deviceId !== deviceId),
+        })),
+    }),
+    {
+      name: 'smartcb-automation',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ rules: state.rules, profiles: state.profiles, runs: state.runs }),
+    }
+  )
+);
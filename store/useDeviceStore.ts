@@ -0,0 +1,88 @@
+// Device Registry Store - every breaker this phone has been linked to
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Device } from '../types';
+import { DEFAULT_DEVICE_ID } from '../utils/constants';
+
+interface DeviceStore {
+  devices: Device[];
+  activeDeviceId: string;
+
+  // Actions
+  addDevice: (device: Omit<Device, 'id' | 'addedAt' | 'name'> & { name?: string }) => Device;
+  updateDevice: (id: string, changes: Partial<Omit<Device, 'id'>>) => void;
+  removeDevice: (id: string) => void;
+  setActiveDevice: (id: string) => void;
+  getDevice: (id: string) => Device | undefined;
+  getActiveDevice: () => Device | undefined;
+  findDeviceByAddress: (ip: string, port: string) => Device | undefined;
+  findDeviceByHardwareId: (hardwareId: string) => Device | undefined;
+}
+
+export const useDeviceStore = create<DeviceStore>()(
+  persist(
+    (set, get) => ({
+      devices: [],
+      activeDeviceId: DEFAULT_DEVICE_ID,
+
+      addDevice: (device) => {
+        const { devices } = get();
+
+        // First breaker reuses the legacy ID so its stored history/events/settings carry over
+        const id = devices.some((d) => d.id === DEFAULT_DEVICE_ID)
+          ? `dev-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`
+          : DEFAULT_DEVICE_ID;
+
+        const newDevice: Device = {
+          ...device,
+          id,
+          name: device.name || `SmartCB ${devices.length + 1}`,
+          addedAt: Date.now(),
+        };
+
+        set({ devices: [...devices, newDevice] });
+        console.log(`➕ Device registered: ${newDevice.name} (${newDevice.ip}:${newDevice.port})`);
+
+        return newDevice;
+      },
+
+      updateDevice: (id, changes) =>
+        set((state) => ({
+          devices: state.devices.map((d) => (d.id === id ? { ...d, ...changes } : d)),
+        })),
+
+      removeDevice: (id) =>
+        set((state) => {
+          const devices = state.devices.filter((d) => d.id !== id);
+          const activeDeviceId =
+            state.activeDeviceId === id ? devices[0]?.id ?? DEFAULT_DEVICE_ID : state.activeDeviceId;
+          return { devices, activeDeviceId };
+        }),
+
+      setActiveDevice: (id) => set({ activeDeviceId: id }),
+
+      getDevice: (id) => get().devices.find((d) => d.id === id),
+
+      getActiveDevice: () => {
+        const { devices, activeDeviceId } = get();
+        return devices.find((d) => d.id === activeDeviceId);
+      },
+
+      findDeviceByAddress: (ip, port) =>
+        get().devices.find((d) => d.ip === ip && d.port === port),
+
+      findDeviceByHardwareId: (hardwareId) =>
+        get().devices.find((d) => d.hardwareId === hardwareId),
+    }),
+    {
+      name: 'smartcb-device-registry',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        devices: state.devices,
+        activeDeviceId: state.activeDeviceId,
+      }),
+    }
+  )
+);
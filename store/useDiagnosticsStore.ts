@@ -0,0 +1,127 @@
+// Diagnostics Store - protocol negotiation, rejected payloads and link quality per breaker
+
+import { create } from 'zustand';
+import {
+  ClockDiagnostics,
+  LinkQuality,
+  LinkQualitySample,
+  PayloadSource,
+  ProtocolDiagnostics,
+  ProtocolNegotiation,
+} from '../types';
+
+const LINK_HISTORY_SIZE = 30;
+
+const EMPTY_CLOCK: ClockDiagnostics = {
+  driftMs: null,
+  precision: 'ms',
+  checkedAt: null,
+  syncedAt: null,
+  tz: null,
+};
+
+const EMPTY_DIAGNOSTICS: ProtocolDiagnostics = {
+  protocol: null,
+  rejectedPayloads: 0,
+  rejectionsBySource: {},
+  lastRejection: null,
+  clock: null,
+  link: null,
+  linkHistory: [],
+};
+
+interface DiagnosticsStore {
+  devices: Record<string, ProtocolDiagnostics>;
+
+  // Actions
+  recordRejection: (deviceId: string, source: PayloadSource, errors: string[]) => void;
+  setProtocol: (deviceId: string, protocol: ProtocolNegotiation) => void;
+  setClock: (deviceId: string, clock: Partial<ClockDiagnostics>) => void;
+  setLink: (deviceId: string, link: LinkQuality, sample?: LinkQualitySample) => void;
+  getDiagnostics: (deviceId: string) => ProtocolDiagnostics;
+  resetCounters: (deviceId: string) => void;
+  removeDevice: (deviceId: string) => void;
+}
+
+export const useDiagnosticsStore = create<DiagnosticsStore>((set, get) => ({
+  devices: {},
+
+  recordRejection: (deviceId, source, errors) =>
+    set((state) => {
+      const current = state.devices[deviceId] ?? EMPTY_DIAGNOSTICS;
+      return {
+        devices: {
+          ...state.devices,
+          [deviceId]: {
+            ...current,
+            rejectedPayloads: current.rejectedPayloads + 1,
+            rejectionsBySource: {
+              ...current.rejectionsBySource,
+              [source]: (current.rejectionsBySource[source] ?? 0) + 1,
+            },
+            lastRejection: { source, errors, timestamp: Date.now() },
+          },
+        },
+      };
+    }),
+
+  setProtocol: (deviceId, protocol) =>
+    set((state) => ({
+      devices: {
+        ...state.devices,
+        [deviceId]: { ...(state.devices[deviceId] ?? EMPTY_DIAGNOSTICS), protocol },
+      },
+    })),
+
+  setClock: (deviceId, clock) =>
+    set((state) => {
+      const current = state.devices[deviceId] ?? EMPTY_DIAGNOSTICS;
+      return {
+        devices: {
+          ...state.devices,
+          [deviceId]: {
+            ...current,
+            clock: { ...(current.clock ?? EMPTY_CLOCK), ...clock },
+          },
+        },
+      };
+    }),
+
+  // Samples are appended by the caller at its own pace; only the latest few are kept
+  setLink: (deviceId, link, sample) =>
+    set((state) => {
+      const current = state.devices[deviceId] ?? EMPTY_DIAGNOSTICS;
+      return {
+        devices: {
+          ...state.devices,
+          [deviceId]: {
+            ...current,
+            link,
+            linkHistory: sample ? [...current.linkHistory, sample].slice(-LINK_HISTORY_SIZE) : current.linkHistory,
+          },
+        },
+      };
+    }),
+
+  getDiagnostics: (deviceId) => get().devices[deviceId] ?? EMPTY_DIAGNOSTICS,
+
+  resetCounters: (deviceId) =>
+    set((state) => ({
+      devices: {
+        ...state.devices,
+        [deviceId]: {
+          ...EMPTY_DIAGNOSTICS,
+          protocol: state.devices[deviceId]?.protocol ?? null,
+          clock: state.devices[deviceId]?.clock ?? null,
+          link: state.devices[deviceId]?.link ?? null,
+          linkHistory: state.devices[deviceId]?.linkHistory ?? [],
+        },
+      },
+    })),
+
+  removeDevice: (deviceId) =>
+    set((state) => {
+      const { [deviceId]: _removed, ...devices } = state.devices;
+      return { devices };
+    }),
+}));
@@ -1,35 +1,141 @@
 // Enhanced Electrical Data Store with ESP32 Integration
+// Tracks every registered breaker; top-level data/connection mirror the active one
 
 import { create } from 'zustand';
-import { ElectricalData, ConnectionStatus } from '../types';
-import { getESP32Api } from '../services/esp32Api';
+import { ElectricalData, ConnectionStatus, ConnectResult, Device, DeviceRuntime, RelayCommand } from '../types';
+import { getDeviceApi, releaseDeviceApi } from '../services/esp32Api';
+import { getDeviceTransport, releaseDeviceTransport } from '../services/esp32Transport';
+import { negotiateProtocol } from '../services/esp32Protocol';
+import { getRelayCommandService } from '../services/relayCommandService';
+import { getDeviceDiscovery } from '../services/deviceDiscovery';
+import { getPairingService } from '../services/pairingService';
+import { getEventJournal } from '../services/eventJournal';
+import { getClockSync } from '../services/clockSync';
+import { getLinkQuality } from '../services/linkQuality';
+import { getPollingScheduler } from '../services/pollingScheduler';
+import { getSettingsSync } from '../services/settingsSync';
+import { getOutbox } from '../services/outbox';
+import { getLiveStream } from '../services/liveStream';
+import { getSessionRecorder } from '../services/sessionRecorder';
+import { getAutomationEngine } from '../services/automationEngine';
+import { getProtectionController } from '../services/protectionController';
+import { getThermalAccumulator } from '../services/tripCurve';
 import { useHistoryStore } from './useHistoryStore';
 import { useEventsStore } from './useEventsStore';
+import { useSettingsStore } from './useSettingsStore';
+import { useSettingsSyncStore } from './useSettingsSyncStore';
+import { useOutboxStore } from './useOutboxStore';
+import { useSessionStore } from './useSessionStore';
+import { useAutomationStore } from './useAutomationStore';
+import { useDeviceStore } from './useDeviceStore';
+import { useDiagnosticsStore } from './useDiagnosticsStore';
+import { useAuthStore } from './useAuthStore';
+import { DEFAULT_DEVICE_ID } from '../utils/constants';
 
 // NO MOCK DATA - Only real ESP32 data
 
+const DISCONNECTED: ConnectionStatus = {
+  isConnected: false,
+  lastUpdate: 0,
+  signalStrength: 0,
+  transport: 'none',
+};
+
+// Don't sweep the LAN for the same missing breaker more than once per 5 minutes
+const RELOCATE_COOLDOWN = 5 * 60 * 1000;
+const lastRelocation: Record<string, number> = {};
+
+const EMPTY_RUNTIME: DeviceRuntime = {
+  data: null,
+  connection: DISCONNECTED,
+};
+
 interface ElectricalStore {
+  // Active device view (mirrors devices[activeDeviceId])
   data: ElectricalData | null;
   connection: ConnectionStatus;
   isDemoMode: boolean;
   esp32IP: string;
   esp32Port: string;
 
+  // Multi-device runtime state, keyed by registry device ID
+  activeDeviceId: string;
+  devices: Record<string, DeviceRuntime>;
+
   // Actions
-  updateData: (data: ElectricalData) => void;
-  toggleRelay: () => void;
-  setConnected: (isConnected: boolean) => void;
+  updateData: (data: ElectricalData, deviceId?: string) => void;
+  setRelayState: (state: boolean, deviceId?: string) => Promise<RelayCommand | null>;
+  toggleRelay: (deviceId?: string) => Promise<RelayCommand | null>;
+  setConnected: (isConnected: boolean, deviceId?: string) => void;
   setDemoMode: (isDemoMode: boolean) => void;
   incrementEnergy: () => void;
 
   // ESP32 Connection Actions
-  connectToESP32: (ip: string, port?: string) => Promise<boolean>;
-  disconnectFromESP32: () => void;
-  startRealTimeUpdates: () => void;
-  stopRealTimeUpdates: () => void;
+  connectToESP32: (ip: string, port?: string, deviceId?: string) => Promise<ConnectResult>;
+  disconnectFromESP32: (deviceId?: string) => void;
+  startRealTimeUpdates: (deviceId?: string) => void;
+  stopRealTimeUpdates: (deviceId?: string) => void;
   setESP32Config: (ip: string, port: string) => void;
+
+  // Device registry actions
+  setActiveDevice: (deviceId: string) => void;
+  connectAllDevices: () => Promise<void>;
+  relocateDevices: (deviceIds: string[]) => Promise<void>;
+  removeDevice: (deviceId: string) => void;
 }
 
+/**
+ * Build a state patch for one device; also refresh the top-level mirror when it is active
+ */
+const patchRuntime = (
+  state: ElectricalStore,
+  deviceId: string,
+  changes: Partial<DeviceRuntime>
+): Partial<ElectricalStore> => {
+  const runtime = { ...(state.devices[deviceId] ?? EMPTY_RUNTIME), ...changes };
+  const patch: Partial<ElectricalStore> = {
+    devices: { ...state.devices, [deviceId]: runtime },
+  };
+
+  if (deviceId === state.activeDeviceId) {
+    patch.data = runtime.data;
+    patch.connection = runtime.connection;
+  }
+
+  return patch;
+};
+
+// A breaker whose readings currently come from a recorded session, not the hardware
+const isReplaying = (deviceId: string): boolean => {
+  const { replay } = useSessionStore.getState();
+  return replay.status === 'playing' && replay.deviceId === deviceId;
+};
+
+/**
+ * Feed a new reading into history, events and alerts for its device
+ */
+const processReading = (data: ElectricalData, deviceId: string) => {
+  // Schedule these to run AFTER the state update to avoid synchronous store updates
+  setTimeout(() => {
+    // ⚡ Log to history store (auto-sampled to 1/minute)
+    useHistoryStore.getState().logReading(data, deviceId);
+
+    // ⚡ Check for events and violations
+    useEventsStore.getState().checkAndLogEvents(data, deviceId);
+
+    // ⚡ Trip, wait for stable conditions and reconnect - the only automatic reconnect
+    getProtectionController().handleReading(deviceId, data);
+
+    // ⚡ Check for alerts and trigger notifications
+    import('../services/notificationService').then(({ checkAllAlerts }) => {
+      checkAllAlerts(data, true, deviceId);
+    });
+
+    // ⚡ Run the user's automation rules
+    getAutomationEngine().handleReading(deviceId, data);
+  }, 0);
+};
+
 export const useElectricalStore = create<ElectricalStore>((set, get) => ({
   data: null, // NO MOCK DATA - Starts as null until ESP32 connects
   connection: {
@@ -40,77 +146,85 @@ export const useElectricalStore = create<ElectricalStore>((set, get) => ({
   isDemoMode: false, // NO DEMO MODE - Real ESP32 only
   esp32IP: '192.168.4.1',
   esp32Port: '80',
+  activeDeviceId: DEFAULT_DEVICE_ID,
+  devices: {},
 
-  updateData: (data) => {
-    set((state) => ({
+  updateData: (data, deviceId) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+
+    set((state) => patchRuntime(state, targetId, {
       data,
       connection: {
-        ...state.connection,
+        ...(state.devices[targetId] ?? EMPTY_RUNTIME).connection,
         lastUpdate: Date.now(),
       },
     }));
 
-    // Schedule these to run AFTER the state update to avoid synchronous store updates
-    setTimeout(() => {
-      // ⚡ Log to history store (auto-sampled to 1/minute)
-      useHistoryStore.getState().logReading(data);
-
-      // ⚡ Check for events and violations
-      useEventsStore.getState().checkAndLogEvents(data);
-
-      // ⚡ Check for alerts and trigger notifications
-      import('../services/notificationService').then(({ checkAllAlerts }) => {
-        checkAllAlerts(data, true);
-      });
-    }, 0);
+    getLinkQuality().recordFrame(targetId, data);
+    getRelayCommandService().handleStatus(targetId, data);
+    processReading(data, targetId);
   },
 
-  toggleRelay: async () => {
-    const state = get();
+  setRelayState: async (state, deviceId) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+    const runtime = get().devices[targetId];
+    const device = useDeviceStore.getState().getDevice(targetId);
+
+    // Replayed readings must never switch the real breaker - note the command instead
+    if (isReplaying(targetId)) {
+      const { getSessionReplay } = await import('../services/sessionReplay');
+      getSessionReplay().suppressRelay(targetId, state);
+      return null;
+    }
 
     // REAL ESP32 ONLY - No demo mode
-    if (!state.connection.isConnected || !state.data) {
-      console.error('❌ Cannot toggle relay: ESP32 not connected');
-      return;
+    if (!runtime?.connection.isConnected || !device) {
+      console.error(`❌ Cannot switch relay: ESP32 ${targetId} not connected`);
+      return null;
     }
 
-    const api = getESP32Api(state.esp32IP, state.esp32Port);
-    const newState = !state.data.relayState;
+    // Make sure the command goes to the device's current address
+    getDeviceApi(targetId, device.ip, device.port);
 
-    console.log(`🔌 ESP32 RELAY CONTROL: Sending command to ${state.esp32IP}:${state.esp32Port}`);
-    console.log(`📡 Attempting to turn relay: ${newState ? 'ON' : 'OFF'}`);
+    console.log(`🔌 ESP32 RELAY CONTROL: ${device.name} (${device.ip}:${device.port}) → ${state ? 'ON' : 'OFF'}`);
 
-    const success = await api.setRelayState(newState);
+    // Confirmation arrives through updateData → handleStatus; poll faster until it does
+    getPollingScheduler().boost(targetId);
+    return getRelayCommandService().send(targetId, state);
+  },
 
-    if (success) {
-      console.log(`✅ ESP32 RELAY CONTROL SUCCESS: Relay is now ${newState ? 'ON' : 'OFF'}`);
+  toggleRelay: async (deviceId) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+    const runtime = get().devices[targetId];
 
-      // Fetch updated status from real ESP32
-      const updatedData = await api.getStatus();
-      if (updatedData) {
-        set({ data: updatedData });
-        console.log(`📊 ESP32 Status Updated:`, {
-          voltage: updatedData.voltage,
-          current: updatedData.current,
-          power: updatedData.power,
-          relayState: updatedData.relayState
-        });
-      }
-    } else {
-      console.error(`❌ ESP32 RELAY CONTROL FAILED: Could not toggle relay`);
+    // Toggle resolves to a target state once; retries then resend that state
+    const pending = runtime?.relayCommand?.status === 'pending' ? runtime.relayCommand : null;
+    const currentState = pending ? pending.targetState : runtime?.data?.relayState;
+
+    if (currentState === undefined) {
+      console.error(`❌ Cannot toggle relay: no reading from ESP32 ${targetId} yet`);
+      return null;
     }
+
+    return get().setRelayState(!currentState, targetId);
   },
 
-  setConnected: (isConnected) =>
+  setConnected: (isConnected, deviceId) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+
     set((state) => ({
-      connection: {
-        ...state.connection,
-        isConnected,
-        lastUpdate: Date.now(),
-        signalStrength: isConnected ? 85 : 0,
-      },
+      ...patchRuntime(state, targetId, {
+        connection: {
+          ...(state.devices[targetId] ?? EMPTY_RUNTIME).connection,
+          isConnected,
+          lastUpdate: Date.now(),
+          signalStrength: isConnected ? getLinkQuality().getSignalStrength(targetId) : 0,
+          ...(isConnected ? {} : { degraded: false, degradedReasons: [] }),
+        },
+      }),
       isDemoMode: false, // Always false - no demo mode
-    })),
+    }));
+  },
 
   setDemoMode: (isDemoMode) => {
     // NO DEMO MODE - This function is deprecated but kept for compatibility
@@ -129,137 +243,230 @@ export const useElectricalStore = create<ElectricalStore>((set, get) => ({
 
       const incrementKWh = (state.data.power * (1 / 60)) / 1000;
 
-      return {
+      return patchRuntime(state, state.activeDeviceId, {
         data: {
           ...state.data,
           energy: state.data.energy + incrementKWh,
         },
-      };
+      });
     }),
 
-  connectToESP32: async (ip, port = '80') => {
-    const api = getESP32Api(ip, port);
+  connectToESP32: async (ip, port = '80', deviceId) => {
+    const registry = useDeviceStore.getState();
+    const existing = deviceId ? registry.getDevice(deviceId) : registry.findDeviceByAddress(ip, port);
+    const pendingId = `pending-${ip}:${port}`;
+    const api = getDeviceApi(existing?.id ?? pendingId, ip, port);
 
     // Test connection
-    const isConnected = await api.testConnection();
+    const reachable = await api.testConnection();
+    let failure = reachable.ok ? null : reachable.error;
+
+    if (reachable.ok) {
+      // Negotiate before trusting any readings
+      const answer = await api.getDeviceInfo();
+      const info = answer.ok ? answer.value : null;
+      const protocol = negotiateProtocol(info);
+      const compatible = protocol.compatibility !== 'incompatible';
 
-    if (isConnected) {
       // Get initial status
-      const initialData = await api.getStatus();
-
-      if (initialData) {
-        set({
-          data: initialData,
-          isDemoMode: false,
-          esp32IP: ip,
-          esp32Port: port,
-          connection: {
-            isConnected: true,
-            lastUpdate: Date.now(),
-            signalStrength: 85,
-          },
-        });
+      const status = compatible ? await api.getStatus() : null;
+      const initialData = status?.ok ? status.value : null;
+      if (status && !status.ok) failure = status.error;
+
+      if (initialData || !compatible) {
+        // Register breakers linked for the first time
+        const wsPort = info?.wsPort ? String(info.wsPort) : undefined;
+        let device = existing;
+        if (!device) {
+          device = registry.addDevice({
+            ip,
+            port,
+            wsPort,
+            name: info?.deviceName,
+            hardwareId: info?.deviceId,
+            model: info?.model,
+          });
+          releaseDeviceApi(pendingId);
+          getLinkQuality().forget(pendingId);
+        } else if (device.ip !== ip || device.port !== port || device.wsPort !== wsPort) {
+          registry.updateDevice(device.id, { ip, port, wsPort });
+        }
+
+        const targetId = device.id;
+        getDeviceApi(targetId, ip, port);
+        useDiagnosticsStore.getState().setProtocol(targetId, protocol);
+
+        // Sign with the stored secret; without one, firmware that demands signatures needs pairing
+        getPairingService().applyCredentials(targetId);
+        const auth = useAuthStore.getState();
+        if (auth.getCredentials(targetId)) {
+          auth.setStatus(targetId, 'paired');
+        } else {
+          auth.setStatus(targetId, info?.authRequired ? 'pairing_required' : 'not_required');
+        }
+
+        if (compatible) {
+          // The handshake requests above already give a first measurement
+          if (initialData) getLinkQuality().recordFrame(targetId, initialData);
+          set((state) => patchRuntime(state, targetId, {
+            data: initialData,
+            connection: {
+              isConnected: true,
+              lastUpdate: Date.now(),
+              signalStrength: getLinkQuality().evaluate(targetId).signalStrength,
+            },
+          }));
+          set({ isDemoMode: false });
+        } else {
+          console.warn(`🚫 ${device.name}: firmware protocol v${protocol.deviceVersion} is not supported`);
+          set((state) => patchRuntime(state, targetId, {
+            data: null,
+            connection: {
+              ...DISCONNECTED,
+              lastUpdate: Date.now(),
+              incompatibleFirmware: true,
+            },
+          }));
+        }
+
+        // A user-initiated link (no explicit device) brings that breaker to the front
+        if (!deviceId) {
+          get().setActiveDevice(targetId);
+        }
+
+        if (!compatible) {
+          return { ok: false, reason: 'incompatible' };
+        }
 
         // Start real-time updates
-        get().startRealTimeUpdates();
+        get().startRealTimeUpdates(targetId);
 
-        return true;
+        return { ok: true, deviceId: targetId };
       }
     }
 
-    // Connection failed
-    set({
-      connection: {
-        isConnected: false,
-        lastUpdate: Date.now(),
-        signalStrength: 0,
-      },
-    });
+    // Connection failed - a timeout, a refused signature and a bad reading each need a different fix
+    const reason = failure?.kind ?? 'unreachable';
+    if (existing) {
+      set((state) => patchRuntime(state, existing.id, {
+        connection: {
+          ...DISCONNECTED,
+          lastUpdate: Date.now(),
+          error: reason,
+        },
+      }));
+    } else {
+      releaseDeviceApi(pendingId);
+      getLinkQuality().forget(pendingId);
+    }
 
-    return false;
+    return { ok: false, reason };
   },
 
-  disconnectFromESP32: () => {
-    const api = getESP32Api();
-    api.cleanup();
+  disconnectFromESP32: (deviceId) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+    getRelayCommandService().cancel(targetId, 'Disconnected');
+    getDeviceTransport(targetId).stop();
+    getClockSync().stop(targetId);
+    getLinkQuality().stop(targetId);
 
-    set({
+    set((state) => ({
+      ...patchRuntime(state, targetId, {
+        connection: {
+          ...DISCONNECTED,
+          lastUpdate: Date.now(),
+        },
+        data: null, // Clear data when disconnected
+      }),
       isDemoMode: false, // NO DEMO MODE
-      connection: {
-        isConnected: false,
-        lastUpdate: Date.now(),
-        signalStrength: 0,
-      },
-      data: null, // Clear data when disconnected
-    });
+    }));
   },
 
-  startRealTimeUpdates: () => {
-    const state = get();
-    if (!state.connection.isConnected) {
-      console.warn('⚠️ Cannot start updates: ESP32 not connected');
+  startRealTimeUpdates: (deviceId) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+    const runtime = get().devices[targetId];
+    const device = useDeviceStore.getState().getDevice(targetId);
+
+    if (!runtime?.connection.isConnected || !device) {
+      console.warn(`⚠️ Cannot start updates: ESP32 ${targetId} not connected`);
       return;
     }
 
-    const api = getESP32Api(state.esp32IP, state.esp32Port);
+    // The replay hands the breaker back when it ends
+    if (isReplaying(targetId)) {
+      console.warn(`⚠️ Cannot start updates: ESP32 ${targetId} is replaying a recorded session`);
+      return;
+    }
 
-    // Start polling for updates
-    api.startPolling((data) => {
-      if (data) {
-        set((state) => ({
+    const transport = getDeviceTransport(targetId, device.ip, device.port, device.wsPort);
+
+    // Anything the breaker logged, or had changed in its settings, while we weren't connected
+    getEventJournal().sync(targetId);
+    getOutbox().flush(targetId).then(() => getSettingsSync().sync(targetId));
+    getClockSync().start(targetId);
+    getLinkQuality().start(targetId);
+
+    // WebSocket push stream, HTTP polling while the socket is down
+    transport.start({
+      onData: (data) => {
+        getLinkQuality().recordFrame(targetId, data);
+        // Live frames are what confirm relay commands
+        getRelayCommandService().handleStatus(targetId, data);
+        set((state) => patchRuntime(state, targetId, {
           data,
           connection: {
-            ...state.connection,
+            ...(state.devices[targetId] ?? EMPTY_RUNTIME).connection,
+            isConnected: true,
+            error: undefined,
             lastUpdate: Date.now(),
-            signalStrength: 85,
+            signalStrength: getLinkQuality().getSignalStrength(targetId),
           },
         }));
 
-        // Schedule these to run AFTER the state update to avoid synchronous store updates
-        setTimeout(() => {
-          // ⚡ Log to history store (auto-sampled to 1/minute)
-          useHistoryStore.getState().logReading(data);
-
-          // ⚡ Check for events and violations
-          useEventsStore.getState().checkAndLogEvents(data);
-
-          // ⚡ Check for alerts and trigger notifications
-          import('../services/notificationService').then(({ checkAllAlerts }) => {
-            checkAllAlerts(data, true);
-          });
-        }, 0);
-      }
-    }, 1000); // Update every second
+        processReading(data, targetId);
+      },
+      // Only this device's state changes
+      onConnectionChange: (isConnected, error) => {
+        const wasConnected = get().devices[targetId]?.connection.isConnected ?? false;
+        getSessionRecorder().record(targetId, 'connection', 'transport', { isConnected });
 
-    // Monitor connection
-    api.startConnectionMonitoring(
-      () => {
-        // On connected
-        set((state) => ({
+        set((state) => patchRuntime(state, targetId, {
           connection: {
-            ...state.connection,
-            isConnected: true,
-            signalStrength: 85,
+            ...(state.devices[targetId] ?? EMPTY_RUNTIME).connection,
+            isConnected,
+            signalStrength: isConnected ? getLinkQuality().getSignalStrength(targetId) : 0,
+            error: isConnected ? undefined : error?.kind,
+            ...(isConnected ? {} : { degraded: false, degradedReasons: [] }),
           },
         }));
+
+        if (!isConnected) {
+          get().relocateDevices([targetId]);
+        } else if (!wasConnected) {
+          // Back after a gap - fetch what the breaker logged meanwhile; it may have rebooted without a clock
+          getEventJournal().sync(targetId);
+          // Writes made while it was away go out first, in the order they were made
+          getOutbox().flush(targetId).then(() => getSettingsSync().sync(targetId));
+          getClockSync().check(targetId);
+        }
       },
-      () => {
-        // On disconnected
-        set((state) => ({
+      onEvent: (event) => getEventJournal().handleLiveEvent(targetId, event),
+      onTransportChange: (transportType) => {
+        set((state) => patchRuntime(state, targetId, {
           connection: {
-            ...state.connection,
-            isConnected: false,
-            signalStrength: 0,
+            ...(state.devices[targetId] ?? EMPTY_RUNTIME).connection,
+            transport: transportType,
           },
         }));
       },
-      5000 // Check every 5 seconds
-    );
+    });
   },
 
-  stopRealTimeUpdates: () => {
-    const api = getESP32Api();
-    api.cleanup();
+  stopRealTimeUpdates: (deviceId) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+    getDeviceTransport(targetId).stop();
+    getClockSync().stop(targetId);
+    getLinkQuality().stop(targetId);
   },
 
   setESP32Config: (ip, port) => {
@@ -268,4 +475,163 @@ export const useElectricalStore = create<ElectricalStore>((set, get) => ({
       esp32Port: port,
     });
   },
-}));
\ No newline at end of file
+
+  /**
+   * Switch the dashboard, charts and settings to another breaker
+   */
+  setActiveDevice: (deviceId) => {
+    const device = useDeviceStore.getState().getDevice(deviceId);
+    const runtime = get().devices[deviceId] ?? EMPTY_RUNTIME;
+
+    useDeviceStore.getState().setActiveDevice(deviceId);
+    useHistoryStore.getState().setActiveDevice(deviceId);
+    useSettingsStore.getState().setActiveDevice(deviceId);
+
+    set({
+      activeDeviceId: deviceId,
+      data: runtime.data,
+      connection: runtime.connection,
+      ...(device ? { esp32IP: device.ip, esp32Port: device.port } : {}),
+    });
+  },
+
+  /**
+   * Connect every registered breaker (app start); failures stay per-device
+   */
+  connectAllDevices: async () => {
+    const { devices } = useDeviceStore.getState();
+
+    const results = await Promise.all(
+      devices
+        .filter((device) => !get().devices[device.id]?.connection.isConnected)
+        .map(async (device) => ({
+          id: device.id,
+          connected: (await get().connectToESP32(device.ip, device.port, device.id)).ok,
+        }))
+    );
+
+    // Breakers that didn't answer may have been given a new IP by DHCP
+    const missing = results.filter((result) => !result.connected).map((result) => result.id);
+    if (missing.length > 0) {
+      get().relocateDevices(missing);
+    }
+  },
+
+  /**
+   * Look for breakers by hardware ID on the LAN and reconnect the ones that moved
+   */
+  relocateDevices: async (deviceIds) => {
+    const registry = useDeviceStore.getState();
+    const now = Date.now();
+
+    const lost = deviceIds
+      .map((id) => registry.getDevice(id))
+      .filter((device): device is Device => !!device?.hardwareId)
+      .filter((device) => now - (lastRelocation[device.id] ?? 0) > RELOCATE_COOLDOWN);
+
+    if (lost.length === 0 || getDeviceDiscovery().isScanning()) return;
+
+    lost.forEach((device) => {
+      lastRelocation[device.id] = now;
+    });
+
+    const wanted = new Set(lost.map((device) => device.hardwareId));
+    const found = await getDeviceDiscovery().discover({
+      includeSubnetScan: true,
+      until: (device) => {
+        if (device.hardwareId) wanted.delete(device.hardwareId);
+        return wanted.size === 0;
+      },
+    });
+
+    await Promise.all(
+      lost.map((device) => {
+        const match = found.find((candidate) => candidate.hardwareId === device.hardwareId);
+        if (!match || (match.ip === device.ip && match.port === device.port)) return false;
+
+        console.log(`📍 ${device.name} moved: ${device.ip} → ${match.ip}`);
+        return get().connectToESP32(match.ip, match.port, device.id);
+      })
+    );
+  },
+
+  /**
+   * Unlink a breaker: stop its transport and drop its data everywhere
+   */
+  removeDevice: (deviceId) => {
+    getRelayCommandService().cancel(deviceId, 'Device removed');
+    getLiveStream().cancel(deviceId);
+    getSessionRecorder().discard(deviceId);
+    if (isReplaying(deviceId)) {
+      import('../services/sessionReplay').then(({ getSessionReplay }) => getSessionReplay().cancel(deviceId));
+    }
+    releaseDeviceTransport(deviceId);
+    getClockSync().stop(deviceId);
+    getLinkQuality().forget(deviceId);
+    getAutomationEngine().forget(deviceId);
+    getThermalAccumulator().forget(deviceId);
+    getProtectionController().forget(deviceId);
+
+    useDeviceStore.getState().removeDevice(deviceId);
+    useHistoryStore.getState().removeDevice(deviceId);
+    useEventsStore.getState().removeDevice(deviceId);
+    useSettingsStore.getState().removeDevice(deviceId);
+    useSettingsSyncStore.getState().removeDevice(deviceId);
+    useOutboxStore.getState().removeDevice(deviceId);
+    useDiagnosticsStore.getState().removeDevice(deviceId);
+    useAuthStore.getState().forgetCredentials(deviceId);
+    useAutomationStore.getState().removeDevice(deviceId);
+
+    set((state) => {
+      const { [deviceId]: _removed, ...devices } = state.devices;
+      return { devices };
+    });
+
+    if (get().activeDeviceId === deviceId) {
+      get().setActiveDevice(useDeviceStore.getState().activeDeviceId);
+    }
+  },
+}));
+
+// Track each relay command's lifecycle on its device's runtime
+getRelayCommandService().setChangeHandler((command) => {
+  useElectricalStore.setState((state) =>
+    state.devices[command.deviceId] ? patchRuntime(state, command.deviceId, { relayCommand: command }) : state
+  );
+});
+
+// Where each breaker's protection stands, and how it switches a breaker back on
+getProtectionController().setRelaySwitch((deviceId, state) => useElectricalStore.getState().setRelayState(state, deviceId));
+getProtectionController().setChangeHandler((deviceId, protection) => {
+  useElectricalStore.setState((state) =>
+    state.devices[deviceId] ? patchRuntime(state, deviceId, { protection }) : state
+  );
+});
+
+// Measured signal and degraded state - only while the breaker counts as connected
+getLinkQuality().setChangeHandler((deviceId, quality) => {
+  useElectricalStore.setState((state) => {
+    const connection = state.devices[deviceId]?.connection;
+    if (!connection?.isConnected) return state;
+    return patchRuntime(state, deviceId, {
+      connection: {
+        ...connection,
+        signalStrength: quality.signalStrength,
+        degraded: quality.degradedReasons.length > 0,
+        degradedReasons: quality.degradedReasons,
+      },
+    });
+  });
+});
+
+// Restore the last active breaker once the registry has loaded
+const restoreActiveDevice = () => {
+  const { activeDeviceId } = useDeviceStore.getState();
+  useElectricalStore.getState().setActiveDevice(activeDeviceId);
+};
+
+if (useDeviceStore.persist.hasHydrated()) {
+  restoreActiveDevice();
+} else {
+  useDeviceStore.persist.onFinishHydration(restoreActiveDevice);
+}
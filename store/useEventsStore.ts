@@ -2,12 +2,105 @@
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Event, EventStatistics, EventType } from '../types';
+import { EpisodeExtremes, Event, EventJournalCursor, EventStatistics, EventType, MonitoredQuantity } from '../types';
 import { ElectricalData } from '../types';
 import { useSettingsStore } from './useSettingsStore';
+import { DEFAULT_DEVICE_ID } from '../utils/constants';
+import { getDetectionBand } from '../utils/detection';
 
 const STORAGE_KEY_EVENTS = '@smartcb_events';
+const STORAGE_KEY_CURSORS = '@smartcb_event_cursors';
 const MAX_EVENTS = 500; // Keep last 500 events
+const DEVICE_MATCH_WINDOW = 10000; // App- and device-logged copies of one event land this close together
+const CURRENT_MIN = 0.1;            // A - underload is a fixed limit, with its own band
+const UNDERLOAD_HYSTERESIS = 0.05;  // A
+
+// Events logged before the device registry belong to the first device
+export const getEventDeviceId = (event: Event): string => event.deviceId ?? DEFAULT_DEVICE_ID;
+
+// How long an episode lasted, or has lasted so far; undefined for one-off events and lost ends
+export const getEventDuration = (event: Event, now: number = Date.now()): number | undefined => {
+  if (event.duration !== undefined) return event.duration;
+  if (event.endedAt !== undefined) return event.endedAt - event.timestamp;
+  return event.open ? now - event.timestamp : undefined;
+};
+
+// Outages and downtime over the last 30 days
+export const computeEventStatistics = (events: Event[], now: number = Date.now()): EventStatistics => {
+  const monthStart = now - 30 * 24 * 60 * 60 * 1000;
+  const monthEvents = events.filter((event) => event.timestamp >= monthStart);
+
+  const outages = monthEvents.filter((event) => event.type === 'outage');
+  const durations = outages
+    .map((event) => getEventDuration(event, now))
+    .filter((duration): duration is number => duration !== undefined);
+  const totalDowntime = durations.reduce((sum, duration) => sum + duration, 0);
+
+  return {
+    totalEvents: monthEvents.length,
+    totalOutages: outages.length,
+    // Outages whose end the app never saw don't count towards the average
+    averageOutageDuration: durations.length > 0 ? totalDowntime / durations.length : 0,
+    totalDowntime,
+  };
+};
+
+type EpisodeType =
+  | 'overvoltage'
+  | 'undervoltage'
+  | 'overload'
+  | 'underload'
+  | 'frequency_max'
+  | 'frequency_min'
+  | 'power_factor_min'
+  | 'outage';
+
+const EPISODE_QUANTITY: Record<EpisodeType, MonitoredQuantity> = {
+  overvoltage: 'voltage',
+  undervoltage: 'voltage',
+  overload: 'current',
+  underload: 'current',
+  frequency_max: 'frequency',
+  frequency_min: 'frequency',
+  power_factor_min: 'powerFactor',
+  outage: 'voltage',
+};
+
+// An episode is either open (and names the event it logged) or not. `since` is when the
+// readings started pointing the other way, while that waits out the debounce. The extremes
+// are kept here while the episode lasts and written to its event when it closes.
+interface EpisodeState {
+  eventId: string | null;
+  since: number | null;
+  extremes: EpisodeExtremes | null;
+}
+
+// Fold one reading into an episode's lowest and highest values
+const withReading = (extremes: EpisodeExtremes | null, quantity: MonitoredQuantity, data: ElectricalData, at: number): EpisodeExtremes => {
+  const value = data[quantity];
+  if (!extremes) return { quantity, peak: value, peakAt: at, min: value, minAt: at };
+  return {
+    ...extremes,
+    ...(value > extremes.peak && { peak: value, peakAt: at }),
+    ...(value < extremes.min && { min: value, minAt: at }),
+  };
+};
+
+// The fields an app-logged episode brings along when the breaker's copy replaces it
+const episodeFields = (event: Event): Partial<Event> => {
+  const { open, endedAt, duration, extremes } = event;
+  return Object.fromEntries(
+    Object.entries({ open, endedAt, duration, extremes }).filter(([, value]) => value !== undefined)
+  );
+};
+
+// Same thing seen twice: once from readings by the app, once in the breaker's journal
+const isTwin = (a: Event, b: Event) =>
+  a.type === b.type &&
+  getEventDeviceId(a) === getEventDeviceId(b) &&
+  !a.approximateTime &&
+  !b.approximateTime &&
+  Math.abs(a.timestamp - b.timestamp) <= DEVICE_MATCH_WINDOW;
 
 interface EventsStore {
   events: Event[];
@@ -15,22 +108,25 @@ interface EventsStore {
     dateRange: 'today' | 'week' | 'month' | 'all';
     eventType: EventType | 'all';
   };
-  lastReadings: ElectricalData | null;
+  lastReadingsByDevice: Record<string, ElectricalData>;
+  episodesByDevice: Record<string, Partial<Record<EpisodeType, EpisodeState>>>;
   isLoaded: boolean;
-  reconnectionTimeout: NodeJS.Timeout | null;
-  reconnectionAttempts: number;
+  journalCursors: Record<string, EventJournalCursor>;
 
   // Actions
-  addEvent: (event: Event) => void;
-  checkAndLogEvents: (data: ElectricalData) => boolean;
+  addEvent: (event: Event) => string | null;
+  closeEvent: (eventId: string, endedAt: number, extremes?: EpisodeExtremes | null) => void;
+  mergeDeviceEvents: (deviceId: string, events: Event[]) => number;
+  getJournalCursor: (deviceId: string) => EventJournalCursor | null;
+  setJournalCursor: (deviceId: string, cursor: EventJournalCursor | null) => void;
+  checkAndLogEvents: (data: ElectricalData, deviceId?: string) => boolean;
   setFilter: (filter: Partial<EventsStore['filter']>) => void;
-  getFilteredEvents: () => Event[];
-  getStatistics: () => EventStatistics;
+  getFilteredEvents: (deviceId?: string) => Event[];
+  getStatistics: (deviceId?: string) => EventStatistics;
   saveToStorage: () => Promise<void>;
   loadFromStorage: () => Promise<void>;
   clearAll: () => void;
-  scheduleAutoReconnect: () => void;
-  cancelAutoReconnect: () => void;
+  removeDevice: (deviceId: string) => void;
 }
 
 export const useEventsStore = create<EventsStore>((set, get) => ({
@@ -39,12 +135,31 @@ export const useEventsStore = create<EventsStore>((set, get) => ({
     dateRange: 'all',
     eventType: 'all',
   },
-  lastReadings: null,
+  lastReadingsByDevice: {},
+  episodesByDevice: {},
   isLoaded: false,
-  reconnectionTimeout: null,
-  reconnectionAttempts: 0,
+  journalCursors: {},
 
+  /**
+   * Log an event - returns the id it is stored under (the breaker's copy when it already
+   * reported it), or null when it was dropped
+   */
   addEvent: (event) => {
+    // The breaker already reported this one - an episode opened by the app carries on in its copy
+    const twin = event.source !== 'device'
+      ? get().events.find((existing) => existing.source === 'device' && isTwin(existing, event))
+      : undefined;
+    if (twin) {
+      if (event.open && twin.open === undefined && twin.duration === undefined) {
+        set((state) => ({
+          events: state.events.map((existing) => (existing.id === twin.id ? { ...existing, open: true } : existing)),
+        }));
+        get().saveToStorage();
+        return twin.id;
+      }
+      return null;
+    }
+
     set((state) => {
       // Add event and limit to MAX_EVENTS
       let events = [event, ...state.events];
@@ -56,139 +171,276 @@ export const useEventsStore = create<EventsStore>((set, get) => ({
 
     // Save to storage after adding event
     get().saveToStorage();
+    return event.id;
+  },
+
+  // Close an episode: when it ended, how long it lasted and its extremes
+  closeEvent: (eventId, endedAt, extremes) => {
+    if (!get().events.some((event) => event.id === eventId)) return;
+
+    set((state) => ({
+      events: state.events.map((event) =>
+        event.id === eventId
+          ? {
+              ...event,
+              open: false,
+              endedAt,
+              duration: event.duration ?? Math.max(0, endedAt - event.timestamp),
+              ...(extremes && { extremes }),
+            }
+          : event
+      ),
+    }));
+    get().saveToStorage();
+  },
+
+  /**
+   * Merge events from a breaker's journal - returns how many were new
+   */
+  mergeDeviceEvents: (deviceId, incoming) => {
+    const events = [...get().events];
+    const known = new Set(events.map((event) => event.id));
+    const replaced = new Map<string, string>();   // App event id -> the breaker's
+    let added = 0;
+
+    incoming.forEach((event) => {
+      if (known.has(event.id)) return;
+      known.add(event.id);
+
+      // The breaker's record replaces what the app inferred from readings, keeping the readings
+      const twin = events.findIndex((existing) => existing.source !== 'device' && isTwin(existing, event));
+      if (twin >= 0) {
+        replaced.set(events[twin].id, event.id);
+        events[twin] = { ...episodeFields(events[twin]), ...event, readings: event.readings ?? events[twin].readings };
+      } else {
+        events.push(event);
+        added++;
+      }
+    });
+
+    events.sort((a, b) => b.timestamp - a.timestamp);
+
+    // Outage length from the breaker's own outage/restore pair
+    let openOutage: number | null = null;
+    for (let i = events.length - 1; i >= 0; i--) {
+      const event = events[i];
+      if (event.source !== 'device' || getEventDeviceId(event) !== deviceId) continue;
+      if (event.type === 'outage') {
+        openOutage = i;
+      } else if (event.type === 'restore' && openOutage !== null) {
+        const outage = events[openOutage];
+        if (outage.duration === undefined && !outage.approximateTime && !event.approximateTime) {
+          events[openOutage] = {
+            ...outage,
+            open: false,
+            endedAt: event.timestamp,
+            duration: event.timestamp - outage.timestamp,
+          };
+        }
+        openOutage = null;
+      }
+    }
+
+    // Episodes still open on the replaced app events go on in the breaker's copies
+    const episodes = get().episodesByDevice[deviceId] ?? {};
+    const remapped = Object.fromEntries(
+      Object.entries(episodes).map(([type, episode]) => [
+        type,
+        episode?.eventId && replaced.has(episode.eventId) ? { ...episode, eventId: replaced.get(episode.eventId)! } : episode,
+      ])
+    );
+
+    set((state) => ({
+      events: events.slice(0, MAX_EVENTS),
+      episodesByDevice: { ...state.episodesByDevice, [deviceId]: remapped },
+    }));
+    get().saveToStorage();
+    return added;
+  },
+
+  getJournalCursor: (deviceId) => get().journalCursors[deviceId] ?? null,
+
+  setJournalCursor: (deviceId, cursor) => {
+    set((state) => {
+      const { [deviceId]: _previous, ...journalCursors } = state.journalCursors;
+      return { journalCursors: cursor ? { ...journalCursors, [deviceId]: cursor } : journalCursors };
+    });
+    AsyncStorage.setItem(STORAGE_KEY_CURSORS, JSON.stringify(get().journalCursors)).catch((error) =>
+      console.error('Failed to save event journal cursors:', error)
+    );
   },
 
-  checkAndLogEvents: (data: ElectricalData) => {
-    const { lastReadings, addEvent } = get();
+  checkAndLogEvents: (data: ElectricalData, deviceId: string = DEFAULT_DEVICE_ID) => {
+    const lastReadings = get().lastReadingsByDevice[deviceId] ?? null;
+    const addEvent = (event: Event) => get().addEvent({ ...event, deviceId, source: 'app' });
 
-    // Get thresholds from Settings store
-    const settings = useSettingsStore.getState().settings;
+    // Get this device's thresholds from Settings store
+    const settings = useSettingsStore.getState().getSettingsForDevice(deviceId);
     const thresholds = settings.thresholds;
 
     const VOLTAGE_MAX = thresholds.voltage.max;
     const VOLTAGE_MIN = thresholds.voltage.min;
     const CURRENT_MAX = thresholds.current.max;
-    const CURRENT_MIN = 0.1; // Keep this fixed for underload detection
     const FREQUENCY_MAX = thresholds.frequency.max;
     const FREQUENCY_MIN = thresholds.frequency.min;
     const POWER_FACTOR_MIN = thresholds.powerFactor.min;
 
+    const voltageBand = getDetectionBand(thresholds, 'voltage');
+    const currentBand = getDetectionBand(thresholds, 'current');
+    const frequencyBand = getDetectionBand(thresholds, 'frequency');
+    const powerFactorBand = getDetectionBand(thresholds, 'powerFactor');
+
     const timestamp = Date.now();
     let eventCreated = false;
+    const episodes = { ...(get().episodesByDevice[deviceId] ?? {}) };
+
+    // Open a violation episode once it has held for its debounce, and close it once the readings
+    // have been back inside the hysteresis band for as long - one event per violation, not one per frame
+    const track = (
+      type: EpisodeType,
+      debounce: number,
+      violating: boolean,
+      cleared: boolean,
+      describe: () => string
+    ) => {
+      const state = episodes[type] ?? { eventId: null, since: null, extremes: null };
+      const open = state.eventId !== null;
+      // Extremes cover the episode from its first violating reading to the first one back inside
+      const extremes = (open ? !cleared : violating)
+        ? withReading(state.extremes, EPISODE_QUANTITY[type], data, timestamp)
+        : state.extremes;
+
+      if (!(open ? cleared : violating)) {
+        episodes[type] = { ...state, since: null, extremes: open ? extremes : null };
+        return;
+      }
 
-    // Check voltage violations
-    if (data.voltage > VOLTAGE_MAX) {
-      addEvent({
-        id: `evt-${timestamp}-overvoltage`,
-        type: 'overvoltage',
-        timestamp,
-        description: `High voltage detected: ${data.voltage.toFixed(1)}V (Max: ${VOLTAGE_MAX}V)`,
-        readings: data,
-      });
-      eventCreated = true;
-    } else if (data.voltage < VOLTAGE_MIN && data.voltage > 0) {
-      addEvent({
-        id: `evt-${timestamp}-undervoltage`,
-        type: 'undervoltage',
-        timestamp,
-        description: `Low voltage detected: ${data.voltage.toFixed(1)}V (Min: ${VOLTAGE_MIN}V)`,
+      const since = state.since ?? timestamp;
+      if (timestamp - since < debounce * 1000) {
+        episodes[type] = { ...state, since, extremes };
+        return;
+      }
+
+      if (state.eventId) {
+        get().closeEvent(state.eventId, since, extremes);
+        episodes[type] = { eventId: null, since: null, extremes: null };
+        return;
+      }
+
+      const eventId = addEvent({
+        id: `evt-${deviceId}-${since}-${type}`,
+        type,
+        timestamp: since,
+        description: describe(),
         readings: data,
+        open: true,
       });
+      episodes[type] = { eventId, since: null, extremes };
       eventCreated = true;
-    }
+    };
+
+    // Check voltage violations
+    track(
+      'overvoltage',
+      voltageBand.debounce,
+      data.voltage > VOLTAGE_MAX,
+      data.voltage <= VOLTAGE_MAX - voltageBand.hysteresis,
+      () => `High voltage detected: ${data.voltage.toFixed(1)}V (Max: ${VOLTAGE_MAX}V)`
+    );
+    track(
+      'undervoltage',
+      voltageBand.debounce,
+      data.voltage < VOLTAGE_MIN && data.voltage > 0,
+      data.voltage >= VOLTAGE_MIN + voltageBand.hysteresis || data.voltage <= 0,
+      () => `Low voltage detected: ${data.voltage.toFixed(1)}V (Min: ${VOLTAGE_MIN}V)`
+    );
 
     // Check current violations
-    if (data.current > CURRENT_MAX) {
-      addEvent({
-        id: `evt-${timestamp}-overload`,
-        type: 'overload',
-        timestamp,
-        description: `Overload detected: ${data.current.toFixed(2)}A (Max: ${CURRENT_MAX}A)`,
-        readings: data,
-      });
-      eventCreated = true;
-    } else if (data.current < CURRENT_MIN && data.current > 0 && data.voltage > 0) {
-      addEvent({
-        id: `evt-${timestamp}-underload`,
-        type: 'underload',
-        timestamp,
-        description: `Very low current: ${data.current.toFixed(3)}A`,
-        readings: data,
-      });
+    track(
+      'overload',
+      currentBand.debounce,
+      data.current > CURRENT_MAX,
+      data.current <= CURRENT_MAX - currentBand.hysteresis,
+      () => `Overload detected: ${data.current.toFixed(2)}A (Max: ${CURRENT_MAX}A)`
+    );
+    track(
+      'underload',
+      currentBand.debounce,
+      data.current < CURRENT_MIN && data.current > 0 && data.voltage > 0,
+      data.current >= CURRENT_MIN + UNDERLOAD_HYSTERESIS || data.current <= 0 || data.voltage <= 0,
+      () => `Very low current: ${data.current.toFixed(3)}A`
+    );
+
+    // Check power outage/restore - an outage is an episode from the frame the voltage dropped
+    // to the one it came back
+    const outage = episodes.outage ?? { eventId: null, since: null, extremes: null };
+    if (outage.eventId && data.voltage < 100) {
+      episodes.outage = { ...outage, extremes: withReading(outage.extremes, 'voltage', data, timestamp) };
     }
 
-    // Check power outage/restore
     if (lastReadings) {
       if (lastReadings.voltage > 100 && data.voltage < 100) {
-        // Power outage - cancel any pending reconnection
-        get().cancelAutoReconnect();
-
-        addEvent({
-          id: `evt-${timestamp}-outage`,
+        const eventId = addEvent({
+          id: `evt-${deviceId}-${timestamp}-outage`,
           type: 'outage',
           timestamp,
           description: 'Power outage detected',
           readings: data,
+          open: true,
         });
+        episodes.outage = { eventId, since: null, extremes: withReading(null, 'voltage', data, timestamp) };
         eventCreated = true;
       } else if (lastReadings.voltage < 100 && data.voltage > 100) {
-        // Power restored - schedule auto-reconnection if enabled
+        if (outage.eventId) {
+          get().closeEvent(outage.eventId, timestamp, episodes.outage?.extremes);
+        }
+        episodes.outage = { eventId: null, since: null, extremes: null };
+
         addEvent({
-          id: `evt-${timestamp}-restore`,
+          id: `evt-${deviceId}-${timestamp}-restore`,
           type: 'restore',
           timestamp,
           description: 'Power restored',
           readings: data,
         });
         eventCreated = true;
-
-        // Trigger auto-reconnection if enabled
-        const reconnectionSettings = settings.reconnection;
-        if (reconnectionSettings.enabled && !data.relayState) {
-          console.log(`⏱️ AUTO-RECONNECTION: Scheduling relay turn-on in ${reconnectionSettings.delay} seconds`);
-          get().scheduleAutoReconnect();
-        }
       }
     }
 
-    // Check frequency violations (only if enabled)
-    if (thresholds.frequency.enabled) {
-      if (data.frequency > FREQUENCY_MAX) {
-        addEvent({
-          id: `evt-${timestamp}-freq-max`,
-          type: 'frequency_max',
-          timestamp,
-          description: `High frequency: ${data.frequency.toFixed(1)}Hz (Max: ${FREQUENCY_MAX}Hz)`,
-          readings: data,
-        });
-        eventCreated = true;
-      } else if (data.frequency < FREQUENCY_MIN && data.frequency > 0) {
-        addEvent({
-          id: `evt-${timestamp}-freq-min`,
-          type: 'frequency_min',
-          timestamp,
-          description: `Low frequency: ${data.frequency.toFixed(1)}Hz (Min: ${FREQUENCY_MIN}Hz)`,
-          readings: data,
-        });
-        eventCreated = true;
-      }
-    }
-
-    // Check power factor (only if enabled)
-    if (thresholds.powerFactor.enabled && data.powerFactor < POWER_FACTOR_MIN && data.powerFactor > 0 && data.current > 0.5) {
-      addEvent({
-        id: `evt-${timestamp}-pf-low`,
-        type: 'power_factor_min',
-        timestamp,
-        description: `Low power factor: ${data.powerFactor.toFixed(2)} (Min: ${POWER_FACTOR_MIN})`,
-        readings: data,
-      });
-    }
+    // Check frequency violations (only if enabled - switching it off ends open ones)
+    const frequencyEnabled = thresholds.frequency.enabled;
+    track(
+      'frequency_max',
+      frequencyBand.debounce,
+      frequencyEnabled && data.frequency > FREQUENCY_MAX,
+      !frequencyEnabled || data.frequency <= FREQUENCY_MAX - frequencyBand.hysteresis,
+      () => `High frequency: ${data.frequency.toFixed(1)}Hz (Max: ${FREQUENCY_MAX}Hz)`
+    );
+    track(
+      'frequency_min',
+      frequencyBand.debounce,
+      frequencyEnabled && data.frequency < FREQUENCY_MIN && data.frequency > 0,
+      !frequencyEnabled || data.frequency >= FREQUENCY_MIN + frequencyBand.hysteresis || data.frequency <= 0,
+      () => `Low frequency: ${data.frequency.toFixed(1)}Hz (Min: ${FREQUENCY_MIN}Hz)`
+    );
+
+    // Check power factor (only if enabled, and only under load)
+    const powerFactorEnabled = thresholds.powerFactor.enabled;
+    track(
+      'power_factor_min',
+      powerFactorBand.debounce,
+      powerFactorEnabled && data.powerFactor < POWER_FACTOR_MIN && data.powerFactor > 0 && data.current > 0.5,
+      !powerFactorEnabled ||
+        data.powerFactor >= POWER_FACTOR_MIN + powerFactorBand.hysteresis ||
+        data.powerFactor <= 0 ||
+        data.current <= 0.5,
+      () => `Low power factor: ${data.powerFactor.toFixed(2)} (Min: ${POWER_FACTOR_MIN})`
+    );
 
     // Check relay state changes
     if (lastReadings && lastReadings.relayState !== data.relayState) {
       addEvent({
-        id: `evt-${timestamp}-relay`,
+        id: `evt-${deviceId}-${timestamp}-relay`,
         type: data.relayState ? 'manual_on' : 'manual_off',
         timestamp,
         description: `Relay turned ${data.relayState ? 'ON' : 'OFF'}`,
@@ -197,8 +449,11 @@ export const useEventsStore = create<EventsStore>((set, get) => ({
       eventCreated = true;
     }
 
-    // Update last readings
-    set({ lastReadings: data });
+    // Update last readings and where the episodes stand
+    set((state) => ({
+      lastReadingsByDevice: { ...state.lastReadingsByDevice, [deviceId]: data },
+      episodesByDevice: { ...state.episodesByDevice, [deviceId]: episodes },
+    }));
 
     // Log when events are detected
     if (eventCreated) {
@@ -222,11 +477,13 @@ export const useEventsStore = create<EventsStore>((set, get) => ({
       },
     })),
 
-  getFilteredEvents: () => {
+  getFilteredEvents: (deviceId?: string) => {
     const { events, filter } = get();
     const now = Date.now();
 
-    let filtered = events;
+    let filtered = deviceId
+      ? events.filter((event) => getEventDeviceId(event) === deviceId)
+      : events;
 
     // Filter by date range
     switch (filter.dateRange) {
@@ -252,27 +509,12 @@ export const useEventsStore = create<EventsStore>((set, get) => ({
     return filtered;
   },
 
-  getStatistics: () => {
-    const events = get().events;
-
-    // Calculate statistics for the current month
-    const monthStart = Date.now() - 30 * 24 * 60 * 60 * 1000;
-    const monthEvents = events.filter((event) => event.timestamp >= monthStart);
-
-    const outages = monthEvents.filter((event) => event.type === 'outage');
-    const totalOutages = outages.length;
+  getStatistics: (deviceId?: string) => {
+    const events = deviceId
+      ? get().events.filter((event) => getEventDeviceId(event) === deviceId)
+      : get().events;
 
-    const totalDowntime = outages.reduce((sum, event) => sum + (event.duration || 0), 0);
-
-    const averageOutageDuration =
-      totalOutages > 0 ? totalDowntime / totalOutages : 0;
-
-    return {
-      totalEvents: monthEvents.length,
-      totalOutages,
-      averageOutageDuration,
-      totalDowntime,
-    };
+    return computeEventStatistics(events);
   },
 
   /**
@@ -294,10 +536,15 @@ export const useEventsStore = create<EventsStore>((set, get) => ({
   loadFromStorage: async () => {
     try {
       const eventsJSON = await AsyncStorage.getItem(STORAGE_KEY_EVENTS);
-      const events = eventsJSON ? JSON.parse(eventsJSON) : [];
+      const stored: Event[] = eventsJSON ? JSON.parse(eventsJSON) : [];
+      // Episodes open when the app last stopped can't be followed any more - their end went unseen
+      const events = stored.map((event) => (event.open ? { ...event, open: false } : event));
+      const cursorsJSON = await AsyncStorage.getItem(STORAGE_KEY_CURSORS);
+      const journalCursors = cursorsJSON ? JSON.parse(cursorsJSON) : {};
 
       set({
         events,
+        journalCursors,
         isLoaded: true,
       });
 
@@ -309,7 +556,7 @@ export const useEventsStore = create<EventsStore>((set, get) => ({
   },
 
   /**
-   * Clear all events (for debugging/testing)
+   * Clear all events (for debugging/testing) - journal cursors stay so they aren't pulled again
    */
   clearAll: () => {
     set({
@@ -321,70 +568,22 @@ export const useEventsStore = create<EventsStore>((set, get) => ({
   },
 
   /**
-   * Schedule auto-reconnection after power restore
+   * Drop a removed device's events
    */
-  scheduleAutoReconnect: () => {
-    const state = get();
-    const settings = useSettingsStore.getState().settings;
-    const reconnectionSettings = settings.reconnection;
-
-    // Cancel any existing timeout
-    if (state.reconnectionTimeout) {
-      clearTimeout(state.reconnectionTimeout);
-    }
+  removeDevice: (deviceId: string) => {
+    get().setJournalCursor(deviceId, null);
 
-    // Check if we've exceeded max attempts
-    if (state.reconnectionAttempts >= reconnectionSettings.maxAttempts) {
-      console.log(`❌ AUTO-RECONNECTION: Max attempts (${reconnectionSettings.maxAttempts}) reached. Stopping.`);
-      set({ reconnectionAttempts: 0 });
-      return;
-    }
-
-    // Schedule the reconnection
-    const delayMs = reconnectionSettings.delay * 1000;
-    const timeout = setTimeout(async () => {
-      console.log(`🔌 AUTO-RECONNECTION: Attempting to turn relay ON (attempt ${state.reconnectionAttempts + 1}/${reconnectionSettings.maxAttempts})`);
-
-      // Import ElectricalStore dynamically to avoid circular dependency
-      const { useElectricalStore } = await import('./useElectricalStore');
-      const relayState = useElectricalStore.getState().data?.relayState;
-
-      // Only turn on if relay is currently OFF
-      if (!relayState) {
-        await useElectricalStore.getState().toggleRelay();
-
-        // Wait a moment and check if it worked
-        setTimeout(() => {
-          const newRelayState = useElectricalStore.getState().data?.relayState;
-          if (newRelayState) {
-            console.log('✅ AUTO-RECONNECTION: Relay successfully turned ON');
-            set({ reconnectionAttempts: 0, reconnectionTimeout: null });
-          } else {
-            console.log('⚠️ AUTO-RECONNECTION: Relay failed to turn ON, will retry...');
-            set({ reconnectionAttempts: state.reconnectionAttempts + 1 });
-            get().scheduleAutoReconnect(); // Retry
-          }
-        }, 2000); // Wait 2 seconds to verify
-      } else {
-        console.log('ℹ️ AUTO-RECONNECTION: Relay already ON, skipping');
-        set({ reconnectionAttempts: 0, reconnectionTimeout: null });
-      }
-    }, delayMs);
-
-    set({ reconnectionTimeout: timeout });
-    console.log(`⏱️ AUTO-RECONNECTION: Scheduled for ${reconnectionSettings.delay} seconds from now`);
-  },
+    set((state) => {
+      const { [deviceId]: _removed, ...lastReadingsByDevice } = state.lastReadingsByDevice;
+      const { [deviceId]: _episodes, ...episodesByDevice } = state.episodesByDevice;
+      return {
+        events: state.events.filter((event) => getEventDeviceId(event) !== deviceId),
+        lastReadingsByDevice,
+        episodesByDevice,
+      };
+    });
 
-  /**
-   * Cancel auto-reconnection
-   */
-  cancelAutoReconnect: () => {
-    const state = get();
-    if (state.reconnectionTimeout) {
-      clearTimeout(state.reconnectionTimeout);
-      set({ reconnectionTimeout: null, reconnectionAttempts: 0 });
-      console.log('🚫 AUTO-RECONNECTION: Cancelled');
-    }
+    get().saveToStorage();
   },
 }));
 
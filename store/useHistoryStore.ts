@@ -11,11 +11,13 @@
  * - Automatic data cleanup (> 30 days)
  * - Persistent storage across app restarts
  * - Smart querying for charts
+ * - One history per registered device; top-level fields mirror the active device
  */
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { ElectricalData } from '../types';
+import { DEFAULT_DEVICE_ID } from '../utils/constants';
 
 // === TYPES ===
 
@@ -60,6 +62,15 @@ export interface HourlyAggregate {
   sampleCount: number; // How many readings in this hour
 }
 
+export interface DeviceHistory {
+  recentReadings: Reading[];
+  historicalData: HourlyAggregate[];
+  lastSampleTime: number;
+  lastAggregateTime: number;
+  lastSaveTime: number;
+  isLoaded: boolean;
+}
+
 interface HistoryState {
   // In-memory: Last 24 hours (1,440 readings max)
   recentReadings: Reading[];
@@ -76,14 +87,20 @@ interface HistoryState {
   // Version number to track changes without triggering on every array update
   dataVersion: number;
 
+  // Multi-device: every device's history, top-level fields mirror activeDeviceId
+  activeDeviceId: string;
+  devices: Record<string, DeviceHistory>;
+
   // Actions
-  logReading: (data: ElectricalData) => void;
+  logReading: (data: ElectricalData, deviceId?: string) => void;
   getReadingsForPeriod: (startTime: number, endTime: number, granularity: 'minute' | 'hour') => (Reading | HourlyAggregate)[];
-  aggregateCurrentHour: () => void;
-  pruneOldData: () => void;
-  saveToStorage: () => Promise<void>;
-  loadFromStorage: () => Promise<void>;
+  aggregateCurrentHour: (deviceId?: string) => void;
+  pruneOldData: (deviceId?: string) => void;
+  saveToStorage: (deviceId?: string) => Promise<void>;
+  loadFromStorage: (deviceId?: string) => Promise<void>;
   clearAll: () => void;
+  setActiveDevice: (deviceId: string) => void;
+  removeDevice: (deviceId: string) => void;
 }
 
 // === CONSTANTS ===
@@ -102,6 +119,42 @@ const MAX_DELTA_WINDOW_MS = ONE_HOUR_MS * 12; // Ignore gaps bigger than 12 hour
 
 // === HELPER FUNCTIONS ===
 
+const EMPTY_DEVICE_HISTORY: DeviceHistory = {
+  recentReadings: [],
+  historicalData: [],
+  lastSampleTime: 0,
+  lastAggregateTime: 0,
+  lastSaveTime: 0,
+  isLoaded: false,
+};
+
+/**
+ * Storage key for a device (first device keeps the legacy key)
+ */
+function storageKeyFor(baseKey: string, deviceId: string): string {
+  return deviceId === DEFAULT_DEVICE_ID ? baseKey : `${baseKey}:${deviceId}`;
+}
+
+/**
+ * Build a state patch that updates one device and, if it is active, the top-level mirror
+ */
+function patchDevice(
+  state: HistoryState,
+  deviceId: string,
+  changes: Partial<DeviceHistory>
+): Partial<HistoryState> {
+  const device = { ...(state.devices[deviceId] ?? EMPTY_DEVICE_HISTORY), ...changes };
+  const patch: Partial<HistoryState> = {
+    devices: { ...state.devices, [deviceId]: device },
+  };
+
+  if (deviceId === state.activeDeviceId) {
+    Object.assign(patch, changes);
+  }
+
+  return patch;
+}
+
 /**
  * Get the start of the hour for a timestamp
  */
@@ -281,29 +334,35 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
   lastAggregateTime: 0,
   lastSaveTime: 0,
   isLoaded: false,
+  dataVersion: 0,
+  activeDeviceId: DEFAULT_DEVICE_ID,
+  devices: {},
 
   /**
    * Log a new reading from ESP32
    * - Automatically samples at SAMPLE_INTERVAL (2 seconds)
    * - Triggers aggregation and saving as needed
    */
-  logReading: (data: ElectricalData) => {
+  logReading: (data: ElectricalData, deviceId?: string) => {
     const now = Date.now();
-    const state = get();
-    const timeSinceLastSample = now - state.lastSampleTime;
+    const targetId = deviceId ?? get().activeDeviceId;
+    const device = get().devices[targetId] ?? EMPTY_DEVICE_HISTORY;
+    const timeSinceLastSample = now - device.lastSampleTime;
 
     // Sample throttling: Only store every 2 seconds
     if (timeSinceLastSample < SAMPLE_INTERVAL) {
       return; // Drop readings - expected (50% dropped)
     }
 
-    const previousReading = state.recentReadings[state.recentReadings.length - 1];
+    const previousReading = device.recentReadings[device.recentReadings.length - 1];
     const rawReading = toReading(data);
     const reading = normalizeEnergySample(rawReading, previousReading);
 
     set((state) => {
+      const current = state.devices[targetId] ?? EMPTY_DEVICE_HISTORY;
+
       // Add to recent readings
-      let recentReadings = [...state.recentReadings, reading];
+      let recentReadings = [...current.recentReadings, reading];
 
       // Keep last 24 hours only
       if (recentReadings.length > MAX_RECENT_READINGS) {
@@ -311,27 +370,26 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
       }
 
       return {
-        recentReadings,
-        lastSampleTime: now,
+        ...patchDevice(state, targetId, { recentReadings, lastSampleTime: now }),
         dataVersion: state.dataVersion + 1,
       };
     });
 
     // Log every 10 readings
-    const totalReadings = get().recentReadings.length;
+    const totalReadings = get().devices[targetId]?.recentReadings.length ?? 0;
     if (totalReadings % 10 === 0) {
-      console.log(`✅ ESP32 DATA STORED: ${totalReadings} readings`);
+      console.log(`✅ ESP32 DATA STORED (${targetId}): ${totalReadings} readings`);
     }
 
     // Check if we need to aggregate
-    const hoursSinceLastAggregate = (now - state.lastAggregateTime) / (60 * 60 * 1000);
+    const hoursSinceLastAggregate = (now - device.lastAggregateTime) / (60 * 60 * 1000);
     if (hoursSinceLastAggregate >= 1) {
-      get().aggregateCurrentHour();
+      get().aggregateCurrentHour(targetId);
     }
 
     // Check if we need to save
-    if (now - state.lastSaveTime > SAVE_INTERVAL) {
-      get().saveToStorage();
+    if (now - device.lastSaveTime > SAVE_INTERVAL) {
+      get().saveToStorage(targetId);
     }
   },
 
@@ -361,14 +419,15 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
   /**
    * Aggregate the current hour's readings into historicalData
    */
-  aggregateCurrentHour: () => {
-    const state = get();
+  aggregateCurrentHour: (deviceId?: string) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+    const device = get().devices[targetId] ?? EMPTY_DEVICE_HISTORY;
     const now = Date.now();
     const currentHourStart = getHourStart(now);
     const previousHourStart = currentHourStart - (60 * 60 * 1000);
 
     // Find all readings from the previous hour
-    const previousHourReadings = state.recentReadings.filter(
+    const previousHourReadings = device.recentReadings.filter(
       r => r.timestamp >= previousHourStart && r.timestamp < currentHourStart
     );
 
@@ -380,19 +439,21 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
     const aggregate = aggregateReadings(previousHourReadings, previousHourStart);
 
     set((state) => {
+      const current = state.devices[targetId] ?? EMPTY_DEVICE_HISTORY;
+
       // Check if we already have this hour (avoid duplicates)
-      const existingIndex = state.historicalData.findIndex(
+      const existingIndex = current.historicalData.findIndex(
         h => h.timestamp === previousHourStart
       );
 
       let historicalData;
       if (existingIndex >= 0) {
         // Update existing
-        historicalData = [...state.historicalData];
+        historicalData = [...current.historicalData];
         historicalData[existingIndex] = aggregate;
       } else {
         // Add new
-        historicalData = [...state.historicalData, aggregate];
+        historicalData = [...current.historicalData, aggregate];
       }
 
       // Sort by timestamp
@@ -403,14 +464,14 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
         historicalData = historicalData.slice(historicalData.length - MAX_HISTORICAL_HOURS);
       }
 
-      return {
+      return patchDevice(state, targetId, {
         historicalData,
         lastAggregateTime: now,
-      };
+      });
     });
 
     // Trigger save after aggregation
-    get().saveToStorage();
+    get().saveToStorage(targetId);
 
     console.log(`✅ Aggregated hour: ${new Date(previousHourStart).toISOString()}, samples: ${previousHourReadings.length}`);
   },
@@ -418,29 +479,34 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
   /**
    * Remove data older than 30 days
    */
-  pruneOldData: () => {
+  pruneOldData: (deviceId?: string) => {
     const now = Date.now();
     const thirtyDaysAgo = now - (30 * 24 * 60 * 60 * 1000);
+    const targetId = deviceId ?? get().activeDeviceId;
 
-    set((state) => ({
-      recentReadings: state.recentReadings.filter(r => r.timestamp >= thirtyDaysAgo),
-      historicalData: state.historicalData.filter(h => h.timestamp >= thirtyDaysAgo),
-    }));
+    set((state) => {
+      const current = state.devices[targetId] ?? EMPTY_DEVICE_HISTORY;
+      return patchDevice(state, targetId, {
+        recentReadings: current.recentReadings.filter(r => r.timestamp >= thirtyDaysAgo),
+        historicalData: current.historicalData.filter(h => h.timestamp >= thirtyDaysAgo),
+      });
+    });
   },
 
   /**
    * Save to AsyncStorage
    */
-  saveToStorage: async () => {
-    const state = get();
+  saveToStorage: async (deviceId?: string) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+    const device = get().devices[targetId] ?? EMPTY_DEVICE_HISTORY;
     try {
       await Promise.all([
-        AsyncStorage.setItem(STORAGE_KEY_RECENT, JSON.stringify(state.recentReadings)),
-        AsyncStorage.setItem(STORAGE_KEY_HISTORICAL, JSON.stringify(state.historicalData)),
+        AsyncStorage.setItem(storageKeyFor(STORAGE_KEY_RECENT, targetId), JSON.stringify(device.recentReadings)),
+        AsyncStorage.setItem(storageKeyFor(STORAGE_KEY_HISTORICAL, targetId), JSON.stringify(device.historicalData)),
       ]);
 
-      set({ lastSaveTime: Date.now() });
-      console.log('💾 Saved history to storage');
+      set((state) => patchDevice(state, targetId, { lastSaveTime: Date.now() }));
+      console.log(`💾 Saved history to storage (${targetId})`);
     } catch (error) {
       console.error('Failed to save history:', error);
     }
@@ -449,11 +515,12 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
   /**
    * Load from AsyncStorage
    */
-  loadFromStorage: async () => {
+  loadFromStorage: async (deviceId?: string) => {
+    const targetId = deviceId ?? get().activeDeviceId;
     try {
       const [recentJSON, historicalJSON] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEY_RECENT),
-        AsyncStorage.getItem(STORAGE_KEY_HISTORICAL),
+        AsyncStorage.getItem(storageKeyFor(STORAGE_KEY_RECENT, targetId)),
+        AsyncStorage.getItem(storageKeyFor(STORAGE_KEY_HISTORICAL, targetId)),
       ]);
 
       let recentReadings = recentJSON ? JSON.parse(recentJSON) : [];
@@ -484,19 +551,23 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
       const normalizedRecentReadings = normalizeRecentSeries(validRecentReadings);
       const normalizedHistoricalData = normalizeHistoricalSeries(validHistoricalData);
 
-      set({
-        recentReadings: normalizedRecentReadings,
-        historicalData: normalizedHistoricalData,
-        isLoaded: true,
+      set((state) => {
+        // Keep readings that arrived while storage was loading
+        const live = state.devices[targetId]?.recentReadings ?? [];
+        return patchDevice(state, targetId, {
+          recentReadings: [...normalizedRecentReadings, ...live],
+          historicalData: normalizedHistoricalData,
+          isLoaded: true,
+        });
       });
 
-      console.log(`📂 Loaded history: ${normalizedRecentReadings.length} recent, ${normalizedHistoricalData.length} historical`);
+      console.log(`📂 Loaded history (${targetId}): ${normalizedRecentReadings.length} recent, ${normalizedHistoricalData.length} historical`);
 
       // Prune old data after loading
-      get().pruneOldData();
+      get().pruneOldData(targetId);
     } catch (error) {
       console.error('Failed to load history:', error);
-      set({ isLoaded: true });
+      set((state) => patchDevice(state, targetId, { isLoaded: true }));
     }
   },
 
@@ -504,17 +575,54 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
    * Clear all data (for debugging/testing)
    */
   clearAll: () => {
-    set({
+    const targetId = get().activeDeviceId;
+    set((state) => patchDevice(state, targetId, {
       recentReadings: [],
       historicalData: [],
       lastSampleTime: 0,
       lastAggregateTime: 0,
       lastSaveTime: 0,
-    });
+    }));
 
-    AsyncStorage.multiRemove([STORAGE_KEY_RECENT, STORAGE_KEY_HISTORICAL]);
+    AsyncStorage.multiRemove([
+      storageKeyFor(STORAGE_KEY_RECENT, targetId),
+      storageKeyFor(STORAGE_KEY_HISTORICAL, targetId),
+    ]);
     console.log('🗑️ Cleared all history');
   },
+
+  /**
+   * Point the top-level fields (used by charts) at another device
+   */
+  setActiveDevice: (deviceId: string) => {
+    if (deviceId === get().activeDeviceId) return;
+
+    const device = get().devices[deviceId];
+    set((state) => ({
+      activeDeviceId: deviceId,
+      ...(device ?? EMPTY_DEVICE_HISTORY),
+      dataVersion: state.dataVersion + 1,
+    }));
+
+    if (!device?.isLoaded) {
+      get().loadFromStorage(deviceId);
+    }
+  },
+
+  /**
+   * Drop a removed device's history (memory and storage)
+   */
+  removeDevice: (deviceId: string) => {
+    set((state) => {
+      const { [deviceId]: _removed, ...devices } = state.devices;
+      return { devices };
+    });
+
+    AsyncStorage.multiRemove([
+      storageKeyFor(STORAGE_KEY_RECENT, deviceId),
+      storageKeyFor(STORAGE_KEY_HISTORICAL, deviceId),
+    ]);
+  },
 }));
 
 // === AUTO-INITIALIZATION ===
@@ -528,11 +636,14 @@ setTimeout(() => {
 setInterval(() => {
   const state = useHistoryStore.getState();
   const now = Date.now();
-  const hoursSinceLastAggregate = (now - state.lastAggregateTime) / (60 * 60 * 1000);
 
-  if (hoursSinceLastAggregate >= 1 && state.recentReadings.length > 0) {
-    state.aggregateCurrentHour();
-  }
+  Object.entries(state.devices).forEach(([deviceId, device]) => {
+    const hoursSinceLastAggregate = (now - device.lastAggregateTime) / (60 * 60 * 1000);
+
+    if (hoursSinceLastAggregate >= 1 && device.recentReadings.length > 0) {
+      state.aggregateCurrentHour(deviceId);
+    }
+  });
 }, AGGREGATE_CHECK_INTERVAL);
 
 // Periodic auto-save (every 5 minutes)
@@ -540,9 +651,11 @@ setInterval(() => {
   const state = useHistoryStore.getState();
   const now = Date.now();
 
-  if (now - state.lastSaveTime > SAVE_INTERVAL) {
-    state.saveToStorage();
-  }
+  Object.entries(state.devices).forEach(([deviceId, device]) => {
+    if (now - device.lastSaveTime > SAVE_INTERVAL) {
+      state.saveToStorage(deviceId);
+    }
+  });
 }, SAVE_INTERVAL);
 
 export { SAMPLE_INTERVAL, ENERGY_LOW_RATIO_THRESHOLD, ONE_HOUR_MS };
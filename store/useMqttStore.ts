@@ -0,0 +1,59 @@
+// MQTT Store - broker settings for the remote bridge and its live connection state
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MqttConfig, MqttConnectionState } from '../types';
+
+export const DEFAULT_MQTT_CONFIG: MqttConfig = {
+  enabled: false,
+  url: '',
+  topicPrefix: 'smartcb',
+  allowCommands: false,
+  publishInterval: 10,
+  homeAssistant: false,
+  discoveryPrefix: 'homeassistant',
+};
+
+interface MqttStore {
+  config: MqttConfig;
+  state: MqttConnectionState;     // Live, not persisted
+  lastError: string | null;
+  lastPublishAt: number | null;
+
+  // Actions
+  setConfig: (config: Partial<MqttConfig>) => void;
+  setState: (state: MqttConnectionState, error?: string | null) => void;
+  markPublished: () => void;
+}
+
+export const useMqttStore = create<MqttStore>()(
+  persist(
+    (set) => ({
+      config: DEFAULT_MQTT_CONFIG,
+      state: 'disabled',
+      lastError: null,
+      lastPublishAt: null,
+
+      setConfig: (config) => set((state) => ({ config: { ...state.config, ...config } })),
+
+      setState: (state, error) =>
+        set((current) => ({
+          state,
+          lastError: error === undefined ? current.lastError : error,
+        })),
+
+      markPublished: () => set({ lastPublishAt: Date.now() }),
+    }),
+    {
+      name: 'smartcb-mqtt',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ config: state.config }),
+      // Options added since the config was saved start at their defaults
+      merge: (persisted, current) => ({
+        ...current,
+        config: { ...DEFAULT_MQTT_CONFIG, ...(persisted as Partial<MqttStore> | undefined)?.config },
+      }),
+    }
+  )
+);
@@ -0,0 +1,81 @@
+// Outbox Store - settings, schedule and clock writes a breaker has not acknowledged yet
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OutboxEntry, OutboxKind, SyncedSettingField } from '../types';
+
+interface OutboxStore {
+  entries: OutboxEntry[];   // Oldest first
+
+  // Actions
+  enqueue: (deviceId: string, kind: OutboxKind, fields?: SyncedSettingField[]) => void;
+  updateEntry: (id: string, patch: Partial<OutboxEntry>) => void;
+  acknowledge: (deviceId: string, kind: OutboxKind) => void;
+  getEntries: (deviceId: string) => OutboxEntry[];
+  removeDevice: (deviceId: string) => void;
+}
+
+export const useOutboxStore = create<OutboxStore>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+
+      // A newer write supersedes a pending one of the same kind; it keeps the older one's place in line
+      enqueue: (deviceId, kind, fields) =>
+        set((state) => {
+          const existing = state.entries.find((entry) => entry.deviceId === deviceId && entry.kind === kind);
+          if (existing) {
+            return {
+              entries: state.entries.map((entry) =>
+                entry === existing
+                  ? {
+                      ...entry,
+                      fields: fields ? Array.from(new Set([...(entry.fields ?? []), ...fields])) : entry.fields,
+                      updatedAt: Date.now(),
+                      // Entries persisted before revisions existed start from 0
+                      revision: (entry.revision ?? 0) + 1,
+                    }
+                  : entry
+              ),
+            };
+          }
+
+          const entry: OutboxEntry = {
+            id: `${kind}-${deviceId}-${Date.now()}`,
+            deviceId,
+            kind,
+            ...(fields ? { fields } : {}),
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            revision: 0,
+            attempts: 0,
+            lastError: null,
+          };
+          return { entries: [...state.entries, entry] };
+        }),
+
+      updateEntry: (id, patch) =>
+        set((state) => ({
+          entries: state.entries.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)),
+        })),
+
+      acknowledge: (deviceId, kind) =>
+        set((state) => ({
+          entries: state.entries.filter((entry) => !(entry.deviceId === deviceId && entry.kind === kind)),
+        })),
+
+      getEntries: (deviceId) => get().entries.filter((entry) => entry.deviceId === deviceId),
+
+      removeDevice: (deviceId) =>
+        set((state) => ({
+          entries: state.entries.filter((entry) => entry.deviceId !== deviceId),
+        })),
+    }),
+    {
+      name: 'smartcb-outbox',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ entries: state.entries }),
+    }
+  )
+);
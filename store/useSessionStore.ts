@@ -0,0 +1,43 @@
+// Session Store - recordings in progress and the replay being played back
+
+import { create } from 'zustand';
+import { RecorderState, ReplayState, SuppressedRelayCommand } from '../types';
+
+const IDLE_REPLAY: ReplayState = {
+  status: 'idle',
+  deviceId: null,
+  file: null,
+  speed: 1,
+  position: 0,
+  total: 0,
+  suppressed: [],
+};
+
+interface SessionStore {
+  recorders: Record<string, RecorderState>;
+  replay: ReplayState;
+
+  // Actions
+  setRecorder: (deviceId: string, recorder: RecorderState | null) => void;
+  patchReplay: (patch: Partial<ReplayState>) => void;
+  addSuppressed: (command: SuppressedRelayCommand) => void;
+  resetReplay: () => void;
+}
+
+export const useSessionStore = create<SessionStore>()((set) => ({
+  recorders: {},
+  replay: IDLE_REPLAY,
+
+  setRecorder: (deviceId, recorder) =>
+    set((state) => {
+      const { [deviceId]: _removed, ...recorders } = state.recorders;
+      return { recorders: recorder ? { ...recorders, [deviceId]: recorder } : recorders };
+    }),
+
+  patchReplay: (patch) => set((state) => ({ replay: { ...state.replay, ...patch } })),
+
+  addSuppressed: (command) =>
+    set((state) => ({ replay: { ...state.replay, suppressed: [...state.replay.suppressed, command] } })),
+
+  resetReplay: () => set({ replay: IDLE_REPLAY }),
+}));
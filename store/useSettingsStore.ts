@@ -2,40 +2,66 @@
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Settings } from '../types';
-import { generateDefaultSettings } from '../utils';
-import { getESP32Api } from '../services/esp32Api';
+import { Settings, Thresholds } from '../types';
+import { generateDefaultSettings, DEFAULT_DEVICE_ID } from '../utils';
+import { getSettingsSync, changedFields } from '../services/settingsSync';
+import { getOutbox } from '../services/outbox';
+import { useSettingsSyncStore } from './useSettingsSyncStore';
+import { useOutboxStore } from './useOutboxStore';
 
 const STORAGE_KEY_SETTINGS = '@smartcb_settings';
 
+// First device keeps the legacy key so existing settings survive the registry migration
+const settingsKeyFor = (deviceId: string) =>
+  deviceId === DEFAULT_DEVICE_ID ? STORAGE_KEY_SETTINGS : `${STORAGE_KEY_SETTINGS}:${deviceId}`;
+
 interface SettingsStore {
+  // Settings of the active device (what the Settings screen edits)
   settings: Settings;
   isLoaded: boolean;
+  activeDeviceId: string;
+  settingsByDevice: Record<string, Settings>;
 
   // Actions
   updateSettings: (settings: Partial<Settings>) => void;
   updateThresholds: (thresholds: Partial<Settings['thresholds']>) => Promise<void>;
+  applyThresholds: (deviceId: string, thresholds: Thresholds) => Promise<void>;
   updateNotifications: (notifications: Partial<Settings['notifications']>) => void;
   updateSchedule: (schedule: Partial<Settings['schedule']>) => Promise<void>;
   resetSettings: () => void;
   syncWithESP32: () => Promise<void>;
   saveToStorage: () => Promise<void>;
-  loadFromStorage: () => Promise<void>;
+  loadFromStorage: (deviceId?: string) => Promise<void>;
   clearAll: () => void;
+
+  // Multi-device
+  setActiveDevice: (deviceId: string) => void;
+  getSettingsForDevice: (deviceId: string) => Settings;
+  setDeviceSettings: (deviceId: string, settings: Settings) => void;
+  removeDevice: (deviceId: string) => void;
 }
 
 const defaultSettings = generateDefaultSettings();
 
+// Write the active settings and keep the per-device copy in step
+const withActiveSettings = (state: SettingsStore, settings: Settings) => ({
+  settings,
+  settingsByDevice: {
+    ...state.settingsByDevice,
+    [state.activeDeviceId]: settings,
+  },
+});
+
 export const useSettingsStore = create<SettingsStore>((set, get) => ({
   settings: defaultSettings,
   isLoaded: false,
+  activeDeviceId: DEFAULT_DEVICE_ID,
+  settingsByDevice: {},
 
   updateSettings: (newSettings) => {
-    set((state) => ({
-      settings: {
-        ...state.settings,
-        ...newSettings,
-      },
+    set((state) => withActiveSettings(state, {
+      ...state.settings,
+      ...newSettings,
     }));
 
     // Save to storage after updating
@@ -43,33 +69,33 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
   },
 
   updateThresholds: async (thresholds) => {
+    const before = get().settings;
+
     // Update local state
-    set((state) => ({
-      settings: {
-        ...state.settings,
-        thresholds: {
-          ...state.settings.thresholds,
-          ...thresholds,
-          voltage: {
-            ...state.settings.thresholds.voltage,
-            ...(thresholds.voltage || {}),
-          },
-          current: {
-            ...state.settings.thresholds.current,
-            ...(thresholds.current || {}),
-          },
-          energy: {
-            ...state.settings.thresholds.energy,
-            ...(thresholds.energy || {}),
-          },
-          frequency: {
-            ...state.settings.thresholds.frequency,
-            ...(thresholds.frequency || {}),
-          },
-          powerFactor: {
-            ...state.settings.thresholds.powerFactor,
-            ...(thresholds.powerFactor || {}),
-          },
+    set((state) => withActiveSettings(state, {
+      ...state.settings,
+      thresholds: {
+        ...state.settings.thresholds,
+        ...thresholds,
+        voltage: {
+          ...state.settings.thresholds.voltage,
+          ...(thresholds.voltage || {}),
+        },
+        current: {
+          ...state.settings.thresholds.current,
+          ...(thresholds.current || {}),
+        },
+        energy: {
+          ...state.settings.thresholds.energy,
+          ...(thresholds.energy || {}),
+        },
+        frequency: {
+          ...state.settings.thresholds.frequency,
+          ...(thresholds.frequency || {}),
+        },
+        powerFactor: {
+          ...state.settings.thresholds.powerFactor,
+          ...(thresholds.powerFactor || {}),
         },
       },
     }));
@@ -77,42 +103,46 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
     // Save to storage
     get().saveToStorage();
 
-    // Sync with ESP32 (NOW SUPPORTED in v4.0)
-    try {
-      const state = get();
-      const api = getESP32Api();
-
-      // Sync all thresholds including advanced ones
-      await api.updateSettings({
-        maxCurrent: state.settings.thresholds.current.max,
-        maxVoltage: state.settings.thresholds.voltage.max,
-        minVoltage: state.settings.thresholds.voltage.min,
-        protectionEnabled: state.settings.thresholds.current.enabled,
-        // Advanced thresholds
-        maxFrequency: state.settings.thresholds.frequency.max,
-        minFrequency: state.settings.thresholds.frequency.min,
-        minPowerFactor: state.settings.thresholds.powerFactor.min,
-        frequencyProtection: state.settings.thresholds.frequency.enabled,
-        powerFactorProtection: state.settings.thresholds.powerFactor.enabled,
-        voltageProtection: true,  // Always enabled for safety
-        autoResetDelay: state.settings.reconnection.delay,
-        autoReconnectEnabled: state.settings.reconnection.enabled  // BUG-008 fix
-      });
-      console.log('✅ All thresholds synchronized with ESP32 v4.0');
-    } catch (error) {
-      console.error('❌ Failed to sync thresholds with ESP32:', error);
-      throw error;  // Re-throw to show error to user
+    // Queue the changed fields and send them - they stay pending until the breaker confirms them
+    const deviceId = get().activeDeviceId;
+    const fields = changedFields(before, get().settings);
+    getSettingsSync().markDirty(deviceId, fields);
+    getOutbox().enqueue(deviceId, 'settings', fields);
+    await getOutbox().flush(deviceId);
+
+    const sync = useSettingsSyncStore.getState().getSync(deviceId);
+    console.log(sync.status === 'error'
+      ? '📮 Thresholds saved, they will be sent when the breaker is reachable'
+      : sync.status === 'conflict'
+        ? '⚠️ Thresholds saved, but the breaker has different values for some of them'
+        : '✅ All thresholds synchronized with ESP32');
+  },
+
+  /**
+   * Replace any device's thresholds (a settings profile) and send the changed ones to it
+   */
+  applyThresholds: async (deviceId, thresholds) => {
+    // Start from what is saved for this breaker, not the defaults shown before it loads
+    const { activeDeviceId, isLoaded, settingsByDevice, loadFromStorage } = get();
+    if (deviceId === activeDeviceId ? !isLoaded : !settingsByDevice[deviceId]) {
+      await loadFromStorage(deviceId);
     }
+
+    const before = get().getSettingsForDevice(deviceId);
+    get().setDeviceSettings(deviceId, { ...before, thresholds });
+
+    const fields = changedFields(before, get().getSettingsForDevice(deviceId));
+    getSettingsSync().markDirty(deviceId, fields);
+    getOutbox().enqueue(deviceId, 'settings', fields);
+    await getOutbox().flush(deviceId);
   },
 
   updateNotifications: (notifications) => {
-    set((state) => ({
-      settings: {
-        ...state.settings,
-        notifications: {
-          ...state.settings.notifications,
-          ...notifications,
-        },
+    set((state) => withActiveSettings(state, {
+      ...state.settings,
+      notifications: {
+        ...state.settings.notifications,
+        ...notifications,
       },
     }));
 
@@ -122,73 +152,48 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
 
   updateSchedule: async (schedule) => {
     // Update local state
-    set((state) => ({
-      settings: {
-        ...state.settings,
-        schedule: {
-          ...state.settings.schedule,
-          ...schedule,
-        },
+    set((state) => withActiveSettings(state, {
+      ...state.settings,
+      schedule: {
+        ...state.settings.schedule,
+        ...schedule,
       },
     }));
 
     // Save to storage
     get().saveToStorage();
 
-    // NOTE: ESP32 v4.0 doesn't have schedule support yet, but settings work
-    // Schedules are managed locally in the app only for now
-    console.log('✅ Schedule updated (app-side only, ESP32 doesn\'t support schedules yet)');
+    // The whole schedule list goes out; a newer edit replaces one still waiting
+    const deviceId = get().activeDeviceId;
+    getOutbox().enqueue(deviceId, 'schedules');
+    await getOutbox().flush(deviceId);
+
+    const pending = useOutboxStore.getState().getEntries(deviceId).some((entry) => entry.kind === 'schedules');
+    console.log(pending
+      ? '📮 Schedule saved, it will be sent when the breaker is reachable'
+      : '✅ Schedule synchronized with ESP32');
   },
 
   resetSettings: () => {
-    set({
-      settings: defaultSettings,
-    });
+    set((state) => withActiveSettings(state, defaultSettings));
 
     // Save to storage after reset
     get().saveToStorage();
   },
 
   syncWithESP32: async () => {
-    // Sync current settings with ESP32 v4.0
-    const state = get();
-    const api = getESP32Api();
-
-    try {
-      // Sync basic and advanced settings
-      const success = await api.updateSettings({
-        maxCurrent: state.settings.thresholds.current.max,
-        maxVoltage: state.settings.thresholds.voltage.max,
-        minVoltage: state.settings.thresholds.voltage.min,
-        protectionEnabled: state.settings.thresholds.current.enabled,
-        // Advanced thresholds
-        maxFrequency: state.settings.thresholds.frequency.max,
-        minFrequency: state.settings.thresholds.frequency.min,
-        minPowerFactor: state.settings.thresholds.powerFactor.min,
-        frequencyProtection: state.settings.thresholds.frequency.enabled,
-        powerFactorProtection: state.settings.thresholds.powerFactor.enabled,
-        voltageProtection: true,  // Always enabled for safety
-        autoResetDelay: state.settings.reconnection.delay,
-        autoReconnectEnabled: state.settings.reconnection.enabled  // BUG-008 fix
-      });
-
-      if (success) {
-        console.log('✅ Settings synchronized with ESP32 v4.0');
-      } else {
-        console.error('❌ Failed to sync settings with ESP32');
-      }
-    } catch (error) {
-      console.error('❌ Error syncing with ESP32:', error);
-    }
+    // Two-way: adopts what changed on the breaker, pushes what changed here, flags the rest
+    const status = await getSettingsSync().sync(get().activeDeviceId);
+    console.log(status === 'in_sync' ? '✅ Settings synchronized with ESP32' : `⚠️ Settings sync: ${status}`);
   },
 
   /**
-   * Save settings to AsyncStorage
+   * Save the active device's settings to AsyncStorage
    */
   saveToStorage: async () => {
     const state = get();
     try {
-      await AsyncStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(state.settings));
+      await AsyncStorage.setItem(settingsKeyFor(state.activeDeviceId), JSON.stringify(state.settings));
       console.log('💾 Settings saved to storage');
     } catch (error) {
       console.error('Failed to save settings:', error);
@@ -196,24 +201,23 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
   },
 
   /**
-   * Load settings from AsyncStorage
+   * Load a device's settings from AsyncStorage (defaults to the active device)
    */
-  loadFromStorage: async () => {
+  loadFromStorage: async (deviceId) => {
+    const targetId = deviceId ?? get().activeDeviceId;
+
     try {
-      const settingsJSON = await AsyncStorage.getItem(STORAGE_KEY_SETTINGS);
-
-      if (settingsJSON) {
-        const settings = JSON.parse(settingsJSON);
-        set({
-          settings,
-          isLoaded: true,
-        });
-        console.log('📂 Loaded settings from storage');
-      } else {
-        // No saved settings, use defaults
-        set({ isLoaded: true });
-        console.log('📂 No saved settings, using defaults');
-      }
+      const settingsJSON = await AsyncStorage.getItem(settingsKeyFor(targetId));
+      const settings: Settings = settingsJSON ? JSON.parse(settingsJSON) : defaultSettings;
+
+      set((state) => ({
+        settingsByDevice: { ...state.settingsByDevice, [targetId]: settings },
+        ...(targetId === state.activeDeviceId ? { settings, isLoaded: true } : {}),
+      }));
+
+      console.log(settingsJSON
+        ? `📂 Loaded settings from storage (${targetId})`
+        : `📂 No saved settings for ${targetId}, using defaults`);
     } catch (error) {
       console.error('Failed to load settings:', error);
       set({ isLoaded: true });
@@ -224,12 +228,64 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
    * Clear all settings (for debugging/testing)
    */
   clearAll: () => {
+    set((state) => withActiveSettings(state, defaultSettings));
+
+    AsyncStorage.removeItem(settingsKeyFor(get().activeDeviceId));
+    console.log('🗑️ Cleared all settings');
+  },
+
+  /**
+   * Switch the Settings screen to another device
+   */
+  setActiveDevice: (deviceId) => {
+    const { activeDeviceId, settingsByDevice } = get();
+    if (deviceId === activeDeviceId) return;
+
+    const cached = settingsByDevice[deviceId];
     set({
-      settings: defaultSettings,
+      activeDeviceId: deviceId,
+      settings: cached ?? defaultSettings,
+      isLoaded: !!cached,
     });
 
-    AsyncStorage.removeItem(STORAGE_KEY_SETTINGS);
-    console.log('🗑️ Cleared all settings');
+    if (!cached) {
+      get().loadFromStorage(deviceId);
+    }
+  },
+
+  /**
+   * Settings used for threshold checks of any device (active or background)
+   */
+  getSettingsForDevice: (deviceId) => {
+    const { activeDeviceId, settings, settingsByDevice } = get();
+    if (deviceId === activeDeviceId) return settings;
+    return settingsByDevice[deviceId] ?? defaultSettings;
+  },
+
+  /**
+   * Replace any device's settings (values adopted from the breaker) and save them
+   */
+  setDeviceSettings: (deviceId, settings) => {
+    set((state) => ({
+      settingsByDevice: { ...state.settingsByDevice, [deviceId]: settings },
+      ...(deviceId === state.activeDeviceId ? { settings } : {}),
+    }));
+
+    AsyncStorage.setItem(settingsKeyFor(deviceId), JSON.stringify(settings)).catch((error) =>
+      console.error('Failed to save settings:', error)
+    );
+  },
+
+  /**
+   * Forget a removed device's settings
+   */
+  removeDevice: (deviceId) => {
+    set((state) => {
+      const { [deviceId]: _removed, ...settingsByDevice } = state.settingsByDevice;
+      return { settingsByDevice };
+    });
+
+    AsyncStorage.removeItem(settingsKeyFor(deviceId));
   },
 }));
 
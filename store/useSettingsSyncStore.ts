@@ -0,0 +1,64 @@
+// Settings Sync Store - what each breaker last confirmed, and where it and this phone disagree
+//
+// The confirmed values and the fields edited on this phone are persisted, so an edit
+// made while a breaker was offline is still pushed, or flagged as a conflict, later.
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SettingsSyncState } from '../types';
+
+const EMPTY_SYNC: SettingsSyncState = {
+  base: {},
+  dirty: [],
+  conflicts: [],
+  status: 'idle',
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+interface SettingsSyncStore {
+  devices: Record<string, SettingsSyncState>;
+
+  // Actions
+  getSync: (deviceId: string) => SettingsSyncState;
+  patchSync: (deviceId: string, patch: Partial<SettingsSyncState>) => void;
+  removeDevice: (deviceId: string) => void;
+}
+
+export const useSettingsSyncStore = create<SettingsSyncStore>()(
+  persist(
+    (set, get) => ({
+      devices: {},
+
+      getSync: (deviceId) => get().devices[deviceId] ?? EMPTY_SYNC,
+
+      patchSync: (deviceId, patch) =>
+        set((state) => ({
+          devices: {
+            ...state.devices,
+            [deviceId]: { ...(state.devices[deviceId] ?? EMPTY_SYNC), ...patch },
+          },
+        })),
+
+      removeDevice: (deviceId) =>
+        set((state) => {
+          const { [deviceId]: _removed, ...devices } = state.devices;
+          return { devices };
+        }),
+    }),
+    {
+      name: 'smartcb-settings-sync',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Conflicts and status are recomputed on the next sync
+      partialize: (state) => ({
+        devices: Object.fromEntries(
+          Object.entries(state.devices).map(([deviceId, sync]) => [
+            deviceId,
+            { ...EMPTY_SYNC, base: sync.base, dirty: sync.dirty, lastSyncedAt: sync.lastSyncedAt },
+          ])
+        ),
+      }),
+    }
+  )
+);
@@ -0,0 +1,59 @@
+// Stream Store - the high-rate capture of each breaker, kept apart from normal history
+//
+// Not persisted: a capture is only kept beyond this session by saving it as a file.
+
+import { create } from 'zustand';
+import { StreamCapture, StreamSample, StreamStatus } from '../types';
+
+interface StreamStore {
+  captures: Record<string, StreamCapture>;
+
+  // Actions
+  begin: (capture: StreamCapture) => void;
+  append: (deviceId: string, samples: StreamSample[], rate: number, lostBatches: number) => void;
+  finish: (deviceId: string, status: StreamStatus, error?: string | null) => void;
+  clear: (deviceId: string) => void;
+}
+
+export const useStreamStore = create<StreamStore>()((set) => ({
+  captures: {},
+
+  begin: (capture) =>
+    set((state) => ({ captures: { ...state.captures, [capture.deviceId]: capture } })),
+
+  append: (deviceId, samples, rate, lostBatches) =>
+    set((state) => {
+      const capture = state.captures[deviceId];
+      if (!capture) return state;
+      return {
+        captures: {
+          ...state.captures,
+          [deviceId]: {
+            ...capture,
+            samples: [...capture.samples, ...samples],
+            rate,
+            lostBatches: capture.lostBatches + lostBatches,
+            status: 'streaming',
+          },
+        },
+      };
+    }),
+
+  finish: (deviceId, status, error = null) =>
+    set((state) => {
+      const capture = state.captures[deviceId];
+      if (!capture) return state;
+      return {
+        captures: {
+          ...state.captures,
+          [deviceId]: { ...capture, status, error, endedAt: Date.now() },
+        },
+      };
+    }),
+
+  clear: (deviceId) =>
+    set((state) => {
+      const { [deviceId]: _removed, ...captures } = state.captures;
+      return { captures };
+    }),
+}));
@@ -0,0 +1,33 @@
+// Helpers shared by the jest suites - outside __tests__ so jest does not collect them as tests
+
+const net = require('net');
+const { createSimulator } = require('../simulator');
+
+// The stores load from storage 100 ms after import - let that finish first
+export const storesLoaded = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 200));
+
+// Resolves once the check passes, polling every 20 ms
+export const waitFor = async (check: () => boolean, timeout = 4000) => {
+  const deadline = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+};
+
+// A port nothing listens on
+export const closedPort = (): Promise<number> =>
+  new Promise((resolve) => {
+    const server = net.createServer();
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+
+// A running simulator on free local ports whose clock only moves on sim.advance(); stop it with sim.stop()
+export const startSimulator = async (): Promise<any> => {
+  const sim = createSimulator({ host: '127.0.0.1', httpPort: 0, wsPort: 0, discoveryPort: null, manualClock: true });
+  await sim.start();
+  return sim;
+};
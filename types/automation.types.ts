@@ -0,0 +1,70 @@
+// Automation Types - user-defined "when X for Y seconds, then Z" rules
+
+import { ElectricalData } from './electrical.types';
+import { EventType } from './events.types';
+import { Thresholds } from './settings.types';
+
+// Numeric ElectricalData fields a rule can compare
+export type RuleMetric =
+  | 'voltage'
+  | 'current'
+  | 'power'
+  | 'energy'
+  | 'frequency'
+  | 'powerFactor'
+  | 'apparentPower'
+  | 'reactivePower'
+  | 'rssi';
+
+// On/off ElectricalData fields a rule can test
+export type RuleFlag = Extract<
+  keyof ElectricalData,
+  'relayState' | 'protectionTriggered' | 'manualMode' | 'powerOutage' | 'reconnectionPending'
+>;
+
+export type RuleComparator = 'above' | 'below';
+
+export type RuleCondition =
+  | { kind: 'reading'; metric: RuleMetric; comparator: RuleComparator; value: number }
+  | { kind: 'flag'; flag: RuleFlag; value: boolean }
+  | { kind: 'time'; from: string; to: string; days: number[] }   // "HH:MM", phone time; from > to spans midnight
+  | { kind: 'event'; eventType: EventType };                     // Matches at the moment the event is logged
+
+export type RuleAction =
+  | { kind: 'relay'; state: boolean }
+  | { kind: 'notify'; message: string }
+  | { kind: 'profile'; profileId: string };
+
+export interface AutomationRule {
+  id: string;
+  name: string;
+  deviceId: string;
+  enabled: boolean;
+  conditions: RuleCondition[];   // All must hold
+  holdSeconds: number;           // How long they must keep holding before the action runs
+  action: RuleAction;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A named set of thresholds a rule can switch a breaker to
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  thresholds: Thresholds;
+  createdAt: number;
+}
+
+export type RuleRunOutcome = 'done' | 'failed' | 'skipped';
+
+// One entry of the execution log
+export interface RuleRun {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  deviceId: string;
+  firedAt: number;
+  action: RuleAction;
+  outcome: RuleRunOutcome;
+  detail: string | null;
+}
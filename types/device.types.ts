@@ -0,0 +1,45 @@
+// Device Registry Types
+
+import { ElectricalData, ConnectionStatus, RelayCommand, ProtectionStatus } from './electrical.types';
+
+export interface Device {
+  id: string;
+  name: string;            // User-facing label (e.g. "Kitchen")
+  ip: string;
+  port: string;
+  wsPort?: string;         // WebSocket port reported by /api/info (defaults to 81)
+  hardwareId?: string;     // deviceId reported by /api/info
+  model?: string;
+  addedAt: number;         // Unix timestamp
+}
+
+// Live, non-persisted state of one breaker
+export interface DeviceRuntime {
+  data: ElectricalData | null;
+  connection: ConnectionStatus;
+  relayCommand?: RelayCommand | null;  // Latest relay command and where it is in its lifecycle
+  protection?: ProtectionStatus;       // Where automatic protection and reconnect stand
+}
+
+// How a breaker was found on the LAN ('reported' = address it gave during WiFi provisioning)
+export type DiscoveryMethod = 'mdns' | 'broadcast' | 'scan' | 'reported';
+
+export interface DiscoveredDevice {
+  ip: string;
+  port: string;
+  deviceName?: string;
+  model?: string;
+  firmwareVersion?: string;
+  hardwareId?: string;     // deviceId reported by /api/info
+  method: DiscoveryMethod;
+}
+
+// Stored on the phone after pairing - the secret signs every command to that breaker
+export interface DeviceCredentials {
+  clientId: string;
+  secret: string;          // Hex HMAC key from POST /api/pair
+  pairedAt: number;
+}
+
+// 'not_required' = firmware that accepts unsigned commands
+export type DeviceAuthState = 'not_required' | 'paired' | 'pairing_required' | 'signature_rejected';
@@ -1,5 +1,7 @@
 // Electrical Data Types
 
+import { ESP32ErrorKind } from './protocol.types';
+
 export interface ElectricalData {
   voltage: number;         // Volts (V)
   current: number;         // Amperes (A)
@@ -17,10 +19,58 @@ export interface ElectricalData {
   manualMode?: boolean;           // Was physical button pressed?
   powerOutage?: boolean;          // Is power supply interrupted?
   reconnectionPending?: boolean;  // Is auto-reconnect waiting?
+  rssi?: number;                  // dBm of the breaker's own WiFi link (firmware that reports it)
 }
 
+// How live readings are currently arriving
+export type TransportType = 'websocket' | 'polling' | 'none';
+
+// Why a connected breaker counts as degraded
+export type DegradedReason = 'latency' | 'failures' | 'stale' | 'weak_signal';
+
 export interface ConnectionStatus {
   isConnected: boolean;
   lastUpdate: number;
-  signalStrength: number; // 0-100
-}
\ No newline at end of file
+  signalStrength: number; // 0-100, from the breaker's RSSI when reported, otherwise from link quality
+  transport?: TransportType;
+  incompatibleFirmware?: boolean; // Firmware speaks a protocol version this app can't read
+  degraded?: boolean;             // Connected, but readings are slow, patchy or stale
+  degradedReasons?: DegradedReason[];
+  error?: ESP32ErrorKind;         // Why the last attempt to reach it failed, while disconnected
+}
+
+// Outcome of linking or reconnecting a breaker - 'incompatible' when it answers in a protocol we can't read
+export type ConnectResult =
+  | { ok: true; deviceId: string }
+  | { ok: false; reason: ESP32ErrorKind | 'incompatible' };
+// Relay command lifecycle - a command is confirmed only by a status frame showing its state
+export type RelayCommandStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface RelayCommand {
+  id: string;
+  deviceId: string;
+  targetState: boolean;    // Set-to-state: resending can never flip the relay back
+  status: RelayCommandStatus;
+  attempts: number;
+  issuedAt: number;
+  resolvedAt?: number;
+  error?: string;
+}
+
+// Protection lifecycle of one breaker - one controller owns every automatic reconnect
+export type ProtectionState = 'armed' | 'tripped' | 'waiting_for_stable' | 'reconnecting' | 'locked_out';
+
+export interface ProtectionStatus {
+  state: ProtectionState;
+  since: number;           // When the breaker entered this state
+  reason: string;          // Why it did
+  attempts: number;        // Automatic reconnects since the last one that held
+}
+
+export interface ProtectionTransition {
+  deviceId: string;
+  from: ProtectionState;
+  to: ProtectionState;
+  at: number;
+  reason: string;
+}
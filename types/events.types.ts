@@ -1,6 +1,7 @@
 // Event Types
 
 import { ElectricalData } from './electrical.types';
+import { TripCurveType } from './settings.types';
 
 export type EventType =
   | 'manual_on'
@@ -19,13 +20,50 @@ export type EventType =
   | 'frequency_max'
   | 'power_factor_min';
 
+// Violations and outages are episodes: logged open when they start, closed when they end
+export type MonitoredQuantity = 'voltage' | 'current' | 'frequency' | 'powerFactor';
+
+export interface EpisodeExtremes {
+  quantity: MonitoredQuantity;
+  peak: number;
+  peakAt: number;
+  min: number;
+  minAt: number;
+}
+
+// What an overcurrent trip saw when it cut the power
+export interface TripDetails {
+  curve: TripCurveType;
+  kind: 'thermal' | 'instant';
+  heat: number;       // Thermal accumulation, 1 = trip point
+  current: number;    // A
+  pickup: number;     // A (rated current)
+}
+
+// 'app' = detected from readings while connected, 'device' = from the breaker's own journal
+export type EventSource = 'app' | 'device';
+
 export interface Event {
   id: string;
   type: EventType;
   timestamp: number;
   description: string;
   readings?: ElectricalData;
-  duration?: number;      // milliseconds (for outages)
+  duration?: number;      // milliseconds, once an episode ended
+  endedAt?: number;       // When an episode ended
+  open?: boolean;         // Episodes only: true while it lasts, false once over (no endedAt = end not seen)
+  extremes?: EpisodeExtremes;
+  deviceId?: string;      // Registry device the event belongs to (missing = first device)
+  source?: EventSource;   // Missing = app
+  approximateTime?: boolean; // Logged before a reboot on a breaker without a set clock
+  trip?: TripDetails;     // Overcurrent cutoffs only
+}
+
+// How far the app has read a breaker's event journal
+export interface EventJournalCursor {
+  journalId: string;
+  seq: number;
+  syncedAt: number;
 }
 
 export interface EventStatistics {
@@ -0,0 +1,42 @@
+// Firmware Update Types
+
+// Published next to a firmware image; `url` may be relative to the manifest
+export interface FirmwareManifest {
+  version: string;           // e.g. "4.1.0"
+  url: string;
+  sha256: string;            // Hex digest of the image
+  size?: number;             // Bytes
+  model?: string;            // Must match /api/info model when both are present
+  notes?: string;
+  releasedAt?: string;       // ISO date
+}
+
+export interface FirmwareCheck {
+  manifest: FirmwareManifest;
+  imageUrl: string;          // Resolved against the manifest location
+  currentVersion: string | null;
+  updateAvailable: boolean;
+  modelMismatch: boolean;
+}
+
+export type FirmwareUpdateStage =
+  | 'downloading'
+  | 'verifying'
+  | 'uploading'
+  | 'rebooting'
+  | 'confirming'
+  | 'rolling_back';
+
+export type FirmwareUpdateFailure =
+  | 'not_connected'
+  | 'load_too_high'
+  | 'download_failed'
+  | 'checksum_mismatch'
+  | 'upload_failed'
+  | 'unreachable'             // Never came back; unconfirmed images roll back on their own
+  | 'rejected_image'          // Came back on the old version
+  | 'unhealthy';              // New version never produced a valid reading, rolled back
+
+export type FirmwareUpdateResult =
+  | { ok: true; version: string }
+  | { ok: false; reason: FirmwareUpdateFailure };
@@ -1,4 +1,12 @@
 // SmartCB Type Definitions
 export * from './electrical.types';
 export * from './settings.types';
-export * from './events.types';
\ No newline at end of file
+export * from './events.types';
+export * from './device.types';
+export * from './protocol.types';
+export * from './firmware.types';
+export * from './mqtt.types';
+export * from './outbox.types';
+export * from './stream.types';
+export * from './session.types';
+export * from './automation.types';
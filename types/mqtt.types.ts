@@ -0,0 +1,35 @@
+// MQTT Bridge Types
+
+export interface MqttConfig {
+  enabled: boolean;
+  url: string;              // Broker WebSocket listener, e.g. ws://192.168.1.10:9001
+  username?: string;
+  password?: string;
+  topicPrefix: string;      // Topics are <prefix>/<device>/...
+  allowCommands: boolean;   // Accept relay and settings commands from the broker
+  publishInterval: number;  // seconds between status publishes while nothing changes
+  homeAssistant: boolean;   // Publish Home Assistant discovery configs
+  discoveryPrefix: string;  // Home Assistant's discovery prefix
+}
+
+export type MqttConnectionState = 'disabled' | 'connecting' | 'connected' | 'error';
+
+// <prefix>/<device>/relay/set - also accepts the bare strings ON / OFF
+export interface MqttRelayCommandPayload {
+  state: boolean;
+  id?: string;    // Echoed in the result so the sender can match it
+  ts?: number;    // Epoch ms; older commands are refused instead of replayed
+}
+
+export type MqttCommandStatus = 'confirmed' | 'failed' | 'rejected';
+
+// <prefix>/<device>/relay/result and <prefix>/<device>/settings/result
+export interface MqttCommandResult {
+  id?: string;
+  status: MqttCommandStatus;
+  state?: boolean;           // Relay commands: the requested state
+  commandId?: string;        // Relay commands: RelayCommand.id on this phone
+  attempts?: number;
+  error?: string;
+  at: number;
+}
@@ -0,0 +1,19 @@
+// Outbox Types - device writes waiting for a breaker to acknowledge them
+
+import { SyncedSettingField } from './settings.types';
+
+export type OutboxKind = 'settings' | 'schedules' | 'time';
+
+// One pending write per breaker and kind; a newer write of the same kind is merged in.
+// The values themselves are read from the app's settings when the write is replayed.
+export interface OutboxEntry {
+  id: string;
+  deviceId: string;
+  kind: OutboxKind;
+  fields?: SyncedSettingField[];   // Settings writes: the fields it carries
+  createdAt: number;               // Replay order
+  updatedAt: number;               // Last merged
+  revision: number;                // Bumped by every merge - a replay in flight was superseded if it moved
+  attempts: number;
+  lastError: string | null;
+}
@@ -0,0 +1,252 @@
+// Device Protocol Type Definitions - payloads exchanged with the ESP32 firmware
+
+import { DegradedReason } from './electrical.types';
+
+export interface DeviceInfoPayload {
+  deviceName?: string;
+  deviceId?: string;
+  model?: string;
+  firmwareVersion?: string;
+  protocolVersion?: number;
+  wsPort?: number;          // Push stream port when not the default 81 (simulator, port-forwarded setups)
+  authRequired?: boolean;   // Firmware rejects unsigned commands from unpaired phones
+}
+
+export interface DeviceSettingsPayload {
+  maxCurrent: number;
+  maxVoltage: number;
+  minVoltage: number;
+  protectionEnabled: boolean;
+  maxFrequency?: number;
+  minFrequency?: number;
+  minPowerFactor?: number;
+  voltageProtection?: boolean;
+  frequencyProtection?: boolean;
+  powerFactorProtection?: boolean;
+  autoResetDelay?: number;
+  autoReconnectEnabled?: boolean;
+}
+
+export interface DeviceSchedulePayload {
+  id: number;
+  enabled: boolean;
+  onTime: string;   // "HH:MM"
+  offTime: string;  // "HH:MM"
+  days: number[];   // 0-6, Sunday first
+}
+
+export interface DeviceSchedulesPayload {
+  schedules: DeviceSchedulePayload[];
+}
+
+export interface DeviceTimePayload {
+  hour: number;
+  minute: number;
+  day: number;
+  second?: number;
+  epochMs?: number;          // Device clock as unix ms (firmware with full clock sync)
+  tz?: string;               // POSIX TZ rule the device applies
+  zone?: string;             // IANA name it was given, for display
+}
+
+// POST /api/time - legacy fields first so older firmware still sets hour/minute/day
+export interface DeviceTimeSync {
+  hour: number;
+  minute: number;
+  day: number;
+  second: number;
+  epochMs: number;
+  tz: string;
+  zone?: string;
+}
+
+export interface ClockDiagnostics {
+  driftMs: number | null;    // Device minus phone; null until measured
+  precision: 'ms' | 'minute'; // Legacy firmware only reports hour and minute
+  checkedAt: number | null;
+  syncedAt: number | null;
+  tz: string | null;         // What the device reports it is applying
+}
+
+// Measured link to one breaker over a rolling window
+export interface LinkQuality {
+  latencyMs: number | null;     // Median round trip of HTTP requests and socket pings
+  failureRate: number;          // Failed or timed-out requests, 0-1
+  requestCount: number;         // Requests in the window
+  lastFrameAt: number | null;   // Last valid status frame, either transport
+  rssi: number | null;          // dBm, as reported by the breaker
+  signalStrength: number;       // 0-100, what ConnectionStatus shows
+  degradedReasons: DegradedReason[];
+  updatedAt: number;
+}
+
+export interface LinkQualitySample {
+  at: number;
+  latencyMs: number | null;
+  failureRate: number;
+  frameAgeMs: number | null;
+  rssi: number | null;
+  degraded: boolean;
+}
+
+export interface CommandResultPayload {
+  success: boolean;
+  message?: string;
+}
+
+export interface DeviceEventPayload {
+  event: string;
+  message: string;
+  seq?: number;              // Journal sequence number (firmware with an event journal)
+  boot?: number;             // Boot counter when it happened
+  uptime?: number;           // millis() when it happened
+  time?: number;             // Device wall clock (unix ms), once the clock has been set
+  relayState?: boolean;      // Relay state after the event
+  reason?: string;           // Protection trip reason
+}
+
+// GET /api/events?since=<seq> - the breaker's own event journal (ring buffer in flash)
+export interface EventJournalEntryPayload extends DeviceEventPayload {
+  seq: number;
+  boot: number;
+  uptime: number;
+}
+
+export interface EventJournalPayload {
+  journalId: string;         // Changes when the journal is erased; older cursors are void
+  latestSeq: number;
+  oldestSeq: number;         // Entries before this were overwritten
+  boot: number;
+  uptime: number;
+  time?: number;
+  events: EventJournalEntryPayload[];
+}
+
+// Wi-Fi provisioning (breaker in access-point mode)
+export interface WifiNetworkPayload {
+  ssid: string;
+  rssi: number;      // dBm
+  secure?: boolean;
+}
+
+export interface WifiScanPayload {
+  networks: WifiNetworkPayload[];
+}
+
+export type WifiJoinState = 'idle' | 'connecting' | 'connected' | 'failed';
+export type WifiJoinFailure = 'wrong_password' | 'no_ssid' | 'timeout';
+
+export interface WifiStatusPayload {
+  state: WifiJoinState;
+  ssid?: string;
+  ip?: string;                // Station-mode address once connected
+  reason?: WifiJoinFailure;   // Set when state is 'failed'
+}
+
+// Issued by POST /api/pair while the breaker's pairing window is open
+export interface PairingPayload {
+  clientId: string;
+  secret: string;             // Hex-encoded HMAC key, shown to this phone exactly once
+}
+
+export interface PairedClientPayload {
+  clientId: string;
+  name?: string;
+  pairedAt?: number;          // Unix ms
+  lastSeen?: number;          // Unix ms of the last signed request
+}
+
+export interface PairedClientsPayload {
+  clients: PairedClientPayload[];
+}
+
+export type AuthErrorCode = 'pairing_required' | 'signature_rejected' | 'pairing_closed';
+export type SignatureRejectReason = 'bad_signature' | 'stale' | 'replay' | 'unknown_client';
+
+// 401/403 body (or WebSocket { type: 'error' }) when a command is refused
+export interface AuthErrorPayload {
+  error: AuthErrorCode;
+  reason?: SignatureRejectReason;
+  serverTime?: number;        // Device clock (Unix ms) so a skewed phone can correct itself
+}
+
+// GET /api/firmware - 'pending_verify' until the app confirms the new image is healthy
+export type FirmwareImageState = 'valid' | 'pending_verify';
+
+export interface FirmwareStatusPayload {
+  version: string;
+  state: FirmwareImageState;
+  previousVersion?: string;   // Image kept in the other OTA slot
+  canRollback?: boolean;
+}
+
+// WebSocket 'stream' - one batch of a high-rate capture started with the startStream command.
+// Each sample is [t, voltage, current, power], t in ms since the stream started.
+export type StreamSampleTuple = [number, number, number, number];
+
+export interface StreamBatchPayload {
+  streamId: string;
+  seq: number;                  // From 0; a gap means a batch was lost
+  rate: number;                 // Samples per second the breaker is producing
+  samples: StreamSampleTuple[];
+}
+
+export type StreamEndReason = 'complete' | 'stopped' | 'busy' | 'unsupported';
+
+// WebSocket 'streamEnd' - the breaker stopped streaming
+export interface StreamEndPayload {
+  streamId: string;
+  reason: StreamEndReason;
+  batches?: number;             // Batches sent, so batches lost at the tail are counted too
+}
+
+// 'legacy' - firmware without a protocolVersion: readings work, newer features may not
+export type ProtocolCompatibility = 'unknown' | 'compatible' | 'legacy' | 'incompatible';
+
+export interface ProtocolNegotiation {
+  deviceVersion: number | null;   // null when the firmware reports nothing usable
+  firmwareVersion?: string;
+  compatibility: ProtocolCompatibility;
+  negotiatedAt: number;
+}
+
+// Which request or message a rejected payload came from
+export type PayloadSource =
+  | 'status'
+  | 'settings'
+  | 'info'
+  | 'schedules'
+  | 'time'
+  | 'command'
+  | 'wifi'
+  | 'pairing'
+  | 'firmware'
+  | 'events'
+  | 'websocket';
+
+// Why a request to a breaker, or its WebSocket, failed (see services/esp32Errors)
+export type ESP32ErrorKind =
+  | 'timeout'       // No complete answer within the deadline
+  | 'unreachable'   // Refused, reset or dropped before an answer
+  | 'http'          // Answered with a non-2xx status
+  | 'auth'          // 401/403 - not paired, or the signature was refused
+  | 'malformed'     // Body is not JSON
+  | 'invalid'       // JSON that fails its schema
+  | 'rejected'      // A command the breaker answered with { success: false }
+  | 'closed';       // WebSocket closed by the breaker or the network
+
+export interface PayloadRejection {
+  source: PayloadSource;
+  errors: string[];
+  timestamp: number;
+}
+
+export interface ProtocolDiagnostics {
+  protocol: ProtocolNegotiation | null;
+  rejectedPayloads: number;
+  rejectionsBySource: Partial<Record<PayloadSource, number>>;
+  lastRejection: PayloadRejection | null;
+  clock: ClockDiagnostics | null;
+  link: LinkQuality | null;
+  linkHistory: LinkQualitySample[];   // Oldest first, a few minutes' worth
+}
@@ -0,0 +1,46 @@
+// Session Recording Types - raw device traffic saved to a file and played back later
+
+// 'connection' frames are the transport going up or down, as the app saw it
+export type RecordedFrameKind = 'status' | 'event' | 'connection';
+export type RecordedFrameSource = 'http' | 'websocket' | 'transport';
+
+export interface RecordedFrame {
+  at: number;                   // ms since the recording started
+  kind: RecordedFrameKind;
+  source: RecordedFrameSource;
+  payload: unknown;             // Exactly as received, before schema checks
+}
+
+export interface SessionRecording {
+  format: 'smartcb-session';
+  version: 1;
+  deviceId: string;
+  deviceName: string;
+  startedAt: number;
+  endedAt: number;
+  frames: RecordedFrame[];
+}
+
+export type ReplayStatus = 'idle' | 'playing' | 'finished' | 'stopped';
+
+// A relay command the app tried to send during a replay - held back, not sent
+export interface SuppressedRelayCommand {
+  at: number;                   // Position in the recording (ms)
+  state: boolean;
+}
+
+export interface ReplayState {
+  status: ReplayStatus;
+  deviceId: string | null;
+  file: string | null;
+  speed: number;
+  position: number;             // Frames played
+  total: number;
+  suppressed: SuppressedRelayCommand[];
+}
+
+export interface RecorderState {
+  deviceId: string;
+  startedAt: number;
+  frameCount: number;
+}
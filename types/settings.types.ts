@@ -1,18 +1,32 @@
 // Settings Types
 
+import { DeviceSettingsPayload } from './protocol.types';
+
 export type ThresholdAction = 'alert' | 'cutoff';
 
-export interface VoltageThreshold {
+// How event detection treats a quantity near its limits (missing = DETECTION_DEFAULTS)
+export interface DetectionBand {
+  hysteresis?: number;  // A violation ends only once the value is this far back inside its limit
+  debounce?: number;    // seconds a violation, or its end, must last before it counts
+}
+
+export interface VoltageThreshold extends DetectionBand {
   min: number;
   max: number;
   action: ThresholdAction;
 }
 
-export interface CurrentThreshold {
+// IEC 60898 B/C/D-style breaker curves, or a user-defined exponent and instant-trip multiple
+export type TripCurveType = 'B' | 'C' | 'D' | 'custom';
+
+export interface CurrentThreshold extends DetectionBand {
   min: number;
-  max: number;
+  max: number;             // Rated current - the curve's pickup
   enabled: boolean;
-  delay: number; // seconds
+  delay: number;           // Thermal trip time in seconds at 6x the rated current
+  curve?: TripCurveType;   // Missing = 'C'
+  curveExponent?: number;  // Custom curve only
+  instantMultiple?: number; // Custom curve only
 }
 
 export interface EnergyThreshold {
@@ -21,13 +35,13 @@ export interface EnergyThreshold {
   resetDaily: boolean; // Reset counter daily
 }
 
-export interface FrequencyThreshold {
+export interface FrequencyThreshold extends DetectionBand {
   min: number;        // Hz (typically 49.5)
   max: number;        // Hz (typically 50.5)
   enabled: boolean;
 }
 
-export interface PowerFactorThreshold {
+export interface PowerFactorThreshold extends DetectionBand {
   min: number;        // 0-1 (typically 0.85)
   enabled: boolean;
 }
@@ -92,6 +106,8 @@ export interface WiFiSettings {
 export interface DeviceSettings {
   name: string;
   firmwareVersion: string;
+  firmwareManifestUrl?: string;  // Where to look for updates (http(s):// or file://)
+  updateLoadLimit?: number;      // W - firmware updates are refused above this load
 }
 
 export interface Settings {
@@ -102,3 +118,27 @@ export interface Settings {
   wifi: WiFiSettings;
   device: DeviceSettings;
 }
+
+// Breaker-side settings sync
+
+// A firmware /api/settings field the app keeps in step with the breaker
+export type SyncedSettingField = keyof DeviceSettingsPayload;
+
+export type SettingsSyncStatus = 'idle' | 'syncing' | 'in_sync' | 'conflict' | 'error';
+
+// Both sides changed the same field since they last agreed
+export interface SettingsConflict {
+  field: SyncedSettingField;
+  local: number | boolean;
+  device: number | boolean;
+  base: number | boolean | null;   // Last value both sides agreed on, null before the first sync
+}
+
+export interface SettingsSyncState {
+  base: Partial<DeviceSettingsPayload>;   // Last device value confirmed for each field
+  dirty: SyncedSettingField[];            // Changed on this phone, not yet confirmed by the breaker
+  conflicts: SettingsConflict[];
+  status: SettingsSyncStatus;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
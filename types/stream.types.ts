@@ -0,0 +1,32 @@
+// Live Stream Types - high-rate captures for diagnosing motor inrush and relay chatter
+
+export interface StreamSample {
+  t: number;          // ms since the capture started
+  voltage: number;
+  current: number;
+  power: number;
+}
+
+export type StreamStatus = 'idle' | 'starting' | 'streaming' | 'complete' | 'stopped' | 'failed';
+
+export interface StreamCapture {
+  id: string;                 // streamId sent to the breaker
+  deviceId: string;
+  requestedRate: number;      // Samples per second asked for
+  rate: number;               // Samples per second the breaker reports
+  duration: number;           // seconds
+  startedAt: number;
+  endedAt: number | null;
+  samples: StreamSample[];
+  lostBatches: number;
+  status: StreamStatus;
+  error: string | null;
+}
+
+// A capture written to the app's documents folder
+export interface SavedCapture {
+  name: string;
+  uri: string;
+  size: number;
+  modifiedAt: number;
+}
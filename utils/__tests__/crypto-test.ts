@@ -0,0 +1,60 @@
+// SHA-256 and HMAC-SHA256 against published known-answer vectors (FIPS 180-2, RFC 4231)
+import { fromHex, hmacSha256Hex, sha256Hex, utf8Bytes } from '../crypto';
+
+const nodeCrypto = require('crypto');
+
+const repeated = (byte: number, length: number) => new Uint8Array(length).fill(byte);
+
+describe('sha256Hex', () => {
+  it.each([
+    ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+    ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+    // 56 bytes - the length padding spills into a second block
+    [
+      'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    ],
+  ])('hashes %j', (message, digest) => {
+    expect(sha256Hex(message)).toBe(digest);
+  });
+
+  it('hashes multi-block UTF-8 text the way Node does', () => {
+    const message = 'قاطع المطبخ - '.repeat(20);
+    expect(sha256Hex(message)).toBe(nodeCrypto.createHash('sha256').update(message, 'utf8').digest('hex'));
+  });
+});
+
+describe('hmacSha256Hex', () => {
+  // RFC 4231 test cases 1, 2, 6 and 7 - the others have messages that are not text
+  it.each([
+    ['case 1', repeated(0x0b, 20), 'Hi There', 'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'],
+    [
+      'case 2',
+      utf8Bytes('Jefe'),
+      'what do ya want for nothing?',
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843',
+    ],
+    [
+      'case 6, key longer than a block',
+      repeated(0xaa, 131),
+      'Test Using Larger Than Block-Size Key - Hash Key First',
+      '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54',
+    ],
+    [
+      'case 7, key and message longer than a block',
+      repeated(0xaa, 131),
+      'This is a test using a larger than block-size key and a larger than block-size data. ' +
+        'The key needs to be hashed before being used by the HMAC algorithm.',
+      '9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2',
+    ],
+  ])('matches RFC 4231 %s', (_name, key, message, mac) => {
+    expect(hmacSha256Hex(key, message)).toBe(mac);
+  });
+
+  it('keys with the pairing secret decoded from hex', () => {
+    const secret = 'a1'.repeat(32);
+    expect(hmacSha256Hex(fromHex(secret), 'POST\n/api/relay')).toBe(
+      nodeCrypto.createHmac('sha256', Buffer.from(secret, 'hex')).update('POST\n/api/relay').digest('hex')
+    );
+  });
+});
@@ -0,0 +1,63 @@
+// POSIX TZ rules derived from the phone's offsets, for zones with and without DST
+import { getPosixTimeZone } from '../timezone';
+
+const HOUR = 60 * 60 * 1000;
+
+// UTC instant of a month's nth Sunday (5 = last) at a UTC hour; a negative hour falls on the day before
+const sunday = (year: number, month: number, week: number, utcHour: number): number => {
+  if (week === 5) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    return Date.UTC(year, month, last.getUTCDate() - last.getUTCDay()) + utcHour * HOUR;
+  }
+  const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return Date.UTC(year, month, 1 + ((7 - first) % 7) + (week - 1) * 7) + utcHour * HOUR;
+};
+
+// Make the phone's clock run in a zone: minutes west of UTC, and when DST is in force
+const useZone = (standardWest: number, dst?: { west: number; from: (year: number) => number; to: (year: number) => number }) =>
+  jest.spyOn(Date.prototype, 'getTimezoneOffset').mockImplementation(function (this: Date) {
+    if (!dst) return standardWest;
+    const time = this.getTime();
+    const year = this.getUTCFullYear();
+    const from = dst.from(year);
+    const to = dst.to(year);
+    // Southern zones run DST across the new year
+    const inDst = from < to ? time >= from && time < to : time >= from || time < to;
+    return inDst ? dst.west : standardWest;
+  });
+
+describe('getPosixTimeZone', () => {
+  const june = new Date(Date.UTC(2026, 5, 15, 12));
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('describes a zone without DST as a fixed offset', () => {
+    useZone(-180);   // Riyadh, UTC+3
+    expect(getPosixTimeZone(june)).toBe('<+03>-3');
+  });
+
+  it('keeps the minutes of a half-hour offset', () => {
+    useZone(-330);   // Kolkata, UTC+5:30
+    expect(getPosixTimeZone(june)).toBe('<+0530>-5:30');
+  });
+
+  it('writes EU DST with its switches at 02:00 and 03:00 local time', () => {
+    // Berlin: last Sunday of March and October, both at 01:00 UTC
+    useZone(-60, { west: -120, from: (year) => sunday(year, 2, 5, 1), to: (year) => sunday(year, 9, 5, 1) });
+    expect(getPosixTimeZone(june)).toBe('<+01>-1<+02>,M3.5.0,M10.5.0/3');
+  });
+
+  it('writes US DST on the second and first Sundays', () => {
+    // New York: second Sunday of March 02:00 EST, first Sunday of November 02:00 EDT
+    useZone(300, { west: 240, from: (year) => sunday(year, 2, 2, 7), to: (year) => sunday(year, 10, 1, 6) });
+    expect(getPosixTimeZone(june)).toBe('<-05>5<-04>,M3.2.0,M11.1.0');
+  });
+
+  it('starts a southern zone\'s DST in October', () => {
+    // Sydney: first Sunday of October 02:00 AEST, first Sunday of April 03:00 AEDT
+    useZone(-600, { west: -660, from: (year) => sunday(year, 9, 1, -8), to: (year) => sunday(year, 3, 1, -8) });
+    expect(getPosixTimeZone(june)).toBe('<+10>-10<+11>,M10.1.0,M4.1.0/3');
+  });
+});
@@ -0,0 +1,66 @@
+// Automation Text - how rules, conditions and actions read in the app's language
+
+import { TFunction } from 'i18next';
+import { AutomationRule, EventType, RuleAction, RuleCondition, RuleMetric, SettingsProfile } from '../types';
+
+export const DAY_KEYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const METRIC_UNITS: Record<RuleMetric, string> = {
+  voltage: 'V',
+  current: 'A',
+  power: 'W',
+  energy: 'kWh',
+  frequency: 'Hz',
+  powerFactor: '',
+  apparentPower: 'VA',
+  reactivePower: 'VAR',
+  rssi: 'dBm',
+};
+
+// "power_factor_min" → "powerFactorMin", the events list's translation keys
+export const eventTypeLabel = (type: EventType, t: TFunction) =>
+  t(`events.eventsList.types.${type.replace(/_(\w)/g, (_match, letter: string) => letter.toUpperCase())}`);
+
+export const describeCondition = (condition: RuleCondition, t: TFunction): string => {
+  switch (condition.kind) {
+    case 'reading':
+      return t('automation.conditions.reading', {
+        metric: t(`automation.metrics.${condition.metric}`),
+        comparator: t(`automation.comparators.${condition.comparator}`),
+        value: condition.value,
+        unit: METRIC_UNITS[condition.metric],
+      }).trim();
+    case 'flag':
+      return t('automation.conditions.flag', {
+        flag: t(`automation.flags.${condition.flag}`),
+        value: condition.value ? t('common.on') : t('common.off'),
+      });
+    case 'time':
+      return t('automation.conditions.time', {
+        from: condition.from,
+        to: condition.to,
+        days: [...condition.days].sort().map((day) => t(`settings.schedule.daysOfWeek.${DAY_KEYS[day]}`)).join(', '),
+      });
+    case 'event':
+      return t('automation.conditions.event', { event: eventTypeLabel(condition.eventType, t) });
+  }
+};
+
+export const describeAction = (action: RuleAction, profiles: SettingsProfile[], t: TFunction): string => {
+  switch (action.kind) {
+    case 'relay':
+      return action.state ? t('automation.actions.relayOn') : t('automation.actions.relayOff');
+    case 'notify':
+      return t('automation.actions.notify', { message: action.message });
+    case 'profile': {
+      const profile = profiles.find((candidate) => candidate.id === action.profileId);
+      return profile ? t('automation.actions.profile', { name: profile.name }) : t('automation.actions.profileMissing');
+    }
+  }
+};
+
+export const describeRule = (rule: AutomationRule, profiles: SettingsProfile[], t: TFunction): string => {
+  const when = rule.conditions.map((condition) => describeCondition(condition, t)).join(t('automation.and'));
+  const hold = rule.holdSeconds > 0 ? ` ${t('automation.holdFor', { seconds: rule.holdSeconds })}` : '';
+  return `${when}${hold} → ${describeAction(rule.action, profiles, t)}`;
+};
@@ -15,6 +15,9 @@ export const CURRENT_CRITICAL_MAX = 16;
 export const DATA_UPDATE_INTERVAL = 2000; // 2 seconds
 export const ENERGY_INCREMENT_INTERVAL = 60000; // 1 minute
 
+// Firmware updates reboot the breaker; refuse while it carries more than this (W)
+export const FIRMWARE_UPDATE_MAX_LOAD = 100;
+
 // Connection timeout
 export const CONNECTION_TIMEOUT = 10000; // 10 seconds
 
@@ -27,4 +30,7 @@ export const MIN_TOUCH_TARGET = 48;
 // Animation durations (milliseconds)
 export const ANIMATION_DURATION_SHORT = 200;
 export const ANIMATION_DURATION_MEDIUM = 300;
-export const ANIMATION_DURATION_LONG = 500;
\ No newline at end of file
+export const ANIMATION_DURATION_LONG = 500;
+// Device registry
+// ID of the first breaker ever linked - keeps pre-registry storage keys valid
+export const DEFAULT_DEVICE_ID = 'default';
@@ -0,0 +1,19 @@
+// Event Detection - hysteresis and debounce for the limits events are detected against
+
+import { DetectionBand, MonitoredQuantity, Thresholds } from '../types';
+
+export const DETECTION_DEFAULTS: Record<MonitoredQuantity, Required<DetectionBand>> = {
+  voltage: { hysteresis: 3, debounce: 2 },        // V
+  current: { hysteresis: 0.5, debounce: 2 },      // A
+  frequency: { hysteresis: 0.1, debounce: 2 },    // Hz
+  powerFactor: { hysteresis: 0.03, debounce: 5 },
+};
+
+// A quantity's band with the defaults filled in
+export const getDetectionBand = (thresholds: Thresholds, quantity: MonitoredQuantity): Required<DetectionBand> => {
+  const threshold = thresholds[quantity];
+  return {
+    hysteresis: Math.max(0, threshold.hysteresis ?? DETECTION_DEFAULTS[quantity].hysteresis),
+    debounce: Math.max(0, threshold.debounce ?? DETECTION_DEFAULTS[quantity].debounce),
+  };
+};
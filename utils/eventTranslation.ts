@@ -2,8 +2,35 @@
 // Translates event descriptions dynamically based on the current language
 
 import { TFunction } from 'i18next';
-import { Event } from '../types';
+import { EpisodeExtremes, Event, MonitoredQuantity, TripDetails } from '../types';
 import { useSettingsStore } from '../store/useSettingsStore';
+import { getEventDuration } from '../store/useEventsStore';
+import {
+  formatVoltage,
+  formatCurrent,
+  formatFrequency,
+  formatPowerFactor,
+  formatTime,
+  formatDuration,
+  formatDurationShort,
+} from './formatters';
+
+const EXTREME_FORMATTERS: Record<MonitoredQuantity, (value: number) => string> = {
+  voltage: formatVoltage,
+  current: formatCurrent,
+  frequency: formatFrequency,
+  powerFactor: formatPowerFactor,
+};
+
+const READING_TYPES = new Set<Event['type']>([
+  'overvoltage',
+  'undervoltage',
+  'overload',
+  'underload',
+  'frequency_max',
+  'frequency_min',
+  'power_factor_min',
+]);
 
 /**
  * Translates an event description based on its type and readings
@@ -15,6 +42,11 @@ export function translateEventDescription(event: Event, t: TFunction): string {
   // Get settings for threshold values
   const settings = useSettingsStore.getState().settings;
 
+  // Breaker journal entries carry no readings - its own message says what happened
+  if (event.source === 'device' && !event.readings && READING_TYPES.has(event.type)) {
+    return event.description;
+  }
+
   switch (event.type) {
     case 'manual_on':
     case 'manual_off':
@@ -43,8 +75,12 @@ export function translateEventDescription(event: Event, t: TFunction): string {
         current: event.readings?.current.toFixed(3) || '0',
       });
 
-    case 'outage':
-      return t('events.eventsList.descriptions.outage');
+    case 'outage': {
+      const duration = event.open ? undefined : getEventDuration(event);
+      return duration !== undefined
+        ? t('events.eventsList.descriptions.outageLasted', { duration: formatDuration(duration) })
+        : t('events.eventsList.descriptions.outage');
+    }
 
     case 'restore':
       return t('events.eventsList.descriptions.restore');
@@ -72,3 +108,44 @@ export function translateEventDescription(event: Event, t: TFunction): string {
       return event.description;
   }
 }
+
+/**
+ * Describes what an overcurrent trip saw: the curve, the heat it built up and the current
+ */
+export function describeTrip(trip: TripDetails, t: TFunction): string {
+  return t(`events.eventsList.trip.${trip.kind}`, {
+    curve: trip.curve === 'custom' ? t('settings.thresholds.current.custom') : trip.curve,
+    heat: Math.round(trip.heat * 100),
+    multiple: (trip.pickup > 0 ? trip.current / trip.pickup : 0).toFixed(1),
+    current: trip.current.toFixed(2),
+  });
+}
+
+/**
+ * How long an episode lasted - or has lasted so far, or that its end went unseen
+ */
+export function describeEpisodeDuration(event: Event, t: TFunction): string {
+  const duration = getEventDuration(event);
+  if (event.open) {
+    return t('events.eventsList.episode.ongoing', { duration: formatDurationShort(duration ?? 0) });
+  }
+  if (duration === undefined) {
+    return t('events.eventsList.episode.endUnknown');
+  }
+  return event.endedAt !== undefined
+    ? t('events.eventsList.episode.lasted', { duration: formatDurationShort(duration), end: formatTime(event.endedAt) })
+    : formatDurationShort(duration);
+}
+
+/**
+ * The highest and lowest value an episode reached, and when
+ */
+export function describeExtremes(extremes: EpisodeExtremes, t: TFunction): string {
+  const format = EXTREME_FORMATTERS[extremes.quantity];
+  return t('events.eventsList.episode.extremes', {
+    peak: format(extremes.peak),
+    peakAt: formatTime(extremes.peakAt),
+    min: format(extremes.min),
+    minAt: formatTime(extremes.minAt),
+  });
+}
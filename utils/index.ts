@@ -2,4 +2,6 @@
 export * from './mockData';
 export * from './formatters';
 export * from './constants';
-export * from './eventTranslation';
\ No newline at end of file
+export * from './eventTranslation';
+export * from './automationText';
+export * from './detection';
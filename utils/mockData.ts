@@ -109,7 +109,7 @@ export const generateDefaultSettings = (): Settings => {
         min: 0.5,
         max: 16,
         enabled: true,
-        delay: 2,
+        delay: 5,
       },
       energy: {
         max: 100,  // 100 kWh monthly limit
@@ -0,0 +1,100 @@
+// Time Zone Utilities - describe the phone's local zone as a POSIX TZ rule for the ESP32
+//
+// newlib on the ESP32 has no zone database; it needs a rule like
+// "<+01>-1<+02>,M3.5.0,M10.5.0/3" (Berlin). The rule is derived from the phone's own offsets,
+// so it is as right as the phone's clock is for this year's transitions.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// IANA name ("Europe/Berlin") when the JS engine exposes it
+export const getTimeZoneName = (): string | undefined => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Minutes west of UTC, the POSIX sign convention
+const offsetAt = (time: number) => new Date(time).getTimezoneOffset();
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// "<+03>" / "<-0330>" - quoted names so we never have to invent an abbreviation
+const zoneName = (offsetWest: number) => {
+  const east = -offsetWest;
+  const sign = east >= 0 ? '+' : '-';
+  const hours = Math.floor(Math.abs(east) / 60);
+  const minutes = Math.abs(east) % 60;
+  return `<${sign}${pad(hours)}${minutes ? pad(minutes) : ''}>`;
+};
+
+// POSIX offset: "-3", "5", "-5:30"
+const posixOffset = (offsetWest: number) => {
+  const sign = offsetWest < 0 ? '-' : '';
+  const hours = Math.floor(Math.abs(offsetWest) / 60);
+  const minutes = Math.abs(offsetWest) % 60;
+  return `${sign}${hours}${minutes ? `:${pad(minutes)}` : ''}`;
+};
+
+// Instant where the offset changes between start and end, to the minute
+const findTransition = (start: number, end: number): number => {
+  const before = offsetAt(start);
+  let low = start;
+  let high = end;
+  while (high - low > MINUTE) {
+    const mid = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+    if (offsetAt(mid) === before) low = mid;
+    else high = mid;
+  }
+  return high;
+};
+
+// "M3.5.5/0": month, week of month (5 = last), weekday, local time the switch happens
+const transitionRule = (instant: number, offsetBefore: number): string => {
+  // Wall-clock time just before the switch, read as UTC fields
+  const local = new Date(instant - offsetBefore * MINUTE);
+  const dayOfMonth = local.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+  const week = dayOfMonth + 7 > daysInMonth ? 5 : Math.ceil(dayOfMonth / 7);
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+  const time = minutes % 60 === 0 ? `${minutes / 60}` : `${Math.floor(minutes / 60)}:${pad(minutes % 60)}`;
+
+  return `M${local.getUTCMonth() + 1}.${week}.${local.getUTCDay()}${time === '2' ? '' : `/${time}`}`;
+};
+
+export const getPosixTimeZone = (now: Date = new Date()): string => {
+  const year = now.getFullYear();
+  const yearStart = new Date(year, 0, 1).getTime();
+  const yearEnd = new Date(year + 1, 0, 1).getTime();
+
+  // Walk the year a week at a time looking for offset changes
+  const transitions: Array<{ instant: number; before: number; after: number }> = [];
+  for (let time = yearStart; time < yearEnd; time += 7 * DAY) {
+    const next = Math.min(time + 7 * DAY, yearEnd);
+    if (offsetAt(time) !== offsetAt(next)) {
+      const instant = findTransition(time, next);
+      transitions.push({ instant, before: offsetAt(instant - MINUTE), after: offsetAt(instant) });
+    }
+  }
+
+  if (transitions.length !== 2) {
+    // No DST (or a one-off change this year) - a fixed offset is all the rule can say
+    const offset = offsetAt(now.getTime());
+    return `${zoneName(offset)}${posixOffset(offset)}`;
+  }
+
+  // DST is the offset further east, i.e. the smaller minutes-west value
+  const [first, second] = transitions;
+  const toDst = first.after < first.before ? first : second;
+  const toStd = toDst === first ? second : first;
+  const std = toDst.before;
+  const dst = toDst.after;
+
+  const dstOffset = std - dst === 60 ? '' : posixOffset(dst);
+  return (
+    `${zoneName(std)}${posixOffset(std)}${zoneName(dst)}${dstOffset}` +
+    `,${transitionRule(toDst.instant, std)},${transitionRule(toStd.instant, dst)}`
+  );
+};